@@ -0,0 +1,112 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node'
+import admin from 'firebase-admin'
+import { fetchHistoricalStockPrices, fetchHistoricalStockPriceSeries } from '../../lib/yahooFinance.js'
+
+let _adminInitialized = false
+function initializeAdmin(): void {
+  if (_adminInitialized || admin.apps.length > 0) { _adminInitialized = true; return }
+  try {
+    const sa = process.env.FIREBASE_SERVICE_ACCOUNT
+    if (sa) { admin.initializeApp({ credential: admin.credential.cert(JSON.parse(sa)) }) }
+    else { admin.initializeApp() }
+    _adminInitialized = true
+  } catch (e) {
+    if (e instanceof Error && e.message.includes('already exists')) { _adminInitialized = true; return }
+    throw e
+  }
+}
+
+async function verifyAuth(req: VercelRequest, res: VercelResponse): Promise<string | null> {
+  const h = req.headers.authorization
+  if (!h?.startsWith('Bearer ')) { res.status(401).json({ error: 'Missing or invalid Authorization header.' }); return null }
+  try { return (await admin.auth().verifyIdToken(h.slice(7))).uid }
+  catch { res.status(401).json({ error: 'Invalid or expired authentication token.' }); return null }
+}
+
+export const config = { maxDuration: 30 }
+
+/** Most symbols per request (one Yahoo request each) */
+const MAX_SYMBOLS = 100
+/** Longest `from`..`date` range of a series request */
+const MAX_SERIES_DAYS = 10 * 366
+const DAY_MS = 24 * 60 * 60 * 1000
+
+function normalizeSymbolKey(raw: string): string {
+  return raw.trim().toUpperCase().replace(/\s+/g, ' ')
+}
+
+function isDateKey(value: unknown): value is string {
+  return typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(Date.parse(value))
+}
+
+/**
+ * Daily closes of stocks/ETFs/commodities on a past day (Yahoo Finance proxy).
+ * Body: { symbols: string[], date: 'YYYY-MM-DD', from?: 'YYYY-MM-DD' }
+ * With `from`, returns `series` (symbol -> day -> close) for the days from `from` to `date` instead of `prices`.
+ * At most MAX_SYMBOLS symbols and MAX_SERIES_DAYS days per request (400 otherwise).
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed. Use POST.' })
+  }
+
+  try {
+    initializeAdmin()
+
+    const uid = await verifyAuth(req, res)
+    if (!uid) return
+
+    const { symbols, date, from } = req.body as { symbols?: string[]; date?: string; from?: string }
+
+    if (!symbols || !Array.isArray(symbols) || symbols.length === 0) {
+      return res.status(400).json({ error: 'Symbols array is required' })
+    }
+    if (!symbols.every(s => typeof s === 'string' && s.length > 0)) {
+      return res.status(400).json({ error: 'All symbols must be non-empty strings' })
+    }
+    if (!isDateKey(date)) {
+      return res.status(400).json({ error: 'Date must be in YYYY-MM-DD format' })
+    }
+    if (from !== undefined && (!isDateKey(from) || from > date)) {
+      return res.status(400).json({ error: 'From must be in YYYY-MM-DD format and not after date' })
+    }
+    if (from !== undefined && (Date.parse(date) - Date.parse(from)) / DAY_MS + 1 > MAX_SERIES_DAYS) {
+      return res.status(400).json({ error: `The range from from to date is limited to ${MAX_SERIES_DAYS} days` })
+    }
+
+    const symbolKeys = [...new Set(symbols.map(normalizeSymbolKey))]
+    if (symbolKeys.length > MAX_SYMBOLS) {
+      return res.status(400).json({ error: `At most ${MAX_SYMBOLS} symbols per request` })
+    }
+
+    if (from !== undefined) {
+      const series = await fetchHistoricalStockPriceSeries(symbolKeys, from, date)
+      const missing = symbolKeys.filter(k => !series[k])
+      return res.status(200).json({
+        success: true,
+        from,
+        date,
+        series,
+        missing: missing.length > 0 ? missing : undefined,
+        source: 'yahoo',
+      })
+    }
+
+    const prices = await fetchHistoricalStockPrices(symbolKeys, date)
+    const missing = symbolKeys.filter(k => !prices[k])
+
+    return res.status(200).json({
+      success: true,
+      date,
+      prices,
+      missing: missing.length > 0 ? missing : undefined,
+      source: 'yahoo',
+    })
+  } catch (error) {
+    console.error('[HistoricalPrices] Error:', error)
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    })
+  }
+}
@@ -6,6 +6,8 @@ import { fetchCryptoData } from '../../lib/cryptoCompare.js'
 import { fetchHyperliquidAccountEquity } from '../../lib/hyperliquidApi.js'
 import { fetchMexcAccountEquityUsd } from '../../lib/mexcApi.js'
 import { fetchStockPrices } from '../../lib/yahooFinance.js'
+import { BUILTIN_CRYPTO_SYMBOL_ALIASES, buildSymbolAliasMap } from '../../lib/corporateActions.js'
+import { toSnapshotItems, type SnapshotItems } from '../../lib/snapshotItems.js'
 
 export const config = {
   maxDuration: 60,
@@ -43,6 +45,9 @@ interface NetWorthSnapshot {
   timestamp: number
   categories: Record<string, number>
   total: number
+  grossAssets?: number
+  totalLiabilities?: number
+  items?: SnapshotItems
 }
 
 type ApiKeys = {
@@ -67,6 +72,9 @@ const SNAPSHOT_CATEGORIES: NetWorthCategory[] = [
   'Perpetuals',
   'Real Estate',
   'Depreciating Assets',
+  'Mortgage',
+  'Loan',
+  'Credit Card',
 ]
 
 async function fetchExchangeRatesChf(): Promise<ExchangeRates> {
@@ -129,6 +137,8 @@ function summaryToSnapshot(summary: NetWorthSummary): NetWorthSnapshot {
     timestamp: 0,
     categories,
     total: typeof summary.totalNetWorth === 'number' && Number.isFinite(summary.totalNetWorth) ? summary.totalNetWorth : 0,
+    grossAssets: typeof summary.grossAssets === 'number' && Number.isFinite(summary.grossAssets) ? summary.grossAssets : 0,
+    totalLiabilities: typeof summary.totalLiabilities === 'number' && Number.isFinite(summary.totalLiabilities) ? summary.totalLiabilities : 0,
   }
 }
 
@@ -159,6 +169,8 @@ async function createSnapshotForUser(
 
   const settingsSnap = await db.collection('users').doc(uid).collection('settings').doc('user').get()
   const apiKeys = (settingsSnap.data()?.apiKeys || {}) as ApiKeys
+  // Per-item values unless turned off (settings.snapshotItems)
+  const includeItems = settingsSnap.data()?.snapshotItems !== false
 
   const [itemsSnap, txSnap] = await Promise.all([
     db.collection(`users/${uid}/netWorthItems`).get(),
@@ -172,22 +184,27 @@ async function createSnapshotForUser(
   const exchangeRates = await fetchExchangeRatesChf()
   const convert = makeConvertToChf(exchangeRates)
 
-  const cryptoTickers = itemsWithoutPerpetuals
+  const cryptoItems = itemsWithoutPerpetuals
     .filter(i => (i as any)?.category === 'Crypto' && typeof (i as any)?.name === 'string')
+  const cryptoTickers = cryptoItems
     .map(i => String((i as any).name).trim().toUpperCase())
     .filter(Boolean)
   const uniqueCryptoTickers = [...new Set(cryptoTickers)]
 
-  const stockTickers = itemsWithoutPerpetuals
+  const stockItems = itemsWithoutPerpetuals
     .filter(i => {
       const c = (i as any)?.category
       return c === 'Index Funds' || c === 'Stocks' || c === 'Commodities'
     })
+  const stockTickers = stockItems
     .map(i => String((i as any).name || '').trim().toUpperCase())
     .filter(Boolean)
   const uniqueStockTickers = [...new Set(stockTickers)]
 
-  const { prices: cryptoPrices, usdToChfRate } = await fetchCryptoData(uniqueCryptoTickers).catch(() => ({
+  const { prices: cryptoPrices, usdToChfRate } = await fetchCryptoData(
+    uniqueCryptoTickers,
+    buildSymbolAliasMap(cryptoItems, BUILTIN_CRYPTO_SYMBOL_ALIASES)
+  ).catch(() => ({
     prices: {} as Record<string, number>,
     usdToChfRate: null as number | null,
   }))
@@ -198,7 +215,7 @@ async function createSnapshotForUser(
   const effectiveUsdToChf = (usdToChfRate && usdToChfRate > 0) ? usdToChfRate : fallbackUsdToChf
 
   const stockPrices = uniqueStockTickers.length > 0
-    ? await fetchStockPrices(uniqueStockTickers).catch(() => ({}))
+    ? await fetchStockPrices(uniqueStockTickers, buildSymbolAliasMap(stockItems)).catch(() => ({}))
     : {}
 
   const perpItems: NetWorthItem[] = []
@@ -258,6 +275,8 @@ async function createSnapshotForUser(
     asOf: new Date().toISOString(),
     baseCurrency: 'CHF',
     totalNetWorth: result.totalNetWorthChf,
+    grossAssets: result.grossAssetsChf,
+    totalLiabilities: result.totalLiabilitiesChf,
     categories: SNAPSHOT_CATEGORIES.map((k) => ({
       categoryKey: k as any,
       categoryName: k,
@@ -269,6 +288,9 @@ async function createSnapshotForUser(
   const snapshot = summaryToSnapshot(summary)
   snapshot.date = date
   snapshot.timestamp = timestamp
+  if (includeItems) {
+    snapshot.items = toSnapshotItems(result.itemValues)
+  }
 
   const snapshotRef = db.collection(`users/${uid}/snapshots`).doc(snapshot.date)
   await snapshotRef.set(snapshot)
@@ -31,6 +31,17 @@ test.describe('Net Worth page', () => {
     await expect(totalHeading.or(categorySection)).toBeVisible()
   })
 
+  test('Spec: Liabilities section is shown separately from assets', async ({ page }) => {
+    const netWorthHeading = page.getByRole('heading', { name: /Net Worth/i, level: 1 })
+    const isOnNetWorth = await netWorthHeading.isVisible().catch(() => false)
+    if (!isOnNetWorth) {
+      test.skip(true, 'Not on Net Worth page (likely not authenticated)')
+      return
+    }
+    await expect(page.getByRole('heading', { name: 'Liabilities', level: 2 })).toBeVisible()
+    await expect(page.getByRole('heading', { name: 'Mortgage', level: 2 })).toBeVisible()
+  })
+
   test('PRD: Net Worth page does not crash when price data missing (structure only)', async ({ page }) => {
     const netWorthHeading = page.getByRole('heading', { name: /Net Worth/i, level: 1 })
     const isOnNetWorth = await netWorthHeading.isVisible().catch(() => false)
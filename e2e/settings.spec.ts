@@ -52,4 +52,26 @@ test.describe('Settings page', () => {
     const hasExportImport = await page.getByText(/Export|Import|Backup|Data/i).first().isVisible().catch(() => false)
     expect(hasSnapshot || hasExportImport).toBe(true)
   })
+
+  test('Spec: When on Settings page, cost basis method can be selected', async ({ page }) => {
+    const settingsHeading = page.getByRole('heading', { name: /Settings/i })
+    const isOnSettings = await settingsHeading.isVisible().catch(() => false)
+    if (!isOnSettings) {
+      test.skip(true, 'Not on Settings page (likely not authenticated)')
+      return
+    }
+    const select = page.getByLabel('Cost Basis Method')
+    await expect(select).toBeVisible()
+    await expect(select.locator('option')).toHaveCount(3)
+  })
+
+  test('Spec: When on Settings page, income summary section is present', async ({ page }) => {
+    const settingsHeading = page.getByRole('heading', { name: /Settings/i })
+    const isOnSettings = await settingsHeading.isVisible().catch(() => false)
+    if (!isOnSettings) {
+      test.skip(true, 'Not on Settings page (likely not authenticated)')
+      return
+    }
+    await expect(page.getByRole('heading', { name: 'Income Summary' })).toBeVisible()
+  })
 })
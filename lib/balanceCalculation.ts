@@ -1,20 +1,28 @@
 import type { CurrencyCode, NetWorthItem, NetWorthTransaction } from './types.js'
+import { getAccumulatedAmortization, isValidLoanSchedule } from './loanAmortization.js'
+import { applyCorporateActions, type CorporateActionItem } from './corporateActions.js'
+import { getTransferNetworkFee } from './transfers.js'
 
 /**
  * Calculate balance in CHF for a net worth item based on transactions.
  * NOTE: For Crypto items with current prices, this returns USD value (not CHF)
  * Callers must convert USD to CHF using the convert function
  * For Crypto items without current prices, falls back to transaction-based calculation (returns CHF)
+ * Splits recorded on the item rescale earlier transactions (see applyCorporateActions)
+ * Depreciation and scheduled loan amortization are accumulated up to `asOf` (callers valuing a
+ * past date must also pass only the transactions up to that date)
  */
 export function calculateBalanceChf(
   itemId: string,
   transactions: NetWorthTransaction[],
   item?: NetWorthItem,
   currentCryptoPrices?: Record<string, number>,
-  convert?: (amount: number, from: CurrencyCode) => number
+  convert?: (amount: number, from: CurrencyCode) => number,
+  asOf: Date = new Date()
 ): number {
   if (!transactions) transactions = []
   if (!itemId) return 0
+  if (item) transactions = applyCorporateActions(item, transactions)
 
   // For Crypto items, use current price * coin amount
   if (item?.category === 'Crypto' && currentCryptoPrices && item.name) {
@@ -71,16 +79,8 @@ export function calculateBalanceChf(
         return sum + tx.amount * 1
       }
 
-      // Handle BUY/SELL transactions
-      let txValue: number
-      if (tx.cryptoType === 'BUY') {
-        txValue = tx.amount
-      } else if (tx.cryptoType === 'SELL') {
-        txValue = -tx.amount
-      } else {
-        // Legacy: use side field
-        txValue = tx.amount * (tx.side === 'buy' ? 1 : -1)
-      }
+      // Handle BUY/SELL, income and fee transactions (legacy: side field)
+      const txValue = getTransactionQuantityDelta(tx)
 
       // For all categories, use pricePerItem and currency if available
       if (tx.pricePerItem !== undefined && tx.currency && convert) {
@@ -99,10 +99,9 @@ export function calculateBalanceChf(
 
     if (buyTransactions.length > 0) {
       const firstBuyDate = new Date(buyTransactions[0].date)
-      const now = new Date()
 
       // Calculate number of full months since purchase
-      const monthsDiff = (now.getFullYear() - firstBuyDate.getFullYear()) * 12 + (now.getMonth() - firstBuyDate.getMonth())
+      const monthsDiff = (asOf.getFullYear() - firstBuyDate.getFullYear()) * 12 + (asOf.getMonth() - firstBuyDate.getMonth())
 
       // Only apply depreciation if at least one month has passed
       if (monthsDiff > 0) {
@@ -114,6 +113,15 @@ export function calculateBalanceChf(
     return baseBalance
   }
 
+  // For liabilities with an amortization schedule, reduce the outstanding balance by the
+  // direct amortization paid since the schedule start (same approach as depreciation)
+  if (item?.loanSchedule && isValidLoanSchedule(item.loanSchedule)) {
+    const baseBalance = calculateBalanceChf(itemId, transactions, undefined, undefined, convert)
+    const amortized = getAccumulatedAmortization(item.loanSchedule, asOf)
+    const amortizedChf = convert && item.currency ? convert(amortized, item.currency as CurrencyCode) : amortized
+    return Math.max(0, baseBalance - amortizedChf) // Don't go below 0
+  }
+
   // For non-Crypto items or Crypto without current prices, use transaction-based calculation
   // Returns CHF (converts from original currency if available)
   return transactions
@@ -141,15 +149,8 @@ export function calculateBalanceChf(
         return sum + tx.amount * 1
       }
 
-      // Handle BUY/SELL transactions
-      let txValue: number
-      if (tx.cryptoType === 'BUY') {
-        txValue = tx.amount
-      } else if (tx.cryptoType === 'SELL') {
-        txValue = -tx.amount
-      } else {
-        txValue = tx.amount * (tx.side === 'buy' ? 1 : -1)
-      }
+      // Handle BUY/SELL, income and fee transactions (legacy: side field)
+      const txValue = getTransactionQuantityDelta(tx)
 
       if (tx.pricePerItem !== undefined && tx.currency && convert) {
         const totalInOriginalCurrency = txValue * tx.pricePerItem
@@ -160,43 +161,60 @@ export function calculateBalanceChf(
     }, 0)
 }
 
+/**
+ * Signed quantity change of a transaction.
+ * - BUY / SELL: +amount / -amount
+ * - ADJUSTMENT: signed amount as stored
+ * - DIVIDEND / INTEREST / STAKING: +amount (units credited to the item; 0 when the income is paid out elsewhere)
+ * - FEE: -amount (units taken from the item; 0 when the fee is paid in cash elsewhere)
+ * - TRANSFER_IN / TRANSFER_OUT: +amount / -(amount + networkFee)
+ * - Legacy (no cryptoType): side field
+ */
+export function getTransactionQuantityDelta(
+  tx: Pick<NetWorthTransaction, 'amount' | 'side' | 'cryptoType' | 'networkFee'>
+): number {
+  switch (tx.cryptoType) {
+    case 'BUY':
+      return tx.amount
+    case 'SELL':
+      return -tx.amount
+    case 'ADJUSTMENT':
+      return tx.amount
+    case 'DIVIDEND':
+    case 'INTEREST':
+    case 'STAKING':
+      return Math.abs(tx.amount)
+    case 'FEE':
+      return -Math.abs(tx.amount)
+    case 'TRANSFER_IN':
+      return Math.abs(tx.amount)
+    case 'TRANSFER_OUT':
+      return -(Math.abs(tx.amount) + getTransferNetworkFee(tx))
+    default:
+      return (tx.side === 'buy' ? 1 : -1) * tx.amount
+  }
+}
+
 /**
  * Calculate coin amount for a crypto asset, handling all transaction types.
+ * Pass the item to apply its splits.
  */
-export function calculateCoinAmount(itemId: string, transactions: NetWorthTransaction[]): number {
+export function calculateCoinAmount(itemId: string, transactions: NetWorthTransaction[], item?: CorporateActionItem): number {
   if (!itemId || !transactions) return 0
-  return transactions
+  return applyCorporateActions(item, transactions)
     .filter((tx) => tx.itemId === itemId)
-    .reduce((sum, tx) => {
-      if (tx.cryptoType) {
-        switch (tx.cryptoType) {
-          case 'BUY':
-            return sum + tx.amount
-          case 'SELL':
-            return sum - tx.amount
-          case 'ADJUSTMENT':
-            return sum + tx.amount
-          default:
-            return sum + (tx.side === 'buy' ? 1 : -1) * tx.amount
-        }
-      }
-      return sum + (tx.side === 'buy' ? 1 : -1) * tx.amount
-    }, 0)
+    .reduce((sum, tx) => sum + getTransactionQuantityDelta(tx), 0)
 }
 
 /**
  * Calculate holdings (quantity) for all categories.
+ * Pass the item to apply its splits.
  */
-export function calculateHoldings(itemId: string, transactions: NetWorthTransaction[]): number {
+export function calculateHoldings(itemId: string, transactions: NetWorthTransaction[], item?: CorporateActionItem): number {
   if (!itemId || !transactions) return 0
-  return transactions
+  return applyCorporateActions(item, transactions)
     .filter((tx) => tx.itemId === itemId)
-    .reduce((sum, tx) => {
-      if (tx.cryptoType === 'ADJUSTMENT') return sum + tx.amount
-      if (tx.cryptoType === 'BUY') return sum + tx.amount
-      if (tx.cryptoType === 'SELL') return sum - tx.amount
-      return sum + (tx.side === 'buy' ? 1 : -1) * tx.amount
-    }, 0)
+    .reduce((sum, tx) => sum + getTransactionQuantityDelta(tx), 0)
 }
 
 /**
@@ -0,0 +1,154 @@
+/**
+ * Benchmarks for the portfolio return: single indices/ETFs/coins or weighted mixes, with their
+ * return in CHF from daily closes (see HistoricalPriceService) normalized to a common start day.
+ * Shared by the client and Vercel API routes - must remain Node-safe.
+ */
+import type { CurrencyCode } from './types.js'
+import type { DailyCloseSeries } from './yahooFinance.js'
+
+export type BenchmarkSource = 'market' | 'crypto'
+
+export interface BenchmarkComponent {
+  /** Yahoo Finance symbol (market) or ticker (crypto) */
+  symbol: string
+  source: BenchmarkSource
+  /** Quote currency of the closes (crypto closes are USD) */
+  currency: CurrencyCode
+  weight: number
+}
+
+export interface Benchmark {
+  id: string
+  name: string
+  /** Bought at the start day in proportion to the weights and held (no rebalancing) */
+  components: BenchmarkComponent[]
+}
+
+/** Closes by source and symbol; FX symbols (see getFxSymbol) are market closes */
+export interface BenchmarkCloses {
+  market: Record<string, DailyCloseSeries>
+  crypto: Record<string, DailyCloseSeries>
+}
+
+/** Settings writes reject longer lists (see safeWrite) */
+export const MAX_BENCHMARKS = 10
+
+const CURRENCIES: CurrencyCode[] = ['CHF', 'EUR', 'USD']
+
+export const BENCHMARK_PRESETS: Benchmark[] = [
+  { id: 'spi', name: 'SPI', components: [{ symbol: '^SSHI', source: 'market', currency: 'CHF', weight: 1 }] },
+  { id: 'msci-world', name: 'MSCI World ETF', components: [{ symbol: 'URTH', source: 'market', currency: 'USD', weight: 1 }] },
+  { id: 'sp500', name: 'S&P 500 ETF', components: [{ symbol: 'SPY', source: 'market', currency: 'USD', weight: 1 }] },
+  { id: 'btc', name: 'Bitcoin', components: [{ symbol: 'BTC', source: 'crypto', currency: 'USD', weight: 1 }] },
+  {
+    id: '60-40',
+    name: '60/40 Stocks/Bonds',
+    components: [
+      { symbol: 'URTH', source: 'market', currency: 'USD', weight: 0.6 },
+      { symbol: 'AGG', source: 'market', currency: 'USD', weight: 0.4 },
+    ],
+  },
+]
+
+/**
+ * Yahoo Finance symbol of the CHF rate of a currency (CHF per unit), null for CHF
+ */
+export function getFxSymbol(currency: CurrencyCode): string | null {
+  return currency === 'CHF' ? null : `${currency}CHF=X`
+}
+
+/**
+ * Single-symbol benchmark entered by the user
+ */
+export function createCustomBenchmark(symbol: string, source: BenchmarkSource, currency: CurrencyCode): Benchmark {
+  const normalized = symbol.trim().toUpperCase()
+  return {
+    id: `custom:${source}:${normalized}`,
+    name: normalized,
+    components: [{ symbol: normalized, source, currency: source === 'crypto' ? 'USD' : currency, weight: 1 }],
+  }
+}
+
+function isBenchmarkComponent(value: unknown): value is BenchmarkComponent {
+  const component = value as BenchmarkComponent
+  return (
+    !!component &&
+    typeof component.symbol === 'string' &&
+    component.symbol.trim() !== '' &&
+    (component.source === 'market' || component.source === 'crypto') &&
+    CURRENCIES.includes(component.currency) &&
+    typeof component.weight === 'number' &&
+    component.weight > 0
+  )
+}
+
+/**
+ * Validate a stored benchmark (user settings)
+ */
+export function isBenchmark(value: unknown): value is Benchmark {
+  const benchmark = value as Benchmark
+  return (
+    !!benchmark &&
+    typeof benchmark.id === 'string' &&
+    typeof benchmark.name === 'string' &&
+    Array.isArray(benchmark.components) &&
+    benchmark.components.length > 0 &&
+    benchmark.components.every(isBenchmarkComponent)
+  )
+}
+
+/**
+ * Symbols to fetch for the benchmarks, including the FX rates of non-CHF components
+ */
+export function getBenchmarkSymbols(benchmarks: Benchmark[]): { market: string[]; crypto: string[] } {
+  const market = new Set<string>()
+  const crypto = new Set<string>()
+  for (const component of benchmarks.flatMap((benchmark) => benchmark.components)) {
+    if (component.source === 'crypto') crypto.add(component.symbol)
+    else market.add(component.symbol)
+    const fxSymbol = getFxSymbol(component.currency)
+    if (fxSymbol) market.add(fxSymbol)
+  }
+  return { market: [...market], crypto: [...crypto] }
+}
+
+function getCloseOnOrBefore(series: DailyCloseSeries | undefined, date: string): number | null {
+  if (!series) return null
+  let lastDay: string | null = null
+  for (const day of Object.keys(series)) {
+    if (day <= date && (lastDay === null || day > lastDay)) lastDay = day
+  }
+  return lastDay !== null && series[lastDay] > 0 ? series[lastDay] : null
+}
+
+function getCloseChf(component: BenchmarkComponent, closes: BenchmarkCloses, date: string): number | null {
+  const series = component.source === 'crypto' ? closes.crypto[component.symbol] : closes.market[component.symbol]
+  const close = getCloseOnOrBefore(series, date)
+  if (close === null) return null
+  const fxSymbol = getFxSymbol(component.currency)
+  if (!fxSymbol) return close
+  const fxRate = getCloseOnOrBefore(closes.market[fxSymbol], date)
+  return fxRate !== null ? close * fxRate : null
+}
+
+/**
+ * Return in CHF of a benchmark from `dates[0]` to each of `dates` (0.05 = +5%).
+ * Null for every day when a component has no close on or before the start day,
+ * and for days where a component has no close.
+ */
+export function getBenchmarkReturns(benchmark: Benchmark, closes: BenchmarkCloses, dates: string[]): Array<number | null> {
+  if (dates.length === 0) return []
+  const totalWeight = benchmark.components.reduce((sum, component) => sum + component.weight, 0)
+  const startCloses = benchmark.components.map((component) => getCloseChf(component, closes, dates[0]))
+  if (totalWeight <= 0 || startCloses.some((close) => close === null)) return dates.map(() => null)
+
+  return dates.map((date) => {
+    let value = 0
+    for (let i = 0; i < benchmark.components.length; i++) {
+      const close = getCloseChf(benchmark.components[i], closes, date)
+      if (close === null) return null
+      value += (benchmark.components[i].weight / totalWeight) * (close / (startCloses[i] as number))
+    }
+    return value - 1
+  })
+}
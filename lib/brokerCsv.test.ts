@@ -0,0 +1,149 @@
+import { describe, expect, it } from 'vitest'
+import { detectBroker, parseBrokerCsv, parseBrokerDate, parseBrokerNumber } from './brokerCsv.js'
+
+const IBKR = [
+  'Statement,Header,Field Name,Field Value',
+  'Statement,Data,Title,Activity Statement',
+  'Trades,Header,DataDiscriminator,Asset Category,Currency,Symbol,Date/Time,Quantity,T. Price,Comm/Fee',
+  'Trades,Data,Order,Stocks,USD,AAPL,"2024-01-15, 10:30:00",10,185.5,-1',
+  'Trades,Data,Order,Stocks,USD,aapl,"2024-03-01, 15:00:00",-4,"1,200.25",-1.2',
+  'Trades,SubTotal,,Stocks,USD,AAPL,,6,,-2.2',
+  'Trades,Data,Order,Forex,CHF,USD.CHF,"2024-01-15, 10:00:00",1000,0.86,0',
+  'Dividends,Header,Currency,Date,Description,Amount',
+  'Dividends,Data,USD,2024-02-15,AAPL(US0378331005) Cash Dividend USD 0.24 per Share (Ordinary Dividend),2.4',
+  'Dividends,Data,Total,,,2.4',
+  'Withholding Tax,Header,Currency,Date,Description,Amount,Code',
+  'Withholding Tax,Data,USD,2024-02-15,AAPL(US0378331005) Cash Dividend USD 0.24 per Share - US Tax,-0.36,',
+].join('\n')
+
+const REVOLUT = [
+  'Date,Ticker,Type,Quantity,Price per share,Total Amount,Currency,FX Rate',
+  '2024-01-10T14:30:00.000Z,TSLA,BUY - MARKET,2,USD 220.50,USD 441,USD,1.0',
+  '2024-02-10T09:00:00.000Z,,CASH TOP-UP,,,USD 1000,USD,1.0',
+  '2024-03-05T16:00:00.000Z,TSLA,SELL - LIMIT,1,USD 250,USD 250,USD,1.0',
+  '2024-03-20T10:00:00.000Z,MSFT,DIVIDEND,,,USD 1.50,USD,1.0',
+  '2024-04-01T10:00:00.000Z,NVDA,STOCK SPLIT,9,,,USD,1.0',
+].join('\n')
+
+const SAXO = [
+  'Trade Date,Instrument Symbol,Buy/Sell,Amount,Price,Instrument currency,Commission',
+  '15-Jan-2024,NESN:xvtx,Buy,20,98.50,CHF,5',
+  '20-Feb-2024,NOVN:xvtx,Sell,-5,"1\'050.00",CHF,',
+  '21-Feb-2024,ROG:xvtx,Buy,,250,CHF,',
+].join('\n')
+
+const YUH = [
+  'DATE;ACTIVITY TYPE;ACTIVITY NAME;DEBIT;DEBIT CURRENCY;CREDIT;CREDIT CURRENCY;FEES/COMMISSION;BUY/SELL;QUANTITY;ASSET;PRICE PER UNIT',
+  '05/01/2024;INVEST_ORDER_EXECUTED;Buy;-1000.50;CHF;;;1.00;BUY;10;VT;100.05',
+  '12/01/2024;CARD_TRANSACTION;Coffee;-4.50;CHF;;;;;;;',
+  '01/02/2024;INVEST_ORDER_EXECUTED;Sell;;;520;USD;0.50;SELL;5;vt;104',
+  '15/03/2024;CASH_TRANSACTION_RELATED_OTHER DIVIDEND;Dividend VT;;;3.20;USD;;;;VT;',
+].join('\n')
+
+describe('parseBrokerNumber', () => {
+  it('reads currency prefixes and thousands separators', () => {
+    expect(parseBrokerNumber('USD 185.50')).toBe(185.5)
+    expect(parseBrokerNumber("1'000.50")).toBe(1000.5)
+    expect(parseBrokerNumber('1,000.50')).toBe(1000.5)
+    expect(parseBrokerNumber('1.000,50')).toBe(1000.5)
+    expect(parseBrokerNumber('-0.36')).toBe(-0.36)
+    expect(parseBrokerNumber('')).toBeNull()
+  })
+})
+
+describe('parseBrokerDate', () => {
+  it('reads the date formats of the supported brokers', () => {
+    expect(parseBrokerDate('2024-01-15T10:30:00Z')).toBe('2024-01-15')
+    expect(parseBrokerDate('2024-01-15, 10:30:00')).toBe('2024-01-15')
+    expect(parseBrokerDate('20240115')).toBe('2024-01-15')
+    expect(parseBrokerDate('15.01.2024')).toBe('2024-01-15')
+    expect(parseBrokerDate('15/01/2024')).toBe('2024-01-15')
+    expect(parseBrokerDate('15-Jan-2024')).toBe('2024-01-15')
+    expect(parseBrokerDate('Jan 15')).toBeNull()
+  })
+})
+
+describe('detectBroker', () => {
+  it('recognizes each format from its first line', () => {
+    expect(detectBroker(IBKR)).toBe('ibkr')
+    expect(detectBroker(REVOLUT)).toBe('revolut')
+    expect(detectBroker(SAXO)).toBe('saxo')
+    expect(detectBroker(YUH)).toBe('yuh')
+    expect(detectBroker('foo,bar\n1,2')).toBeNull()
+  })
+})
+
+describe('parseBrokerCsv', () => {
+  it('nets IBKR dividend reversals against the matching dividend', () => {
+    const text = [
+      'Dividends,Header,Currency,Date,Description,Amount',
+      'Dividends,Data,USD,2024-02-15,AAPL(US0378331005) Cash Dividend USD 0.24 per Share (Ordinary Dividend),2.4',
+      'Dividends,Data,USD,2024-02-15,AAPL(US0378331005) Cash Dividend USD 0.24 per Share (Ordinary Dividend) - Reversal,-2.4',
+      'Dividends,Data,USD,2024-02-15,AAPL(US0378331005) Cash Dividend USD 0.20 per Share (Ordinary Dividend),2',
+      'Dividends,Data,USD,2024-06-01,KO(US1912161007) Cash Dividend USD 0.46 per Share - Reversal,-4.6',
+      'Withholding Tax,Header,Currency,Date,Description,Amount,Code',
+      'Withholding Tax,Data,USD,2024-02-15,AAPL(US0378331005) Cash Dividend USD 0.20 per Share - US Tax,-0.3,',
+    ].join('\n')
+
+    const { transactions, errors } = parseBrokerCsv(text, 'ibkr')
+    expect(transactions.map(({ line, grossAmount, withholdingTax }) => ({ line, grossAmount, withholdingTax }))).toEqual([
+      { line: 4, grossAmount: 2, withholdingTax: 0.3 },
+    ])
+    expect(errors).toEqual([{ line: 5, message: 'Dividend reversal without a matching KO dividend' }])
+  })
+
+  it('subtracts IBKR withholding tax refunds', () => {
+    const text = [
+      'Dividends,Header,Currency,Date,Description,Amount',
+      'Dividends,Data,USD,2024-05-15,MSFT(US5949181045) Cash Dividend USD 0.75 per Share (Ordinary Dividend),7.5',
+      'Withholding Tax,Header,Currency,Date,Description,Amount,Code',
+      'Withholding Tax,Data,USD,2024-05-15,MSFT(US5949181045) Cash Dividend USD 0.75 per Share - US Tax,-2.25,',
+      'Withholding Tax,Data,USD,2024-05-15,MSFT(US5949181045) Cash Dividend USD 0.75 per Share - US Tax Refund,1.125,',
+    ].join('\n')
+
+    const { transactions, errors } = parseBrokerCsv(text, 'ibkr')
+    expect(errors).toEqual([])
+    expect(transactions).toHaveLength(1)
+    expect(transactions[0].grossAmount).toBe(7.5)
+    expect(transactions[0].withholdingTax).toBeCloseTo(1.125)
+  })
+
+  it('parses IBKR trades and dividends with withholding tax', () => {
+    const { transactions, errors } = parseBrokerCsv(IBKR, 'ibkr')
+    expect(errors).toEqual([])
+    expect(transactions).toEqual([
+      { broker: 'ibkr', line: 4, date: '2024-01-15', type: 'BUY', symbol: 'AAPL', quantity: 10, price: 185.5, currency: 'USD', commission: 1 },
+      { broker: 'ibkr', line: 9, date: '2024-02-15', type: 'DIVIDEND', symbol: 'AAPL', quantity: 0, price: 0, currency: 'USD', grossAmount: 2.4, withholdingTax: 0.36 },
+      { broker: 'ibkr', line: 5, date: '2024-03-01', type: 'SELL', symbol: 'AAPL', quantity: 4, price: 1200.25, currency: 'USD', commission: 1.2 },
+    ])
+  })
+
+  it('parses Revolut trades and net dividends and flags splits', () => {
+    const { transactions, errors } = parseBrokerCsv(REVOLUT, 'revolut')
+    expect(transactions).toEqual([
+      { broker: 'revolut', line: 2, date: '2024-01-10', type: 'BUY', symbol: 'TSLA', quantity: 2, price: 220.5, currency: 'USD' },
+      { broker: 'revolut', line: 4, date: '2024-03-05', type: 'SELL', symbol: 'TSLA', quantity: 1, price: 250, currency: 'USD' },
+      { broker: 'revolut', line: 5, date: '2024-03-20', type: 'DIVIDEND', symbol: 'MSFT', quantity: 0, price: 0, currency: 'USD', grossAmount: 1.5, withholdingTax: 0 },
+    ])
+    expect(errors.map((error) => error.line)).toEqual([6])
+  })
+
+  it('parses Saxo trades and reports incomplete rows', () => {
+    const { transactions, errors } = parseBrokerCsv(SAXO, 'saxo')
+    expect(transactions).toEqual([
+      { broker: 'saxo', line: 2, date: '2024-01-15', type: 'BUY', symbol: 'NESN', quantity: 20, price: 98.5, currency: 'CHF', commission: 5 },
+      { broker: 'saxo', line: 3, date: '2024-02-20', type: 'SELL', symbol: 'NOVN', quantity: 5, price: 1050, currency: 'CHF' },
+    ])
+    expect(errors).toEqual([{ line: 4, message: 'Trade row is missing date, symbol, amount or price' }])
+  })
+
+  it('parses semicolon-separated yuh orders and dividends', () => {
+    const { transactions, errors } = parseBrokerCsv(YUH, 'yuh')
+    expect(errors).toEqual([])
+    expect(transactions).toEqual([
+      { broker: 'yuh', line: 2, date: '2024-01-05', type: 'BUY', symbol: 'VT', quantity: 10, price: 100.05, currency: 'CHF', commission: 1 },
+      { broker: 'yuh', line: 4, date: '2024-02-01', type: 'SELL', symbol: 'VT', quantity: 5, price: 104, currency: 'USD', commission: 0.5 },
+      { broker: 'yuh', line: 5, date: '2024-03-15', type: 'DIVIDEND', symbol: 'VT', quantity: 0, price: 0, currency: 'USD', grossAmount: 3.2, withholdingTax: 0 },
+    ])
+  })
+})
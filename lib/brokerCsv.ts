@@ -0,0 +1,520 @@
+/**
+ * Broker statement CSV parsers (IBKR, Revolut, Saxo, yuh).
+ * Shared by the client and Vercel API routes - must remain Node-safe.
+ *
+ * Each parser turns one statement export into broker-neutral ImportedTransactions.
+ * Columns are looked up by header name, so column order and extra columns do not matter.
+ * Rows that cannot be imported are reported as errors with their line number.
+ */
+
+export type BrokerId = 'ibkr' | 'revolut' | 'saxo' | 'yuh'
+
+export const BROKER_IDS: BrokerId[] = ['ibkr', 'revolut', 'saxo', 'yuh']
+
+export const BROKER_LABELS: Record<BrokerId, string> = {
+  ibkr: 'Interactive Brokers (Activity Statement)',
+  revolut: 'Revolut (Trading account statement)',
+  saxo: 'Saxo (Trades export)',
+  yuh: 'yuh (Activities export)',
+}
+
+/** Platform name (see DEFAULT_PLATFORMS) used for imported items */
+export const BROKER_PLATFORMS: Record<BrokerId, string> = {
+  ibkr: 'IBKR',
+  revolut: 'Revolut',
+  saxo: 'SAXO',
+  yuh: 'yuh!',
+}
+
+export type ImportedTransactionType = 'BUY' | 'SELL' | 'DIVIDEND'
+
+export interface ImportedTransaction {
+  broker: BrokerId
+  /** 1-based line number in the file */
+  line: number
+  date: string // YYYY-MM-DD
+  type: ImportedTransactionType
+  /** Ticker, uppercase */
+  symbol: string
+  /** Units bought/sold, positive (0 for cash dividends) */
+  quantity: number
+  /** Price per unit in `currency` (0 for cash dividends) */
+  price: number
+  currency: string
+  /** Dividends: amount before withholding tax */
+  grossAmount?: number
+  withholdingTax?: number
+  /** Trades: commission paid, positive */
+  commission?: number
+}
+
+export interface BrokerParseError {
+  line: number
+  message: string
+}
+
+export interface BrokerParseResult {
+  transactions: ImportedTransaction[]
+  errors: BrokerParseError[]
+}
+
+// ============================================================================
+// CSV primitives
+// ============================================================================
+
+/**
+ * Split CSV text into rows of cells (RFC 4180 quoting, CRLF/LF, BOM).
+ * Empty lines are kept as `[]` so row indexes match line numbers.
+ */
+export function parseCsv(text: string, delimiter = ','): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let cell = ''
+  let inQuotes = false
+  const input = text.replace(/^﻿/, '')
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i]
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        cell += char
+      }
+      continue
+    }
+    if (char === '"') {
+      inQuotes = true
+    } else if (char === delimiter) {
+      row.push(cell)
+      cell = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++
+      row.push(cell)
+      rows.push(row.length === 1 && row[0] === '' ? [] : row)
+      row = []
+      cell = ''
+    } else {
+      cell += char
+    }
+  }
+  if (cell !== '' || row.length > 0) {
+    row.push(cell)
+    rows.push(row)
+  }
+  return rows
+}
+
+function detectDelimiter(text: string): string {
+  const firstLine = text.replace(/^﻿/, '').split(/\r?\n/, 1)[0] || ''
+  const count = (char: string) => firstLine.split(char).length - 1
+  return count(';') > count(',') ? ';' : ','
+}
+
+/**
+ * Parse a number as written in broker exports: currency prefixes ("USD 185.50"),
+ * Swiss thousands separators (1'000.50), "1,000.50" and "1.000,50".
+ */
+export function parseBrokerNumber(value: string | undefined): number | null {
+  if (value === undefined) return null
+  let cleaned = value.trim().replace(/[A-Za-z$€£\s']/g, '')
+  if (cleaned === '' || cleaned === '-' || cleaned === '--') return null
+
+  const lastComma = cleaned.lastIndexOf(',')
+  const lastDot = cleaned.lastIndexOf('.')
+  if (lastComma !== -1 && lastDot !== -1) {
+    cleaned = lastComma > lastDot
+      ? cleaned.replace(/\./g, '').replace(',', '.')
+      : cleaned.replace(/,/g, '')
+  } else if (lastComma !== -1) {
+    cleaned = /^-?\d{1,3}(,\d{3})+$/.test(cleaned) ? cleaned.replace(/,/g, '') : cleaned.replace(',', '.')
+  }
+
+  const n = Number(cleaned)
+  return Number.isFinite(n) ? n : null
+}
+
+const MONTHS: Record<string, number> = {
+  jan: 1, feb: 2, mar: 3, apr: 4, may: 5, jun: 6, jul: 7, aug: 8, sep: 9, oct: 10, nov: 11, dec: 12,
+}
+
+function toIsoDate(year: number, month: number, day: number): string | null {
+  if (!year || month < 1 || month > 12 || day < 1 || day > 31) return null
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`
+}
+
+/**
+ * Parse the date part of a broker timestamp into YYYY-MM-DD.
+ * Supports 2024-01-15(T10:30:00Z), "2024-01-15, 10:30:00", 20240115, 15.01.2024, 15/01/2024 and 15-Jan-2024.
+ */
+export function parseBrokerDate(value: string | undefined): string | null {
+  if (!value) return null
+  const trimmed = value.trim()
+  let match = trimmed.match(/^(\d{4})-(\d{2})-(\d{2})/)
+  if (match) return toIsoDate(Number(match[1]), Number(match[2]), Number(match[3]))
+  match = trimmed.match(/^(\d{4})(\d{2})(\d{2})\b/)
+  if (match) return toIsoDate(Number(match[1]), Number(match[2]), Number(match[3]))
+  match = trimmed.match(/^(\d{1,2})[./](\d{1,2})[./](\d{4})/)
+  if (match) return toIsoDate(Number(match[3]), Number(match[2]), Number(match[1]))
+  match = trimmed.match(/^(\d{1,2})[- ]([A-Za-z]{3})[A-Za-z]*[- ](\d{4})/)
+  if (match) return toIsoDate(Number(match[3]), MONTHS[match[2].toLowerCase()] || 0, Number(match[1]))
+  return null
+}
+
+/**
+ * Index of the first header matching one of the names (case-insensitive), or -1
+ */
+function findColumn(header: string[], names: string[]): number {
+  const normalized = header.map((h) => h.trim().toLowerCase())
+  for (const name of names) {
+    const index = normalized.indexOf(name.toLowerCase())
+    if (index !== -1) return index
+  }
+  return -1
+}
+
+function cellAt(row: string[], index: number): string | undefined {
+  return index >= 0 ? row[index]?.trim() : undefined
+}
+
+function normalizeSymbol(symbol: string): string {
+  return symbol.trim().toUpperCase()
+}
+
+// ============================================================================
+// Interactive Brokers
+// ============================================================================
+
+/** Remaining gross amount below which a reversed dividend counts as fully reversed */
+const DIVIDEND_EPSILON = 1e-9
+
+/**
+ * IBKR Activity Statement CSV: every row starts with the section name and Header/Data.
+ * Imports the Trades (stocks, ETFs), Dividends and Withholding Tax sections. Negative dividend
+ * lines reverse an earlier dividend; positive withholding tax lines are refunds.
+ */
+function parseIbkr(rows: string[][]): BrokerParseResult {
+  const transactions: ImportedTransaction[] = []
+  const errors: BrokerParseError[] = []
+  const headers = new Map<string, string[]>()
+  // Tax withheld (refunds negative) and dividends reversed, attached to their dividend at the end
+  const withholding: Array<{ line: number; symbol: string; date: string; amount: number }> = []
+  const reversals: Array<{ line: number; symbol: string; date: string; amount: number }> = []
+
+  rows.forEach((row, index) => {
+    const line = index + 1
+    const [section, kind] = row
+    if (!section || !kind) return
+    if (kind === 'Header') {
+      headers.set(section, row)
+      return
+    }
+    if (kind !== 'Data') return
+    const header = headers.get(section)
+    if (!header) return
+    const get = (...names: string[]) => cellAt(row, findColumn(header, names))
+
+    if (section === 'Trades') {
+      if (get('DataDiscriminator') && get('DataDiscriminator') !== 'Order') return
+      const assetCategory = get('Asset Category') || ''
+      if (!/stocks|etf|funds/i.test(assetCategory)) return
+      const date = parseBrokerDate(get('Date/Time'))
+      const quantity = parseBrokerNumber(get('Quantity'))
+      const price = parseBrokerNumber(get('T. Price', 'TradePrice'))
+      const symbol = get('Symbol')
+      if (!date || !quantity || !price || !symbol) {
+        errors.push({ line, message: 'Trade row is missing date, symbol, quantity or price' })
+        return
+      }
+      const commission = Math.abs(parseBrokerNumber(get('Comm/Fee', 'IBCommission')) ?? 0)
+      transactions.push({
+        broker: 'ibkr',
+        line,
+        date,
+        type: quantity > 0 ? 'BUY' : 'SELL',
+        symbol: normalizeSymbol(symbol),
+        quantity: Math.abs(quantity),
+        price,
+        currency: get('Currency') || '',
+        ...(commission > 0 && { commission }),
+      })
+      return
+    }
+
+    if (section === 'Dividends' || section === 'Withholding Tax') {
+      const currency = get('Currency') || ''
+      if (currency.startsWith('Total')) return
+      const date = parseBrokerDate(get('Date'))
+      const amount = parseBrokerNumber(get('Amount'))
+      // "AAPL(US0378331005) Cash Dividend USD 0.24 per Share (Ordinary Dividend)"
+      const symbol = (get('Description') || '').match(/^([A-Za-z0-9.\-]+)\s*\(/)?.[1]
+      if (!date || amount === null || !symbol) {
+        errors.push({ line, message: `${section} row is missing date, symbol or amount` })
+        return
+      }
+      if (section === 'Withholding Tax') {
+        withholding.push({ line, symbol: normalizeSymbol(symbol), date, amount: -amount })
+        return
+      }
+      if (amount < 0) {
+        reversals.push({ line, symbol: normalizeSymbol(symbol), date, amount: -amount })
+        return
+      }
+      transactions.push({
+        broker: 'ibkr',
+        line,
+        date,
+        type: 'DIVIDEND',
+        symbol: normalizeSymbol(symbol),
+        quantity: 0,
+        price: 0,
+        currency,
+        grossAmount: amount,
+        withholdingTax: 0,
+      })
+    }
+  })
+
+  // Dividend of the symbol and date not reversed yet
+  const findDividend = (symbol: string, date: string) =>
+    transactions.find(
+      (tx) => tx.type === 'DIVIDEND' && tx.symbol === symbol && tx.date === date && (tx.grossAmount || 0) > DIVIDEND_EPSILON
+    )
+
+  for (const reversal of reversals) {
+    const dividend = findDividend(reversal.symbol, reversal.date)
+    if (dividend) {
+      dividend.grossAmount = (dividend.grossAmount || 0) - reversal.amount
+    } else {
+      errors.push({ line: reversal.line, message: `Dividend reversal without a matching ${reversal.symbol} dividend` })
+    }
+  }
+
+  // Withholding tax is a separate section: attach it to the dividend of the same symbol and date
+  for (const tax of withholding) {
+    const dividend = findDividend(tax.symbol, tax.date)
+    if (dividend) {
+      dividend.withholdingTax = Math.max(0, (dividend.withholdingTax || 0) + tax.amount)
+    } else {
+      errors.push({ line: tax.line, message: `Withholding tax without a matching ${tax.symbol} dividend` })
+    }
+  }
+
+  // Fully reversed dividends are not imported
+  return {
+    transactions: transactions.filter((tx) => tx.type !== 'DIVIDEND' || (tx.grossAmount || 0) > DIVIDEND_EPSILON),
+    errors,
+  }
+}
+
+// ============================================================================
+// Revolut
+// ============================================================================
+
+/**
+ * Revolut trading statement: Date, Ticker, Type, Quantity, Price per share, Total Amount, Currency.
+ * Dividends are reported net of withholding tax.
+ */
+function parseRevolut(rows: string[][]): BrokerParseResult {
+  const transactions: ImportedTransaction[] = []
+  const errors: BrokerParseError[] = []
+  const [header = [], ...dataRows] = rows
+
+  dataRows.forEach((row, index) => {
+    const line = index + 2
+    if (row.length === 0) return
+    const get = (...names: string[]) => cellAt(row, findColumn(header, names))
+    const type = (get('Type') || '').toUpperCase()
+    const symbol = get('Ticker')
+    const date = parseBrokerDate(get('Date'))
+    const currency = get('Currency') || ''
+
+    if (type.startsWith('BUY') || type.startsWith('SELL')) {
+      const quantity = parseBrokerNumber(get('Quantity'))
+      const price = parseBrokerNumber(get('Price per share'))
+      if (!date || !symbol || !quantity || !price) {
+        errors.push({ line, message: 'Trade row is missing date, ticker, quantity or price' })
+        return
+      }
+      transactions.push({
+        broker: 'revolut',
+        line,
+        date,
+        type: type.startsWith('BUY') ? 'BUY' : 'SELL',
+        symbol: normalizeSymbol(symbol),
+        quantity: Math.abs(quantity),
+        price,
+        currency,
+      })
+    } else if (type === 'DIVIDEND') {
+      const amount = parseBrokerNumber(get('Total Amount'))
+      if (!date || !symbol || amount === null) {
+        errors.push({ line, message: 'Dividend row is missing date, ticker or amount' })
+        return
+      }
+      transactions.push({
+        broker: 'revolut',
+        line,
+        date,
+        type: 'DIVIDEND',
+        symbol: normalizeSymbol(symbol),
+        quantity: 0,
+        price: 0,
+        currency,
+        grossAmount: Math.abs(amount),
+        withholdingTax: 0,
+      })
+    } else if (type.includes('SPLIT')) {
+      errors.push({ line, message: 'Stock splits are not imported: record them under Edit → Corporate Actions' })
+    }
+    // Cash top-ups, withdrawals and custody fees are not tied to a holding
+  })
+
+  return { transactions, errors }
+}
+
+// ============================================================================
+// Saxo
+// ============================================================================
+
+/**
+ * Saxo trades export: Trade Date, Instrument Symbol (e.g. AAPL:xnas), Buy/Sell, Amount, Price, Instrument currency.
+ */
+function parseSaxo(rows: string[][]): BrokerParseResult {
+  const transactions: ImportedTransaction[] = []
+  const errors: BrokerParseError[] = []
+  const [header = [], ...dataRows] = rows
+
+  dataRows.forEach((row, index) => {
+    const line = index + 2
+    if (row.length === 0) return
+    const get = (...names: string[]) => cellAt(row, findColumn(header, names))
+    const date = parseBrokerDate(get('Trade Date', 'TradeDate', 'Date'))
+    const symbol = (get('Instrument Symbol', 'Symbol') || '').split(':')[0]
+    const direction = (get('Buy/Sell', 'Direction', 'B/S') || '').toLowerCase()
+    const quantity = parseBrokerNumber(get('Amount', 'Quantity'))
+    const price = parseBrokerNumber(get('Price', 'Trade Price'))
+    if (!date || !symbol || !quantity || !price) {
+      errors.push({ line, message: 'Trade row is missing date, symbol, amount or price' })
+      return
+    }
+    const isSell = direction ? direction.startsWith('s') : quantity < 0
+    const commission = Math.abs(parseBrokerNumber(get('Commission', 'Costs')) ?? 0)
+    transactions.push({
+      broker: 'saxo',
+      line,
+      date,
+      type: isSell ? 'SELL' : 'BUY',
+      symbol: normalizeSymbol(symbol),
+      quantity: Math.abs(quantity),
+      price,
+      currency: get('Instrument currency', 'Instrument Currency', 'Currency') || '',
+      ...(commission > 0 && { commission }),
+    })
+  })
+
+  return { transactions, errors }
+}
+
+// ============================================================================
+// yuh
+// ============================================================================
+
+/**
+ * yuh activities export (semicolon-separated): DATE, ACTIVITY TYPE, DEBIT/CREDIT (+ currency),
+ * FEES/COMMISSION, BUY/SELL, QUANTITY, ASSET, PRICE PER UNIT.
+ */
+function parseYuh(rows: string[][]): BrokerParseResult {
+  const transactions: ImportedTransaction[] = []
+  const errors: BrokerParseError[] = []
+  const [header = [], ...dataRows] = rows
+
+  dataRows.forEach((row, index) => {
+    const line = index + 2
+    if (row.length === 0) return
+    const get = (...names: string[]) => cellAt(row, findColumn(header, names))
+    const activity = (get('ACTIVITY TYPE') || '').toUpperCase()
+    const date = parseBrokerDate(get('DATE'))
+    const symbol = get('ASSET')
+
+    if (activity.startsWith('INVEST') && activity.includes('EXECUTED')) {
+      const side = (get('BUY/SELL') || '').toUpperCase()
+      const quantity = parseBrokerNumber(get('QUANTITY'))
+      const price = parseBrokerNumber(get('PRICE PER UNIT'))
+      if (!date || !symbol || !quantity || !price) {
+        errors.push({ line, message: 'Order row is missing date, asset, quantity or price' })
+        return
+      }
+      const isSell = side === 'SELL'
+      const commission = Math.abs(parseBrokerNumber(get('FEES/COMMISSION')) ?? 0)
+      transactions.push({
+        broker: 'yuh',
+        line,
+        date,
+        type: isSell ? 'SELL' : 'BUY',
+        symbol: normalizeSymbol(symbol),
+        quantity: Math.abs(quantity),
+        price,
+        currency: (isSell ? get('CREDIT CURRENCY') : get('DEBIT CURRENCY')) || '',
+        ...(commission > 0 && { commission }),
+      })
+    } else if (activity.includes('DIVIDEND')) {
+      const amount = parseBrokerNumber(get('CREDIT'))
+      if (!date || !symbol || amount === null) {
+        errors.push({ line, message: 'Dividend row is missing date, asset or amount' })
+        return
+      }
+      transactions.push({
+        broker: 'yuh',
+        line,
+        date,
+        type: 'DIVIDEND',
+        symbol: normalizeSymbol(symbol),
+        quantity: 0,
+        price: 0,
+        currency: get('CREDIT CURRENCY') || '',
+        grossAmount: Math.abs(amount),
+        withholdingTax: 0,
+      })
+    }
+    // Card payments, transfers and savings activities are not tied to a holding
+  })
+
+  return { transactions, errors }
+}
+
+// ============================================================================
+// Entry points
+// ============================================================================
+
+const PARSERS: Record<BrokerId, (rows: string[][]) => BrokerParseResult> = {
+  ibkr: parseIbkr,
+  revolut: parseRevolut,
+  saxo: parseSaxo,
+  yuh: parseYuh,
+}
+
+/**
+ * Guess the broker from the first line of the file, or null when unknown
+ */
+export function detectBroker(text: string): BrokerId | null {
+  const firstLine = (text.replace(/^﻿/, '').split(/\r?\n/, 1)[0] || '').toLowerCase()
+  if (/^(statement|trades|account information),header/.test(firstLine)) return 'ibkr'
+  if (firstLine.includes('ticker') && firstLine.includes('price per share')) return 'revolut'
+  if (firstLine.includes('activity type') && firstLine.includes(';')) return 'yuh'
+  if (firstLine.includes('instrument symbol') || (firstLine.includes('trade date') && firstLine.includes('buy/sell'))) return 'saxo'
+  return null
+}
+
+/**
+ * Parse a broker statement CSV into ImportedTransactions (sorted by date)
+ */
+export function parseBrokerCsv(text: string, broker: BrokerId): BrokerParseResult {
+  const rows = parseCsv(text, detectDelimiter(text))
+  const result = PARSERS[broker](rows)
+  result.transactions.sort((a, b) => a.date.localeCompare(b.date) || a.line - b.line)
+  return result
+}
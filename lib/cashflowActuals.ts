@@ -0,0 +1,212 @@
+/**
+ * Actual-vs-budget cashflow: a monthly ledger of actual inflows and outflows per budget item or
+ * group, entered manually or assigned from Bank Account / Cash transactions, compared with the
+ * amounts of the cashflow items due in that month.
+ * Shared by the client and Vercel API routes - must remain Node-safe.
+ */
+import type { CurrencyCode, NetWorthCategory, NetWorthTransaction } from './types.js'
+import { getTransactionQuantityDelta } from './balanceCalculation.js'
+import { getAmountInMonth, type CashflowSchedule } from './cashflowFrequency.js'
+
+export type CashflowDirection = 'inflow' | 'outflow'
+
+export interface CashflowActual {
+  id: string
+  /** YYYY-MM */
+  month: string
+  direction: CashflowDirection
+  /** Inflow or outflow group the amount is booked to */
+  group: string
+  /** Budget item the amount is booked to; null = the group as a whole */
+  itemId?: string | null
+  /** Positive amount in `currency` */
+  amount: number
+  currency: string
+  note?: string
+  /** Bank Account / Cash transaction the entry was assigned from */
+  transactionId?: string | null
+  createdAt?: string
+  updatedAt?: string
+}
+
+/** Budget item fields (cashflow inflow or outflow item) */
+export interface BudgetItem extends CashflowSchedule {
+  id: string
+  item: string
+  group: string
+  amount?: number
+  currency?: string
+  amountChf: number
+  /** Pinned CHF per unit of `currency`; missing = current rate */
+  fxRate?: number | null
+}
+
+export interface BudgetItems {
+  inflowItems: BudgetItem[]
+  outflowItems: BudgetItem[]
+}
+
+/** Bank Account / Cash transaction that can be booked to the ledger */
+export interface LedgerTransaction {
+  transactionId: string
+  itemId: string
+  itemName: string
+  date: string
+  direction: CashflowDirection
+  /** Positive amount in `currency` */
+  amount: number
+  currency: string
+}
+
+export interface VarianceRow {
+  /** Budget item id, or null for the amounts booked to the group as a whole */
+  itemId: string | null
+  label: string
+  budget: number
+  actual: number
+  /** actual - budget */
+  variance: number
+}
+
+export interface GroupVariance {
+  direction: CashflowDirection
+  group: string
+  budget: number
+  actual: number
+  /** actual - budget */
+  variance: number
+  rows: VarianceRow[]
+}
+
+export interface MonthVariance {
+  month: string
+  groups: GroupVariance[]
+  budgetInflow: number
+  actualInflow: number
+  budgetOutflow: number
+  actualOutflow: number
+  /** Whether any actual was booked in the month (without, the month is not compared) */
+  hasActuals: boolean
+}
+
+/** Categories whose transactions are money moving in and out of accounts */
+export const LEDGER_CATEGORIES: NetWorthCategory[] = ['Bank Accounts', 'Cash']
+
+type Convert = (amount: number, from: CurrencyCode) => number
+
+export function getMonthKey(date: string): string {
+  return date.slice(0, 7)
+}
+
+/**
+ * The `count` months up to and including `month` (YYYY-MM), oldest first
+ */
+export function getPreviousMonths(month: string, count: number): string[] {
+  const [year, monthIndex] = month.split('-').map(Number)
+  return Array.from({ length: count }, (_, i) => {
+    const date = new Date(Date.UTC(year, monthIndex - 1 - (count - 1 - i), 1))
+    return date.toISOString().slice(0, 7)
+  })
+}
+
+/**
+ * Amount of a budget item due in a month (quarterly, yearly and one-off items only in their months),
+ * at the item's pinned rate or else the current one
+ */
+function getBudgetAmount(item: BudgetItem, month: string, convert: Convert): number {
+  let amount = item.amountChf
+  if (item.amount !== undefined && item.currency) {
+    amount = item.currency !== 'CHF' && item.fxRate && item.fxRate > 0
+      ? convert(item.amount * item.fxRate, 'CHF')
+      : convert(item.amount, item.currency as CurrencyCode)
+  }
+  return getAmountInMonth(amount, item, month)
+}
+
+/**
+ * Deposits (inflows) and withdrawals (outflows) of Bank Account and Cash items in a month.
+ * Adjustments are balance corrections, not money moved, and are left out.
+ */
+export function getLedgerTransactions(
+  month: string,
+  transactions: NetWorthTransaction[],
+  items: Array<{ id: string; name?: string; category: NetWorthCategory; currency?: string }>
+): LedgerTransaction[] {
+  const ledgerItems = new Map(
+    items.filter((item) => LEDGER_CATEGORIES.includes(item.category)).map((item) => [item.id, item])
+  )
+  return (transactions || [])
+    .filter((tx) => ledgerItems.has(tx.itemId) && getMonthKey(tx.date || '') === month && tx.cryptoType !== 'ADJUSTMENT')
+    .map((tx) => {
+      const item = ledgerItems.get(tx.itemId)!
+      const price = Number(tx.pricePerItem) > 0 ? Number(tx.pricePerItem) : 1
+      const value = getTransactionQuantityDelta({ ...tx, amount: Number(tx.amount) || 0 }) * price
+      return {
+        transactionId: tx.id,
+        itemId: tx.itemId,
+        itemName: item.name || '',
+        date: tx.date,
+        direction: (value >= 0 ? 'inflow' : 'outflow') as CashflowDirection,
+        amount: Math.abs(value),
+        currency: tx.currency || item.currency || 'CHF',
+      }
+    })
+    .filter((tx) => tx.amount > 0)
+    .sort((a, b) => a.date.localeCompare(b.date))
+}
+
+/**
+ * Budget against the actuals booked in a month, per group and item. Actuals booked to an item
+ * that no longer exists count towards its group as a whole.
+ */
+export function computeMonthVariance(
+  month: string,
+  actuals: CashflowActual[],
+  budget: BudgetItems,
+  groups: { inflow: string[]; outflow: string[] },
+  convert: Convert
+): MonthVariance {
+  const monthActuals = actuals.filter((actual) => actual.month === month)
+  const toAmount = (actual: CashflowActual) => convert(Math.abs(actual.amount) || 0, actual.currency as CurrencyCode)
+
+  const getGroupVariance = (direction: CashflowDirection, group: string): GroupVariance => {
+    const items = (direction === 'inflow' ? budget.inflowItems : budget.outflowItems).filter((item) => item.group === group)
+    const itemIds = new Set(items.map((item) => item.id))
+    const groupActuals = monthActuals.filter((actual) => actual.direction === direction && actual.group === group)
+
+    const rows: VarianceRow[] = items.map((item) => {
+      const itemBudget = getBudgetAmount(item, month, convert)
+      const itemActual = groupActuals
+        .filter((actual) => actual.itemId === item.id)
+        .reduce((sum, actual) => sum + toAmount(actual), 0)
+      return { itemId: item.id, label: item.item, budget: itemBudget, actual: itemActual, variance: itemActual - itemBudget }
+    })
+    const unassigned = groupActuals
+      .filter((actual) => !actual.itemId || !itemIds.has(actual.itemId))
+      .reduce((sum, actual) => sum + toAmount(actual), 0)
+    if (unassigned !== 0) {
+      rows.push({ itemId: null, label: `${group} (other)`, budget: 0, actual: unassigned, variance: unassigned })
+    }
+
+    const groupBudget = rows.reduce((sum, row) => sum + row.budget, 0)
+    const groupActual = rows.reduce((sum, row) => sum + row.actual, 0)
+    return { direction, group, budget: groupBudget, actual: groupActual, variance: groupActual - groupBudget, rows }
+  }
+
+  const result = [
+    ...groups.inflow.map((group) => getGroupVariance('inflow', group)),
+    ...groups.outflow.map((group) => getGroupVariance('outflow', group)),
+  ]
+  const sum = (direction: CashflowDirection, key: 'budget' | 'actual') =>
+    result.filter((group) => group.direction === direction).reduce((total, group) => total + group[key], 0)
+
+  return {
+    month,
+    groups: result,
+    budgetInflow: sum('inflow', 'budget'),
+    actualInflow: sum('inflow', 'actual'),
+    budgetOutflow: sum('outflow', 'budget'),
+    actualOutflow: sum('outflow', 'actual'),
+    hasActuals: monthActuals.length > 0,
+  }
+}
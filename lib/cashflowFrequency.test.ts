@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest'
+import { getAmountInMonth, getCashflowFrequency, getDueMonths, getMonthlyEquivalent, type CashflowSchedule } from './cashflowFrequency.js'
+
+describe('getMonthlyEquivalent', () => {
+  it('spreads the amount over the year by frequency', () => {
+    expect(getMonthlyEquivalent(100, {})).toBe(100)
+    expect(getMonthlyEquivalent(120, { frequency: 'weekly' })).toBeCloseTo(520)
+    expect(getMonthlyEquivalent(300, { frequency: 'quarterly' })).toBe(100)
+    expect(getMonthlyEquivalent(600, { frequency: 'semiannual' })).toBe(100)
+    expect(getMonthlyEquivalent(1200, { frequency: 'yearly' })).toBe(100)
+    expect(getMonthlyEquivalent(1200, { frequency: 'once', oneOffMonth: '2024-05' })).toBe(0)
+  })
+})
+
+describe('getDueMonths', () => {
+  it('repeats the first due month over the year in calendar order', () => {
+    expect(getDueMonths('quarterly', 2)).toEqual([2, 5, 8, 11])
+    expect(getDueMonths('semiannual', 9)).toEqual([3, 9])
+    expect(getDueMonths('yearly', 6)).toEqual([6])
+    expect(getDueMonths('monthly', 1)).toEqual([])
+  })
+})
+
+describe('getAmountInMonth', () => {
+  it('returns the monthly baseline for monthly and weekly items', () => {
+    expect(getAmountInMonth(100, {}, '2024-03')).toBe(100)
+    expect(getAmountInMonth(100, { frequency: 'monthly' }, '2024-03')).toBe(100)
+    expect(getAmountInMonth(120, { frequency: 'weekly' }, '2024-03')).toBeCloseTo(520)
+  })
+
+  it('returns the full amount in due months only', () => {
+    const schedule = { frequency: 'quarterly' as const, dueMonths: [1, 4, 7, 10] }
+    expect(getAmountInMonth(300, schedule, '2024-04')).toBe(300)
+    expect(getAmountInMonth(300, schedule, '2024-05')).toBe(0)
+    expect(getAmountInMonth(1200, { frequency: 'yearly', dueMonths: [12] }, '2024-12')).toBe(1200)
+    expect(getAmountInMonth(1200, { frequency: 'yearly', dueMonths: [12] }, '2024-11')).toBe(0)
+  })
+
+  it('falls back to the monthly baseline without valid due months', () => {
+    expect(getAmountInMonth(300, { frequency: 'quarterly' }, '2024-05')).toBe(100)
+    expect(getAmountInMonth(1200, { frequency: 'yearly', dueMonths: [0, 13] }, '2024-05')).toBe(100)
+  })
+
+  it('returns a one-off amount only in its month', () => {
+    const schedule = { frequency: 'once' as const, oneOffMonth: '2024-05' }
+    expect(getAmountInMonth(500, schedule, '2024-05')).toBe(500)
+    expect(getAmountInMonth(500, schedule, '2024-06')).toBe(0)
+  })
+
+  it('treats an unknown stored frequency as monthly', () => {
+    // Firestore data is untyped: a stored value outside CashflowFrequency reaches the fallback
+    const stored: CashflowSchedule = JSON.parse('{"frequency":"daily"}')
+    expect(getCashflowFrequency(stored)).toBe('monthly')
+    expect(getAmountInMonth(100, stored, '2024-05')).toBe(100)
+  })
+})
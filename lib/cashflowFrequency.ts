@@ -0,0 +1,83 @@
+/**
+ * Frequencies of cashflow items: monthly equivalents of weekly, quarterly, semi-annual, yearly and
+ * one-off amounts, and the amount that falls due in a given month.
+ * Shared by the client and Vercel API routes - must remain Node-safe.
+ */
+
+export type CashflowFrequency = 'weekly' | 'monthly' | 'quarterly' | 'semiannual' | 'yearly' | 'once'
+
+export const CASHFLOW_FREQUENCIES: CashflowFrequency[] = ['monthly', 'weekly', 'quarterly', 'semiannual', 'yearly', 'once']
+
+export const CASHFLOW_FREQUENCY_LABELS: Record<CashflowFrequency, string> = {
+  weekly: 'Weekly',
+  monthly: 'Monthly',
+  quarterly: 'Quarterly',
+  semiannual: 'Semi-annual',
+  yearly: 'Yearly',
+  once: 'One-off',
+}
+
+/** Schedule fields of a cashflow item; items without a frequency are monthly */
+export interface CashflowSchedule {
+  frequency?: CashflowFrequency | null
+  /** Calendar months (1-12) in which a quarterly, semi-annual or yearly amount is due */
+  dueMonths?: number[] | null
+  /** Month of a one-off amount (YYYY-MM) */
+  oneOffMonth?: string | null
+}
+
+const PAYMENTS_PER_YEAR: Record<CashflowFrequency, number> = {
+  weekly: 52,
+  monthly: 12,
+  quarterly: 4,
+  semiannual: 2,
+  yearly: 1,
+  once: 0,
+}
+
+export function getCashflowFrequency(schedule: CashflowSchedule): CashflowFrequency {
+  return schedule.frequency && schedule.frequency in PAYMENTS_PER_YEAR ? schedule.frequency : 'monthly'
+}
+
+/**
+ * Whether an item's amount changes from month to month (weekly amounts are spread evenly)
+ */
+export function isScheduledFrequency(frequency: CashflowFrequency): boolean {
+  return frequency === 'quarterly' || frequency === 'semiannual' || frequency === 'yearly' || frequency === 'once'
+}
+
+/**
+ * Due months of a quarterly, semi-annual or yearly amount from its first due month (1-12), in
+ * calendar order; empty for the other frequencies
+ */
+export function getDueMonths(frequency: CashflowFrequency, firstDueMonth: number): number[] {
+  if (frequency !== 'quarterly' && frequency !== 'semiannual' && frequency !== 'yearly') return []
+  const count = PAYMENTS_PER_YEAR[frequency]
+  const step = 12 / count
+  return Array.from({ length: count }, (_, i) => ((firstDueMonth - 1 + i * step) % 12) + 1).sort((a, b) => a - b)
+}
+
+function getValidDueMonths(schedule: CashflowSchedule): number[] {
+  return (schedule.dueMonths || []).filter((month) => Number.isInteger(month) && month >= 1 && month <= 12)
+}
+
+/**
+ * Average amount per month. One-off amounts are not part of the recurring monthly budget.
+ */
+export function getMonthlyEquivalent(amount: number, schedule: CashflowSchedule): number {
+  return (amount * PAYMENTS_PER_YEAR[getCashflowFrequency(schedule)]) / 12
+}
+
+/**
+ * Amount due in a month (YYYY-MM): the full amount in its due months (one-off: its month), the
+ * monthly equivalent for weekly and monthly items and for items without valid due months
+ */
+export function getAmountInMonth(amount: number, schedule: CashflowSchedule, month: string): number {
+  const frequency = getCashflowFrequency(schedule)
+  if (frequency === 'once') return schedule.oneOffMonth === month ? amount : 0
+  if (!isScheduledFrequency(frequency)) return getMonthlyEquivalent(amount, schedule)
+
+  const dueMonths = getValidDueMonths(schedule)
+  if (dueMonths.length === 0) return getMonthlyEquivalent(amount, schedule)
+  return dueMonths.includes(Number(month.slice(5, 7))) ? amount : 0
+}
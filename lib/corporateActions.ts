@@ -0,0 +1,206 @@
+/**
+ * Corporate actions (stock splits, reverse splits, ticker changes) attached to priced items,
+ * and the symbol alias map used for price lookups.
+ * Shared by the client and Vercel API routes - must remain Node-safe.
+ *
+ * Transactions are never rewritten: quantities and unit prices recorded before a split are
+ * rescaled when they are read (applyCorporateActions), so edits keep the original values.
+ */
+import type { NetWorthTransaction } from './types.js'
+
+/**
+ * SPLIT: every `from` units before the split become `to` units (4-for-1: from 1, to 4;
+ * 1-for-10 reverse split: from 10, to 1).
+ */
+export interface StockSplitAction {
+  id: string
+  type: 'SPLIT'
+  date: string // YYYY-MM-DD, effective at the start of the day
+  from: number
+  to: number
+}
+
+/**
+ * TICKER_CHANGE: the symbol used for price lookups changes (e.g. MATIC -> POL).
+ * The item is renamed to `toSymbol`; `fromSymbol` is kept for lookups before `date`.
+ */
+export interface TickerChangeAction {
+  id: string
+  type: 'TICKER_CHANGE'
+  date: string // YYYY-MM-DD
+  fromSymbol: string
+  toSymbol: string
+}
+
+export type CorporateAction = StockSplitAction | TickerChangeAction
+
+export type CorporateActionType = CorporateAction['type']
+
+/** Item shape needed to apply corporate actions */
+export interface CorporateActionItem {
+  id: string
+  name?: string
+  corporateActions?: CorporateAction[]
+}
+
+/**
+ * Known crypto rebrands, applied to every crypto price lookup (old symbol -> current symbol)
+ */
+export const BUILTIN_CRYPTO_SYMBOL_ALIASES: Record<string, string> = {
+  MATIC: 'POL',
+  RNDR: 'RENDER',
+  FTM: 'S',
+}
+
+function normalizeSymbol(symbol: string): string {
+  return symbol.trim().toUpperCase()
+}
+
+function toTimestamp(date: string): number {
+  return new Date(date).getTime()
+}
+
+export function isValidCorporateAction(action: unknown): action is CorporateAction {
+  if (!action || typeof action !== 'object') return false
+  const a = action as Partial<CorporateAction>
+  if (typeof a.id !== 'string' || typeof a.date !== 'string' || isNaN(toTimestamp(a.date))) return false
+  if (a.type === 'SPLIT') {
+    const split = a as Partial<StockSplitAction>
+    return (
+      typeof split.from === 'number' && split.from > 0 && Number.isFinite(split.from) &&
+      typeof split.to === 'number' && split.to > 0 && Number.isFinite(split.to) &&
+      split.from !== split.to
+    )
+  }
+  if (a.type === 'TICKER_CHANGE') {
+    const change = a as Partial<TickerChangeAction>
+    return (
+      typeof change.fromSymbol === 'string' && change.fromSymbol.trim() !== '' &&
+      typeof change.toSymbol === 'string' && change.toSymbol.trim() !== '' &&
+      normalizeSymbol(change.fromSymbol) !== normalizeSymbol(change.toSymbol)
+    )
+  }
+  return false
+}
+
+/**
+ * Valid corporate actions of an item, oldest first
+ */
+export function getCorporateActions(item?: Pick<CorporateActionItem, 'corporateActions'>): CorporateAction[] {
+  if (!item || !Array.isArray(item.corporateActions)) return []
+  return item.corporateActions
+    .filter(isValidCorporateAction)
+    .slice()
+    .sort((a, b) => toTimestamp(a.date) - toTimestamp(b.date))
+}
+
+/**
+ * Quantity multiplier for a transaction dated `txDate`: the product of `to / from` of every
+ * split after the transaction and on or before `asOf`.
+ */
+export function getSplitFactor(
+  item: Pick<CorporateActionItem, 'corporateActions'> | undefined,
+  txDate: string,
+  asOf: Date = new Date()
+): number {
+  const txTime = toTimestamp(txDate)
+  if (isNaN(txTime)) return 1
+  const asOfTime = asOf.getTime()
+
+  return getCorporateActions(item).reduce((factor, action) => {
+    if (action.type !== 'SPLIT') return factor
+    const splitTime = toTimestamp(action.date)
+    return txTime < splitTime && splitTime <= asOfTime ? factor * (action.to / action.from) : factor
+  }, 1)
+}
+
+/**
+ * Rescale the item's transactions for the splits in effect at `asOf`: quantities are multiplied
+ * by the split factor and unit prices divided by it, so transaction values stay unchanged.
+ * Transactions of other items are returned as-is. Returns the input array when nothing changes.
+ */
+export function applyCorporateActions<T extends Pick<NetWorthTransaction, 'itemId' | 'date' | 'amount' | 'pricePerItemChf' | 'pricePerItem'>>(
+  item: CorporateActionItem | undefined,
+  transactions: T[],
+  asOf: Date = new Date()
+): T[] {
+  if (!item || !transactions) return transactions
+  if (!getCorporateActions(item).some((action) => action.type === 'SPLIT')) return transactions
+
+  return transactions.map((tx) => {
+    if (tx.itemId !== item.id) return tx
+    const factor = getSplitFactor(item, tx.date, asOf)
+    if (factor === 1) return tx
+    return {
+      ...tx,
+      amount: tx.amount * factor,
+      pricePerItemChf: tx.pricePerItemChf / factor,
+      ...(typeof tx.pricePerItem === 'number' && { pricePerItem: tx.pricePerItem / factor }),
+    }
+  })
+}
+
+/**
+ * Symbol the item traded under on `date` (before a ticker change: the old symbol)
+ */
+export function getSymbolAtDate(item: Pick<CorporateActionItem, 'name' | 'corporateActions'>, date: Date = new Date()): string {
+  const time = date.getTime()
+  const changes = getCorporateActions(item).filter(
+    (action): action is TickerChangeAction => action.type === 'TICKER_CHANGE'
+  )
+  const nextChange = changes.find((change) => time < toTimestamp(change.date))
+  return normalizeSymbol(nextChange ? nextChange.fromSymbol : item.name || '')
+}
+
+/**
+ * Alias map (old symbol -> new symbol): `baseAliases` (e.g. BUILTIN_CRYPTO_SYMBOL_ALIASES) plus the
+ * ticker changes recorded on the given items
+ */
+export function buildSymbolAliasMap(
+  items: Array<Pick<CorporateActionItem, 'corporateActions'>> = [],
+  baseAliases: Record<string, string> = {}
+): Record<string, string> {
+  const aliases: Record<string, string> = { ...baseAliases }
+  for (const item of items) {
+    for (const action of getCorporateActions(item)) {
+      if (action.type === 'TICKER_CHANGE') {
+        aliases[normalizeSymbol(action.fromSymbol)] = normalizeSymbol(action.toSymbol)
+      }
+    }
+  }
+  return aliases
+}
+
+/**
+ * Follow the alias map to the current symbol (cycle-safe)
+ */
+export function resolveSymbol(symbol: string, aliases: Record<string, string>): string {
+  let current = normalizeSymbol(symbol)
+  const seen = new Set<string>([current])
+  while (aliases[current] && !seen.has(aliases[current])) {
+    current = aliases[current]
+    seen.add(current)
+  }
+  return current
+}
+
+/**
+ * Fetch prices for the resolved symbols and return them keyed by the requested symbols
+ * (and the resolved ones), so lookups by an old symbol keep working after a rebrand.
+ */
+export async function fetchPricesWithAliases<T = number>(
+  symbols: string[],
+  fetchPrices: (symbols: string[]) => Promise<Record<string, T>>,
+  aliases: Record<string, string>
+): Promise<Record<string, T>> {
+  const requested = [...new Set(symbols.map(normalizeSymbol))]
+  const resolved = [...new Set(requested.map((symbol) => resolveSymbol(symbol, aliases)))]
+  const prices = await fetchPrices(resolved)
+
+  const result: Record<string, T> = { ...prices }
+  for (const symbol of requested) {
+    const price = prices[resolveSymbol(symbol, aliases)]
+    if (price !== undefined) result[symbol] = price
+  }
+  return result
+}
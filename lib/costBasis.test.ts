@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest'
+import { calculateCostBasis } from './costBasis.js'
+import type { CorporateActionItem } from './corporateActions.js'
+import type { NetWorthTransaction } from './types.js'
+
+function tx(fields: Partial<NetWorthTransaction> & Pick<NetWorthTransaction, 'id' | 'itemId' | 'date' | 'amount'>): NetWorthTransaction {
+  return { side: 'buy', pricePerItemChf: 0, currency: 'USD', ...fields }
+}
+
+const buy = (id: string, date: string, amount: number, price: number) =>
+  tx({ id, itemId: 'a', date, amount, side: 'buy', cryptoType: 'BUY', pricePerItem: price })
+
+const sell = (id: string, date: string, amount: number, price: number) =>
+  tx({ id, itemId: 'a', date, amount, side: 'sell', cryptoType: 'SELL', pricePerItem: price })
+
+describe('calculateCostBasis', () => {
+  // 10 @ 100 and 10 @ 200, then 15 sold @ 300 (proceeds 4500)
+  const transactions = [
+    buy('b1', '2024-01-01', 10, 100),
+    buy('b2', '2024-02-01', 10, 200),
+    sell('s1', '2024-03-01', 15, 300),
+  ]
+
+  it('closes the oldest lots first with fifo', () => {
+    const result = calculateCostBasis('a', transactions, 'fifo')
+    expect(result.quantity).toBeCloseTo(5)
+    expect(result.costBasis).toBeCloseTo(1000)
+    expect(result.realizedPnl).toBeCloseTo(2500)
+    expect(result.openLots.map((lot) => lot.transactionId)).toEqual(['b2'])
+  })
+
+  it('closes the newest lots first with lifo', () => {
+    const result = calculateCostBasis('a', transactions, 'lifo')
+    expect(result.quantity).toBeCloseTo(5)
+    expect(result.costBasis).toBeCloseTo(500)
+    expect(result.realizedPnl).toBeCloseTo(2000)
+    expect(result.openLots.map((lot) => lot.transactionId)).toEqual(['b1'])
+  })
+
+  it('pools all lots at one cost with average', () => {
+    const result = calculateCostBasis('a', transactions, 'average')
+    expect(result.quantity).toBeCloseTo(5)
+    expect(result.averageCost).toBeCloseTo(150)
+    expect(result.costBasis).toBeCloseTo(750)
+    expect(result.realizedPnl).toBeCloseTo(2250)
+  })
+
+  it('applies a split on the source item to the lots moved by a later transfer', () => {
+    // 10 @ 100 on a, 2-for-1 split, then half of the 20 units moved to b
+    const source: CorporateActionItem = {
+      id: 'a',
+      name: 'AAPL',
+      corporateActions: [{ id: 'split', type: 'SPLIT', date: '2024-02-01', from: 1, to: 2 }],
+    }
+    const destination: CorporateActionItem = { id: 'b', name: 'AAPL' }
+    const items = [source, destination]
+    const withTransfer = [
+      buy('b1', '2024-01-01', 10, 100),
+      tx({ id: 'out', itemId: 'a', date: '2024-03-01', amount: 10, side: 'sell', cryptoType: 'TRANSFER_OUT', transferId: 't1', transferItemId: 'b' }),
+      tx({ id: 'in', itemId: 'b', date: '2024-03-01', amount: 10, side: 'buy', cryptoType: 'TRANSFER_IN', transferId: 't1', transferItemId: 'a' }),
+    ]
+
+    for (const method of ['fifo', 'lifo', 'average'] as const) {
+      const moved = calculateCostBasis('b', withTransfer, method, undefined, destination, items)
+      expect(moved.quantity).toBeCloseTo(10)
+      expect(moved.costBasis).toBeCloseTo(500)
+      expect(moved.averageCost).toBeCloseTo(50)
+      expect(moved.realizedPnl).toBeCloseTo(0)
+      expect(moved.openLots[0].date).toBe('2024-01-01')
+
+      const remaining = calculateCostBasis('a', withTransfer, method, undefined, source, items)
+      expect(remaining.quantity).toBeCloseTo(10)
+      expect(remaining.costBasis).toBeCloseTo(500)
+    }
+  })
+})
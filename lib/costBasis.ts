@@ -0,0 +1,324 @@
+/**
+ * Cost basis / lot tracking over NetWorthTransaction history.
+ * Shared by the client and Vercel API routes - must remain Node-safe.
+ *
+ * Costs are in CHF when a `convert` function is passed (same convention as
+ * calculateAveragePricePerItem), otherwise in the transaction's price currency
+ * (`pricePerItem`, falling back to `pricePerItemChf`).
+ */
+import type { CurrencyCode, NetWorthTransaction } from './types.js'
+import { applyCorporateActions, type CorporateActionItem } from './corporateActions.js'
+import { getTransactionQuantityDelta } from './balanceCalculation.js'
+import { getIncomeBreakdown, isFeeTransaction, isIncomeTransaction } from './incomeSummary.js'
+import { findTransferCounterpart, getTransferNetworkFee } from './transfers.js'
+
+/**
+ * fifo:    sells close the oldest open lots first
+ * lifo:    sells close the newest open lots first
+ * average: all open lots share one average cost (pooled)
+ */
+export type CostBasisMethod = 'fifo' | 'lifo' | 'average'
+
+export const COST_BASIS_METHODS: CostBasisMethod[] = ['fifo', 'lifo', 'average']
+
+export const DEFAULT_COST_BASIS_METHOD: CostBasisMethod = 'fifo'
+
+export const COST_BASIS_METHOD_LABELS: Record<CostBasisMethod, string> = {
+  fifo: 'FIFO (first in, first out)',
+  lifo: 'LIFO (last in, first out)',
+  average: 'Average cost',
+}
+
+export function isCostBasisMethod(value: unknown): value is CostBasisMethod {
+  return typeof value === 'string' && (COST_BASIS_METHODS as string[]).includes(value)
+}
+
+export interface CostBasisLot {
+  /** Transaction that opened the lot */
+  transactionId: string
+  date: string
+  /** Quantity originally acquired */
+  quantity: number
+  /** Quantity still open */
+  remainingQuantity: number
+  /** Cost per unit */
+  unitCost: number
+}
+
+export interface CostBasisResult {
+  method: CostBasisMethod
+  openLots: CostBasisLot[]
+  /** Open quantity (sum of remaining lot quantities) */
+  quantity: number
+  /** Cost of the open quantity */
+  costBasis: number
+  /** Average cost per open unit (0 when nothing is open) */
+  averageCost: number
+  /** Proceeds minus cost of all closed quantity, plus net income, minus fees */
+  realizedPnl: number
+  /** Net income (dividends, interest, staking rewards) included in realizedPnl */
+  income: number
+  /** Fees included in realizedPnl */
+  fees: number
+}
+
+export interface UnrealizedPnl {
+  unrealizedPnl: number
+  /** Percent of cost basis; null when the cost basis is 0 */
+  unrealizedPnlPct: number | null
+}
+
+const EPSILON = 1e-12
+
+function getSignedQuantity(tx: NetWorthTransaction): number {
+  const amount = Number(tx.amount)
+  if (!Number.isFinite(amount) || amount === 0) return 0
+  if (tx.cryptoType === 'BUY') return Math.abs(amount)
+  if (tx.cryptoType === 'SELL') return -Math.abs(amount)
+  return getTransactionQuantityDelta({ ...tx, amount })
+}
+
+function getUnitPrice(
+  tx: NetWorthTransaction,
+  convert?: (amount: number, from: CurrencyCode) => number
+): number | null {
+  const price = Number(tx.pricePerItem)
+  if (Number.isFinite(price) && price > 0) {
+    return convert && tx.currency ? convert(price, tx.currency as CurrencyCode) : price
+  }
+  const priceChf = Number(tx.pricePerItemChf)
+  if (Number.isFinite(priceChf) && priceChf > 0) return priceChf
+  return null
+}
+
+function sumLots(lots: CostBasisLot[]): { quantity: number; cost: number } {
+  return lots.reduce(
+    (acc, lot) => ({
+      quantity: acc.quantity + lot.remainingQuantity,
+      cost: acc.cost + lot.remainingQuantity * lot.unitCost,
+    }),
+    { quantity: 0, cost: 0 }
+  )
+}
+
+/**
+ * Close `quantity` units from the open lots according to the method.
+ * Returns the cost of the closed units and the closed slices (one per lot touched).
+ * Quantity beyond the open lots is ignored.
+ */
+function closeLots(
+  lots: CostBasisLot[],
+  quantity: number,
+  method: CostBasisMethod
+): { cost: number; closed: CostBasisLot[] } {
+  const closedSlices: CostBasisLot[] = []
+  const slice = (lot: CostBasisLot, closed: number) =>
+    closedSlices.push({ ...lot, quantity: closed, remainingQuantity: closed })
+
+  if (method === 'average') {
+    const { quantity: openQuantity, cost } = sumLots(lots)
+    if (openQuantity <= EPSILON) return { cost: 0, closed: [] }
+    const closed = Math.min(quantity, openQuantity)
+    const ratio = closed / openQuantity
+    lots.forEach((lot) => {
+      const closedQuantity = lot.remainingQuantity * ratio
+      if (closedQuantity > EPSILON) slice(lot, closedQuantity)
+      lot.remainingQuantity -= closedQuantity
+    })
+    return { cost: cost * ratio, closed: closedSlices }
+  }
+
+  let remaining = quantity
+  let closedCost = 0
+  const order = method === 'fifo' ? lots : lots.slice().reverse()
+  for (const lot of order) {
+    if (remaining <= EPSILON) break
+    if (lot.remainingQuantity <= EPSILON) continue
+    const closed = Math.min(remaining, lot.remainingQuantity)
+    slice(lot, closed)
+    lot.remainingQuantity -= closed
+    closedCost += closed * lot.unitCost
+    remaining -= closed
+  }
+  return { cost: closedCost, closed: closedSlices }
+}
+
+interface LotEngineOptions {
+  item?: CorporateActionItem
+  /** Items the lots of a transfer can come from (their splits apply to the moved lots) */
+  items?: CorporateActionItem[]
+  /** Stop after this transaction and return the lots it closed (used to move lots with a transfer) */
+  stopAtTransactionId?: string
+  /** Transfers already being resolved (guards against transfer cycles) */
+  visitedTransfers: Set<string>
+}
+
+interface LotEngineResult {
+  lots: CostBasisLot[]
+  realizedPnl: number
+  income: number
+  fees: number
+  /** Lots closed by `stopAtTransactionId` (transferred quantity only, without the network fee) */
+  stoppedAtLots: CostBasisLot[]
+}
+
+/**
+ * Rescale lots moved by a transfer to the quantity received (keeps the total cost)
+ */
+function scaleLots(lots: CostBasisLot[], quantity: number): CostBasisLot[] {
+  const total = lots.reduce((sum, lot) => sum + lot.remainingQuantity, 0)
+  if (total <= EPSILON) return []
+  const factor = quantity / total
+  return lots.map((lot) => ({
+    ...lot,
+    quantity: lot.remainingQuantity * factor,
+    remainingQuantity: lot.remainingQuantity * factor,
+    unitCost: lot.unitCost / factor,
+  }))
+}
+
+function runLotEngine(
+  itemId: string,
+  transactions: NetWorthTransaction[],
+  method: CostBasisMethod,
+  convert: ((amount: number, from: CurrencyCode) => number) | undefined,
+  options: LotEngineOptions
+): LotEngineResult {
+  const lots: CostBasisLot[] = []
+  let realizedPnl = 0
+  let income = 0
+  let fees = 0
+  let stoppedAtLots: CostBasisLot[] = []
+  const toTarget = (amount: number, tx: NetWorthTransaction) =>
+    convert && tx.currency ? convert(amount, tx.currency as CurrencyCode) : amount
+
+  const itemTransactions = applyCorporateActions(options.item, transactions || [])
+    .filter((tx) => tx.itemId === itemId)
+    .slice()
+    .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
+
+  for (const tx of itemTransactions) {
+    if (tx.cryptoType === 'TRANSFER_OUT') {
+      // Moved units close lots without realizing P&L; the network fee is a fee
+      const { closed } = closeLots(lots, Math.abs(Number(tx.amount) || 0), method)
+      fees += closeLots(lots, getTransferNetworkFee(tx), method).cost
+      if (tx.id === options.stopAtTransactionId) {
+        stoppedAtLots = closed
+        break
+      }
+      continue
+    }
+
+    if (tx.cryptoType === 'TRANSFER_IN') {
+      const quantity = Math.abs(Number(tx.amount) || 0)
+      const source = findTransferCounterpart(tx, transactions)
+      if (quantity > 0 && source && tx.transferId && !options.visitedTransfers.has(tx.transferId)) {
+        const moved = runLotEngine(source.itemId, transactions, method, convert, {
+          item: options.items?.find((candidate) => candidate.id === source.itemId),
+          items: options.items,
+          stopAtTransactionId: source.id,
+          visitedTransfers: new Set([...options.visitedTransfers, tx.transferId]),
+        }).stoppedAtLots
+        const movedLots = scaleLots(moved, quantity)
+        if (movedLots.length > 0) {
+          lots.push(...movedLots)
+          continue
+        }
+      }
+      // Source leg missing or without open lots: fall through and open a lot at the transfer price
+    }
+
+    if (isIncomeTransaction(tx)) {
+      income += toTarget(getIncomeBreakdown(tx).net, tx)
+    }
+    const signedQuantity = getSignedQuantity(tx)
+    if (signedQuantity === 0) {
+      if (isFeeTransaction(tx)) fees += toTarget(getIncomeBreakdown(tx).gross, tx)
+      continue
+    }
+    const unitPrice = getUnitPrice(tx, convert)
+
+    if (signedQuantity > 0) {
+      const { quantity, cost } = sumLots(lots)
+      const currentAverage = quantity > EPSILON ? cost / quantity : 0
+      lots.push({
+        transactionId: tx.id,
+        date: tx.date,
+        quantity: signedQuantity,
+        remainingQuantity: signedQuantity,
+        unitCost: unitPrice ?? currentAverage,
+      })
+      continue
+    }
+
+    const quantityToClose = Math.abs(signedQuantity)
+    const openQuantity = sumLots(lots).quantity
+    const closedQuantity = Math.min(quantityToClose, openQuantity)
+    const closedCost = closeLots(lots, quantityToClose, method).cost
+
+    if (isFeeTransaction(tx)) {
+      fees += closedCost
+    } else if (tx.cryptoType !== 'ADJUSTMENT' && closedQuantity > 0) {
+      realizedPnl += closedQuantity * (unitPrice ?? 0) - closedCost
+    }
+  }
+
+  return { lots, realizedPnl, income, fees, stoppedAtLots }
+}
+
+/**
+ * Build open lots, cost basis and realized P&L for one item.
+ *
+ * - BUY (or positive ADJUSTMENT) opens a lot at the transaction price. Adjustments without a
+ *   price open the lot at the current average cost.
+ * - SELL closes lots by the method and realizes proceeds minus cost.
+ * - Negative ADJUSTMENT closes lots without proceeds and does not realize P&L (corrections).
+ * - DIVIDEND / INTEREST / STAKING realize their net income. Units credited to the item
+ *   (staking rewards, interest on cash) open a lot at the price on receipt.
+ * - FEE realizes a loss: the cost of the units it takes from the item, or the fee amount
+ *   when it is paid in cash.
+ * - TRANSFER_OUT closes lots without realizing P&L; its network fee closes lots as a fee.
+ *   TRANSFER_IN takes over the lots closed by the matching TRANSFER_OUT (original cost and date).
+ * - Splits recorded on `item` rescale the quantities and prices of earlier transactions; splits
+ *   on the source item of a transfer (looked up in `items`) apply to the lots it moves.
+ */
+export function calculateCostBasis(
+  itemId: string,
+  transactions: NetWorthTransaction[],
+  method: CostBasisMethod = DEFAULT_COST_BASIS_METHOD,
+  convert?: (amount: number, from: CurrencyCode) => number,
+  item?: CorporateActionItem,
+  items?: CorporateActionItem[]
+): CostBasisResult {
+  const { lots, income, fees, ...engine } = runLotEngine(itemId, transactions, method, convert, {
+    item,
+    items,
+    visitedTransfers: new Set(),
+  })
+  const realizedPnl = engine.realizedPnl + income - fees
+
+  const openLots = lots.filter((lot) => lot.remainingQuantity > EPSILON)
+  const { quantity, cost } = sumLots(openLots)
+
+  return {
+    method,
+    openLots,
+    quantity,
+    costBasis: cost,
+    averageCost: quantity > EPSILON ? cost / quantity : 0,
+    realizedPnl,
+    income,
+    fees,
+  }
+}
+
+/**
+ * Unrealized P&L of the open position given its current market value (same currency as the cost basis)
+ */
+export function calculateUnrealizedPnl(costBasis: number, marketValue: number): UnrealizedPnl {
+  const unrealizedPnl = marketValue - costBasis
+  return {
+    unrealizedPnl,
+    unrealizedPnlPct: costBasis > 0 ? (unrealizedPnl / costBasis) * 100 : null,
+  }
+}
@@ -2,6 +2,7 @@
  * CryptoCompare API service for fetching cryptocurrency prices and exchange rates
  * Shared between client and serverless functions.
  */
+import { BUILTIN_CRYPTO_SYMBOL_ALIASES, fetchPricesWithAliases } from './corporateActions.js'
 
 /**
  * Normalize ticker symbol (uppercase, trim)
@@ -13,12 +14,20 @@ function normalizeTicker(ticker: string): string {
 /**
  * Fetch current USD prices for multiple cryptocurrencies
  * @param tickers - Array of cryptocurrency ticker symbols (e.g., ['BTC', 'ETH', 'SOL'])
+ * @param aliases - Old symbol -> current symbol (rebrands); prices are also returned under the old symbol
  * @returns Record mapping ticker to USD price, or empty object on error
  */
-export async function fetchCryptoPrices(tickers: string[]): Promise<Record<string, number>> {
+export async function fetchCryptoPrices(
+  tickers: string[],
+  aliases: Record<string, string> = BUILTIN_CRYPTO_SYMBOL_ALIASES
+): Promise<Record<string, number>> {
   if (tickers.length === 0) {
     return {}
   }
+  return fetchPricesWithAliases(tickers, fetchCryptoComparePrices, aliases)
+}
+
+async function fetchCryptoComparePrices(tickers: string[]): Promise<Record<string, number>> {
 
   try {
     // Normalize and deduplicate tickers
@@ -99,9 +108,161 @@ export async function fetchUsdToChfRate(): Promise<number | null> {
  * @returns Object with prices and usdToChfRate
  */
 export async function fetchCryptoData(
-  tickers: string[]
+  tickers: string[],
+  aliases?: Record<string, string>
 ): Promise<{ prices: Record<string, number>; usdToChfRate: number | null }> {
-  const [prices, usdToChfRate] = await Promise.all([fetchCryptoPrices(tickers), fetchUsdToChfRate()])
+  const [prices, usdToChfRate] = await Promise.all([fetchCryptoPrices(tickers, aliases), fetchUsdToChfRate()])
   return { prices, usdToChfRate }
 }
 
+
+/**
+ * Timestamp (seconds) CryptoCompare uses for the close of the UTC day `date` (YYYY-MM-DD), capped to now
+ */
+function getDayCloseTimestamp(date: string): number {
+  const end = Date.parse(`${date}T23:59:59Z`)
+  return Math.floor(Math.min(end, Date.now()) / 1000)
+}
+
+async function fetchCryptoCompareHistoricalPrice(ticker: string, ts: number): Promise<number | null> {
+  const response = await fetch(
+    `https://min-api.cryptocompare.com/data/pricehistorical?fsym=${encodeURIComponent(ticker)}&tsyms=USD&ts=${ts}`,
+    {
+      method: 'GET',
+      headers: {
+        Accept: 'application/json',
+      },
+    }
+  )
+
+  if (!response.ok) {
+    throw new Error(`CryptoCompare API returned ${response.status}`)
+  }
+
+  // CryptoCompare returns: { "BTC": { "USD": 50000 } }
+  const data = await response.json()
+  const price = data?.[ticker]?.USD
+  return typeof price === 'number' && price > 0 ? price : null
+}
+
+/**
+ * Fetch USD closes for multiple cryptocurrencies on a past day
+ * @param tickers - Array of cryptocurrency ticker symbols
+ * @param date - Day in YYYY-MM-DD format (UTC)
+ * @param aliases - Old symbol -> current symbol (rebrands)
+ * @returns Record mapping ticker to USD price (missing tickers are omitted)
+ */
+export async function fetchHistoricalCryptoPrices(
+  tickers: string[],
+  date: string,
+  aliases: Record<string, string> = BUILTIN_CRYPTO_SYMBOL_ALIASES
+): Promise<Record<string, number>> {
+  if (tickers.length === 0) {
+    return {}
+  }
+  const ts = getDayCloseTimestamp(date)
+  if (isNaN(ts)) {
+    return {}
+  }
+
+  return fetchPricesWithAliases(tickers, async (resolved) => {
+    const prices: Record<string, number> = {}
+    const settled = await Promise.allSettled(
+      [...new Set(resolved.map(normalizeTicker))].map(async (ticker) => ({
+        ticker,
+        price: await fetchCryptoCompareHistoricalPrice(ticker, ts),
+      }))
+    )
+
+    for (const entry of settled) {
+      if (entry.status === 'fulfilled' && entry.value.price !== null) {
+        prices[entry.value.ticker] = entry.value.price
+      } else {
+        console.warn('No historical USD price found:', entry.status === 'rejected' ? entry.reason : entry.value.ticker)
+      }
+    }
+
+    return prices
+  }, aliases)
+}
+
+/** CryptoCompare returns at most this many days per histoday request */
+const HISTODAY_MAX_DAYS = 2000
+
+async function fetchCryptoCompareDailySeries(
+  ticker: string,
+  toTs: number,
+  limit: number
+): Promise<Record<string, number>> {
+  const response = await fetch(
+    `https://min-api.cryptocompare.com/data/v2/histoday?fsym=${encodeURIComponent(ticker)}&tsym=USD&limit=${limit}&toTs=${toTs}`,
+    {
+      method: 'GET',
+      headers: {
+        Accept: 'application/json',
+      },
+    }
+  )
+
+  if (!response.ok) {
+    throw new Error(`CryptoCompare API returned ${response.status}`)
+  }
+
+  // CryptoCompare returns: { "Response": "Success", "Data": { "Data": [{ "time": 1700000000, "close": 50000, ... }] } }
+  const data = await response.json()
+  if (data?.Response === 'Error') {
+    throw new Error(data?.Message || 'CryptoCompare API error')
+  }
+  const series: Record<string, number> = {}
+  for (const entry of data?.Data?.Data || []) {
+    if (typeof entry?.time === 'number' && typeof entry?.close === 'number' && entry.close > 0) {
+      series[new Date(entry.time * 1000).toISOString().slice(0, 10)] = entry.close
+    }
+  }
+  return series
+}
+
+/**
+ * Fetch daily USD closes between two days with one request per ticker
+ * @param tickers - Array of cryptocurrency ticker symbols
+ * @param from - First day in YYYY-MM-DD format (UTC)
+ * @param to - Last day in YYYY-MM-DD format (UTC)
+ * @param aliases - Old symbol -> current symbol (rebrands)
+ * @returns Record mapping ticker to its closes keyed by day (missing tickers are omitted)
+ */
+export async function fetchHistoricalCryptoPriceSeries(
+  tickers: string[],
+  from: string,
+  to: string,
+  aliases: Record<string, string> = BUILTIN_CRYPTO_SYMBOL_ALIASES
+): Promise<Record<string, Record<string, number>>> {
+  if (tickers.length === 0) {
+    return {}
+  }
+  const toTs = getDayCloseTimestamp(to)
+  const fromTs = Date.parse(`${from}T00:00:00Z`) / 1000
+  if (isNaN(toTs) || isNaN(fromTs) || fromTs > toTs) {
+    return {}
+  }
+  const limit = Math.min(Math.ceil((toTs - fromTs) / (24 * 60 * 60)), HISTODAY_MAX_DAYS)
+
+  return fetchPricesWithAliases(tickers, async (resolved) => {
+    const series: Record<string, Record<string, number>> = {}
+    const settled = await Promise.allSettled(
+      [...new Set(resolved.map(normalizeTicker))].map(async (ticker) => ({
+        ticker,
+        series: await fetchCryptoCompareDailySeries(ticker, toTs, limit),
+      }))
+    )
+
+    for (const entry of settled) {
+      if (entry.status === 'fulfilled' && Object.keys(entry.value.series).length > 0) {
+        series[entry.value.ticker] = entry.value.series
+      } else {
+        console.warn('No historical USD closes found:', entry.status === 'rejected' ? entry.reason : entry.value.ticker)
+      }
+    }
+
+    return series
+  }, aliases)
+}
@@ -0,0 +1,223 @@
+/**
+ * FIRE / retirement projection: Monte Carlo paths of the invested assets from today to the end age,
+ * with monthly savings until retirement and inflation-indexed withdrawals after it.
+ * Shared by the client and Vercel API routes - must remain Node-safe.
+ */
+import type { NetWorthCategory } from './types.js'
+import { isLiabilityCategory } from './netWorthCalculation.js'
+
+export interface AssetClassAssumption {
+  /** Expected nominal return p.a. (0.05 = 5%) */
+  expectedReturn: number
+  /** Volatility of the annual return (0.15 = 15%) */
+  volatility: number
+}
+
+export type AssetClassAssumptions = Partial<Record<NetWorthCategory, AssetClassAssumption>>
+
+/** Long-run nominal assumptions per asset category, to be adjusted by the user */
+export const DEFAULT_ASSET_CLASS_ASSUMPTIONS: AssetClassAssumptions = {
+  Cash: { expectedReturn: 0, volatility: 0 },
+  'Bank Accounts': { expectedReturn: 0.01, volatility: 0.005 },
+  'Retirement Funds': { expectedReturn: 0.04, volatility: 0.08 },
+  'Index Funds': { expectedReturn: 0.07, volatility: 0.16 },
+  Stocks: { expectedReturn: 0.08, volatility: 0.2 },
+  Commodities: { expectedReturn: 0.04, volatility: 0.15 },
+  Crypto: { expectedReturn: 0.15, volatility: 0.7 },
+  Perpetuals: { expectedReturn: 0, volatility: 0.8 },
+  'Real Estate': { expectedReturn: 0.03, volatility: 0.1 },
+  'Depreciating Assets': { expectedReturn: -0.15, volatility: 0.05 },
+}
+
+export interface FireInputs {
+  /** Current value per category (one currency); liabilities and negative values are not simulated */
+  holdings: Partial<Record<NetWorthCategory, number>>
+  /** Per category; categories without an entry use DEFAULT_ASSET_CLASS_ASSUMPTIONS */
+  assumptions?: AssetClassAssumptions
+  /** Saved and invested per month until retirement, in today's money */
+  monthlySavings: number
+  /** Inflation p.a. (0.02 = 2%) */
+  inflation: number
+  /** Share of the assets at retirement withdrawn in the first year, then indexed to inflation (0.04 = 4%) */
+  withdrawalRate: number
+  currentAge: number
+  retirementAge: number
+  /** Assets must last until this age */
+  endAge: number
+  /** Number of simulated paths (default 1000) */
+  paths?: number
+  /** Seed of the random numbers; the same inputs and seed give the same result */
+  seed?: number
+}
+
+/** Distribution of the assets at an age, in today's money */
+export interface FirePercentiles {
+  age: number
+  p10: number
+  p25: number
+  p50: number
+  p75: number
+  p90: number
+}
+
+export interface FireSimulationResult {
+  /** Share of paths whose assets last until the end age */
+  successProbability: number
+  /** One entry per age from the current to the end age */
+  percentiles: FirePercentiles[]
+  /** Median assets and first-year withdrawal at retirement, in today's money */
+  medianAtRetirement: number
+  medianWithdrawal: number
+  /** Expected return and volatility p.a. of the simulated portfolio */
+  portfolioReturn: number
+  portfolioVolatility: number
+}
+
+const DEFAULT_PATHS = 1000
+const DEFAULT_SEED = 42
+const MAX_AGE = 120
+
+/**
+ * Problems that keep the inputs from being simulated (empty when valid)
+ */
+export function getFireInputErrors(inputs: FireInputs): string[] {
+  const errors: string[] = []
+  if (!(inputs.currentAge >= 0)) errors.push('Current age must not be negative')
+  if (!(inputs.retirementAge >= inputs.currentAge)) errors.push('Retirement age must not be below the current age')
+  if (!(inputs.endAge > inputs.retirementAge)) errors.push('End age must be above the retirement age')
+  if (!(inputs.endAge <= MAX_AGE)) errors.push(`End age must be at most ${MAX_AGE}`)
+  if (!(inputs.withdrawalRate >= 0 && inputs.withdrawalRate <= 1)) errors.push('Withdrawal rate must be between 0% and 100%')
+  if (!(inputs.inflation > -1)) errors.push('Inflation must be above -100%')
+  if (!Number.isFinite(inputs.monthlySavings)) errors.push('Monthly savings must be a number')
+  return errors
+}
+
+/**
+ * Categories simulated and their share of the invested assets
+ */
+export function getFireWeights(holdings: FireInputs['holdings']): Partial<Record<NetWorthCategory, number>> {
+  const entries = (Object.entries(holdings) as Array<[NetWorthCategory, number]>).filter(
+    ([category, value]) => !isLiabilityCategory(category) && value > 0
+  )
+  const total = entries.reduce((sum, [, value]) => sum + value, 0)
+  if (total <= 0) return {}
+  return Object.fromEntries(entries.map(([category, value]) => [category, value / total]))
+}
+
+/**
+ * Seeded uniform random numbers in [0, 1) (mulberry32)
+ */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+/**
+ * Standard normal random numbers (Box-Muller)
+ */
+function createNormal(random: () => number): () => number {
+  return () => {
+    const u = 1 - random()
+    const v = random()
+    return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v)
+  }
+}
+
+function getPercentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0
+  const index = (sorted.length - 1) * p
+  const lower = Math.floor(index)
+  const upper = Math.ceil(index)
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (index - lower)
+}
+
+/**
+ * Monte Carlo projection of the invested assets. The portfolio is rebalanced to today's category
+ * weights every year and the categories' returns are independent, so the portfolio's annual return
+ * is lognormal with the weighted expected return and volatility. Savings grow with inflation and are
+ * added at the end of each year before retirement; from retirement on the withdrawal is taken at the
+ * start of each year. A path fails when the assets run out before the end age.
+ */
+export function computeFireSimulation(inputs: FireInputs): FireSimulationResult {
+  const weights = getFireWeights(inputs.holdings)
+  const assumptions = { ...DEFAULT_ASSET_CLASS_ASSUMPTIONS, ...inputs.assumptions }
+  let portfolioReturn = 0
+  let portfolioVariance = 0
+  for (const [category, weight] of Object.entries(weights) as Array<[NetWorthCategory, number]>) {
+    const assumption = assumptions[category] ?? { expectedReturn: 0, volatility: 0 }
+    portfolioReturn += weight * assumption.expectedReturn
+    portfolioVariance += (weight * assumption.volatility) ** 2
+  }
+  const portfolioVolatility = Math.sqrt(portfolioVariance)
+
+  // Lognormal annual growth factor with the portfolio's mean and volatility
+  const logVariance = Math.log(1 + portfolioVariance / Math.max(1e-9, (1 + portfolioReturn) ** 2))
+  const logMean = Math.log(Math.max(1e-9, 1 + portfolioReturn)) - logVariance / 2
+  const logVolatility = Math.sqrt(logVariance)
+
+  const startValue = Object.entries(inputs.holdings)
+    .filter(([category, value]) => !isLiabilityCategory(category as NetWorthCategory) && (value ?? 0) > 0)
+    .reduce((sum, [, value]) => sum + (value ?? 0), 0)
+  const years = Math.max(0, Math.round(inputs.endAge - inputs.currentAge))
+  const yearsToRetirement = Math.max(0, Math.min(years, Math.round(inputs.retirementAge - inputs.currentAge)))
+  const paths = Math.max(1, Math.round(inputs.paths ?? DEFAULT_PATHS))
+  const normal = createNormal(createRandom(inputs.seed ?? DEFAULT_SEED))
+  const deflators = Array.from({ length: years + 1 }, (_, year) => Math.pow(1 + inputs.inflation, year))
+
+  // Real values per year (rows) and path (columns)
+  const valuesByYear: number[][] = Array.from({ length: years + 1 }, () => new Array<number>(paths))
+  const withdrawals: number[] = []
+  let successes = 0
+
+  for (let path = 0; path < paths; path++) {
+    let value = startValue
+    let withdrawal = 0
+    let depleted = false
+    valuesByYear[0][path] = value
+    for (let year = 0; year < years; year++) {
+      if (year === yearsToRetirement) {
+        if (value <= 0) depleted = true
+        withdrawal = value * inputs.withdrawalRate
+        withdrawals.push(withdrawal / deflators[year])
+      }
+      if (year >= yearsToRetirement) {
+        value -= withdrawal * Math.pow(1 + inputs.inflation, year - yearsToRetirement)
+      }
+      if (value > 0) value *= Math.exp(logMean + logVolatility * normal())
+      if (year < yearsToRetirement) value += inputs.monthlySavings * 12 * deflators[year + 1]
+      if (value <= 0) {
+        value = 0
+        if (year >= yearsToRetirement) depleted = true
+      }
+      valuesByYear[year + 1][path] = value / deflators[year + 1]
+    }
+    if (!depleted) successes++
+  }
+
+  const percentiles = valuesByYear.map((values, year) => {
+    const sorted = [...values].sort((a, b) => a - b)
+    return {
+      age: inputs.currentAge + year,
+      p10: getPercentile(sorted, 0.1),
+      p25: getPercentile(sorted, 0.25),
+      p50: getPercentile(sorted, 0.5),
+      p75: getPercentile(sorted, 0.75),
+      p90: getPercentile(sorted, 0.9),
+    }
+  })
+
+  return {
+    successProbability: successes / paths,
+    percentiles,
+    medianAtRetirement: percentiles[yearsToRetirement]?.p50 ?? 0,
+    medianWithdrawal: getPercentile([...withdrawals].sort((a, b) => a - b), 0.5),
+    portfolioReturn,
+    portfolioVolatility,
+  }
+}
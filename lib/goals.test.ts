@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest'
+import { getGoalGrowthRate, type Goal } from './goals.js'
+
+const convert = (amount: number) => amount
+
+describe('getGoalGrowthRate', () => {
+  it('measures net worth goals on snapshots without per-item detail', () => {
+    const goal: Goal = { id: 'g', name: 'FI', kind: 'fi', scope: 'netWorth', targetAmount: 1000000, currency: 'CHF', deadline: '2040-01-01' }
+    const items = [
+      { id: 'b', name: 'Bank', category: 'Bank Accounts' as const },
+      { id: 's', name: 'ACME', category: 'Stocks' as const },
+    ]
+    // One year: stocks 10000 -> 11000 without trades, 2000 of savings into the bank
+    const growth = getGoalGrowthRate(goal, items, {
+      snapshots: [{ date: '2023-01-01', categories: { 'Bank Accounts': 5000, Stocks: 10000 }, total: 15000 }],
+      points: [{ date: '2024-01-01', values: { b: { valueChf: 7000 }, s: { valueChf: 11000 } } }],
+      transactions: [],
+      items,
+      convert,
+    })
+    // (18000 - 15000 - 2000) / (15000 + 2000), savings count from the start of the step
+    expect(growth).toBeCloseTo(1000 / 17000, 6)
+  })
+})
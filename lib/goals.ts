@@ -0,0 +1,309 @@
+/**
+ * Financial goals (emergency fund, house down payment, FI number, ...) bound to items, platforms or
+ * the whole net worth: progress from the current valuation and a projected completion date from the
+ * monthly spare change and the historical growth of the goal's items.
+ * Shared by the client and Vercel API routes - must remain Node-safe.
+ */
+import type { CurrencyCode, NetWorthCategory } from './types.js'
+import { fromSnapshotItemEntry, type ItemValueChf, type SnapshotItems } from './snapshotItems.js'
+import { isLiabilityCategory } from './netWorthCalculation.js'
+import { attributePnl, getCategoryContributions } from './pnlAttribution.js'
+import { computeTwrSeries, getStepReturn, type ReturnsOptions, type ValuationPoint } from './performanceReturns.js'
+
+export type GoalKind = 'emergency-fund' | 'down-payment' | 'fi' | 'custom'
+
+export const GOAL_KINDS: GoalKind[] = ['emergency-fund', 'down-payment', 'fi', 'custom']
+
+export const GOAL_KIND_LABELS: Record<GoalKind, string> = {
+  'emergency-fund': 'Emergency Fund',
+  'down-payment': 'House Down Payment',
+  'fi': 'FI Number',
+  'custom': 'Custom',
+}
+
+/** What counts towards a goal: the whole net worth, selected items or all assets on selected platforms */
+export type GoalScope = 'netWorth' | 'items' | 'platforms'
+
+export interface Goal {
+  id: string
+  name: string
+  kind: GoalKind
+  scope: GoalScope
+  /** Items counted for scope 'items' */
+  itemIds?: string[]
+  /** Platform names counted for scope 'platforms' */
+  platforms?: string[]
+  targetAmount: number
+  currency: CurrencyCode
+  /** YYYY-MM-DD */
+  deadline: string
+  createdAt?: string
+  updatedAt?: string
+}
+
+/** Item fields needed to resolve a goal's scope */
+export interface GoalItem {
+  id: string
+  category: NetWorthCategory
+  platform?: string
+}
+
+export type GoalStatus = 'achieved' | 'on-track' | 'off-track'
+
+export interface GoalProgress {
+  goalId: string
+  currentValue: number
+  targetValue: number
+  /** currentValue / targetValue, capped at 1 */
+  progress: number
+  /** Spare change flowing into the goal per month */
+  monthlyContribution: number
+  /** Annual growth of the goal's items excluding contributions, null without enough history */
+  growthRate: number | null
+  /** Month in which the projection reaches the target (YYYY-MM-DD), null if not within the horizon */
+  projectedDate: string | null
+  /** Monthly contribution needed to reach the target by the deadline, null when the deadline has passed */
+  requiredMonthlyContribution: number | null
+  status: GoalStatus
+}
+
+export interface GoalContext {
+  items: GoalItem[]
+  /** Current value per item (one currency, e.g. the display currency; liabilities negative) */
+  itemValues: Record<string, Pick<ItemValueChf, 'valueChf'>>
+  /** Monthly spare change per platform name (same currency as itemValues) */
+  spareByPlatform: Record<string, number>
+  /** Monthly spare change of all platforms (inflows minus outflows) */
+  totalSpare: number
+  /** Target amount converted to the currency of itemValues */
+  convertTarget: (amount: number, from: CurrencyCode) => number
+  /** Annual growth per goal id (see getGoalGrowthRate) */
+  growthRates: Record<string, number | null>
+  /** Today (YYYY-MM-DD) */
+  today: string
+}
+
+/** Projections stop after this many months */
+const MAX_PROJECTION_MONTHS = 600
+
+/** Growth is measured over the last year of snapshots, and only from this much history on */
+const GROWTH_LOOKBACK_MONTHS = 12
+const MIN_GROWTH_HISTORY_DAYS = 90
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000
+
+function addMonths(date: string, months: number): string {
+  const [year, month, day] = date.split('-').map(Number)
+  const lastDay = new Date(Date.UTC(year, month - 1 + months + 1, 0)).getUTCDate()
+  return new Date(Date.UTC(year, month - 1 + months, Math.min(day, lastDay))).toISOString().slice(0, 10)
+}
+
+function getDays(from: string, to: string): number {
+  return (Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / MS_PER_DAY
+}
+
+/**
+ * Ids of the items counted for a goal; null = the whole net worth (liabilities included).
+ * Platform goals count the assets on the platforms (liabilities are not money on the platform).
+ */
+export function getGoalItemIds(goal: Goal, items: GoalItem[]): string[] | null {
+  if (goal.scope === 'netWorth') return null
+  if (goal.scope === 'items') {
+    const itemIds = new Set(goal.itemIds || [])
+    return items.filter((item) => itemIds.has(item.id)).map((item) => item.id)
+  }
+  const platforms = new Set(goal.platforms || [])
+  return items
+    .filter((item) => item.platform && platforms.has(item.platform) && !isLiabilityCategory(item.category))
+    .map((item) => item.id)
+}
+
+function sumValues(values: Record<string, Pick<ItemValueChf, 'valueChf'>>, itemIds: string[] | null): number {
+  const ids = itemIds ?? Object.keys(values)
+  return ids.reduce((sum, itemId) => sum + (values[itemId]?.valueChf || 0), 0)
+}
+
+/**
+ * Spare change flowing into a goal per month: all of it for the net worth, the platforms' spare
+ * change for platform goals, and for item goals each platform's spare change in proportion to the
+ * goal items' share of the assets on that platform.
+ */
+export function getGoalMonthlyContribution(goal: Goal, context: Pick<GoalContext, 'items' | 'itemValues' | 'spareByPlatform' | 'totalSpare'>): number {
+  if (goal.scope === 'netWorth') return context.totalSpare
+  if (goal.scope === 'platforms') {
+    return (goal.platforms || []).reduce((sum, platform) => sum + (context.spareByPlatform[platform] || 0), 0)
+  }
+
+  const goalItemIds = new Set(getGoalItemIds(goal, context.items))
+  let contribution = 0
+  for (const [platform, spare] of Object.entries(context.spareByPlatform)) {
+    const platformItems = context.items.filter((item) => item.platform === platform && !isLiabilityCategory(item.category))
+    const platformValue = platformItems.reduce((sum, item) => sum + Math.max(0, context.itemValues[item.id]?.valueChf || 0), 0)
+    if (platformValue <= 0) continue
+    const goalValue = platformItems
+      .filter((item) => goalItemIds.has(item.id))
+      .reduce((sum, item) => sum + Math.max(0, context.itemValues[item.id]?.valueChf || 0), 0)
+    contribution += spare * (goalValue / platformValue)
+  }
+  return contribution
+}
+
+/** Snapshot fields the growth of the whole net worth is computed from (CHF) */
+export interface GoalSnapshot {
+  date: string
+  categories: Partial<Record<NetWorthCategory, number>>
+  total: number
+  items?: SnapshotItems
+}
+
+export type GoalGrowthOptions = Omit<ReturnsOptions, 'periods'> & {
+  /** All snapshots, also those without per-item detail (growth of the whole net worth) */
+  snapshots: GoalSnapshot[]
+}
+
+/** Index of the last entry on or before `date`, else 0 (shorter history than the lookback) */
+function getLookbackStartIndex(entries: Array<{ date: string }>, date: string): number {
+  let index = 0
+  entries.forEach((entry, i) => {
+    if (entry.date <= date) index = i
+  })
+  return index
+}
+
+function annualize(twr: number | null | undefined, days: number): number | null {
+  if (twr === null || twr === undefined || twr <= -1) return null
+  return Math.pow(1 + twr, 365 / days) - 1
+}
+
+/**
+ * Time-weighted growth of the whole net worth from the category totals of all snapshots plus
+ * the last valuation point. Steps between points with per-item detail use attributePnl, the
+ * others the contributions known from category totals (see getCategoryContributions).
+ */
+function getNetWorthGrowthRate(options: GoalGrowthOptions): number | null {
+  const current = options.points[options.points.length - 1]
+  const categoryById = new Map(options.items.map((item) => [item.id, item.category]))
+  const currentCategories: Partial<Record<NetWorthCategory, number>> = {}
+  Object.entries(current.values).forEach(([itemId, value]) => {
+    const category = categoryById.get(itemId)
+    if (category) currentCategories[category] = (currentCategories[category] || 0) + value.valueChf
+  })
+
+  const history = options.snapshots
+    .filter((snapshot) => snapshot.date < current.date)
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .map((snapshot) => ({
+      date: snapshot.date,
+      categories: snapshot.categories,
+      total: snapshot.total,
+      values: snapshot.items
+        ? Object.fromEntries(Object.entries(snapshot.items).map(([itemId, entry]) => [itemId, fromSnapshotItemEntry(entry)]))
+        : undefined,
+    }))
+  const series = [
+    ...history.slice(getLookbackStartIndex(history, addMonths(current.date, -GROWTH_LOOKBACK_MONTHS))),
+    { date: current.date, categories: currentCategories, total: sumValues(current.values, null), values: current.values },
+  ]
+  if (series.length < 2) return null
+  const days = getDays(series[0].date, current.date)
+  if (days < MIN_GROWTH_HISTORY_DAYS) return null
+
+  let index = 1
+  for (let i = 1; i < series.length; i++) {
+    const previous = series[i - 1]
+    const next = series[i]
+    const period = { ...options, startDate: previous.date, endDate: next.date }
+    const contributions = previous.values && next.values
+      ? attributePnl({ ...period, start: previous.values, end: next.values }).contributions
+      : getCategoryContributions({ ...period, start: previous.categories, end: next.categories })
+    const stepReturn = getStepReturn({ startValue: previous.total, endValue: next.total, contributions })
+    if (stepReturn !== null) index *= 1 + stepReturn
+  }
+  return annualize(index - 1, days)
+}
+
+/**
+ * Annual growth of a goal over the last year, excluding contributions (time-weighted). Item and
+ * platform goals use the valuation points (see toValuationPoints), the whole net worth the
+ * category totals of all snapshots. Null with less than three months of history.
+ */
+export function getGoalGrowthRate(goal: Goal, items: GoalItem[], options: GoalGrowthOptions): number | null {
+  const itemIds = getGoalItemIds(goal, items)
+  if (itemIds !== null && itemIds.length === 0) return null
+  if (options.points.length === 0) return null
+  if (itemIds === null) return getNetWorthGrowthRate(options)
+  if (options.points.length < 2) return null
+
+  const endDate = options.points[options.points.length - 1].date
+  const startIndex = getLookbackStartIndex(options.points, addMonths(endDate, -GROWTH_LOOKBACK_MONTHS))
+  const ids = new Set(itemIds)
+  const points: ValuationPoint[] = options.points.slice(startIndex).map((point) => ({
+    date: point.date,
+    values: Object.fromEntries(Object.entries(point.values).filter(([itemId]) => ids.has(itemId))),
+  }))
+
+  const days = getDays(points[0].date, endDate)
+  if (days < MIN_GROWTH_HISTORY_DAYS) return null
+  const series = computeTwrSeries({ ...options, points })
+  return annualize(series[series.length - 1]?.twr, days)
+}
+
+/**
+ * Months until `value` reaches `target` with monthly compounding and contributions at month end;
+ * null if not within MAX_PROJECTION_MONTHS
+ */
+function getMonthsToTarget(value: number, target: number, monthlyContribution: number, monthlyRate: number): number | null {
+  let current = value
+  for (let month = 0; month <= MAX_PROJECTION_MONTHS; month++) {
+    if (current >= target) return month
+    current = current * (1 + monthlyRate) + monthlyContribution
+  }
+  return null
+}
+
+/**
+ * Monthly contribution that reaches `target` in `months` (future value of an annuity), at least 0
+ */
+function getRequiredContribution(value: number, target: number, months: number, monthlyRate: number): number {
+  const growth = Math.pow(1 + monthlyRate, months)
+  const shortfall = target - value * growth
+  if (shortfall <= 0) return 0
+  const annuityFactor = monthlyRate === 0 ? months : (growth - 1) / monthlyRate
+  return shortfall / annuityFactor
+}
+
+/**
+ * Progress, projected completion and status of a goal. A goal is off-track when the projection
+ * (current value growing at the historical rate plus the monthly spare change) reaches the target
+ * after the deadline or not at all.
+ */
+export function computeGoalProgress(goal: Goal, context: GoalContext): GoalProgress {
+  const currentValue = sumValues(context.itemValues, getGoalItemIds(goal, context.items))
+  const targetValue = context.convertTarget(goal.targetAmount, goal.currency)
+  const monthlyContribution = getGoalMonthlyContribution(goal, context)
+  const growthRate = context.growthRates[goal.id] ?? null
+  const monthlyRate = growthRate !== null ? Math.pow(1 + growthRate, 1 / 12) - 1 : 0
+
+  const monthsToTarget = getMonthsToTarget(currentValue, targetValue, monthlyContribution, monthlyRate)
+  const projectedDate = monthsToTarget !== null ? addMonths(context.today, monthsToTarget) : null
+  const monthsToDeadline = Math.floor(getDays(context.today, goal.deadline) / 30.44)
+
+  let status: GoalStatus
+  if (currentValue >= targetValue) status = 'achieved'
+  else if (projectedDate !== null && projectedDate <= goal.deadline) status = 'on-track'
+  else status = 'off-track'
+
+  return {
+    goalId: goal.id,
+    currentValue,
+    targetValue,
+    progress: targetValue > 0 ? Math.min(1, Math.max(0, currentValue / targetValue)) : 0,
+    monthlyContribution,
+    growthRate,
+    projectedDate,
+    requiredMonthlyContribution: monthsToDeadline >= 1
+      ? getRequiredContribution(currentValue, targetValue, monthsToDeadline, monthlyRate)
+      : null,
+    status,
+  }
+}
@@ -0,0 +1,122 @@
+/**
+ * Income (dividends, interest, staking rewards) and fee transactions.
+ * Shared by the client and Vercel API routes - must remain Node-safe.
+ *
+ * Amounts are in the transaction currency unless a `convert` function is passed,
+ * in which case they are converted (same convention as calculateCostBasis).
+ */
+import type { CurrencyCode, NetWorthTransaction } from './types.js'
+
+export type IncomeTransactionType = 'DIVIDEND' | 'INTEREST' | 'STAKING'
+
+export const INCOME_TRANSACTION_TYPES: IncomeTransactionType[] = ['DIVIDEND', 'INTEREST', 'STAKING']
+
+export const TRANSACTION_TYPE_LABELS: Record<IncomeTransactionType | 'FEE', string> = {
+  DIVIDEND: 'Dividend',
+  INTEREST: 'Interest',
+  STAKING: 'Staking reward',
+  FEE: 'Fee',
+}
+
+export function isIncomeTransaction(tx: Pick<NetWorthTransaction, 'cryptoType'>): boolean {
+  return (INCOME_TRANSACTION_TYPES as string[]).includes(tx.cryptoType as string)
+}
+
+export function isFeeTransaction(tx: Pick<NetWorthTransaction, 'cryptoType'>): boolean {
+  return tx.cryptoType === 'FEE'
+}
+
+/** Transaction fields used for income and fee amounts */
+type IncomeTransactionFields = Pick<
+  NetWorthTransaction,
+  'amount' | 'date' | 'currency' | 'cryptoType' | 'pricePerItem' | 'pricePerItemChf' | 'grossAmount' | 'withholdingTax' | 'netAmount'
+>
+
+export interface IncomeBreakdown {
+  gross: number
+  withholdingTax: number
+  net: number
+}
+
+function toNumber(value: unknown): number | null {
+  const n = Number(value)
+  return value !== undefined && value !== null && Number.isFinite(n) ? n : null
+}
+
+/**
+ * Gross / withholding tax / net of an income or fee transaction, in the transaction currency.
+ * Missing fields are derived from the others; without any of them the value falls back to
+ * amount * pricePerItem (e.g. staking rewards valued at the price on receipt).
+ */
+export function getIncomeBreakdown(tx: Omit<IncomeTransactionFields, 'date' | 'currency' | 'cryptoType'>): IncomeBreakdown {
+  const withholdingTax = Math.abs(toNumber(tx.withholdingTax) ?? 0)
+  let gross = toNumber(tx.grossAmount)
+  let net = toNumber(tx.netAmount)
+
+  if (gross === null && net !== null) gross = net + withholdingTax
+  if (gross === null) {
+    const price = toNumber(tx.pricePerItem) ?? toNumber(tx.pricePerItemChf) ?? 0
+    gross = Math.abs(tx.amount) * price
+  }
+  if (net === null) net = gross - withholdingTax
+
+  return { gross: Math.abs(gross), withholdingTax, net }
+}
+
+export interface IncomeSummaryYear {
+  year: number
+  dividends: number
+  interest: number
+  staking: number
+  /** Income before withholding tax */
+  grossIncome: number
+  withholdingTax: number
+  netIncome: number
+  fees: number
+}
+
+/**
+ * Sum income and fee transactions per calendar year (newest year first)
+ */
+export function calculateIncomeSummary(
+  transactions: IncomeTransactionFields[],
+  convert?: (amount: number, from: CurrencyCode) => number
+): IncomeSummaryYear[] {
+  const years = new Map<number, IncomeSummaryYear>()
+
+  for (const tx of transactions || []) {
+    if (!isIncomeTransaction(tx) && !isFeeTransaction(tx)) continue
+    const date = new Date(tx.date)
+    if (isNaN(date.getTime())) continue
+    const year = date.getFullYear()
+
+    const toTarget = (amount: number) =>
+      convert && tx.currency ? convert(amount, tx.currency as CurrencyCode) : amount
+    const { gross, withholdingTax, net } = getIncomeBreakdown(tx)
+
+    const entry = years.get(year) || {
+      year,
+      dividends: 0,
+      interest: 0,
+      staking: 0,
+      grossIncome: 0,
+      withholdingTax: 0,
+      netIncome: 0,
+      fees: 0,
+    }
+
+    if (isFeeTransaction(tx)) {
+      entry.fees += toTarget(gross)
+    } else {
+      if (tx.cryptoType === 'DIVIDEND') entry.dividends += toTarget(gross)
+      if (tx.cryptoType === 'INTEREST') entry.interest += toTarget(gross)
+      if (tx.cryptoType === 'STAKING') entry.staking += toTarget(gross)
+      entry.grossIncome += toTarget(gross)
+      entry.withholdingTax += toTarget(withholdingTax)
+      entry.netIncome += toTarget(net)
+    }
+    years.set(year, entry)
+  }
+
+  return Array.from(years.values()).sort((a, b) => b.year - a.year)
+}
@@ -0,0 +1,156 @@
+/**
+ * Mortgage / loan amortization schedules.
+ * Shared by the client and Vercel API routes - must remain Node-safe.
+ *
+ * Amounts are in the item's currency. Months are counted like depreciation:
+ * full calendar months elapsed since the schedule start date.
+ */
+
+export type LoanRateType = 'fixed' | 'saron'
+
+/**
+ * direct:   amortization payments reduce the outstanding principal every month.
+ * indirect: principal stays constant; the amortization amount is paid into a pillar 3a
+ *           account instead and used to repay the loan at the end of the term.
+ */
+export type LoanAmortizationType = 'direct' | 'indirect'
+
+export interface LoanSchedule {
+  /** Original principal in item currency */
+  principal: number
+  rateType: LoanRateType
+  /** Fixed: annual interest rate in percent. SARON: margin above SARON in percent */
+  ratePercent: number
+  /** SARON fixing in percent used for projections (SARON loans only) */
+  saronPercent?: number
+  /** First month of the schedule (YYYY-MM-DD) */
+  startDate: string
+  /** Term in months */
+  termMonths: number
+  amortizationType: LoanAmortizationType
+  /** Yearly amortization in item currency. Defaults to the principal spread evenly over the term */
+  annualAmortization?: number
+}
+
+export interface LoanMonthlyPayment {
+  interest: number
+  /** Direct amortization (reduces the outstanding balance) */
+  amortization: number
+  /** Indirect amortization paid into pillar 3a */
+  pillar3aContribution: number
+}
+
+export interface LoanScheduleRow extends LoanMonthlyPayment {
+  month: string // Format: "YYYY-MM"
+  openingBalance: number
+  closingBalance: number
+}
+
+function parseStartDate(schedule: LoanSchedule): Date | null {
+  const start = new Date(schedule.startDate)
+  return isNaN(start.getTime()) ? null : start
+}
+
+function monthsSinceStart(start: Date, date: Date): number {
+  return (date.getFullYear() - start.getFullYear()) * 12 + (date.getMonth() - start.getMonth())
+}
+
+/**
+ * Check that a schedule has the minimum fields needed for calculations
+ */
+export function isValidLoanSchedule(schedule: LoanSchedule | undefined | null): schedule is LoanSchedule {
+  if (!schedule) return false
+  return (
+    Number.isFinite(schedule.principal) &&
+    schedule.principal > 0 &&
+    Number.isFinite(schedule.ratePercent) &&
+    Number.isFinite(schedule.termMonths) &&
+    schedule.termMonths > 0 &&
+    parseStartDate(schedule) !== null
+  )
+}
+
+/**
+ * Effective annual interest rate in percent (SARON loans: SARON floored at 0 plus margin)
+ */
+export function getLoanAnnualRatePercent(schedule: LoanSchedule): number {
+  if (schedule.rateType === 'saron') {
+    const saron = Number.isFinite(schedule.saronPercent) ? (schedule.saronPercent as number) : 0
+    return Math.max(0, saron) + schedule.ratePercent
+  }
+  return schedule.ratePercent
+}
+
+/**
+ * Scheduled monthly amortization amount (direct or indirect)
+ */
+export function getMonthlyAmortization(schedule: LoanSchedule): number {
+  if (schedule.annualAmortization !== undefined && Number.isFinite(schedule.annualAmortization)) {
+    return Math.max(0, schedule.annualAmortization) / 12
+  }
+  return schedule.termMonths > 0 ? schedule.principal / schedule.termMonths : 0
+}
+
+/**
+ * Scheduled direct amortization accumulated up to (and excluding) the month of `asOf`
+ */
+export function getAccumulatedAmortization(schedule: LoanSchedule, asOf: Date = new Date()): number {
+  if (schedule.amortizationType !== 'direct') return 0
+  const start = parseStartDate(schedule)
+  if (!start) return 0
+  const months = Math.min(Math.max(0, monthsSinceStart(start, asOf)), schedule.termMonths)
+  return Math.min(schedule.principal, getMonthlyAmortization(schedule) * months)
+}
+
+/**
+ * Outstanding principal according to the schedule at `asOf` (never below 0)
+ */
+export function getScheduledLoanBalance(schedule: LoanSchedule, asOf: Date = new Date()): number {
+  return Math.max(0, schedule.principal - getAccumulatedAmortization(schedule, asOf))
+}
+
+/**
+ * Interest and amortization due in the month containing `monthDate`.
+ * Returns zeros before the start date and after the end of the term.
+ */
+export function getLoanPaymentForMonth(schedule: LoanSchedule, monthDate: Date): LoanMonthlyPayment {
+  const empty: LoanMonthlyPayment = { interest: 0, amortization: 0, pillar3aContribution: 0 }
+  const start = parseStartDate(schedule)
+  if (!start) return empty
+  const index = monthsSinceStart(start, monthDate)
+  if (index < 0 || index >= schedule.termMonths) return empty
+
+  const openingBalance = getScheduledLoanBalance(schedule, monthDate)
+  if (openingBalance <= 0) return empty
+
+  const interest = openingBalance * getLoanAnnualRatePercent(schedule) / 100 / 12
+  const monthlyAmortization = getMonthlyAmortization(schedule)
+
+  if (schedule.amortizationType === 'direct') {
+    return { interest, amortization: Math.min(openingBalance, monthlyAmortization), pillar3aContribution: 0 }
+  }
+  return { interest, amortization: 0, pillar3aContribution: monthlyAmortization }
+}
+
+/**
+ * Build the monthly schedule for `months` months starting at `fromDate`
+ */
+export function buildLoanSchedule(
+  schedule: LoanSchedule,
+  fromDate: Date = new Date(),
+  months: number = 12
+): LoanScheduleRow[] {
+  const rows: LoanScheduleRow[] = []
+  for (let i = 0; i < months; i++) {
+    const monthDate = new Date(fromDate.getFullYear(), fromDate.getMonth() + i, 1)
+    const openingBalance = getScheduledLoanBalance(schedule, monthDate)
+    const payment = getLoanPaymentForMonth(schedule, monthDate)
+    rows.push({
+      month: `${monthDate.getFullYear()}-${String(monthDate.getMonth() + 1).padStart(2, '0')}`,
+      openingBalance,
+      closingBalance: Math.max(0, openingBalance - payment.amortization),
+      ...payment,
+    })
+  }
+  return rows
+}
@@ -1,13 +1,32 @@
 import type { CurrencyCode, NetWorthCategory, NetWorthItem, NetWorthTransaction } from './types.js'
 import { calculateBalanceChf, calculateCoinAmount, calculateHoldings } from './balanceCalculation.js'
+import type { ItemValueChf } from './snapshotItems.js'
 
 export interface CategoryTotals {
   [category: string]: number
 }
 
 export interface NetWorthCalculationResult {
+  /** Per-category CHF totals. Liability categories are stored as negative values. */
   categoryTotals: Record<NetWorthCategory, number>
+  /** Net worth: gross assets minus liabilities. */
   totalNetWorthChf: number
+  /** Sum of all asset categories. */
+  grossAssetsChf: number
+  /** Outstanding debt across liability categories, as a positive number. */
+  totalLiabilitiesChf: number
+  /** Per-item CHF values keyed by item id (liabilities negative), with quantity and price for priced items and the FX rate of non-CHF items. */
+  itemValues: Record<string, ItemValueChf>
+}
+
+/**
+ * Categories that represent debt. Items are entered with a positive outstanding
+ * balance and subtract from net worth.
+ */
+export const LIABILITY_CATEGORIES: readonly NetWorthCategory[] = ['Mortgage', 'Loan', 'Credit Card']
+
+export function isLiabilityCategory(category: NetWorthCategory | string): boolean {
+  return (LIABILITY_CATEGORIES as readonly string[]).includes(category)
 }
 
 /**
@@ -41,19 +60,25 @@ export class NetWorthCalculationService {
       Perpetuals: 0,
       'Real Estate': 0,
       'Depreciating Assets': 0,
+      Mortgage: 0,
+      Loan: 0,
+      'Credit Card': 0,
     }
+    const itemValues: Record<string, ItemValueChf> = {}
 
     netWorthItems.forEach((item: NetWorthItem) => {
       let balance: number
+      let detail: Omit<ItemValueChf, 'valueChf'> = {}
 
       if (item.category === 'Crypto') {
         // For Crypto: use current price * coin amount, convert USD to CHF using CryptoCompare rate
-        const coinAmount = calculateCoinAmount(item.id, transactions)
+        const coinAmount = calculateCoinAmount(item.id, transactions, item)
         const ticker = (item.name || '').trim().toUpperCase()
         const currentPriceUsd = cryptoPrices[ticker] || 0
         if (currentPriceUsd > 0 && usdToChfRate !== null && usdToChfRate > 0) {
           const valueUsd = coinAmount * currentPriceUsd
           balance = valueUsd * usdToChfRate
+          detail = { quantity: coinAmount, price: currentPriceUsd, fxRate: usdToChfRate }
         } else {
           // Fallback: calculateBalanceChf returns USD for crypto, need to convert to CHF
           const balanceUsd = calculateBalanceChf(item.id, transactions, item, cryptoPrices, convert)
@@ -91,28 +116,50 @@ export class NetWorthCalculationService {
         }
       } else if (item.category === 'Index Funds' || item.category === 'Stocks' || item.category === 'Commodities') {
         // Index Funds, Stocks, Commodities: price is already in item.currency (CHF, USD, or EUR). No conversion to USD.
-        const holdings = calculateHoldings(item.id, transactions)
+        const holdings = calculateHoldings(item.id, transactions, item)
         const ticker = (item.name || '').trim().toUpperCase()
         const currentPrice = stockPrices[ticker] || 0
         if (currentPrice > 0) {
           const valueInItemCurrency = holdings * currentPrice
           balance = convert(valueInItemCurrency, (item.currency as CurrencyCode))
+          detail = { quantity: holdings, price: currentPrice, fxRate: convert(1, item.currency as CurrencyCode) }
         } else {
           balance = calculateBalanceChf(item.id, transactions, item, cryptoPrices, convert)
         }
       } else {
         balance = calculateBalanceChf(item.id, transactions, item, cryptoPrices, convert)
+        if (item.currency && item.currency !== 'CHF') {
+          detail = { fxRate: convert(1, item.currency as CurrencyCode) }
+        }
       }
 
       const validBalance = isNaN(balance) || !isFinite(balance) ? 0 : balance
-      categoryTotals[item.category] += validBalance
+      // Liabilities are recorded as a positive outstanding balance and subtract from net worth
+      const signedBalance = isLiabilityCategory(item.category) ? -validBalance : validBalance
+      categoryTotals[item.category] += signedBalance
+      itemValues[item.id] = { valueChf: signedBalance, ...detail }
+    })
+
+    let grossAssetsChf = 0
+    let totalLiabilitiesChf = 0
+    const categories = Object.keys(categoryTotals) as NetWorthCategory[]
+    categories.forEach((category) => {
+      const value = isNaN(categoryTotals[category]) ? 0 : categoryTotals[category]
+      if (isLiabilityCategory(category)) {
+        totalLiabilitiesChf -= value
+      } else {
+        grossAssetsChf += value
+      }
     })
 
-    const totalNetWorthChf = Object.values(categoryTotals).reduce((sum, val) => sum + (isNaN(val) ? 0 : val), 0)
+    const totalNetWorthChf = grossAssetsChf - totalLiabilitiesChf
 
     return {
       categoryTotals,
       totalNetWorthChf,
+      grossAssetsChf,
+      totalLiabilitiesChf,
+      itemValues,
     }
   }
 }
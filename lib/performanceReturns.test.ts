@@ -0,0 +1,121 @@
+import { describe, expect, it } from 'vitest'
+import {
+  computeReturns,
+  computeTwrSeries,
+  getFallbackValuationDates,
+  getStepReturn,
+  toValuationPoints,
+  xirr,
+  type ValuationPoint,
+} from './performanceReturns.js'
+import type { NetWorthTransaction } from './types.js'
+
+const convert = (amount: number) => amount
+const items = [{ id: 's', name: 'ACME', category: 'Stocks' as const }]
+
+const point = (date: string, quantity: number, price: number): ValuationPoint => ({
+  date,
+  values: { s: { valueChf: quantity * price, quantity, price, fxRate: 1 } },
+})
+
+describe('xirr', () => {
+  it('returns 10% for 1000 growing to 1100 in one year', () => {
+    const rate = xirr([
+      { date: '2023-01-01', amount: -1000 },
+      { date: '2024-01-01', amount: 1100 },
+    ])
+    expect(rate).toBeCloseTo(0.1, 6)
+  })
+
+  it('annualizes over two years', () => {
+    // 730 days = 2 years: 1000 * 1.1^2 = 1210
+    const rate = xirr([
+      { date: '2022-01-01', amount: -1000 },
+      { date: '2024-01-01', amount: 1210 },
+    ])
+    expect(rate).toBeCloseTo(0.1, 6)
+  })
+
+  it('solves a rate for several contributions', () => {
+    // The rate discounts all flows to a net present value of 0
+    const rate = xirr([
+      { date: '2023-01-01', amount: -1000 },
+      { date: '2023-07-02', amount: -1000 },
+      { date: '2024-01-01', amount: 2150 },
+    ])
+    expect(rate).not.toBeNull()
+    const years = (date: string) => (Date.parse(`${date}T00:00:00Z`) - Date.parse('2023-01-01T00:00:00Z')) / 86400000 / 365
+    const npv = -1000 - 1000 / Math.pow(1 + rate!, years('2023-07-02')) + 2150 / Math.pow(1 + rate!, years('2024-01-01'))
+    expect(npv).toBeCloseTo(0, 6)
+  })
+
+  it('returns null without both inflows and outflows', () => {
+    expect(xirr([{ date: '2023-01-01', amount: -1000 }, { date: '2024-01-01', amount: -100 }])).toBeNull()
+    expect(xirr([])).toBeNull()
+  })
+})
+
+describe('getStepReturn', () => {
+  it('counts money put in from the start of the step', () => {
+    expect(getStepReturn({ startValue: 1000, endValue: 2200, contributions: 1000 })).toBeCloseTo(0.1)
+  })
+
+  it('returns null without a positive base', () => {
+    expect(getStepReturn({ startValue: -500, endValue: -400, contributions: 0 })).toBeNull()
+  })
+})
+
+describe('computeTwrSeries', () => {
+  it('chains the step returns and removes contributions', () => {
+    // +10% to 110, then 10 more bought @ 110 and +10% again to 121
+    const points = [point('2024-01-01', 10, 100), point('2024-02-01', 10, 110), point('2024-03-01', 20, 121)]
+    const transactions: NetWorthTransaction[] = [{
+      id: 'b1',
+      itemId: 's',
+      date: '2024-02-15',
+      side: 'buy',
+      cryptoType: 'BUY',
+      amount: 10,
+      pricePerItem: 110,
+      pricePerItemChf: 110,
+      currency: 'CHF',
+    }]
+
+    const series = computeTwrSeries({ points, transactions, items, convert })
+    expect(series.map((entry) => entry.date)).toEqual(['2024-01-01', '2024-02-01', '2024-03-01'])
+    expect(series[0].twr).toBe(0)
+    expect(series[1].twr).toBeCloseTo(0.1)
+    expect(series[2].twr).toBeCloseTo(0.21)
+  })
+})
+
+describe('computeReturns', () => {
+  it('returns equal TWR and XIRR for one year without contributions', () => {
+    const points = [point('2023-01-01', 10, 100), point('2024-01-01', 10, 110)]
+    const result = computeReturns({ points, periods: ['ALL'], transactions: [], items, convert })
+    const all = result.ALL!
+    expect(all.portfolio.twr).toBeCloseTo(0.1)
+    expect(all.portfolio.xirr).toBeCloseTo(0.1, 6)
+    expect(all.portfolio.netContributions).toBe(0)
+    expect(all.byCategory.Stocks?.twr).toBeCloseTo(0.1)
+    expect(all.byItem.s.twr).toBeCloseTo(0.1)
+  })
+})
+
+describe('getFallbackValuationDates', () => {
+  it('returns the period starts without per-item detail and uses their fallback points', () => {
+    const snapshots = [
+      { date: '2023-01-01', timestamp: 0 },
+      { date: '2023-12-31', timestamp: 1 },
+      { date: '2024-01-15', timestamp: 2, items: { s: { v: 1050, q: 10, p: 105, fx: 1 } } },
+    ]
+    const dates = getFallbackValuationDates(snapshots, '2024-02-01', ['YTD', 'ALL'])
+    expect(dates).toEqual(['2023-01-01', '2023-12-31'])
+
+    const current = point('2024-02-01', 10, 110)
+    const points = toValuationPoints(snapshots, current, [point('2023-12-31', 10, 100)])
+    expect(points.map((p) => p.date)).toEqual(['2023-12-31', '2024-01-15', '2024-02-01'])
+    const result = computeReturns({ points, periods: ['YTD'], transactions: [], items, convert })
+    expect(result.YTD!.portfolio.twr).toBeCloseTo(0.1)
+  })
+})
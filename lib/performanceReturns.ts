@@ -0,0 +1,388 @@
+/**
+ * Time-weighted (TWR) and money-weighted (XIRR) returns per item, category and portfolio,
+ * from valuation points with per-item detail (snapshots, see snapshotItems.ts) and the
+ * contributions between them (see pnlAttribution.ts).
+ * Shared by the client and Vercel API routes - must remain Node-safe.
+ */
+import type { NetWorthCategory } from './types.js'
+import type { ItemValueChf, SnapshotWithItems } from './snapshotItems.js'
+import { fromSnapshotItemEntry } from './snapshotItems.js'
+import { attributePnl, type PnlAttribution, type PnlAttributionOptions } from './pnlAttribution.js'
+
+export type ReturnPeriod = '1M' | 'YTD' | '1Y' | 'ALL'
+
+export const RETURN_PERIODS: ReturnPeriod[] = ['1M', 'YTD', '1Y', 'ALL']
+
+export const RETURN_PERIOD_LABELS: Record<ReturnPeriod, string> = {
+  '1M': '1M',
+  YTD: 'YTD',
+  '1Y': '1Y',
+  ALL: 'Since inception',
+}
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000
+const XIRR_MAX_ITERATIONS = 100
+const XIRR_TOLERANCE = 1e-9
+
+/** Per-item values (CHF) on one day */
+export interface ValuationPoint {
+  date: string
+  values: Record<string, ItemValueChf>
+}
+
+/** Dated cash flow from the investor's view: money put in is negative, value taken out positive */
+export interface CashFlow {
+  date: string
+  amount: number
+}
+
+export interface PeriodReturns {
+  /** Time-weighted return over the period (0.05 = +5%), null without a usable start value */
+  twr: number | null
+  /** Money-weighted return, annualized (0.05 = +5% p.a.), null if it does not converge */
+  xirr: number | null
+  startDate: string
+  endDate: string
+  startValue: number
+  endValue: number
+  netContributions: number
+}
+
+export interface PerformanceReturns {
+  portfolio: PeriodReturns
+  byCategory: Partial<Record<NetWorthCategory, PeriodReturns>>
+  byItem: Record<string, PeriodReturns>
+}
+
+export type ReturnsOptions = Omit<PnlAttributionOptions, 'start' | 'end' | 'startDate' | 'endDate'> & {
+  /** Valuation points in ascending date order (see toValuationPoints) */
+  points: ValuationPoint[]
+  periods: ReturnPeriod[]
+}
+
+/**
+ * Valuation points of the snapshots with per-item detail, followed by `current` (e.g. the live
+ * valuation), which replaces a snapshot of the same day. Snapshots without per-item detail use the
+ * `fallback` point of the same day (see getFallbackValuationDates) and are skipped without one.
+ */
+export function toValuationPoints(
+  snapshots: SnapshotWithItems[],
+  current?: ValuationPoint,
+  fallback: ValuationPoint[] = []
+): ValuationPoint[] {
+  const fallbackByDate = new Map(fallback.map((point) => [point.date, point]))
+  const points: ValuationPoint[] = []
+  snapshots
+    .filter((snapshot) => !current || snapshot.date < current.date)
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .forEach((snapshot) => {
+      if (!snapshot.items) {
+        const point = fallbackByDate.get(snapshot.date)
+        if (point) points.push(point)
+        return
+      }
+      const values: Record<string, ItemValueChf> = {}
+      Object.entries(snapshot.items).forEach(([itemId, entry]) => {
+        values[itemId] = fromSnapshotItemEntry(entry)
+      })
+      points.push({ date: snapshot.date, values })
+    })
+  return current ? [...points, current] : points
+}
+
+/**
+ * Days of the snapshots starting the periods ending on `endDate` (the last snapshot on or before
+ * the period start, else the first one) that have no per-item detail - the days to value from
+ * transactions and historical prices instead
+ */
+export function getFallbackValuationDates(
+  snapshots: SnapshotWithItems[],
+  endDate: string,
+  periods: ReturnPeriod[]
+): string[] {
+  const sorted = snapshots.filter((snapshot) => snapshot.date < endDate).sort((a, b) => a.date.localeCompare(b.date))
+  if (sorted.length === 0) return []
+  const dates = new Set<string>()
+  periods.forEach((period) => {
+    const start = getReturnPeriodStart(period, endDate)
+    const boundary = (start !== null && [...sorted].reverse().find((snapshot) => snapshot.date <= start)) || sorted[0]
+    if (!boundary.items) dates.add(boundary.date)
+  })
+  return Array.from(dates).sort()
+}
+
+function shiftDate(date: string, months: number): string {
+  const [year, month, day] = date.split('-').map(Number)
+  // Day 0 of the following month clamps e.g. Mar 31 -> Feb 28
+  const lastDay = new Date(Date.UTC(year, month - 1 + months + 1, 0)).getUTCDate()
+  return new Date(Date.UTC(year, month - 1 + months, Math.min(day, lastDay))).toISOString().slice(0, 10)
+}
+
+/**
+ * Start day of a period ending on `endDate` (YYYY-MM-DD); null = since inception.
+ * YTD starts on Dec 31 of the previous year (the last close of that year).
+ */
+export function getReturnPeriodStart(period: ReturnPeriod, endDate: string): string | null {
+  switch (period) {
+    case '1M':
+      return shiftDate(endDate, -1)
+    case '1Y':
+      return shiftDate(endDate, -12)
+    case 'YTD':
+      return `${Number(endDate.slice(0, 4)) - 1}-12-31`
+    default:
+      return null
+  }
+}
+
+/**
+ * Index of the first point of a period: the last point on or before the start day,
+ * else the first point (shorter history than the period)
+ */
+function getPeriodStartIndex(points: ValuationPoint[], period: ReturnPeriod): number {
+  const start = getReturnPeriodStart(period, points[points.length - 1].date)
+  if (start === null) return 0
+  let index = 0
+  points.forEach((point, i) => {
+    if (point.date <= start) index = i
+  })
+  return index
+}
+
+function getYears(from: string, to: string): number {
+  return (Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / MS_PER_DAY / 365
+}
+
+/**
+ * Annualized money-weighted return of dated cash flows (Newton's method, bisection as fallback).
+ * Returns null without both inflows and outflows or when no rate is found.
+ */
+export function xirr(flows: CashFlow[]): number | null {
+  const nonZero = flows.filter((flow) => flow.amount !== 0 && Number.isFinite(flow.amount))
+  if (!nonZero.some((flow) => flow.amount > 0) || !nonZero.some((flow) => flow.amount < 0)) return null
+
+  const first = nonZero.reduce((min, flow) => (flow.date < min ? flow.date : min), nonZero[0].date)
+  const terms = nonZero.map((flow) => ({ years: getYears(first, flow.date), amount: flow.amount }))
+  if (!terms.some((term) => term.years > 0)) return null
+
+  const npv = (rate: number) => terms.reduce((sum, term) => sum + term.amount / Math.pow(1 + rate, term.years), 0)
+  const derivative = (rate: number) =>
+    terms.reduce((sum, term) => sum - (term.years * term.amount) / Math.pow(1 + rate, term.years + 1), 0)
+
+  let rate = 0.1
+  for (let i = 0; i < XIRR_MAX_ITERATIONS; i++) {
+    const value = npv(rate)
+    const slope = derivative(rate)
+    if (!Number.isFinite(value) || !Number.isFinite(slope) || slope === 0) break
+    const next = rate - value / slope
+    if (!Number.isFinite(next) || next <= -1) break
+    if (Math.abs(next - rate) < XIRR_TOLERANCE) return next
+    rate = next
+  }
+
+  // Bisection between -99.99% and +1,000,000% p.a.
+  let low = -0.9999
+  let high = 10000
+  let lowValue = npv(low)
+  if (!Number.isFinite(lowValue) || Math.sign(lowValue) === Math.sign(npv(high))) return null
+  for (let i = 0; i < 200; i++) {
+    const mid = (low + high) / 2
+    const midValue = npv(mid)
+    if (Math.abs(high - low) < XIRR_TOLERANCE) return mid
+    if (Math.sign(midValue) === Math.sign(lowValue)) {
+      low = mid
+      lowValue = midValue
+    } else {
+      high = mid
+    }
+  }
+  return (low + high) / 2
+}
+
+export interface ReturnStep {
+  startValue: number
+  endValue: number
+  contributions: number
+}
+
+interface ReturnsAccumulator {
+  growth: number
+  hasReturn: boolean
+  flows: CashFlow[]
+  startValue: number
+  endValue: number
+  netContributions: number
+}
+
+/**
+ * Return of one step between two points. Money put in counts from the start of the step, money
+ * taken out until its end (a full sale or a new position is not diluted); null without a positive
+ * base (e.g. liabilities).
+ */
+export function getStepReturn(step: ReturnStep): number | null {
+  const base = step.startValue + Math.max(step.contributions, 0)
+  return base > 0 ? (step.endValue - step.startValue - step.contributions) / base : null
+}
+
+function addStep(
+  accumulator: ReturnsAccumulator,
+  isFirstStep: boolean,
+  startDate: string,
+  endDate: string,
+  step: ReturnStep
+): void {
+  const { startValue, endValue, contributions } = step
+  if (isFirstStep) {
+    accumulator.startValue = startValue
+    if (startValue !== 0) accumulator.flows.push({ date: startDate, amount: -startValue })
+  }
+  const stepReturn = getStepReturn(step)
+  if (stepReturn !== null) {
+    accumulator.growth *= 1 + stepReturn
+    accumulator.hasReturn = true
+  }
+  if (contributions !== 0) accumulator.flows.push({ date: contributions > 0 ? startDate : endDate, amount: -contributions })
+  accumulator.netContributions += contributions
+  accumulator.endValue = endValue
+}
+
+function toPeriodReturns(accumulator: ReturnsAccumulator, startDate: string, endDate: string): PeriodReturns {
+  const flows = accumulator.endValue !== 0
+    ? [...accumulator.flows, { date: endDate, amount: accumulator.endValue }]
+    : accumulator.flows
+  return {
+    twr: accumulator.hasReturn ? accumulator.growth - 1 : null,
+    xirr: xirr(flows),
+    startDate,
+    endDate,
+    startValue: accumulator.startValue,
+    endValue: accumulator.endValue,
+    netContributions: accumulator.netContributions,
+  }
+}
+
+/**
+ * TWR and XIRR per period for the portfolio, each category and each item. Contributions between
+ * consecutive points come from attributePnl (transactions; balance changes of cash, bank accounts
+ * and liabilities) and are dated at the start (in) or end (out) of their step, so the accuracy
+ * follows the snapshot interval.
+ */
+export function computeReturns(options: ReturnsOptions): Partial<Record<ReturnPeriod, PerformanceReturns>> {
+  const { points, periods, ...attributionOptions } = options
+  const result: Partial<Record<ReturnPeriod, PerformanceReturns>> = {}
+  if (points.length < 2) return result
+
+  // One attribution per step, shared by all periods
+  const steps: PnlAttribution[] = []
+  for (let i = 1; i < points.length; i++) {
+    steps.push(attributePnl({
+      ...attributionOptions,
+      start: points[i - 1].values,
+      end: points[i].values,
+      startDate: points[i - 1].date,
+      endDate: points[i].date,
+    }))
+  }
+
+  const newAccumulator = (): ReturnsAccumulator => ({
+    growth: 1,
+    hasReturn: false,
+    flows: [],
+    startValue: 0,
+    endValue: 0,
+    netContributions: 0,
+  })
+
+  for (const period of periods) {
+    const startIndex = getPeriodStartIndex(points, period)
+    if (startIndex >= points.length - 1) continue
+
+    const portfolio = newAccumulator()
+    const byCategory: Partial<Record<NetWorthCategory, ReturnsAccumulator>> = {}
+    const byItem: Record<string, ReturnsAccumulator> = {}
+
+    for (let i = startIndex; i < steps.length; i++) {
+      const step = steps[i]
+      const isFirstStep = i === startIndex
+      const stepStart = points[i].date
+      const stepEnd = points[i + 1].date
+      addStep(portfolio, isFirstStep, stepStart, stepEnd, {
+        startValue: step.startValue,
+        endValue: step.endValue,
+        contributions: step.contributions,
+      })
+
+      const categorySteps: Partial<Record<NetWorthCategory, ReturnStep>> = {}
+      for (const item of step.items) {
+        const itemAccumulator = byItem[item.itemId] || (byItem[item.itemId] = newAccumulator())
+        // Items first held within the period start at 0
+        addStep(itemAccumulator, isFirstStep, stepStart, stepEnd, item)
+        if (!item.category) continue
+        const categoryStep = categorySteps[item.category] || { startValue: 0, endValue: 0, contributions: 0 }
+        categoryStep.startValue += item.startValue
+        categoryStep.endValue += item.endValue
+        categoryStep.contributions += item.contributions
+        categorySteps[item.category] = categoryStep
+      }
+      for (const [category, categoryStep] of Object.entries(categorySteps) as Array<[NetWorthCategory, ReturnStep]>) {
+        const categoryAccumulator = byCategory[category] || (byCategory[category] = newAccumulator())
+        addStep(categoryAccumulator, isFirstStep, stepStart, stepEnd, categoryStep)
+      }
+    }
+
+    const startDate = points[startIndex].date
+    const endDate = points[points.length - 1].date
+    const categoryReturns: PerformanceReturns['byCategory'] = {}
+    Object.entries(byCategory).forEach(([category, accumulator]) => {
+      if (accumulator) categoryReturns[category as NetWorthCategory] = toPeriodReturns(accumulator, startDate, endDate)
+    })
+    const itemReturns: PerformanceReturns['byItem'] = {}
+    Object.entries(byItem).forEach(([itemId, accumulator]) => {
+      itemReturns[itemId] = toPeriodReturns(accumulator, startDate, endDate)
+    })
+    result[period] = {
+      portfolio: toPeriodReturns(portfolio, startDate, endDate),
+      byCategory: categoryReturns,
+      byItem: itemReturns,
+    }
+  }
+  return result
+}
+
+/**
+ * Cumulative portfolio TWR from the first point to each point (0 at the first point,
+ * null until a step has a positive base)
+ */
+export function computeTwrSeries(options: Omit<ReturnsOptions, 'periods'>): Array<{ date: string; twr: number | null }> {
+  const { points, ...attributionOptions } = options
+  if (points.length === 0) return []
+
+  let growth = 1
+  let hasReturn = false
+  const series: Array<{ date: string; twr: number | null }> = [{ date: points[0].date, twr: 0 }]
+  for (let i = 1; i < points.length; i++) {
+    const step = attributePnl({
+      ...attributionOptions,
+      start: points[i - 1].values,
+      end: points[i].values,
+      startDate: points[i - 1].date,
+      endDate: points[i].date,
+    })
+    const stepReturn = getStepReturn(step)
+    if (stepReturn !== null) {
+      growth *= 1 + stepReturn
+      hasReturn = true
+    }
+    series.push({ date: points[i].date, twr: hasReturn ? growth - 1 : null })
+  }
+  return series
+}
+
+/**
+ * Signed percentage with one decimal ("+5.2%"), "–" when not available
+ */
+export function formatReturnPct(value: number | null | undefined): string {
+  if (value === null || value === undefined || !Number.isFinite(value)) return '–'
+  const pct = value * 100
+  return `${pct >= 0 ? '+' : ''}${pct.toFixed(1)}%`
+}
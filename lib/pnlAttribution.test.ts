@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest'
+import { attributePnl, getCategoryContributions } from './pnlAttribution.js'
+import type { NetWorthTransaction } from './types.js'
+
+const convert = (amount: number) => amount
+
+function adjustment(id: string, itemId: string, amount: number): NetWorthTransaction {
+  return { id, itemId, date: '2024-01-15', side: amount > 0 ? 'buy' : 'sell', cryptoType: 'ADJUSTMENT', amount, pricePerItemChf: 0, pricePerItem: 0, currency: 'CHF' }
+}
+
+describe('attributePnl', () => {
+  const options = {
+    startDate: '2024-01-01',
+    endDate: '2024-01-31',
+    convert,
+  }
+
+  it('counts a deposit adjustment on an item without a price as a contribution', () => {
+    // Retirement fund 10000 -> 11000 with a 1000 deposit entered as adjustment
+    const result = attributePnl({
+      ...options,
+      start: { r: { valueChf: 10000 } },
+      end: { r: { valueChf: 11000 } },
+      transactions: [adjustment('a1', 'r', 1000)],
+      items: [{ id: 'r', name: 'Pillar 3a', category: 'Retirement Funds' }],
+    })
+    expect(result.contributions).toBeCloseTo(1000)
+    expect(result.priceEffect).toBeCloseTo(0)
+  })
+
+  it('values a deposit adjustment on a priced item at the end price', () => {
+    // 10 -> 12 units at 100 -> 110: 2 units deposited (220), the rest is price effect
+    const result = attributePnl({
+      ...options,
+      start: { s: { valueChf: 1000, quantity: 10, price: 100, fxRate: 1 } },
+      end: { s: { valueChf: 1320, quantity: 12, price: 110, fxRate: 1 } },
+      transactions: [adjustment('a1', 's', 2)],
+      items: [{ id: 's', name: 'ACME', category: 'Stocks' }],
+    })
+    expect(result.contributions).toBeCloseTo(220)
+    expect(result.priceEffect).toBeCloseTo(100)
+  })
+
+  it('keeps negative adjustments in the price effect', () => {
+    const result = attributePnl({
+      ...options,
+      start: { s: { valueChf: 1000, quantity: 10, price: 100, fxRate: 1 } },
+      end: { s: { valueChf: 900, quantity: 9, price: 100, fxRate: 1 } },
+      transactions: [adjustment('a1', 's', -1)],
+      items: [{ id: 's', name: 'ACME', category: 'Stocks' }],
+    })
+    expect(result.contributions).toBe(0)
+    expect(result.priceEffect).toBeCloseTo(-100)
+  })
+})
+
+describe('getCategoryContributions', () => {
+  it('counts bank balance changes and purchases as contributions', () => {
+    // 500 of savings paid into the bank, 1000 of it used to buy 10 units at 100: bank 5000 -> 4500
+    const buy: NetWorthTransaction = {
+      id: 't1', itemId: 's', date: '2024-01-15', side: 'buy', cryptoType: 'BUY', amount: 10, pricePerItemChf: 100, pricePerItem: 100, currency: 'CHF',
+    }
+    const contributions = getCategoryContributions({
+      startDate: '2024-01-01',
+      endDate: '2024-01-31',
+      convert,
+      start: { 'Bank Accounts': 5000, Stocks: 2000 },
+      end: { 'Bank Accounts': 4500, Stocks: 3300 },
+      transactions: [buy],
+      items: [
+        { id: 'b', name: 'Bank', category: 'Bank Accounts' },
+        { id: 's', name: 'ACME', category: 'Stocks' },
+      ],
+    })
+    expect(contributions).toBeCloseTo(500)
+  })
+})
@@ -0,0 +1,208 @@
+/**
+ * PnL attribution between two points with per-item detail (see snapshotItems.ts): splits the change
+ * of each item into net contributions, price effect and FX effect.
+ * Shared by the client and Vercel API routes - must remain Node-safe.
+ */
+import type { CurrencyCode, NetWorthCategory, NetWorthTransaction } from './types.js'
+import type { ItemValueChf } from './snapshotItems.js'
+import { getTransactionQuantityDelta } from './balanceCalculation.js'
+import { isLiabilityCategory } from './netWorthCalculation.js'
+import { isFeeTransaction, isIncomeTransaction } from './incomeSummary.js'
+
+/** Item fields needed to group the attribution */
+export interface AttributionItem {
+  id: string
+  name: string
+  category: NetWorthCategory
+}
+
+export interface AttributionEffects {
+  /** Money moved in (+) or out (-) through transactions */
+  contributions: number
+  /** Change in value from price moves, income, fees and revaluations */
+  priceEffect: number
+  /** Change in value from exchange rate moves against CHF */
+  fxEffect: number
+}
+
+export interface ItemAttribution extends AttributionEffects {
+  itemId: string
+  /** Undefined for items no longer in the item list */
+  name?: string
+  category?: NetWorthCategory
+  startValue: number
+  endValue: number
+}
+
+export interface PnlAttribution extends AttributionEffects {
+  startValue: number
+  endValue: number
+  /** Per category (items no longer in the item list are only in the totals) */
+  byCategory: Partial<Record<NetWorthCategory, AttributionEffects>>
+  items: ItemAttribution[]
+}
+
+export interface PnlAttributionOptions {
+  /** Per-item values at the start (in CHF) */
+  start: Record<string, ItemValueChf>
+  /** Per-item values at the end (in CHF) */
+  end: Record<string, ItemValueChf>
+  /** Day of the start values (YYYY-MM-DD); transactions after it count */
+  startDate: string
+  /** Day of the end values (YYYY-MM-DD); transactions up to and including it count */
+  endDate: string
+  transactions: NetWorthTransaction[]
+  items: AttributionItem[]
+  /** Converts a transaction amount to CHF */
+  convert: (amount: number, from: CurrencyCode) => number
+}
+
+/**
+ * Categories without a market price: every change that is not FX or income is money moved
+ * (deposits entered as balance updates, scheduled loan amortization)
+ */
+function isBalanceOnlyCategory(category: NetWorthCategory | undefined): boolean {
+  return category === 'Cash' || category === 'Bank Accounts' || (category !== undefined && isLiabilityCategory(category))
+}
+
+/**
+ * Quantity moved by a transaction that counts as a contribution. Income and fees are returns;
+ * positive adjustments are deposits (e.g. savings paid into a retirement fund), negative ones
+ * corrections; transfer network fees are costs.
+ */
+function getContributionQuantity(tx: NetWorthTransaction): number {
+  if (isIncomeTransaction(tx) || isFeeTransaction(tx)) return 0
+  if (tx.cryptoType === 'ADJUSTMENT') return Math.max(Number(tx.amount) || 0, 0)
+  if (tx.cryptoType === 'TRANSFER_IN') return Math.abs(Number(tx.amount) || 0)
+  if (tx.cryptoType === 'TRANSFER_OUT') return -Math.abs(Number(tx.amount) || 0)
+  return getTransactionQuantityDelta({ ...tx, amount: Number(tx.amount) || 0 })
+}
+
+/**
+ * CHF value of one contributed unit: the transaction price, else the end price (transfers and
+ * adjustments without price), else one unit of the item currency (adjustments of items without a price)
+ */
+function getContributionUnitValue(
+  tx: NetWorthTransaction,
+  end: ItemValueChf | undefined,
+  convert: PnlAttributionOptions['convert']
+): number {
+  const price = Number(tx.pricePerItem)
+  if (Number.isFinite(price) && price > 0 && tx.currency) return convert(price, tx.currency as CurrencyCode)
+  const priceChf = Number(tx.pricePerItemChf)
+  if (Number.isFinite(priceChf) && priceChf > 0) return priceChf
+  if (end?.price && end.price > 0) return end.price * (end.fxRate ?? 1)
+  return tx.cryptoType === 'ADJUSTMENT' ? end?.fxRate ?? 1 : 0
+}
+
+function addEffects(target: AttributionEffects, effects: AttributionEffects): void {
+  target.contributions += effects.contributions
+  target.priceEffect += effects.priceEffect
+  target.fxEffect += effects.fxEffect
+}
+
+/**
+ * Attribute the change of every item between `start` and `end`:
+ * - contributions: quantity bought/sold/transferred or deposited by a positive adjustment in the
+ *   period times the transaction price (liabilities count negative: new debt is money borrowed,
+ *   repayments pay it off).
+ *   Cash, bank accounts and liabilities: the whole change except FX and interest.
+ * - FX effect: the end value restated at the start FX rate of the item's currency
+ * - price effect: the rest of the change (price moves, income, fees, splits, revaluations)
+ */
+export function attributePnl(options: PnlAttributionOptions): PnlAttribution {
+  const { start, end, startDate, endDate, convert } = options
+  const itemsById = new Map(options.items.map((item) => [item.id, item]))
+  const periodTransactions = options.transactions.filter((tx) => {
+    const day = (tx.date || '').slice(0, 10)
+    return day > startDate && day <= endDate
+  })
+
+  const totals: AttributionEffects = { contributions: 0, priceEffect: 0, fxEffect: 0 }
+  const byCategory: PnlAttribution['byCategory'] = {}
+  const itemAttributions: ItemAttribution[] = []
+  let startValue = 0
+  let endValue = 0
+
+  for (const itemId of new Set([...Object.keys(start), ...Object.keys(end)])) {
+    const item = itemsById.get(itemId)
+    const startItem = start[itemId]
+    const endItem = end[itemId]
+    const itemStart = startItem?.valueChf || 0
+    const itemEnd = endItem?.valueChf || 0
+    const sign = itemEnd < 0 || itemStart < 0 ? -1 : 1
+
+    const itemTransactions = periodTransactions.filter((tx) => tx.itemId === itemId)
+    const startFx = startItem?.fxRate ?? 1
+    const endFx = endItem?.fxRate ?? 1
+    const fxEffect = startItem && endItem && startFx > 0 && endFx > 0 ? itemEnd * (1 - startFx / endFx) : 0
+    const change = itemEnd - itemStart
+
+    let effects: AttributionEffects
+    if (isBalanceOnlyCategory(item?.category)) {
+      const income = itemTransactions
+        .filter(isIncomeTransaction)
+        .reduce((sum, tx) => sum + sign * getTransactionQuantityDelta(tx) * getContributionUnitValue(tx, endItem, convert), 0)
+      effects = { contributions: change - fxEffect - income, priceEffect: income, fxEffect }
+    } else {
+      const contributions = itemTransactions.reduce(
+        (sum, tx) => sum + sign * getContributionQuantity(tx) * getContributionUnitValue(tx, endItem, convert),
+        0
+      )
+      effects = { contributions, priceEffect: change - contributions - fxEffect, fxEffect }
+    }
+
+    startValue += itemStart
+    endValue += itemEnd
+    addEffects(totals, effects)
+    if (item) {
+      const categoryEffects = byCategory[item.category] || { contributions: 0, priceEffect: 0, fxEffect: 0 }
+      addEffects(categoryEffects, effects)
+      byCategory[item.category] = categoryEffects
+    }
+    itemAttributions.push({
+      itemId,
+      name: item?.name,
+      category: item?.category,
+      startValue: itemStart,
+      endValue: itemEnd,
+      ...effects,
+    })
+  }
+
+  return { startValue, endValue, ...totals, byCategory, items: itemAttributions }
+}
+
+export type CategoryContributionsOptions = Omit<PnlAttributionOptions, 'start' | 'end'> & {
+  /** Category totals at the start (in CHF; liabilities negative) */
+  start: Partial<Record<NetWorthCategory, number>>
+  /** Category totals at the end (in CHF; liabilities negative) */
+  end: Partial<Record<NetWorthCategory, number>>
+}
+
+/**
+ * Contributions between two days known only by category totals: the change of cash, bank accounts
+ * and liabilities except interest, plus the money moved into the other items at the transaction
+ * price (as in attributePnl, without end prices to fall back to)
+ */
+export function getCategoryContributions(options: CategoryContributionsOptions): number {
+  const { start, end, startDate, endDate, convert } = options
+  const itemsById = new Map(options.items.map((item) => [item.id, item]))
+  let contributions = 0
+
+  for (const category of new Set([...Object.keys(start), ...Object.keys(end)]) as Set<NetWorthCategory>) {
+    if (isBalanceOnlyCategory(category)) contributions += (end[category] || 0) - (start[category] || 0)
+  }
+
+  for (const tx of options.transactions) {
+    const day = (tx.date || '').slice(0, 10)
+    const category = itemsById.get(tx.itemId)?.category
+    if (day <= startDate || day > endDate || category === undefined) continue
+    if (isBalanceOnlyCategory(category)) {
+      if (isIncomeTransaction(tx)) contributions -= getTransactionQuantityDelta(tx) * getContributionUnitValue(tx, undefined, convert)
+    } else {
+      contributions += getContributionQuantity(tx) * getContributionUnitValue(tx, undefined, convert)
+    }
+  }
+  return contributions
+}
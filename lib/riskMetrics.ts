@@ -0,0 +1,236 @@
+/**
+ * Risk metrics from the net worth snapshot series: drawdowns, annualized volatility and
+ * Sharpe-like ratios for the total, traditional assets, crypto, perpetuals and each asset category.
+ * Shared by the client and Vercel API routes - must remain Node-safe.
+ */
+import type { NetWorthCategory } from './types.js'
+import type { SnapshotItems } from './snapshotItems.js'
+import { fromSnapshotItemEntry } from './snapshotItems.js'
+import { attributePnl, type PnlAttribution, type PnlAttributionOptions } from './pnlAttribution.js'
+import { getStepReturn } from './performanceReturns.js'
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000
+
+/** Snapshot fields the metrics are computed from (CHF) */
+export interface RiskSnapshot {
+  date: string
+  timestamp: number
+  categories: Partial<Record<NetWorthCategory, number>>
+  total: number
+  items?: SnapshotItems
+}
+
+export interface RiskGroup {
+  id: string
+  label: string
+  /** Categories summed for the group; undefined = snapshot total (net worth) */
+  categories?: NetWorthCategory[]
+}
+
+/** Asset categories priced like traditional investments (reported apart from crypto and perpetuals) */
+export const TRADITIONAL_CATEGORIES: NetWorthCategory[] = [
+  'Cash',
+  'Bank Accounts',
+  'Retirement Funds',
+  'Index Funds',
+  'Stocks',
+  'Commodities',
+  'Real Estate',
+  'Depreciating Assets',
+]
+
+/** Summary groups, followed by one group per traditional category (see getRiskGroups) */
+export const RISK_SUMMARY_GROUPS: RiskGroup[] = [
+  { id: 'total', label: 'Total Net Worth' },
+  { id: 'traditional', label: 'Traditional Assets', categories: TRADITIONAL_CATEGORIES },
+  { id: 'crypto', label: 'Crypto', categories: ['Crypto'] },
+  { id: 'perpetuals', label: 'Perpetuals', categories: ['Perpetuals'] },
+]
+
+export interface DrawdownPoint {
+  date: string
+  /** Value of the return index (1 at the first point) */
+  index: number
+  /** Decline from the running high of the index (-0.1 = 10% below), 0 at a new high */
+  drawdown: number
+}
+
+export interface RiskMetrics {
+  groupId: string
+  label: string
+  startDate: string
+  endDate: string
+  /** Number of returns between consecutive snapshots */
+  observations: number
+  totalReturn: number
+  annualizedReturn: number | null
+  annualizedVolatility: number | null
+  /** Worst drawdown (negative) and the days of its high and low */
+  maxDrawdown: number
+  maxDrawdownPeakDate: string
+  maxDrawdownTroughDate: string
+  /** Drawdown of the last snapshot from the all-time high */
+  currentDrawdown: number
+  allTimeHighDate: string
+  sharpeRatio: number | null
+  sortinoRatio: number | null
+  calmarRatio: number | null
+}
+
+export interface RiskReport {
+  metrics: RiskMetrics[]
+  drawdowns: Record<string, DrawdownPoint[]>
+}
+
+export type RiskMetricsOptions = Pick<PnlAttributionOptions, 'transactions' | 'items' | 'convert'> & {
+  /** Annual risk-free rate for the Sharpe and Sortino ratios (0.01 = 1%) */
+  riskFreeRate?: number
+}
+
+/**
+ * Summary groups plus each traditional category that has a value in any snapshot
+ */
+export function getRiskGroups(snapshots: RiskSnapshot[]): RiskGroup[] {
+  const categoryGroups = TRADITIONAL_CATEGORIES
+    .filter((category) => snapshots.some((snapshot) => (snapshot.categories[category] || 0) !== 0))
+    .map((category) => ({ id: `category:${category}`, label: category, categories: [category] }))
+  return [...RISK_SUMMARY_GROUPS, ...categoryGroups]
+}
+
+function getGroupValue(snapshot: RiskSnapshot, group: RiskGroup): number {
+  if (!group.categories) return snapshot.total
+  return group.categories.reduce((sum, category) => sum + (snapshot.categories[category] || 0), 0)
+}
+
+function getGroupContributions(attribution: PnlAttribution | null, group: RiskGroup): number {
+  if (!attribution) return 0
+  if (!group.categories) return attribution.contributions
+  return group.categories.reduce((sum, category) => sum + (attribution.byCategory[category]?.contributions || 0), 0)
+}
+
+function getDays(from: string, to: string): number {
+  return (Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / MS_PER_DAY
+}
+
+/**
+ * One snapshot per day (the latest), in date order
+ */
+function getDailySeries(snapshots: RiskSnapshot[]): RiskSnapshot[] {
+  const byDate = new Map<string, RiskSnapshot>()
+  for (const snapshot of snapshots) {
+    const existing = byDate.get(snapshot.date)
+    if (!existing || snapshot.timestamp > existing.timestamp) byDate.set(snapshot.date, snapshot)
+  }
+  return Array.from(byDate.values()).sort((a, b) => a.date.localeCompare(b.date))
+}
+
+function standardDeviation(values: number[]): number {
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length
+  const variance = values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / (values.length - 1)
+  return Math.sqrt(variance)
+}
+
+/**
+ * Risk metrics per group. Returns between consecutive snapshots exclude contributions when both
+ * snapshots carry per-item detail (see attributePnl); between older snapshots every change
+ * counts as return. Steps without a positive value (e.g. an empty category) are left out.
+ */
+export function computeRiskMetrics(snapshots: RiskSnapshot[], options: RiskMetricsOptions): RiskReport {
+  const series = getDailySeries(snapshots)
+  const riskFreeRate = options.riskFreeRate ?? 0
+  const report: RiskReport = { metrics: [], drawdowns: {} }
+  if (series.length < 2) return report
+
+  // Contributions between snapshots with per-item detail, shared by all groups
+  const attributions = series.slice(1).map((snapshot, i) => {
+    const previous = series[i]
+    if (!previous.items || !snapshot.items) return null
+    const toValues = (items: SnapshotItems) =>
+      Object.fromEntries(Object.entries(items).map(([itemId, entry]) => [itemId, fromSnapshotItemEntry(entry)]))
+    return attributePnl({
+      ...options,
+      start: toValues(previous.items),
+      end: toValues(snapshot.items),
+      startDate: previous.date,
+      endDate: snapshot.date,
+    })
+  })
+
+  for (const group of getRiskGroups(series)) {
+    const returns: number[] = []
+    const points: DrawdownPoint[] = []
+    let index = 1
+    let high = 1
+    let highDate = ''
+    let maxDrawdown = 0
+    let maxDrawdownPeakDate = ''
+    let maxDrawdownTroughDate = ''
+    let gapDays = 0
+
+    for (let i = 1; i < series.length; i++) {
+      const startValue = getGroupValue(series[i - 1], group)
+      const endValue = getGroupValue(series[i], group)
+      const contributions = getGroupContributions(attributions[i - 1], group)
+      const stepReturn = getStepReturn({ startValue, endValue, contributions })
+      if (stepReturn === null) continue
+
+      if (points.length === 0) {
+        points.push({ date: series[i - 1].date, index: 1, drawdown: 0 })
+        highDate = series[i - 1].date
+      }
+      returns.push(stepReturn)
+      gapDays += getDays(series[i - 1].date, series[i].date)
+      index *= 1 + stepReturn
+      if (index >= high) {
+        high = index
+        highDate = series[i].date
+      }
+      const drawdown = index / high - 1
+      if (drawdown < maxDrawdown) {
+        maxDrawdown = drawdown
+        maxDrawdownPeakDate = highDate
+        maxDrawdownTroughDate = series[i].date
+      }
+      points.push({ date: series[i].date, index, drawdown })
+    }
+    if (returns.length === 0) continue
+
+    const startDate = points[0].date
+    const endDate = points[points.length - 1].date
+    const totalDays = getDays(startDate, endDate)
+    const periodsPerYear = gapDays > 0 ? (365 * returns.length) / gapDays : 0
+    const annualizedReturn = totalDays > 0 && index > 0 ? Math.pow(index, 365 / totalDays) - 1 : null
+    const annualizedVolatility = returns.length >= 2 && periodsPerYear > 0
+      ? standardDeviation(returns) * Math.sqrt(periodsPerYear)
+      : null
+
+    // Downside deviation against the risk-free return per period
+    const periodRiskFree = periodsPerYear > 0 ? Math.pow(1 + riskFreeRate, 1 / periodsPerYear) - 1 : 0
+    const downsideDeviation = returns.length >= 2 && periodsPerYear > 0
+      ? Math.sqrt(returns.reduce((sum, r) => sum + Math.min(r - periodRiskFree, 0) ** 2, 0) / returns.length) * Math.sqrt(periodsPerYear)
+      : null
+    const excessReturn = annualizedReturn !== null ? annualizedReturn - riskFreeRate : null
+
+    report.metrics.push({
+      groupId: group.id,
+      label: group.label,
+      startDate,
+      endDate,
+      observations: returns.length,
+      totalReturn: index - 1,
+      annualizedReturn,
+      annualizedVolatility,
+      maxDrawdown,
+      maxDrawdownPeakDate: maxDrawdownPeakDate || startDate,
+      maxDrawdownTroughDate: maxDrawdownTroughDate || startDate,
+      currentDrawdown: index / high - 1,
+      allTimeHighDate: highDate,
+      sharpeRatio: excessReturn !== null && annualizedVolatility ? excessReturn / annualizedVolatility : null,
+      sortinoRatio: excessReturn !== null && downsideDeviation ? excessReturn / downsideDeviation : null,
+      calmarRatio: annualizedReturn !== null && maxDrawdown < 0 ? annualizedReturn / Math.abs(maxDrawdown) : null,
+    })
+    report.drawdowns[group.id] = points
+  }
+
+  return report
+}
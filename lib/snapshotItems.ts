@@ -0,0 +1,127 @@
+/**
+ * Per-item detail of net worth snapshots: value, and for priced items quantity, price and FX rate.
+ * Entries use short keys and rounded numbers to keep snapshot documents small.
+ * Shared by the client and Vercel API routes - must remain Node-safe.
+ */
+
+/** Value of one item at snapshot time */
+export interface ItemValueChf {
+  /** Value in CHF; liabilities negative (same sign as the snapshot categories) */
+  valueChf: number
+  /** Quantity held (priced items only) */
+  quantity?: number
+  /** Unit price in the quote currency (USD for crypto, listing currency for market items) */
+  price?: number
+  /** CHF per unit of the quote currency (priced items) or of the item currency (other non-CHF items) */
+  fxRate?: number
+}
+
+/** Stored entry (see ItemValueChf); `fx` is omitted when it is 1 (CHF) */
+export interface SnapshotItemEntry {
+  v: number
+  q?: number
+  p?: number
+  fx?: number
+}
+
+/** Item id -> entry */
+export type SnapshotItems = Record<string, SnapshotItemEntry>
+
+/** Snapshot fields needed to read per-item detail */
+export interface SnapshotWithItems {
+  date: string
+  timestamp: number
+  items?: SnapshotItems
+}
+
+export interface ItemSeriesPoint extends ItemValueChf {
+  date: string
+  timestamp: number
+}
+
+function toPrecision(value: number, digits: number): number {
+  return Number(value.toPrecision(digits))
+}
+
+/**
+ * Compact per-item values for storage. Items without value and quantity are left out.
+ */
+export function toSnapshotItems(values: Record<string, ItemValueChf>): SnapshotItems {
+  const items: SnapshotItems = {}
+  for (const [itemId, value] of Object.entries(values)) {
+    const v = Number.isFinite(value.valueChf) ? Math.round(value.valueChf * 100) / 100 : 0
+    const hasQuantity = typeof value.quantity === 'number' && Number.isFinite(value.quantity) && value.quantity !== 0
+    if (v === 0 && !hasQuantity) continue
+
+    const entry: SnapshotItemEntry = { v }
+    if (hasQuantity) entry.q = toPrecision(value.quantity as number, 10)
+    if (typeof value.price === 'number' && Number.isFinite(value.price) && value.price > 0) {
+      entry.p = toPrecision(value.price, 8)
+    }
+    if (typeof value.fxRate === 'number' && Number.isFinite(value.fxRate) && value.fxRate > 0 && value.fxRate !== 1) {
+      entry.fx = toPrecision(value.fxRate, 8)
+    }
+    items[itemId] = entry
+  }
+  return items
+}
+
+/**
+ * Expand a stored entry (missing entry = item not held at snapshot time)
+ */
+export function fromSnapshotItemEntry(entry: SnapshotItemEntry | undefined): ItemValueChf {
+  if (!entry) return { valueChf: 0 }
+  return {
+    valueChf: entry.v,
+    ...(entry.q !== undefined && { quantity: entry.q }),
+    ...(entry.p !== undefined && { price: entry.p }),
+    fxRate: entry.fx ?? 1,
+  }
+}
+
+/**
+ * Per-item values in another currency (e.g. the display currency) restated in CHF;
+ * `chfRate` is the amount of that currency per CHF. Values without FX rate are CHF (rate 1).
+ */
+export function toChfItemValues(values: Record<string, ItemValueChf>, chfRate: number): Record<string, ItemValueChf> {
+  const rate = chfRate > 0 ? chfRate : 1
+  const result: Record<string, ItemValueChf> = {}
+  for (const [itemId, value] of Object.entries(values)) {
+    result[itemId] = {
+      ...value,
+      valueChf: value.valueChf / rate,
+      fxRate: (value.fxRate ?? rate) / rate,
+    }
+  }
+  return result
+}
+
+/**
+ * Value of one item over the snapshots that carry per-item detail (older snapshots are skipped)
+ */
+export function getItemSeries(snapshots: SnapshotWithItems[], itemId: string): ItemSeriesPoint[] {
+  return snapshots
+    .filter((snapshot) => snapshot.items)
+    .map((snapshot) => ({
+      date: snapshot.date,
+      timestamp: snapshot.timestamp,
+      ...fromSnapshotItemEntry(snapshot.items?.[itemId]),
+    }))
+}
+
+/**
+ * Summed CHF value of a group of items (e.g. all items of a platform) over the snapshots
+ * that carry per-item detail
+ */
+export function getItemGroupSeries(
+  snapshots: SnapshotWithItems[],
+  itemIds: string[]
+): Array<{ date: string; timestamp: number; valueChf: number }> {
+  return snapshots
+    .filter((snapshot) => snapshot.items)
+    .map((snapshot) => ({
+      date: snapshot.date,
+      timestamp: snapshot.timestamp,
+      valueChf: itemIds.reduce((sum, itemId) => sum + (snapshot.items?.[itemId]?.v || 0), 0),
+    }))
+}
@@ -0,0 +1,278 @@
+/**
+ * Target asset allocation: target weights per asset category (optionally per item) with tolerance
+ * bands, drift of the current allocation and buy/sell suggestions that bring it back within the bands.
+ * Shared by the client and Vercel API routes - must remain Node-safe.
+ */
+import type { NetWorthCategory } from './types.js'
+import { isLiabilityCategory } from './netWorthCalculation.js'
+
+export interface AllocationTarget {
+  /** Target share of the allocated assets (0.3 = 30%) */
+  weight: number
+  /** Allowed drift either side of the weight (0.05 = ±5 percentage points) */
+  tolerance: number
+}
+
+/** Target per key (see getCategoryTargetKey / getItemTargetKey) */
+export type AllocationTargets = Record<string, AllocationTarget>
+
+/** Item fields and current value (in one currency, e.g. the display currency) */
+export interface AllocationHolding {
+  itemId: string
+  name: string
+  category: NetWorthCategory
+  value: number
+}
+
+export interface AllocationDrift {
+  /** Target key of the row; the category row holds the items without their own target */
+  key: string
+  label: string
+  category: NetWorthCategory
+  itemId?: string
+  value: number
+  /** Share of the allocated assets */
+  currentWeight: number
+  targetWeight: number
+  tolerance: number
+  /** currentWeight - targetWeight */
+  drift: number
+  outOfBand: boolean
+}
+
+export interface AllocationReport {
+  rows: AllocationDrift[]
+  /** Value of the categories with a target */
+  total: number
+  withinBands: boolean
+}
+
+export interface RebalancingTrade {
+  key: string
+  label: string
+  /** Amount to buy (+) or sell (-) */
+  amount: number
+  valueAfter: number
+  weightAfter: number
+}
+
+export interface RebalancingPlan {
+  /** Rows that need a trade, largest amount first */
+  trades: RebalancingTrade[]
+  /** Every row within its band after the trades */
+  withinBands: boolean
+  /** Whether the plan sells anything */
+  sells: boolean
+}
+
+export interface RebalancingOptions {
+  /** Cash to invest on top of the current allocation */
+  newCash?: number
+  /** Only buy with the new cash, never sell */
+  cashOnly?: boolean
+}
+
+/** Categories that can have a target (asset categories, in display order) */
+export const ALLOCATION_CATEGORIES: NetWorthCategory[] = [
+  'Cash',
+  'Bank Accounts',
+  'Retirement Funds',
+  'Index Funds',
+  'Stocks',
+  'Commodities',
+  'Crypto',
+  'Perpetuals',
+  'Real Estate',
+  'Depreciating Assets',
+]
+
+/** Category targets must add up to 100% within this margin */
+const WEIGHT_SUM_EPSILON = 0.001
+
+const BAND_EPSILON = 1e-9
+
+/** Smaller amounts (rounding) are not listed as trades */
+const MIN_TRADE = 0.005
+
+export function getCategoryTargetKey(category: NetWorthCategory): string {
+  return `category:${category}`
+}
+
+export function getItemTargetKey(itemId: string): string {
+  return `item:${itemId}`
+}
+
+function getTargetCategory(key: string): NetWorthCategory | null {
+  return key.startsWith('category:') ? (key.slice('category:'.length) as NetWorthCategory) : null
+}
+
+function isAllocationTarget(value: unknown): value is AllocationTarget {
+  const target = value as AllocationTarget
+  return (
+    !!target &&
+    typeof target.weight === 'number' &&
+    Number.isFinite(target.weight) &&
+    target.weight >= 0 &&
+    target.weight <= 1 &&
+    typeof target.tolerance === 'number' &&
+    Number.isFinite(target.tolerance) &&
+    target.tolerance >= 0
+  )
+}
+
+/**
+ * Valid targets of a stored map (user settings); invalid entries and liability categories are dropped
+ */
+export function toAllocationTargets(value: unknown): AllocationTargets {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return {}
+  const targets: AllocationTargets = {}
+  for (const [key, target] of Object.entries(value as Record<string, unknown>)) {
+    const category = getTargetCategory(key)
+    if (!category && !key.startsWith('item:')) continue
+    if (category && isLiabilityCategory(category)) continue
+    if (!isAllocationTarget(target)) continue
+    targets[key] = { weight: target.weight, tolerance: target.tolerance }
+  }
+  return targets
+}
+
+/**
+ * Problems that keep the targets from being used (empty when valid). Item targets are part of
+ * their category's target, so the category needs one at least as large as its item targets.
+ */
+export function getAllocationTargetErrors(
+  targets: AllocationTargets,
+  items: Array<Pick<AllocationHolding, 'itemId' | 'name' | 'category'>>
+): string[] {
+  const errors: string[] = []
+  const categoryKeys = Object.keys(targets).filter((key) => getTargetCategory(key))
+  if (categoryKeys.length === 0) return ['No category has a target weight']
+
+  const weightSum = categoryKeys.reduce((sum, key) => sum + targets[key].weight, 0)
+  if (Math.abs(weightSum - 1) > WEIGHT_SUM_EPSILON) {
+    errors.push(`Category targets add up to ${(weightSum * 100).toFixed(1)}% instead of 100%`)
+  }
+
+  const itemsById = new Map(items.map((item) => [item.itemId, item]))
+  const itemWeights: Partial<Record<NetWorthCategory, number>> = {}
+  for (const key of Object.keys(targets).filter((key) => key.startsWith('item:'))) {
+    const item = itemsById.get(key.slice('item:'.length))
+    if (!item) continue
+    if (!targets[getCategoryTargetKey(item.category)]) {
+      errors.push(`${item.name} has a target but ${item.category} has none`)
+      continue
+    }
+    itemWeights[item.category] = (itemWeights[item.category] || 0) + targets[key].weight
+  }
+  for (const [category, weight] of Object.entries(itemWeights) as Array<[NetWorthCategory, number]>) {
+    const categoryWeight = targets[getCategoryTargetKey(category)].weight
+    if (weight > categoryWeight + WEIGHT_SUM_EPSILON) {
+      errors.push(`Item targets in ${category} add up to more than its ${(categoryWeight * 100).toFixed(1)}%`)
+    }
+  }
+  return errors
+}
+
+function isWithinBand(weight: number, targetWeight: number, tolerance: number): boolean {
+  return Math.abs(weight - targetWeight) <= tolerance + BAND_EPSILON
+}
+
+/**
+ * Current allocation against the targets. Only categories with a target are allocated (others,
+ * e.g. a home, are left out of the total); items with their own target get their own row and
+ * the category row holds the rest of the category. Negative values count as 0.
+ */
+export function computeAllocationDrift(holdings: AllocationHolding[], targets: AllocationTargets): AllocationReport {
+  const rows: AllocationDrift[] = []
+  const categories = Object.keys(targets)
+    .map(getTargetCategory)
+    .filter((category): category is NetWorthCategory => category !== null)
+
+  for (const category of categories) {
+    const categoryTarget = targets[getCategoryTargetKey(category)]
+    const categoryHoldings = holdings.filter((holding) => holding.category === category)
+    const itemHoldings = categoryHoldings.filter((holding) => targets[getItemTargetKey(holding.itemId)])
+    const otherValue = categoryHoldings
+      .filter((holding) => !targets[getItemTargetKey(holding.itemId)])
+      .reduce((sum, holding) => sum + holding.value, 0)
+
+    for (const holding of itemHoldings) {
+      const target = targets[getItemTargetKey(holding.itemId)]
+      rows.push({
+        key: getItemTargetKey(holding.itemId),
+        label: holding.name,
+        category,
+        itemId: holding.itemId,
+        value: Math.max(0, holding.value),
+        currentWeight: 0,
+        targetWeight: target.weight,
+        tolerance: target.tolerance,
+        drift: 0,
+        outOfBand: false,
+      })
+    }
+    const itemWeight = itemHoldings.reduce((sum, holding) => sum + targets[getItemTargetKey(holding.itemId)].weight, 0)
+    rows.push({
+      key: getCategoryTargetKey(category),
+      label: itemHoldings.length > 0 ? `${category} (other)` : category,
+      category,
+      value: Math.max(0, otherValue),
+      currentWeight: 0,
+      targetWeight: Math.max(0, categoryTarget.weight - itemWeight),
+      tolerance: categoryTarget.tolerance,
+      drift: 0,
+      outOfBand: false,
+    })
+  }
+
+  const total = rows.reduce((sum, row) => sum + row.value, 0)
+  for (const row of rows) {
+    row.currentWeight = total > 0 ? row.value / total : 0
+    row.drift = row.currentWeight - row.targetWeight
+    row.outOfBand = total > 0 && !isWithinBand(row.currentWeight, row.targetWeight, row.tolerance)
+  }
+  return { rows, total, withinBands: rows.every((row) => !row.outOfBand) }
+}
+
+function toPlan(report: AllocationReport, amounts: number[]): RebalancingPlan {
+  const totalAfter = report.total + amounts.reduce((sum, amount) => sum + amount, 0)
+  const trades: RebalancingTrade[] = report.rows.map((row, i) => {
+    const valueAfter = row.value + amounts[i]
+    return {
+      key: row.key,
+      label: row.label,
+      amount: amounts[i],
+      valueAfter,
+      weightAfter: totalAfter > 0 ? valueAfter / totalAfter : 0,
+    }
+  })
+  return {
+    trades: trades
+      .filter((trade) => Math.abs(trade.amount) >= MIN_TRADE)
+      .sort((a, b) => Math.abs(b.amount) - Math.abs(a.amount)),
+    withinBands: trades.every((trade, i) =>
+      isWithinBand(trade.weightAfter, report.rows[i].targetWeight, report.rows[i].tolerance)
+    ),
+    sells: amounts.some((amount) => amount <= -MIN_TRADE),
+  }
+}
+
+/**
+ * Trades that bring every row back within its band. New cash is spread over the underweight rows
+ * in proportion to their gap to the target; when that is not enough (and selling is allowed),
+ * every row is traded to its target. Nothing is traded when all rows are within their bands and
+ * there is no new cash.
+ */
+export function computeRebalancingPlan(report: AllocationReport, options: RebalancingOptions = {}): RebalancingPlan {
+  const newCash = Math.max(0, options.newCash ?? 0)
+  const totalAfter = report.total + newCash
+  const noTrades = report.rows.map(() => 0)
+  if (totalAfter <= 0 || (newCash === 0 && report.withinBands)) return toPlan(report, noTrades)
+
+  const gaps = report.rows.map((row) => Math.max(0, row.targetWeight * totalAfter - row.value))
+  const gapSum = gaps.reduce((sum, gap) => sum + gap, 0)
+  const cashPlan = toPlan(report, gapSum > 0 ? gaps.map((gap) => (newCash * gap) / gapSum) : noTrades)
+  if (cashPlan.withinBands || options.cashOnly) return cashPlan
+
+  return toPlan(report, report.rows.map((row) => row.targetWeight * totalAfter - row.value))
+}
@@ -0,0 +1,199 @@
+/**
+ * Import plan for broker CSV transactions (see brokerCsv.ts): matches imported rows to items,
+ * maps them to NetWorthTransactions and flags duplicates before anything is saved.
+ * Shared by the client and Vercel API routes - must remain Node-safe.
+ */
+import type { CurrencyCode, NetWorthCategory, NetWorthTransaction } from './types.js'
+import type { BrokerParseError, ImportedTransaction } from './brokerCsv.js'
+
+/** Categories imported transactions can be booked on */
+export const IMPORT_CATEGORIES: NetWorthCategory[] = ['Stocks', 'Index Funds', 'Commodities', 'Crypto']
+
+const SUPPORTED_CURRENCIES: CurrencyCode[] = ['CHF', 'EUR', 'USD']
+
+/** Relative tolerance for amount / price comparisons (broker rounding) */
+const DUPLICATE_TOLERANCE = 0.005
+
+export type ImportRowStatus = 'new' | 'duplicate'
+
+/** Item shape needed for matching */
+export interface ImportItem {
+  id: string
+  category: NetWorthCategory
+  name?: string
+  platform?: string
+  currency?: string
+}
+
+/** Item to create for a symbol without a matching item */
+export interface NewImportItem {
+  symbol: string
+  category: NetWorthCategory
+  platform: string
+  currency: string
+}
+
+/** Transaction without id and item (assigned when the import is saved) */
+export type ImportTransaction = Pick<
+  NetWorthTransaction,
+  'side' | 'currency' | 'amount' | 'pricePerItemChf' | 'pricePerItem' | 'date' | 'cryptoType' | 'grossAmount' | 'withholdingTax' | 'netAmount'
+> & { adjustmentReason?: string }
+
+export interface ImportPlanRow {
+  source: ImportedTransaction
+  /** Existing item the row is booked on */
+  itemId?: string
+  /** Symbol of the new item the row is booked on (see ImportPlan.newItems) */
+  newItemSymbol?: string
+  /** The transaction, followed by a FEE transaction when a commission was paid */
+  transactions: ImportTransaction[]
+  status: ImportRowStatus
+}
+
+export interface ImportPlan {
+  rows: ImportPlanRow[]
+  newItems: NewImportItem[]
+  /** Rows that cannot be booked (e.g. unsupported currency) */
+  errors: BrokerParseError[]
+}
+
+export interface ImportPlanOptions {
+  items: ImportItem[]
+  transactions: Array<Pick<NetWorthTransaction, 'itemId' | 'date' | 'amount' | 'side' | 'cryptoType' | 'pricePerItem' | 'pricePerItemChf' | 'grossAmount'>>
+  /** Platform of the imported account (matching and new items) */
+  platform: string
+  /** Category of new items */
+  category: NetWorthCategory
+  convert?: (amount: number, from: CurrencyCode) => number
+}
+
+function normalize(value: string | undefined): string {
+  return (value || '').trim().toUpperCase()
+}
+
+function isClose(a: number, b: number): boolean {
+  return Math.abs(a - b) <= Math.max(Math.abs(a), Math.abs(b)) * DUPLICATE_TOLERANCE + 1e-9
+}
+
+/**
+ * Map an imported row to transactions (same fields as entered in the Add Transaction modal)
+ */
+export function toImportTransactions(
+  row: ImportedTransaction,
+  convert?: (amount: number, from: CurrencyCode) => number
+): ImportTransaction[] {
+  const currency = normalize(row.currency) as CurrencyCode
+  const toChf = (amount: number) => (convert ? convert(amount, currency) : amount)
+  const transactions: ImportTransaction[] = []
+
+  if (row.type === 'DIVIDEND') {
+    // Cash dividend: no units received
+    const gross = row.grossAmount ?? 0
+    const withholdingTax = row.withholdingTax ?? 0
+    transactions.push({
+      side: 'buy',
+      currency,
+      amount: 0,
+      pricePerItemChf: 0,
+      pricePerItem: 0,
+      date: row.date,
+      cryptoType: 'DIVIDEND',
+      grossAmount: gross,
+      withholdingTax,
+      netAmount: gross - withholdingTax,
+    })
+  } else {
+    transactions.push({
+      side: row.type === 'BUY' ? 'buy' : 'sell',
+      currency,
+      amount: row.quantity,
+      pricePerItemChf: toChf(row.price),
+      pricePerItem: row.price,
+      date: row.date,
+      cryptoType: row.type,
+    })
+  }
+
+  if (row.commission && row.commission > 0) {
+    transactions.push({
+      side: 'sell',
+      currency,
+      amount: 0,
+      pricePerItemChf: 0,
+      pricePerItem: 0,
+      date: row.date,
+      cryptoType: 'FEE',
+      grossAmount: row.commission,
+      netAmount: row.commission,
+      adjustmentReason: `Commission ${row.type === 'BUY' ? 'buy' : 'sell'} ${row.symbol}`,
+    })
+  }
+
+  return transactions
+}
+
+type ComparableTransaction = ImportPlanOptions['transactions'][number]
+
+function getTransactionType(tx: Pick<NetWorthTransaction, 'cryptoType' | 'side'>): string {
+  return tx.cryptoType || (tx.side === 'sell' ? 'SELL' : 'BUY')
+}
+
+/**
+ * Same day and type, with amount and price (or the dividend amount) within the tolerance
+ */
+function isDuplicate(candidate: ImportTransaction, existing: ComparableTransaction): boolean {
+  if ((existing.date || '').slice(0, 10) !== candidate.date) return false
+  if (getTransactionType(existing) !== getTransactionType(candidate)) return false
+  if (candidate.cryptoType === 'DIVIDEND') {
+    return isClose(Number(existing.grossAmount) || 0, candidate.grossAmount || 0)
+  }
+  const existingPrice = Number(existing.pricePerItem) || Number(existing.pricePerItemChf) || 0
+  return isClose(Math.abs(Number(existing.amount) || 0), candidate.amount) && isClose(existingPrice, candidate.pricePerItem || 0)
+}
+
+/**
+ * Match each imported row to an item by ticker and platform (or plan a new item), map it to
+ * transactions and flag rows that match an existing transaction. Rows of the file are not compared
+ * with each other: identical fills (e.g. a partially filled order) are separate transactions.
+ */
+export function buildImportPlan(imported: ImportedTransaction[], options: ImportPlanOptions): ImportPlan {
+  const platform = normalize(options.platform)
+  const rows: ImportPlanRow[] = []
+  const newItems: NewImportItem[] = []
+  const errors: BrokerParseError[] = []
+
+  const findItem = (symbol: string) =>
+    options.items.find(
+      (item) =>
+        IMPORT_CATEGORIES.includes(item.category) &&
+        normalize(item.name) === symbol &&
+        normalize(item.platform) === platform
+    )
+
+  for (const source of imported) {
+    const currency = normalize(source.currency)
+    if (!(SUPPORTED_CURRENCIES as string[]).includes(currency)) {
+      errors.push({ line: source.line, message: `Currency ${source.currency || '(missing)'} is not supported` })
+      continue
+    }
+
+    const symbol = normalize(source.symbol)
+    const item = findItem(symbol)
+    if (!item && !newItems.some((newItem) => newItem.symbol === symbol)) {
+      newItems.push({ symbol, category: options.category, platform: options.platform, currency })
+    }
+
+    const transactions = toImportTransactions(source, options.convert)
+    const existing = item ? options.transactions.filter((tx) => tx.itemId === item.id) : []
+    const status: ImportRowStatus = existing.some((tx) => isDuplicate(transactions[0], tx)) ? 'duplicate' : 'new'
+
+    rows.push({
+      source,
+      ...(item ? { itemId: item.id } : { newItemSymbol: symbol }),
+      transactions,
+      status,
+    })
+  }
+
+  return { rows, newItems, errors }
+}
@@ -0,0 +1,92 @@
+/**
+ * Transfers of units between two items of the same asset on different platforms
+ * (e.g. BTC from an exchange to a hardware wallet).
+ * Shared by the client and Vercel API routes - must remain Node-safe.
+ *
+ * A transfer is stored as two linked transactions sharing a `transferId`:
+ * TRANSFER_OUT on the source item and TRANSFER_IN on the destination item.
+ * The optional network fee (in units) is taken from the source item on top of the amount.
+ * Transfers are not disposals: lots move with their original cost and acquisition date.
+ */
+import type { NetWorthCategory, NetWorthTransaction } from './types.js'
+
+export type TransferTransactionType = 'TRANSFER_OUT' | 'TRANSFER_IN'
+
+/** Categories whose items can be transferred between platforms */
+export const TRANSFER_CATEGORIES: NetWorthCategory[] = ['Crypto', 'Index Funds', 'Stocks', 'Commodities']
+
+type TransferFields = Pick<NetWorthTransaction, 'id' | 'itemId' | 'cryptoType' | 'transferId'>
+
+export function isTransferTransaction(tx: Pick<NetWorthTransaction, 'cryptoType'>): boolean {
+  return tx.cryptoType === 'TRANSFER_OUT' || tx.cryptoType === 'TRANSFER_IN'
+}
+
+/**
+ * The other leg of a transfer, or undefined when it is missing
+ */
+export function findTransferCounterpart<T extends TransferFields>(tx: TransferFields, transactions: T[]): T | undefined {
+  if (!isTransferTransaction(tx) || !tx.transferId) return undefined
+  return (transactions || []).find(
+    (other) => other.id !== tx.id && other.transferId === tx.transferId && isTransferTransaction(other)
+  )
+}
+
+/**
+ * Network fee (units) paid by a transfer, 0 for the incoming leg
+ */
+export function getTransferNetworkFee(tx: Pick<NetWorthTransaction, 'cryptoType' | 'networkFee'>): number {
+  if (tx.cryptoType !== 'TRANSFER_OUT') return 0
+  const fee = Number(tx.networkFee)
+  return Number.isFinite(fee) ? Math.abs(fee) : 0
+}
+
+export interface TransferInput {
+  transferId: string
+  fromItemId: string
+  toItemId: string
+  date: string // YYYY-MM-DD
+  /** Units arriving at the destination */
+  amount: number
+  /** Units paid as network fee by the source (optional) */
+  networkFee?: number
+  /** Cost per unit moved (informational; used as the value of the legs when no market price is available) */
+  pricePerItemChf: number
+  pricePerItem?: number
+  currency?: string
+}
+
+/**
+ * Build the TRANSFER_OUT / TRANSFER_IN pair (without ids)
+ */
+export function createTransferTransactions(
+  input: TransferInput
+): [Omit<NetWorthTransaction, 'id'>, Omit<NetWorthTransaction, 'id'>] {
+  const amount = Math.abs(input.amount)
+  const networkFee = input.networkFee ? Math.abs(input.networkFee) : 0
+  const shared = {
+    amount,
+    date: input.date,
+    pricePerItemChf: input.pricePerItemChf,
+    ...(input.pricePerItem !== undefined && { pricePerItem: input.pricePerItem }),
+    ...(input.currency && { currency: input.currency }),
+    transferId: input.transferId,
+  }
+
+  return [
+    {
+      ...shared,
+      itemId: input.fromItemId,
+      side: 'sell',
+      cryptoType: 'TRANSFER_OUT',
+      transferItemId: input.toItemId,
+      ...(networkFee > 0 && { networkFee }),
+    },
+    {
+      ...shared,
+      itemId: input.toItemId,
+      side: 'buy',
+      cryptoType: 'TRANSFER_IN',
+      transferItemId: input.fromItemId,
+    },
+  ]
+}
@@ -2,6 +2,9 @@
  * Shared calculation types used by both the client and Vercel API routes.
  * Must remain Node-safe (no React / DOM / Firebase client imports).
  */
+import type { LoanSchedule } from './loanAmortization.js'
+import type { CorporateAction } from './corporateActions.js'
+
 export type NetWorthCategory =
   | 'Cash'
   | 'Bank Accounts'
@@ -13,6 +16,9 @@ export type NetWorthCategory =
   | 'Perpetuals'
   | 'Real Estate'
   | 'Depreciating Assets'
+  | 'Mortgage'
+  | 'Loan'
+  | 'Credit Card'
 
 export type CurrencyCode = 'CHF' | 'EUR' | 'USD'
 
@@ -22,6 +28,8 @@ export interface NetWorthItem {
   name?: string
   currency?: string
   monthlyDepreciationChf?: number
+  loanSchedule?: LoanSchedule
+  corporateActions?: CorporateAction[]
   perpetualsData?: {
     exchangeBalance?: Array<{ holdings?: number }>
   }
@@ -35,9 +43,18 @@ export interface NetWorthTransaction {
   side: 'buy' | 'sell'
   date: string
   pricePerItemChf: number
-  cryptoType?: 'BUY' | 'SELL' | 'ADJUSTMENT'
+  cryptoType?: 'BUY' | 'SELL' | 'ADJUSTMENT' | 'DIVIDEND' | 'INTEREST' | 'STAKING' | 'FEE' | 'TRANSFER_OUT' | 'TRANSFER_IN'
   pricePerItem?: number
   currency?: string
+  grossAmount?: number
+  withholdingTax?: number
+  netAmount?: number
+  /** Shared by both legs of a transfer (see transfers.ts) */
+  transferId?: string
+  /** Item on the other side of a transfer */
+  transferItemId?: string
+  /** Units paid as network fee (TRANSFER_OUT only) */
+  networkFee?: number
   [key: string]: unknown
 }
 
@@ -53,6 +70,10 @@ export interface NetWorthSummary {
   asOf?: string
   baseCurrency?: string
   totalNetWorth: number
+  /** Sum of all asset categories (liabilities excluded). */
+  grossAssets?: number
+  /** Outstanding debt across liability categories, as a positive number. */
+  totalLiabilities?: number
   categories: NetWorthCategorySummary[]
 }
 
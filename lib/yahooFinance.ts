@@ -1,3 +1,5 @@
+import { fetchPricesWithAliases } from './corporateActions.js'
+
 const YAHOO_USER_AGENT = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/131.0.0.0 Safari/537.36'
 
 async function fetchYahooQuote(symbol: string): Promise<number | null> {
@@ -24,7 +26,14 @@ async function fetchYahooQuote(symbol: string): Promise<number | null> {
  * Fetch stock prices directly from Yahoo Finance.
  * Returns a map of symbol -> price.
  */
-export async function fetchStockPrices(symbols: string[]): Promise<Record<string, number>> {
+export async function fetchStockPrices(
+  symbols: string[],
+  aliases: Record<string, string> = {}
+): Promise<Record<string, number>> {
+  return fetchPricesWithAliases(symbols, fetchYahooPrices, aliases)
+}
+
+async function fetchYahooPrices(symbols: string[]): Promise<Record<string, number>> {
   const unique = [...new Set(symbols.map(s => s.trim().toUpperCase()).filter(Boolean))]
   if (unique.length === 0) return {}
 
@@ -49,3 +58,147 @@ export async function fetchStockPrices(symbols: string[]): Promise<Record<string
 
   return out
 }
+
+/**
+ * End of the UTC day `date` (YYYY-MM-DD) in seconds, capped to now
+ */
+function endOfDaySeconds(date: string): number {
+  const end = Date.parse(`${date}T23:59:59Z`)
+  return Math.floor(Math.min(end, Date.now()) / 1000)
+}
+
+/**
+ * Last daily close on or before `date` (YYYY-MM-DD). Closes are split-adjusted by Yahoo.
+ * Looks back up to 10 days to skip weekends and holidays.
+ */
+async function fetchYahooClose(symbol: string, date: string): Promise<number | null> {
+  const period2 = endOfDaySeconds(date)
+  const period1 = period2 - 10 * 24 * 60 * 60
+  const url = `https://query1.finance.yahoo.com/v8/finance/chart/${encodeURIComponent(symbol)}?period1=${period1}&period2=${period2}&interval=1d`
+
+  const response = await fetch(url, {
+    method: 'GET',
+    headers: {
+      'Accept': 'application/json',
+      'User-Agent': YAHOO_USER_AGENT,
+    },
+  })
+
+  if (!response.ok) return null
+
+  const data = await response.json() as any
+  const result = data?.chart?.result?.[0]
+  const timestamps: unknown[] = result?.timestamp || []
+  const closes: unknown[] = result?.indicators?.quote?.[0]?.close || []
+
+  for (let i = timestamps.length - 1; i >= 0; i--) {
+    const timestamp = timestamps[i]
+    const close = closes[i]
+    if (typeof timestamp === 'number' && timestamp <= period2 && typeof close === 'number' && isFinite(close) && close > 0) {
+      return close
+    }
+  }
+  return null
+}
+
+/**
+ * Fetch daily closes on `date` (YYYY-MM-DD) from Yahoo Finance.
+ * Returns a map of symbol -> close (missing symbols are omitted).
+ */
+export async function fetchHistoricalStockPrices(
+  symbols: string[],
+  date: string,
+  aliases: Record<string, string> = {}
+): Promise<Record<string, number>> {
+  return fetchPricesWithAliases(symbols, async (resolved) => {
+    const unique = [...new Set(resolved.map(s => s.trim().toUpperCase()).filter(Boolean))]
+    const out: Record<string, number> = {}
+    const CONCURRENCY = 10
+
+    for (let i = 0; i < unique.length; i += CONCURRENCY) {
+      const chunk = unique.slice(i, i + CONCURRENCY)
+      const settled = await Promise.allSettled(
+        chunk.map(async (sym) => ({ sym, price: await fetchYahooClose(sym, date) }))
+      )
+
+      for (const entry of settled) {
+        if (entry.status === 'fulfilled' && entry.value.price !== null) {
+          out[entry.value.sym] = entry.value.price
+        }
+      }
+    }
+
+    return out
+  }, aliases)
+}
+
+/** Daily closes keyed by day (YYYY-MM-DD) */
+export type DailyCloseSeries = Record<string, number>
+
+/**
+ * Daily closes from 10 days before `from` up to `to` (YYYY-MM-DD), keyed by the exchange's trading day
+ */
+async function fetchYahooCloseSeries(symbol: string, from: string, to: string): Promise<DailyCloseSeries | null> {
+  const period2 = endOfDaySeconds(to)
+  const period1 = Math.floor(Date.parse(`${from}T00:00:00Z`) / 1000) - 10 * 24 * 60 * 60
+  const url = `https://query1.finance.yahoo.com/v8/finance/chart/${encodeURIComponent(symbol)}?period1=${period1}&period2=${period2}&interval=1d`
+
+  const response = await fetch(url, {
+    method: 'GET',
+    headers: {
+      'Accept': 'application/json',
+      'User-Agent': YAHOO_USER_AGENT,
+    },
+  })
+
+  if (!response.ok) return null
+
+  const data = await response.json() as any
+  const result = data?.chart?.result?.[0]
+  const gmtOffset = typeof result?.meta?.gmtoffset === 'number' ? result.meta.gmtoffset : 0
+  const timestamps: unknown[] = result?.timestamp || []
+  const closes: unknown[] = result?.indicators?.quote?.[0]?.close || []
+
+  const series: DailyCloseSeries = {}
+  for (let i = 0; i < timestamps.length; i++) {
+    const timestamp = timestamps[i]
+    const close = closes[i]
+    if (typeof timestamp === 'number' && typeof close === 'number' && isFinite(close) && close > 0) {
+      series[new Date((timestamp + gmtOffset) * 1000).toISOString().slice(0, 10)] = close
+    }
+  }
+  return Object.keys(series).length > 0 ? series : null
+}
+
+/**
+ * Fetch daily closes between `from` and `to` (YYYY-MM-DD) from Yahoo Finance, one request per symbol.
+ * Includes the closes of the 10 days before `from`, so the first days can fall back to an earlier close.
+ * Returns a map of symbol -> series (missing symbols are omitted).
+ */
+export async function fetchHistoricalStockPriceSeries(
+  symbols: string[],
+  from: string,
+  to: string,
+  aliases: Record<string, string> = {}
+): Promise<Record<string, DailyCloseSeries>> {
+  return fetchPricesWithAliases(symbols, async (resolved) => {
+    const unique = [...new Set(resolved.map(s => s.trim().toUpperCase()).filter(Boolean))]
+    const out: Record<string, DailyCloseSeries> = {}
+    const CONCURRENCY = 10
+
+    for (let i = 0; i < unique.length; i += CONCURRENCY) {
+      const chunk = unique.slice(i, i + CONCURRENCY)
+      const settled = await Promise.allSettled(
+        chunk.map(async (sym) => ({ sym, series: await fetchYahooCloseSeries(sym, from, to) }))
+      )
+
+      for (const entry of settled) {
+        if (entry.status === 'fulfilled' && entry.value.series !== null) {
+          out[entry.value.sym] = entry.value.series
+        }
+      }
+    }
+
+    return out
+  }, aliases)
+}
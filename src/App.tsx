@@ -10,6 +10,9 @@ import Settings from './pages/Settings'
 import Login from './pages/Login'
 import { ThemeProvider } from './contexts/ThemeContext'
 import { CurrencyProvider } from './contexts/CurrencyContext'
+import { CostBasisProvider } from './contexts/CostBasisContext'
+import { BenchmarkProvider } from './contexts/BenchmarkContext'
+import { AllocationTargetProvider } from './contexts/AllocationTargetContext'
 import { AuthGateProvider, AuthGateState } from './lib/dataSafety/authGate'
 import { AuthContextCompatProvider, useAuth } from './lib/dataSafety/authGateCompat'
 import { IncognitoProvider } from './contexts/IncognitoContext'
@@ -93,16 +96,22 @@ function App() {
           <AuthContextCompatProvider>
             <ThemeProvider>
               <CurrencyProvider>
-                <ApiKeysProvider>
-                  <DataProvider>
-                    <IncognitoProvider>
-                      <Router>
-                        <ProtectedRoutes />
-                        <SyncStatusIndicator />
-                      </Router>
-                    </IncognitoProvider>
-                  </DataProvider>
-                </ApiKeysProvider>
+                <CostBasisProvider>
+                  <BenchmarkProvider>
+                    <AllocationTargetProvider>
+                      <ApiKeysProvider>
+                        <DataProvider>
+                          <IncognitoProvider>
+                            <Router>
+                              <ProtectedRoutes />
+                              <SyncStatusIndicator />
+                            </Router>
+                          </IncognitoProvider>
+                        </DataProvider>
+                      </ApiKeysProvider>
+                    </AllocationTargetProvider>
+                  </BenchmarkProvider>
+                </CostBasisProvider>
               </CurrencyProvider>
             </ThemeProvider>
           </AuthContextCompatProvider>
@@ -0,0 +1,105 @@
+import React, { createContext, useContext, useEffect, useLayoutEffect, useRef, useState, ReactNode } from 'react'
+import { useAuth } from '../lib/dataSafety/authGateCompat'
+import { loadUserSettings, saveAllocationTargets } from '../lib/dataSafety/userSettingsRepo'
+import { toAllocationTargets, type AllocationTargets } from '../services/targetAllocationService'
+
+interface AllocationTargetContextType {
+  allocationTargets: AllocationTargets
+  isLoading: boolean
+  error?: string
+  setAllocationTargets: (allocationTargets: AllocationTargets) => Promise<void>
+}
+
+const AllocationTargetContext = createContext<AllocationTargetContextType | undefined>(undefined)
+
+interface AllocationTargetProviderProps {
+  children: ReactNode
+}
+
+function AllocationTargetProviderInner({ children }: AllocationTargetProviderProps) {
+  const { uid } = useAuth()
+  const [allocationTargets, setAllocationTargetsState] = useState<AllocationTargets>({})
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | undefined>(undefined)
+
+  // Persist across remounts + avoid stale closures during optimistic updates
+  const allocationTargetsRef = useRef<AllocationTargets>({})
+  const prevUidRef = useRef<string | null>(null)
+
+  const setAllocationTargetsLocal = (next: AllocationTargets) => {
+    allocationTargetsRef.current = next
+    setAllocationTargetsState(next)
+  }
+
+  // Auth boundary reset: no targets for a new user
+  useLayoutEffect(() => {
+    if (prevUidRef.current !== uid) {
+      prevUidRef.current = uid
+      setError(undefined)
+      setIsLoading(true)
+      setAllocationTargetsLocal({})
+    }
+  }, [uid])
+
+  // Load targets from Firestore on uid change (invalid entries are ignored)
+  useEffect(() => {
+    const loadAllocationTargets = async () => {
+      if (!uid) {
+        setIsLoading(false)
+        return
+      }
+
+      try {
+        const settings = await loadUserSettings(uid)
+        setAllocationTargetsLocal(toAllocationTargets(settings?.allocationTargets))
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Failed to load allocation targets'
+        setError(message)
+        // keep none
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    loadAllocationTargets()
+  }, [uid])
+
+  const setAllocationTargets = async (nextTargets: AllocationTargets) => {
+    if (!uid) {
+      throw new Error('Cannot save allocation targets: user not authenticated')
+    }
+
+    const prev = allocationTargetsRef.current
+    // Optimistic apply
+    setAllocationTargetsLocal(nextTargets)
+    setError(undefined)
+
+    try {
+      await saveAllocationTargets(uid, nextTargets)
+    } catch (err) {
+      // Revert on failure
+      setAllocationTargetsLocal(prev)
+      const message = err instanceof Error ? err.message : 'Failed to save allocation targets'
+      setError(message)
+      throw err
+    }
+  }
+
+  return (
+    <AllocationTargetContext.Provider value={{ allocationTargets, isLoading, error, setAllocationTargets }}>
+      {children}
+    </AllocationTargetContext.Provider>
+  )
+}
+
+export function AllocationTargetProvider({ children }: AllocationTargetProviderProps) {
+  return <AllocationTargetProviderInner>{children}</AllocationTargetProviderInner>
+}
+
+export function useAllocationTargets() {
+  const context = useContext(AllocationTargetContext)
+  if (context === undefined) {
+    throw new Error('useAllocationTargets must be used within a AllocationTargetProvider')
+  }
+  return context
+}
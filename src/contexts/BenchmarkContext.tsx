@@ -0,0 +1,108 @@
+import React, { createContext, useContext, useEffect, useLayoutEffect, useRef, useState, ReactNode } from 'react'
+import { useAuth } from '../lib/dataSafety/authGateCompat'
+import { loadUserSettings, saveBenchmarks } from '../lib/dataSafety/userSettingsRepo'
+import { MAX_BENCHMARKS, isBenchmark, type Benchmark } from '../services/benchmarkService'
+
+interface BenchmarkContextType {
+  benchmarks: Benchmark[]
+  isLoading: boolean
+  error?: string
+  setBenchmarks: (benchmarks: Benchmark[]) => Promise<void>
+}
+
+const BenchmarkContext = createContext<BenchmarkContextType | undefined>(undefined)
+
+interface BenchmarkProviderProps {
+  children: ReactNode
+}
+
+function BenchmarkProviderInner({ children }: BenchmarkProviderProps) {
+  const { uid } = useAuth()
+  const [benchmarks, setBenchmarksState] = useState<Benchmark[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | undefined>(undefined)
+
+  // Persist across remounts + avoid stale closures during optimistic updates
+  const benchmarksRef = useRef<Benchmark[]>([])
+  const prevUidRef = useRef<string | null>(null)
+
+  const setBenchmarksLocal = (next: Benchmark[]) => {
+    benchmarksRef.current = next
+    setBenchmarksState(next)
+  }
+
+  // Auth boundary reset: no benchmarks for a new user
+  useLayoutEffect(() => {
+    if (prevUidRef.current !== uid) {
+      prevUidRef.current = uid
+      setError(undefined)
+      setIsLoading(true)
+      setBenchmarksLocal([])
+    }
+  }, [uid])
+
+  // Load benchmarks from Firestore on uid change (invalid entries are ignored)
+  useEffect(() => {
+    const loadBenchmarks = async () => {
+      if (!uid) {
+        setIsLoading(false)
+        return
+      }
+
+      try {
+        const settings = await loadUserSettings(uid)
+        setBenchmarksLocal((settings?.benchmarks || []).filter(isBenchmark).slice(0, MAX_BENCHMARKS))
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Failed to load benchmarks'
+        setError(message)
+        // keep none
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    loadBenchmarks()
+  }, [uid])
+
+  const setBenchmarks = async (nextBenchmarks: Benchmark[]) => {
+    if (!uid) {
+      throw new Error('Cannot save benchmarks: user not authenticated')
+    }
+    if (nextBenchmarks.length > MAX_BENCHMARKS) {
+      throw new Error(`At most ${MAX_BENCHMARKS} benchmarks can be selected`)
+    }
+
+    const prev = benchmarksRef.current
+    // Optimistic apply
+    setBenchmarksLocal(nextBenchmarks)
+    setError(undefined)
+
+    try {
+      await saveBenchmarks(uid, nextBenchmarks)
+    } catch (err) {
+      // Revert on failure
+      setBenchmarksLocal(prev)
+      const message = err instanceof Error ? err.message : 'Failed to save benchmarks'
+      setError(message)
+      throw err
+    }
+  }
+
+  return (
+    <BenchmarkContext.Provider value={{ benchmarks, isLoading, error, setBenchmarks }}>
+      {children}
+    </BenchmarkContext.Provider>
+  )
+}
+
+export function BenchmarkProvider({ children }: BenchmarkProviderProps) {
+  return <BenchmarkProviderInner>{children}</BenchmarkProviderInner>
+}
+
+export function useBenchmarks() {
+  const context = useContext(BenchmarkContext)
+  if (context === undefined) {
+    throw new Error('useBenchmarks must be used within a BenchmarkProvider')
+  }
+  return context
+}
@@ -0,0 +1,110 @@
+import React, { createContext, useContext, useEffect, useLayoutEffect, useRef, useState, ReactNode } from 'react'
+import { useAuth } from '../lib/dataSafety/authGateCompat'
+import { loadUserSettings, saveCostBasisMethod } from '../lib/dataSafety/userSettingsRepo'
+import {
+  DEFAULT_COST_BASIS_METHOD,
+  isCostBasisMethod,
+  type CostBasisMethod,
+} from '../services/costBasisService'
+
+interface CostBasisContextType {
+  costBasisMethod: CostBasisMethod
+  isLoading: boolean
+  error?: string
+  setCostBasisMethod: (method: CostBasisMethod) => Promise<void>
+}
+
+const CostBasisContext = createContext<CostBasisContextType | undefined>(undefined)
+
+interface CostBasisProviderProps {
+  children: ReactNode
+}
+
+function CostBasisProviderInner({ children }: CostBasisProviderProps) {
+  const { uid } = useAuth()
+  const [costBasisMethod, setCostBasisMethodState] = useState<CostBasisMethod>(DEFAULT_COST_BASIS_METHOD)
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | undefined>(undefined)
+
+  // Persist across remounts + avoid stale closures during optimistic updates
+  const methodRef = useRef<CostBasisMethod>(DEFAULT_COST_BASIS_METHOD)
+  const prevUidRef = useRef<string | null>(null)
+
+  const setMethodLocal = (next: CostBasisMethod) => {
+    methodRef.current = next
+    setCostBasisMethodState(next)
+  }
+
+  // Auth boundary reset: back to the default method for a new user
+  useLayoutEffect(() => {
+    if (prevUidRef.current !== uid) {
+      prevUidRef.current = uid
+      setError(undefined)
+      setIsLoading(true)
+      setMethodLocal(DEFAULT_COST_BASIS_METHOD)
+    }
+  }, [uid])
+
+  // Load costBasisMethod from Firestore on uid change
+  useEffect(() => {
+    const loadMethod = async () => {
+      if (!uid) {
+        setIsLoading(false)
+        return
+      }
+
+      try {
+        const settings = await loadUserSettings(uid)
+        const stored = settings?.costBasisMethod
+        setMethodLocal(isCostBasisMethod(stored) ? stored : DEFAULT_COST_BASIS_METHOD)
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Failed to load cost basis method'
+        setError(message)
+        // keep default
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    loadMethod()
+  }, [uid])
+
+  const setCostBasisMethod = async (nextMethod: CostBasisMethod) => {
+    if (!uid) {
+      throw new Error('Cannot save cost basis method: user not authenticated')
+    }
+
+    const prev = methodRef.current
+    // Optimistic apply
+    setMethodLocal(nextMethod)
+    setError(undefined)
+
+    try {
+      await saveCostBasisMethod(uid, nextMethod)
+    } catch (err) {
+      // Revert on failure
+      setMethodLocal(prev)
+      const message = err instanceof Error ? err.message : 'Failed to save cost basis method'
+      setError(message)
+      throw err
+    }
+  }
+
+  return (
+    <CostBasisContext.Provider value={{ costBasisMethod, isLoading, error, setCostBasisMethod }}>
+      {children}
+    </CostBasisContext.Provider>
+  )
+}
+
+export function CostBasisProvider({ children }: CostBasisProviderProps) {
+  return <CostBasisProviderInner>{children}</CostBasisProviderInner>
+}
+
+export function useCostBasis() {
+  const context = useContext(CostBasisContext)
+  if (context === undefined) {
+    throw new Error('useCostBasis must be used within a CostBasisProvider')
+  }
+  return context
+}
@@ -12,6 +12,7 @@ import {
 import { loadSnapshots, type NetWorthSnapshot } from '../services/snapshotService'
 import { fetchCryptoData } from '../services/cryptoCompareService'
 import { getDailyPricesMap, categoryUsesMarketApi } from '../services/market-data/DailyPriceService'
+import { BUILTIN_CRYPTO_SYMBOL_ALIASES, buildSymbolAliasMap } from '../services/corporateActionsService'
 import { fetchHyperliquidPerpetualsData } from '../services/hyperliquidService'
 import { MexcFuturesPositionsWs, type MexcWsStatus } from '../services/mexcFuturesPositionsWs'
 import { fetchMexcEquityUsd, fetchMexcOpenOrders, fetchMexcOpenPositions, fetchMexcUnrealizedPnlWindows } from '../services/mexcFuturesService'
@@ -140,7 +141,8 @@ export function DataProvider({ children }: DataProviderProps) {
     }
 
     try {
-      const { prices, usdToChfRate } = await fetchCryptoData(uniqueTickers)
+      const aliases = buildSymbolAliasMap(cryptoItems, BUILTIN_CRYPTO_SYMBOL_ALIASES)
+      const { prices, usdToChfRate } = await fetchCryptoData(uniqueTickers, aliases)
       return { cryptoPrices: prices, usdToChfRate }
     } catch (error) {
       console.error('Error fetching crypto prices:', error)
@@ -166,7 +168,7 @@ export function DataProvider({ children }: DataProviderProps) {
         source: 'DailyPriceService (Firestore cache + API)',
       })
       // Use the daily Firestore cache - triggers API fetch if needed
-      const prices = await getDailyPricesMap(uniqueTickers)
+      const prices = await getDailyPricesMap(uniqueTickers, undefined, buildSymbolAliasMap(stockItems))
       console.log('[DataContext] fetchStockPricesData result:', prices)
       return prices
     } catch (error) {
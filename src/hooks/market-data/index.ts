@@ -4,3 +4,4 @@
 
 export * from './useFxRate'
 export * from './useQuote'
+export * from './useFxConvert'
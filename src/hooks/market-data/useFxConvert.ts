@@ -0,0 +1,62 @@
+/**
+ * Hook for converting amounts to the base currency with current FxRateService rates
+ */
+
+import { useState, useEffect, useCallback } from 'react'
+import { supportedCurrencies, type CurrencyCode } from '../../lib/currency'
+import { getRate } from '../../services/market-data/FxRateService'
+import { useCurrency } from '../../contexts/CurrencyContext'
+
+/**
+ * Same signature as CurrencyContext's `convert`, but with the latest FxRateService rates; falls
+ * back to the CurrencyContext rates while loading and for currencies without a rate.
+ * `rates` holds the base currency per unit of each currency.
+ */
+export function useFxConvert(): {
+  convert: (amount: number, from: CurrencyCode) => number
+  rates: Partial<Record<CurrencyCode, number>>
+  isLoading: boolean
+} {
+  const { baseCurrency, convert: fallbackConvert } = useCurrency()
+  const [rates, setRates] = useState<Partial<Record<CurrencyCode, number>>>({})
+  const [isLoading, setIsLoading] = useState(true)
+
+  useEffect(() => {
+    let cancelled = false
+
+    const fetchRates = async () => {
+      setIsLoading(true)
+      const results = await Promise.all(
+        supportedCurrencies
+          .filter((currency) => currency !== baseCurrency)
+          .map(async (currency) => {
+            try {
+              const result = await getRate(currency, baseCurrency)
+              return [currency, result.rate] as const
+            } catch (err) {
+              console.error(`[useFxConvert] Error fetching ${currency}→${baseCurrency}:`, err)
+              return null
+            }
+          })
+      )
+      if (!cancelled) {
+        setRates(Object.fromEntries(results.filter((entry): entry is readonly [CurrencyCode, number] => entry !== null)))
+        setIsLoading(false)
+      }
+    }
+
+    fetchRates()
+
+    return () => {
+      cancelled = true
+    }
+  }, [baseCurrency])
+
+  const convert = useCallback((amount: number, from: CurrencyCode): number => {
+    if (from === baseCurrency) return amount
+    const rate = rates[from]
+    return rate ? amount * rate : fallbackConvert(amount, from)
+  }, [rates, baseCurrency, fallbackConvert])
+
+  return { convert, rates, isLoading }
+}
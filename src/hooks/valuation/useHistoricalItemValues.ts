@@ -0,0 +1,58 @@
+/**
+ * Hook for per-item values on past days without a snapshot with per-item detail
+ */
+
+import { useState, useEffect } from 'react'
+import type { NetWorthItem, NetWorthTransaction } from '../../pages/NetWorth'
+import type { CostBasisMethod } from '../../services/costBasisService'
+import type { ValuationPoint } from '../../services/performanceReturnsService'
+import { valuateItemsAsOf } from '../../services/snapshotService'
+
+export function useHistoricalItemValues(
+  items: NetWorthItem[],
+  transactions: NetWorthTransaction[],
+  dates: string[],
+  costBasisMethod?: CostBasisMethod
+): {
+  points: ValuationPoint[]
+  isLoading: boolean
+} {
+  const [points, setPoints] = useState<ValuationPoint[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const datesKey = dates.join(',')
+
+  useEffect(() => {
+    if (!datesKey) {
+      setPoints([])
+      return
+    }
+    let cancelled = false
+
+    const fetchPoints = async () => {
+      setIsLoading(true)
+      try {
+        const result = await valuateItemsAsOf(items, transactions, datesKey.split(','), costBasisMethod)
+        if (!cancelled) {
+          setPoints(result)
+        }
+      } catch (err) {
+        if (!cancelled) {
+          console.error('[useHistoricalItemValues] Error valuing past days:', err)
+          setPoints([])
+        }
+      } finally {
+        if (!cancelled) {
+          setIsLoading(false)
+        }
+      }
+    }
+
+    fetchPoints()
+
+    return () => {
+      cancelled = true
+    }
+  }, [items, transactions, datesKey, costBasisMethod])
+
+  return { points, isLoading }
+}
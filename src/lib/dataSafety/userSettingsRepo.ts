@@ -9,6 +9,10 @@
  * {
  *   baseCurrency: string,
  *   themeId: string,
+ *   costBasisMethod?: 'fifo' | 'lifo' | 'average',
+ *   benchmarks?: Benchmark[],
+ *   allocationTargets?: Record<string, { weight: number, tolerance: number }>,
+ *   snapshotItems?: boolean,
  *   apiKeys: {
  *     hyperliquidWalletAddress?: string,
  *     mexcApiKey?: string,
@@ -26,6 +30,8 @@
 import { doc, getDoc, updateDoc, setDoc, deleteField } from 'firebase/firestore'
 import { db } from '../../config/firebase'
 import { safeWrite } from './repository'
+import type { Benchmark } from '../../services/benchmarkService'
+import type { AllocationTargets } from '../../services/targetAllocationService'
 
 /**
  * Canonical Firestore path for user settings
@@ -44,13 +50,20 @@ export interface UserSettingsData {
   baseCurrency: string | null
   apiKeys: ApiKeys | null
   themeId: string | null
+  costBasisMethod: string | null
+  /** Unvalidated; see isBenchmark */
+  benchmarks: unknown[] | null
+  /** Unvalidated; see toAllocationTargets */
+  allocationTargets: Record<string, unknown> | null
+  /** Store per-item values in new snapshots (see lib/snapshotItems.ts); null = on */
+  snapshotItems: boolean | null
 }
 
 /**
  * Load user settings from Firestore
  * 
  * Returns null if document doesn't exist or on error.
- * apiKeys/baseCurrency/themeId are null if not present in document.
+ * apiKeys/baseCurrency/themeId/costBasisMethod/benchmarks/allocationTargets/snapshotItems are null if not present in document.
  */
 export async function loadUserSettings(uid: string): Promise<UserSettingsData | null> {
   const docRef = getUserSettingsDocPath(uid)
@@ -83,6 +96,10 @@ export async function loadUserSettings(uid: string): Promise<UserSettingsData |
       baseCurrency: data?.baseCurrency || null,
       apiKeys: data?.apiKeys || null,
       themeId: data?.themeId || null,
+      costBasisMethod: data?.costBasisMethod || null,
+      benchmarks: Array.isArray(data?.benchmarks) ? data.benchmarks : null,
+      allocationTargets: data?.allocationTargets && typeof data.allocationTargets === 'object' ? data.allocationTargets : null,
+      snapshotItems: typeof data?.snapshotItems === 'boolean' ? data.snapshotItems : null,
     }
   } catch (error) {
     console.error('[UserSettingsRepo] Error loading settings:', error)
@@ -117,6 +134,124 @@ export async function saveThemeId(uid: string, themeId: string): Promise<void> {
   }
 }
 
+/**
+ * Save cost basis method (fifo | lifo | average) to Firestore
+ * Uses merge write to preserve other fields
+ */
+export async function saveCostBasisMethod(uid: string, costBasisMethod: string): Promise<void> {
+  const docRef = getUserSettingsDocPath(uid)
+
+  if (import.meta.env.DEV) {
+    console.log('[UserSettingsRepo] Saving costBasisMethod:', {
+      uid,
+      costBasisMethod,
+      path: `users/${uid}/settings/user`,
+    })
+  }
+
+  try {
+    await safeWrite(docRef, { costBasisMethod }, {
+      origin: 'user',
+      domain: 'settings',
+      merge: true,
+    })
+  } catch (error) {
+    console.error('[UserSettingsRepo] Error saving costBasisMethod:', error)
+    throw error
+  }
+}
+
+/**
+ * Save the benchmarks shown on the Net Worth Evolution chart to Firestore
+ * Uses merge write to preserve other fields (the list itself is replaced)
+ */
+export async function saveBenchmarks(uid: string, benchmarks: Benchmark[]): Promise<void> {
+  const docRef = getUserSettingsDocPath(uid)
+
+  if (import.meta.env.DEV) {
+    console.log('[UserSettingsRepo] Saving benchmarks:', {
+      uid,
+      benchmarks: benchmarks.map((benchmark) => benchmark.id),
+      path: `users/${uid}/settings/user`,
+    })
+  }
+
+  try {
+    await safeWrite(docRef, { benchmarks }, {
+      origin: 'user',
+      domain: 'settings',
+      merge: true,
+    })
+  } catch (error) {
+    console.error('[UserSettingsRepo] Error saving benchmarks:', error)
+    throw error
+  }
+}
+
+/**
+ * Save the target asset allocation to Firestore
+ * Uses merge write to preserve other fields; targets no longer in the map are deleted
+ * (a merge write would otherwise keep them in the stored map)
+ */
+export async function saveAllocationTargets(uid: string, allocationTargets: AllocationTargets): Promise<void> {
+  const docRef = getUserSettingsDocPath(uid)
+
+  if (import.meta.env.DEV) {
+    console.log('[UserSettingsRepo] Saving allocationTargets:', {
+      uid,
+      keys: Object.keys(allocationTargets),
+      path: `users/${uid}/settings/user`,
+    })
+  }
+
+  try {
+    const snap = await getDoc(docRef)
+    const existingTargets = snap.exists() ? snap.data()?.allocationTargets || {} : {}
+    const updateTargets: Record<string, unknown> = { ...allocationTargets }
+    Object.keys(existingTargets).forEach((key) => {
+      if (!(key in allocationTargets)) {
+        updateTargets[key] = deleteField()
+      }
+    })
+
+    await safeWrite(docRef, { allocationTargets: updateTargets }, {
+      origin: 'user',
+      domain: 'settings',
+      merge: true,
+    })
+  } catch (error) {
+    console.error('[UserSettingsRepo] Error saving allocationTargets:', error)
+    throw error
+  }
+}
+
+/**
+ * Save whether new snapshots store per-item values to Firestore
+ * Uses merge write to preserve other fields
+ */
+export async function saveSnapshotItems(uid: string, snapshotItems: boolean): Promise<void> {
+  const docRef = getUserSettingsDocPath(uid)
+
+  if (import.meta.env.DEV) {
+    console.log('[UserSettingsRepo] Saving snapshotItems:', {
+      uid,
+      snapshotItems,
+      path: `users/${uid}/settings/user`,
+    })
+  }
+
+  try {
+    await safeWrite(docRef, { snapshotItems }, {
+      origin: 'user',
+      domain: 'settings',
+      merge: true,
+    })
+  } catch (error) {
+    console.error('[UserSettingsRepo] Error saving snapshotItems:', error)
+    throw error
+  }
+}
+
 /**
  * Save base currency to Firestore
  * Uses merge write to preserve other fields
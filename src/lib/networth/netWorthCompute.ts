@@ -99,6 +99,8 @@ export function computeNetWorthSummary(
     asOf: new Date().toISOString(),
     baseCurrency,
     totalNetWorth: validTotal,
+    grossAssets: isFinite(result.grossAssetsChf) ? result.grossAssetsChf : 0,
+    totalLiabilities: isFinite(result.totalLiabilitiesChf) ? result.totalLiabilitiesChf : 0,
     categories,
   }
 }
@@ -23,8 +23,10 @@ export interface NetWorthSummary {
   uid: string
   asOf: string // ISO timestamp
   baseCurrency: string
-  totalNetWorth: number
-  categories: NetWorthCategorySummary[]
+  totalNetWorth: number // Net: grossAssets - totalLiabilities
+  grossAssets: number
+  totalLiabilities: number // Positive amount of outstanding debt
+  categories: NetWorthCategorySummary[] // Liability categories carry negative totals
 }
 
 /**
@@ -41,6 +43,9 @@ export const CATEGORY_NAMES: Record<NetWorthCategory, string> = {
   'Perpetuals': 'Perpetuals',
   'Real Estate': 'Real Estate',
   'Depreciating Assets': 'Depreciating Assets',
+  'Mortgage': 'Mortgage',
+  'Loan': 'Loan',
+  'Credit Card': 'Credit Card',
 }
 
 /**
@@ -57,4 +62,7 @@ export const CATEGORY_ORDER: NetWorthCategory[] = [
   'Perpetuals',
   'Real Estate',
   'Depreciating Assets',
+  'Mortgage',
+  'Loan',
+  'Credit Card',
 ]
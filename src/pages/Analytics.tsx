@@ -7,7 +7,8 @@ import { useAuth } from '../lib/dataSafety/authGateCompat'
 import { useCurrency } from '../contexts/CurrencyContext'
 import { useIncognito } from '../contexts/IncognitoContext'
 import { useData } from '../contexts/DataContext'
-import { formatMoney } from '../lib/currency'
+import { useCostBasis } from '../contexts/CostBasisContext'
+import { formatMoney, supportedCurrencies, type CurrencyCode } from '../lib/currency'
 import { toDateSafe } from '../lib/firestoreSafeWrite'
 import {
   loadPlatforms,
@@ -16,17 +17,59 @@ import {
   loadForecastEntries,
   saveForecastEntry,
   deleteForecastEntry,
+  loadGoals,
+  saveGoal,
+  deleteGoal,
+  loadForecastScenarios,
+  saveForecastScenario,
+  deleteForecastScenario,
   type Platform,
   type ForecastEntry,
+  type ForecastRecurrence,
+  type ForecastScenario,
+  type Goal,
 } from '../services/storageService'
 import {
+  FORECAST_HORIZONS,
+  calculateCombinedForecast,
   calculateForecast,
+  getFirstBufferBreach,
   getPlatformBalance,
+  getPlatformItemSchedules,
+  getPlatformLoanOutflows,
   getPlatformSpareChangeInflow
 } from '../services/forecastCalculationService'
+import { getItemMonthlyAmount } from '../services/cashflowCalculationService'
+import { useFxConvert } from '../hooks/market-data/useFxConvert'
+import { getLoanOutflowItems } from '../services/loanAmortizationService'
+import { NetWorthCalculationService, isLiabilityCategory } from '../services/netWorthCalculationService'
+import { toChfItemValues } from '../services/snapshotItemsService'
+import { formatReturnPct, getFallbackValuationDates, toValuationPoints } from '../services/performanceReturnsService'
+import { getTodayUTCDate } from '../services/snapshotService'
+import { useHistoricalItemValues } from '../hooks/valuation/useHistoricalItemValues'
+import {
+  GOAL_KINDS,
+  GOAL_KIND_LABELS,
+  computeGoalProgress,
+  getGoalGrowthRate,
+  type GoalKind,
+  type GoalScope,
+  type GoalStatus,
+} from '../services/goalsService'
+import { RISK_SUMMARY_GROUPS, computeRiskMetrics, type RiskMetrics } from '../services/riskMetricsService'
+import {
+  DEFAULT_ASSET_CLASS_ASSUMPTIONS,
+  computeFireSimulation,
+  getFireInputErrors,
+  getFireWeights,
+  type AssetClassAssumptions,
+} from '../services/fireSimulationService'
+import type { NetWorthCategory } from './NetWorth'
 import {
   LineChart,
   Line,
+  AreaChart,
+  Area,
   XAxis,
   YAxis,
   CartesianGrid,
@@ -44,13 +87,13 @@ const CHART_COLORS = {
   muted1: '#8B8F99',
 }
 
-interface EntryMenuProps {
-  entry: ForecastEntry
-  onEdit: (entry: ForecastEntry) => void
+interface EntryMenuProps<T extends { id: string }> {
+  entry: T
+  onEdit: (entry: T) => void
   onRemove: (id: string) => void
 }
 
-function EntryMenu({ entry, onEdit, onRemove }: EntryMenuProps) {
+function EntryMenu<T extends { id: string }>({ entry, onEdit, onRemove }: EntryMenuProps<T>) {
   const [menuOpen, setMenuOpen] = useState(false)
   const [menuPosition, setMenuPosition] = useState<{ x: number; y: number } | null>(null)
   const buttonRef = useRef<HTMLButtonElement>(null)
@@ -133,11 +176,29 @@ function formatDateToDDMMYYYY(dateString: string): string {
   return `${day}/${month}/${year}`
 }
 
+const RECURRENCE_LABELS: Record<ForecastRecurrence['frequency'], string> = {
+  monthly: 'Monthly',
+  quarterly: 'Quarterly',
+  yearly: 'Yearly',
+  custom: 'Custom',
+}
+
+function formatRecurrence(recurrence: ForecastRecurrence): string {
+  const interval = recurrence.frequency === 'custom'
+    ? `Every ${recurrence.intervalMonths || 1} months`
+    : RECURRENCE_LABELS[recurrence.frequency]
+  return recurrence.endDate ? `${interval} until ${formatDateToDDMMYYYY(recurrence.endDate)}` : interval
+}
+
+type ForecastEntryFormData = Pick<ForecastEntry, 'date' | 'title' | 'amount'> & {
+  recurrence: ForecastRecurrence | null
+}
+
 interface ForecastEntryModalProps {
   type: 'inflow' | 'outflow'
   editingEntry: ForecastEntry | null
   onClose: () => void
-  onSubmit: (data: { date: string; title: string; amount: number }) => void
+  onSubmit: (data: ForecastEntryFormData) => void
 }
 
 function ForecastEntryModal({ type, editingEntry, onClose, onSubmit }: ForecastEntryModalProps) {
@@ -148,6 +209,11 @@ function ForecastEntryModal({ type, editingEntry, onClose, onSubmit }: ForecastE
   const [dateValue, setDateValue] = useState(initialDate)
   const [title, setTitle] = useState(editingEntry ? editingEntry.title : '')
   const [amount, setAmount] = useState(editingEntry ? editingEntry.amount.toString() : '')
+  const [frequency, setFrequency] = useState<ForecastRecurrence['frequency'] | 'none'>(
+    editingEntry?.recurrence ? editingEntry.recurrence.frequency : 'none'
+  )
+  const [intervalMonths, setIntervalMonths] = useState(editingEntry?.recurrence?.intervalMonths?.toString() || '2')
+  const [endDate, setEndDate] = useState(editingEntry?.recurrence?.endDate || '')
 
   const handleDateChange = (e: ChangeEvent<HTMLInputElement>) => {
     setDateValue(e.target.value)
@@ -158,11 +224,26 @@ function ForecastEntryModal({ type, editingEntry, onClose, onSubmit }: ForecastE
     if (!dateValue || !title || !amount || parseFloat(amount) <= 0) {
       return
     }
+    if (frequency === 'custom' && !(parseInt(intervalMonths, 10) >= 1)) {
+      return
+    }
+    if (frequency !== 'none' && endDate && endDate < dateValue) {
+      return
+    }
+
+    // Firestore rejects undefined fields, so optional recurrence fields are left out
+    let recurrence: ForecastRecurrence | null = null
+    if (frequency !== 'none') {
+      recurrence = { frequency }
+      if (frequency === 'custom') recurrence.intervalMonths = parseInt(intervalMonths, 10)
+      if (endDate) recurrence.endDate = endDate
+    }
 
     onSubmit({
       date: dateValue,
       title,
       amount: parseFloat(amount),
+      recurrence,
     })
   }
 
@@ -241,6 +322,60 @@ function ForecastEntryModal({ type, editingEntry, onClose, onSubmit }: ForecastE
             />
           </div>
 
+          <div>
+            <label htmlFor="forecast-recurrence" className="block text-text-secondary text-[0.567rem] md:text-xs font-medium mb-2">
+              Repeats
+            </label>
+            <select
+              id="forecast-recurrence"
+              value={frequency}
+              onChange={(e) => setFrequency(e.target.value as ForecastRecurrence['frequency'] | 'none')}
+              className="w-full bg-bg-surface-2 border border-border-subtle rounded-input px-3 py-2 text-text-primary text-xs md:text-sm focus:outline-none focus:border-accent-blue"
+            >
+              <option value="none">Does not repeat</option>
+              {(Object.keys(RECURRENCE_LABELS) as ForecastRecurrence['frequency'][]).map((value) => (
+                <option key={value} value={value}>
+                  {RECURRENCE_LABELS[value]}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {frequency !== 'none' && (
+            <div className="grid grid-cols-2 gap-4">
+              {frequency === 'custom' && (
+                <div>
+                  <label htmlFor="forecast-interval" className="block text-text-secondary text-[0.567rem] md:text-xs font-medium mb-2">
+                    Every (months)
+                  </label>
+                  <input
+                    id="forecast-interval"
+                    type="number"
+                    value={intervalMonths}
+                    onChange={(e) => setIntervalMonths(e.target.value)}
+                    className="w-full bg-bg-surface-2 border border-border-subtle rounded-input px-3 py-2 text-text-primary text-xs md:text-sm focus:outline-none focus:border-accent-blue"
+                    step="1"
+                    min="1"
+                    required
+                  />
+                </div>
+              )}
+              <div className={frequency === 'custom' ? '' : 'col-span-2'}>
+                <label htmlFor="forecast-end-date" className="block text-text-secondary text-[0.567rem] md:text-xs font-medium mb-2">
+                  End Date (optional)
+                </label>
+                <input
+                  id="forecast-end-date"
+                  type="date"
+                  value={endDate}
+                  min={dateValue}
+                  onChange={(e) => setEndDate(e.target.value)}
+                  className="w-full bg-bg-surface-2 border border-border-subtle rounded-input px-3 py-2 text-text-primary text-xs md:text-sm focus:outline-none focus:border-accent-blue"
+                />
+              </div>
+            </div>
+          )}
+
           <div className="flex gap-3 pt-4">
             <button
               type="button"
@@ -262,9 +397,361 @@ function ForecastEntryModal({ type, editingEntry, onClose, onSubmit }: ForecastE
   )
 }
 
+/** Line colors of the scenarios in the balance chart (the current plan uses accent1) */
+const SCENARIO_COLORS = ['#DAA520', '#2ECC71', '#E74C3C', '#9B59B6', '#1ABC9C', '#E67E22']
+
+/** Area colors of the platforms in the combined forecast */
+const PLATFORM_COLORS = ['#4A90E2', '#DAA520', '#2ECC71', '#B87333', '#9B59B6', '#1ABC9C', '#E67E22', '#E74C3C']
+
+/** Plan id of the platform's own forecast entries (scenario ids are UUIDs) */
+const CURRENT_PLAN_ID = 'current'
+
+type ScenarioFormData = Pick<ForecastScenario, 'name' | 'spareChangeInflow'>
+
+interface ScenarioModalProps {
+  editingScenario: ForecastScenario | null
+  /** Name of the plan a new scenario is cloned from */
+  sourceName: string
+  /** Spare change from Cashflow (placeholder of the override) */
+  cashflowSpareChange: number
+  onClose: () => void
+  onSubmit: (data: ScenarioFormData) => void
+}
+
+function ScenarioModal({ editingScenario, sourceName, cashflowSpareChange, onClose, onSubmit }: ScenarioModalProps) {
+  const [name, setName] = useState(editingScenario ? editingScenario.name : '')
+  const [spareChange, setSpareChange] = useState(
+    editingScenario?.spareChangeInflow !== null && editingScenario?.spareChangeInflow !== undefined
+      ? editingScenario.spareChangeInflow.toString()
+      : ''
+  )
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault()
+    if (!name.trim()) {
+      return
+    }
+
+    onSubmit({
+      name: name.trim(),
+      spareChangeInflow: spareChange === '' ? null : parseFloat(spareChange) || 0,
+    })
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50" role="presentation">
+      <div
+        className="bg-bg-surface-1 border border-border-strong rounded-card shadow-card p-6 w-full max-w-md mx-4"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="scenario-modal-title"
+      >
+        <div className="flex items-center justify-between mb-4">
+          <Heading level={3} id="scenario-modal-title">
+            {editingScenario ? 'Edit Scenario' : 'New Scenario'}
+          </Heading>
+          <button
+            onClick={onClose}
+            className="p-1 hover:bg-bg-surface-2 rounded transition-colors"
+            aria-label="Close"
+          >
+            <svg className="w-5 h-5 text-text-secondary" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {!editingScenario && (
+            <p className="text-text-muted text-[0.567rem] md:text-xs">
+              Starts as a copy of the entries of {sourceName}.
+            </p>
+          )}
+
+          <div>
+            <label htmlFor="scenario-name" className="block text-text-secondary text-[0.567rem] md:text-xs font-medium mb-2">
+              Name
+            </label>
+            <input
+              id="scenario-name"
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              className="w-full bg-bg-surface-2 border border-border-subtle rounded-input px-3 py-2 text-text-primary text-xs md:text-sm focus:outline-none focus:border-accent-blue"
+              placeholder="e.g., Buy a car in June"
+              required
+            />
+          </div>
+
+          <div>
+            <label htmlFor="scenario-spare-change" className="block text-text-secondary text-[0.567rem] md:text-xs font-medium mb-2">
+              Spare-Change Inflow / Month (optional)
+            </label>
+            <input
+              id="scenario-spare-change"
+              type="number"
+              value={spareChange}
+              onChange={(e) => setSpareChange(e.target.value)}
+              className="w-full bg-bg-surface-2 border border-border-subtle rounded-input px-3 py-2 text-text-primary text-xs md:text-sm focus:outline-none focus:border-accent-blue"
+              placeholder={cashflowSpareChange.toFixed(2)}
+              step="0.01"
+            />
+            <p className="mt-1 text-text-muted text-[0.567rem] md:text-xs">
+              Leave empty to use the spare change from Cashflow.
+            </p>
+          </div>
+
+          <div className="flex gap-3 pt-4">
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex-1 px-4 py-2 bg-bg-surface-2 border border-border-subtle rounded-input text-text-primary text-xs md:text-sm font-medium hover:bg-bg-surface-3 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className="flex-1 px-4 py-2 bg-gradient-to-r from-[#DAA520] to-[#B87333] hover:from-[#F0C850] hover:to-[#D4943F] text-[#050A1A] text-xs md:text-sm font-semibold rounded-input transition-all duration-200 shadow-card hover:shadow-lg"
+            >
+              {editingScenario ? 'Save' : 'Create'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  )
+}
+
+const GOAL_STATUS_LABELS: Record<GoalStatus, string> = {
+  'achieved': 'Achieved',
+  'on-track': 'On track',
+  'off-track': 'Off track',
+}
+
+const GOAL_STATUS_CLASSES: Record<GoalStatus, string> = {
+  'achieved': 'text-success border-success/40',
+  'on-track': 'text-accent-blue border-accent-blue/40',
+  'off-track': 'text-danger border-danger/40',
+}
+
+type GoalFormData = Omit<Goal, 'id' | 'createdAt' | 'updatedAt'>
+
+interface GoalModalProps {
+  editingGoal: Goal | null
+  baseCurrency: CurrencyCode
+  items: Array<{ id: string; name: string; category: string }>
+  platforms: Platform[]
+  onClose: () => void
+  onSubmit: (data: GoalFormData) => void
+}
+
+function GoalModal({ editingGoal, baseCurrency, items, platforms, onClose, onSubmit }: GoalModalProps) {
+  const [name, setName] = useState(editingGoal ? editingGoal.name : '')
+  const [kind, setKind] = useState<GoalKind>(editingGoal ? editingGoal.kind : 'emergency-fund')
+  const [targetAmount, setTargetAmount] = useState(editingGoal ? editingGoal.targetAmount.toString() : '')
+  const [currency, setCurrency] = useState<CurrencyCode>(editingGoal ? editingGoal.currency : baseCurrency)
+  const [deadline, setDeadline] = useState(editingGoal ? editingGoal.deadline : '')
+  const [scope, setScope] = useState<GoalScope>(editingGoal ? editingGoal.scope : 'netWorth')
+  const [itemIds, setItemIds] = useState<string[]>(editingGoal?.itemIds || [])
+  const [selectedPlatforms, setSelectedPlatforms] = useState<string[]>(editingGoal?.platforms || [])
+
+  const toggle = (list: string[], value: string) =>
+    list.includes(value) ? list.filter((entry) => entry !== value) : [...list, value]
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault()
+    const amount = parseFloat(targetAmount)
+    if (!name.trim() || !deadline || !(amount > 0)) {
+      return
+    }
+    if ((scope === 'items' && itemIds.length === 0) || (scope === 'platforms' && selectedPlatforms.length === 0)) {
+      return
+    }
+
+    onSubmit({
+      name: name.trim(),
+      kind,
+      scope,
+      ...(scope === 'items' && { itemIds }),
+      ...(scope === 'platforms' && { platforms: selectedPlatforms }),
+      targetAmount: amount,
+      currency,
+      deadline,
+    })
+  }
+
+  const inputClassName = 'w-full bg-bg-surface-2 border border-border-subtle rounded-input px-3 py-2 text-text-primary text-xs md:text-sm focus:outline-none focus:border-accent-blue'
+  const labelClassName = 'block text-text-secondary text-[0.567rem] md:text-xs font-medium mb-2'
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50" role="presentation">
+      <div
+        className="bg-bg-surface-1 border border-border-strong rounded-card shadow-card p-6 w-full max-w-md mx-4 max-h-[90vh] overflow-y-auto"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="goal-modal-title"
+      >
+        <div className="flex items-center justify-between mb-4">
+          <Heading level={3} id="goal-modal-title">
+            {editingGoal ? 'Edit' : 'Add'} Goal
+          </Heading>
+          <button
+            onClick={onClose}
+            className="p-1 hover:bg-bg-surface-2 rounded transition-colors"
+            aria-label="Close"
+          >
+            <svg className="w-5 h-5 text-text-secondary" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label htmlFor="goal-name" className={labelClassName}>Name</label>
+            <input
+              id="goal-name"
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              className={inputClassName}
+              placeholder="e.g., Emergency fund, House"
+              required
+            />
+          </div>
+
+          <div>
+            <label htmlFor="goal-kind" className={labelClassName}>Type</label>
+            <select
+              id="goal-kind"
+              value={kind}
+              onChange={(e) => setKind(e.target.value as GoalKind)}
+              className={inputClassName}
+            >
+              {GOAL_KINDS.map((goalKind) => (
+                <option key={goalKind} value={goalKind}>{GOAL_KIND_LABELS[goalKind]}</option>
+              ))}
+            </select>
+          </div>
+
+          <div className="grid grid-cols-[1fr_6rem] gap-2">
+            <div>
+              <label htmlFor="goal-amount" className={labelClassName}>Target Amount</label>
+              <input
+                id="goal-amount"
+                type="number"
+                value={targetAmount}
+                onChange={(e) => setTargetAmount(e.target.value)}
+                className={inputClassName}
+                placeholder="0.00"
+                step="0.01"
+                min="0.01"
+                required
+              />
+            </div>
+            <div>
+              <label htmlFor="goal-currency" className={labelClassName}>Currency</label>
+              <select
+                id="goal-currency"
+                value={currency}
+                onChange={(e) => setCurrency(e.target.value as CurrencyCode)}
+                className={inputClassName}
+              >
+                {supportedCurrencies.map((code) => (
+                  <option key={code} value={code}>{code}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div>
+            <label htmlFor="goal-deadline" className={labelClassName}>Deadline</label>
+            <input
+              id="goal-deadline"
+              type="date"
+              value={deadline}
+              onChange={(e) => setDeadline(e.target.value)}
+              className={inputClassName}
+              required
+            />
+            {deadline && (
+              <p className="mt-1 text-text-muted text-[0.567rem] md:text-xs">
+                Selected: {formatDateToDDMMYYYY(deadline)}
+              </p>
+            )}
+          </div>
+
+          <div>
+            <label htmlFor="goal-scope" className={labelClassName}>Counts</label>
+            <select
+              id="goal-scope"
+              value={scope}
+              onChange={(e) => setScope(e.target.value as GoalScope)}
+              className={inputClassName}
+            >
+              <option value="netWorth">Whole net worth</option>
+              <option value="items">Selected items</option>
+              <option value="platforms">Selected platforms</option>
+            </select>
+          </div>
+
+          {scope === 'items' && (
+            <div className="max-h-48 overflow-y-auto space-y-1 border border-border-subtle rounded-input p-2">
+              {items.map((item) => (
+                <label key={item.id} className="flex items-center gap-2 text-text-primary text-[0.567rem] md:text-xs">
+                  <input
+                    type="checkbox"
+                    checked={itemIds.includes(item.id)}
+                    onChange={() => setItemIds((prev) => toggle(prev, item.id))}
+                  />
+                  <span className="truncate">{item.name}</span>
+                  <span className="text-text-muted">{item.category}</span>
+                </label>
+              ))}
+            </div>
+          )}
+
+          {scope === 'platforms' && (
+            <div className="max-h-48 overflow-y-auto space-y-1 border border-border-subtle rounded-input p-2">
+              {platforms.map((platform) => (
+                <label key={platform.id} className="flex items-center gap-2 text-text-primary text-[0.567rem] md:text-xs">
+                  <input
+                    type="checkbox"
+                    checked={selectedPlatforms.includes(platform.name)}
+                    onChange={() => setSelectedPlatforms((prev) => toggle(prev, platform.name))}
+                  />
+                  <span>{platform.name}</span>
+                </label>
+              ))}
+            </div>
+          )}
+
+          <div className="flex gap-3 pt-4">
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex-1 px-4 py-2 bg-bg-surface-2 border border-border-subtle rounded-input text-text-primary text-xs md:text-sm font-medium hover:bg-bg-surface-3 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className="flex-1 px-4 py-2 bg-gradient-to-r from-[#DAA520] to-[#B87333] hover:from-[#F0C850] hover:to-[#D4943F] text-[#050A1A] text-xs md:text-sm font-semibold rounded-input transition-all duration-200 shadow-card hover:shadow-lg"
+            >
+              {editingGoal ? 'Save' : 'Add'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  )
+}
+
 function Analytics() {
   const { uid } = useAuth()
   const { baseCurrency, convert } = useCurrency()
+  // Cashflow items in foreign currencies are revalued with the current rates
+  const { convert: cashflowConvert } = useFxConvert()
   const { isIncognito } = useIncognito()
   const { data } = useData()
   const { toasts, addToast, dismissToast } = useToast()
@@ -279,6 +766,26 @@ function Analytics() {
   const [editingEntry, setEditingEntry] = useState<ForecastEntry | null>(null)
   const [showAddModal, setShowAddModal] = useState<'inflow' | 'outflow' | null>(null)
   const [dataLoading, setDataLoading] = useState(true)
+  const [goals, setGoals] = useState<Goal[]>([])
+  const [editingGoal, setEditingGoal] = useState<Goal | null>(null)
+  const [showGoalModal, setShowGoalModal] = useState(false)
+  const [forecastMonths, setForecastMonths] = useState(12)
+  const [forecastScenarios, setForecastScenarios] = useState<ForecastScenario[]>([])
+  const [activeScenarioId, setActiveScenarioId] = useState<string | null>(null)
+  const [editingScenario, setEditingScenario] = useState<ForecastScenario | null>(null)
+  const [showScenarioModal, setShowScenarioModal] = useState(false)
+  const [riskGroupId, setRiskGroupId] = useState('total')
+  const [riskFreeRatePct, setRiskFreeRatePct] = useState(0)
+  const [fireSettings, setFireSettings] = useState({
+    currentAge: 35,
+    retirementAge: 65,
+    endAge: 95,
+    inflationPct: 2,
+    withdrawalRatePct: 4,
+  })
+  // null = the monthly spare change from Cashflow
+  const [fireMonthlySavings, setFireMonthlySavings] = useState<number | null>(null)
+  const [fireAssumptions, setFireAssumptions] = useState<AssetClassAssumptions>({})
 
 
   useEffect(() => {
@@ -287,14 +794,18 @@ function Analytics() {
     const loadData = async () => {
       try {
         setDataLoading(true)
-        const [loadedPlatforms, loadedEntries, loadedMappings] = await Promise.all([
+        const [loadedPlatforms, loadedEntries, loadedMappings, loadedGoals, loadedScenarios] = await Promise.all([
           loadPlatforms([], uid),
           loadForecastEntries([], uid),
           loadCashflowAccountflowMappings([], uid),
+          loadGoals([], uid),
+          loadForecastScenarios([], uid),
         ])
         setPlatforms(loadedPlatforms)
         setForecastEntries(loadedEntries)
+        setForecastScenarios(loadedScenarios)
         setAccountflowMappings(loadedMappings)
+        setGoals(loadedGoals)
 
         if (loadedPlatforms.length > 0 && !selectedPlatformId) {
           const defaultPlatform = loadedPlatforms.find((p: Platform) => p.isDefault)
@@ -357,12 +868,12 @@ function Analytics() {
 
   const platformData = useMemo(() => {
     if (!selectedPlatformId) {
-      return { currentBalance: 0, spareChangeInflow: 0 }
+      return { currentBalance: 0, spareChangeInflow: 0, scheduledOutflows: [] }
     }
 
     const selectedPlatform = platforms.find(p => p.id === selectedPlatformId)
     if (!selectedPlatform) {
-      return { currentBalance: 0, spareChangeInflow: 0 }
+      return { currentBalance: 0, spareChangeInflow: 0, scheduledOutflows: [] }
     }
 
     const currentBalance = getPlatformBalance(
@@ -376,31 +887,256 @@ function Analytics() {
       selectedPlatform.name
     )
 
+    // Loan interest/amortization are part of the outflow groups (same as on the Cashflow page)
+    const outflowItems = [...data.outflowItems, ...getLoanOutflowItems(data.netWorthItems, convert)]
     const spareChangeInflow = getPlatformSpareChangeInflow(
       selectedPlatformId,
       accountflowMappings,
       data.inflowItems,
-      data.outflowItems,
-      convert,
+      outflowItems,
+      cashflowConvert,
       selectedPlatform.name
     )
 
-    return { currentBalance, spareChangeInflow }
-  }, [selectedPlatformId, platforms, data, accountflowMappings, convert])
-
-  const forecastResult = useMemo(() => {
-    if (!selectedPlatformId) return null
+    const loanOutflows = getPlatformLoanOutflows(
+      selectedPlatformId,
+      data.netWorthItems,
+      accountflowMappings,
+      convert,
+      selectedPlatform.name,
+      new Date(),
+      forecastMonths
+    )
 
-    const platformEntries = forecastEntries.filter(
-      entry => entry.platformId === selectedPlatformId
+    // Quarterly, yearly and one-off items in their due months
+    const itemSchedules = getPlatformItemSchedules(
+      selectedPlatform.name,
+      accountflowMappings,
+      data.inflowItems,
+      outflowItems,
+      cashflowConvert,
+      new Date(),
+      forecastMonths
     )
 
-    return calculateForecast(
-      platformData.currentBalance,
-      platformData.spareChangeInflow,
-      platformEntries
+    return { currentBalance, spareChangeInflow, scheduledOutflows: [...loanOutflows, ...itemSchedules] }
+  }, [selectedPlatformId, platforms, data, accountflowMappings, convert, cashflowConvert, forecastMonths])
+
+  const platformScenarios = forecastScenarios.filter(scenario => scenario.platformId === selectedPlatformId)
+  const activeScenario = platformScenarios.find(scenario => scenario.id === activeScenarioId) ?? null
+
+  // The current plan and each scenario of the platform, with its own entries and spare change
+  const planForecasts = useMemo(() => {
+    if (!selectedPlatformId) return []
+
+    const plans = [
+      {
+        id: CURRENT_PLAN_ID,
+        name: 'Current plan',
+        entries: forecastEntries.filter(entry => entry.platformId === selectedPlatformId),
+        spareChangeInflow: null,
+      },
+      ...forecastScenarios.filter(scenario => scenario.platformId === selectedPlatformId),
+    ]
+
+    return plans.map((plan, index) => {
+      const spareChangeInflow = plan.spareChangeInflow ?? platformData.spareChangeInflow
+      const result = calculateForecast(
+        platformData.currentBalance,
+        spareChangeInflow,
+        plan.entries,
+        new Date(),
+        platformData.scheduledOutflows,
+        forecastMonths
+      )
+      return {
+        id: plan.id,
+        name: plan.name,
+        entries: plan.entries,
+        color: index === 0 ? CHART_COLORS.accent1 : SCENARIO_COLORS[(index - 1) % SCENARIO_COLORS.length],
+        spareChangeInflow,
+        result,
+        breachMonth: getFirstBufferBreach(result, safetyBuffer),
+      }
+    })
+  }, [selectedPlatformId, forecastEntries, forecastScenarios, platformData, forecastMonths, safetyBuffer])
+
+  const activePlan = planForecasts.find(plan => plan.id === (activeScenario?.id ?? CURRENT_PLAN_ID)) ?? null
+  const forecastResult = activePlan?.result ?? null
+  const forecastChartData = forecastResult?.monthlyProjections.map((projection, index) => ({
+    month: projection.month,
+    ...Object.fromEntries(planForecasts.map(plan => [plan.id, plan.result.monthlyProjections[index].endBalance])),
+  }))
+
+  // Every platform with its current plan, summed into the liquid net worth
+  const combinedForecast = useMemo(
+    () =>
+      calculateCombinedForecast({
+        platforms,
+        netWorthItems: data.netWorthItems,
+        transactions: data.transactions,
+        cryptoPrices: data.cryptoPrices,
+        stockPrices: data.stockPrices,
+        usdToChfRate: data.usdToChfRate,
+        accountflowMappings,
+        inflowItems: data.inflowItems,
+        outflowItems: data.outflowItems,
+        forecastEntries,
+        convert,
+        cashflowConvert,
+        months: forecastMonths,
+      }),
+    [platforms, data, accountflowMappings, forecastEntries, convert, cashflowConvert, forecastMonths]
+  )
+  const combinedChartData = combinedForecast.monthlyProjections.map((projection) => ({
+    month: projection.month,
+    ...projection.balances,
+  }))
+
+  // Goals: live item values and spare change in the base currency, growth from the snapshots (CHF)
+  const liveTotals = useMemo(
+    () =>
+      NetWorthCalculationService.calculateTotals(
+        data.netWorthItems,
+        data.transactions,
+        data.cryptoPrices,
+        data.stockPrices,
+        data.usdToChfRate,
+        convert
+      ),
+    [data.netWorthItems, data.transactions, data.cryptoPrices, data.stockPrices, data.usdToChfRate, convert]
+  )
+
+  // Monthly spare change per platform and in total (loan payments included), in the base currency
+  const spareChange = useMemo(() => {
+    const outflowItems = [...data.outflowItems, ...getLoanOutflowItems(data.netWorthItems, convert)]
+    const byPlatform: Record<string, number> = {}
+    platforms.forEach((platform) => {
+      byPlatform[platform.name] = getPlatformSpareChangeInflow(
+        platform.id,
+        accountflowMappings,
+        data.inflowItems,
+        outflowItems,
+        cashflowConvert,
+        platform.name
+      )
+    })
+    const totalChf =
+      data.inflowItems.reduce((sum, item) => sum + getItemMonthlyAmount(item, cashflowConvert), 0) -
+      outflowItems.reduce((sum, item) => sum + getItemMonthlyAmount(item, cashflowConvert), 0)
+    return { byPlatform, total: convert(totalChf, 'CHF') }
+  }, [platforms, accountflowMappings, data.inflowItems, data.outflowItems, data.netWorthItems, convert, cashflowConvert])
+
+  // Item and platform goals: the start of the growth year is valued from transactions and historical
+  // prices without a snapshot with per-item detail
+  const { costBasisMethod } = useCostBasis()
+  const goalFallbackDates = useMemo(
+    () =>
+      goals.some((goal) => goal.scope !== 'netWorth')
+        ? getFallbackValuationDates(data.snapshots, getTodayUTCDate(), ['1Y'])
+        : [],
+    [goals, data.snapshots]
+  )
+  const { points: goalFallbackPoints } = useHistoricalItemValues(
+    data.netWorthItems,
+    data.transactions,
+    goalFallbackDates,
+    costBasisMethod
+  )
+
+  const goalProgress = useMemo(() => {
+    if (goals.length === 0) return {}
+    const chfRate = convert(1, 'CHF') || 1
+    const today = getTodayUTCDate()
+    const points = toValuationPoints(
+      data.snapshots,
+      { date: today, values: toChfItemValues(liveTotals.itemValues, chfRate) },
+      goalFallbackPoints
     )
-  }, [selectedPlatformId, forecastEntries, platformData])
+    const growthRates: Record<string, number | null> = {}
+    goals.forEach((goal) => {
+      growthRates[goal.id] = getGoalGrowthRate(goal, data.netWorthItems, {
+        points,
+        snapshots: data.snapshots,
+        transactions: data.transactions,
+        items: data.netWorthItems,
+        convert: (amount, from) => convert(amount, from) / chfRate,
+      })
+    })
+
+    const context = {
+      items: data.netWorthItems,
+      itemValues: liveTotals.itemValues,
+      spareByPlatform: spareChange.byPlatform,
+      totalSpare: spareChange.total,
+      convertTarget: convert,
+      growthRates,
+      today,
+    }
+    return Object.fromEntries(goals.map((goal) => [goal.id, computeGoalProgress(goal, context)]))
+  }, [goals, goalFallbackPoints, spareChange, data, liveTotals, convert])
+
+  const goalItems = data.netWorthItems
+    .filter((item) => !isLiabilityCategory(item.category))
+    .map((item) => ({ id: item.id, name: item.name, category: item.category }))
+
+  // Risk metrics from the snapshot history (CHF); transactions separate contributions from returns
+  const riskReport = useMemo(() => {
+    const chfRate = convert(1, 'CHF') || 1
+    return computeRiskMetrics(data.snapshots, {
+      transactions: data.transactions,
+      items: data.netWorthItems,
+      convert: (amount, from) => convert(amount, from) / chfRate,
+      riskFreeRate: riskFreeRatePct / 100,
+    })
+  }, [data.snapshots, data.transactions, data.netWorthItems, convert, riskFreeRatePct])
+
+  const riskSummaryMetrics = riskReport.metrics.filter((metrics) =>
+    RISK_SUMMARY_GROUPS.some((group) => group.id === metrics.groupId)
+  )
+  const riskCategoryMetrics = riskReport.metrics.filter((metrics) => metrics.groupId.startsWith('category:'))
+  const selectedRiskMetrics = riskReport.metrics.find((metrics) => metrics.groupId === riskGroupId) ?? riskReport.metrics[0]
+  const underwaterData = selectedRiskMetrics ? riskReport.drawdowns[selectedRiskMetrics.groupId] : []
+
+  // Retirement projection of the invested assets (base currency, today's money)
+  const fireWeights = getFireWeights(liveTotals.categoryTotals)
+  const fireCategories = (Object.keys(fireWeights) as NetWorthCategory[]).sort(
+    (a, b) => (fireWeights[b] || 0) - (fireWeights[a] || 0)
+  )
+  const fireInputs = useMemo(
+    () => ({
+      holdings: liveTotals.categoryTotals,
+      assumptions: fireAssumptions,
+      monthlySavings: fireMonthlySavings ?? spareChange.total,
+      inflation: fireSettings.inflationPct / 100,
+      withdrawalRate: fireSettings.withdrawalRatePct / 100,
+      currentAge: fireSettings.currentAge,
+      retirementAge: fireSettings.retirementAge,
+      endAge: fireSettings.endAge,
+    }),
+    [liveTotals, fireAssumptions, fireMonthlySavings, spareChange.total, fireSettings]
+  )
+  const fireInputErrors = getFireInputErrors(fireInputs)
+  const fireResult = useMemo(
+    () => (getFireInputErrors(fireInputs).length === 0 && Object.keys(getFireWeights(fireInputs.holdings)).length > 0
+      ? computeFireSimulation(fireInputs)
+      : null),
+    [fireInputs]
+  )
+  const fireChartData = fireResult?.percentiles.map((point) => ({
+    age: point.age,
+    outer: [point.p10, point.p90],
+    inner: [point.p25, point.p75],
+    median: point.p50,
+  }))
+
+  const updateFireAssumption = (category: NetWorthCategory, field: 'expectedReturn' | 'volatility', pct: number) => {
+    const current = fireAssumptions[category] ?? DEFAULT_ASSET_CLASS_ASSUMPTIONS[category] ?? { expectedReturn: 0, volatility: 0 }
+    setFireAssumptions({ ...fireAssumptions, [category]: { ...current, [field]: pct / 100 } })
+  }
+
+  const formatRatio = (value: number | null) =>
+    value === null || !Number.isFinite(value) ? '–' : value.toFixed(2)
 
   const formatCurrency = (value: number) =>
     formatMoney(value, baseCurrency, 'ch', { incognito: isIncognito })
@@ -424,7 +1160,7 @@ function Analytics() {
     return `${Math.round(converted)}`
   }
 
-  const handleAddEntry = async (type: 'inflow' | 'outflow', entryData: { date: string; title: string; amount: number }) => {
+  const handleAddEntry = async (type: 'inflow' | 'outflow', entryData: ForecastEntryFormData) => {
     const id = typeof crypto !== 'undefined' && 'randomUUID' in crypto
       ? crypto.randomUUID()
       : `forecast-${Date.now()}-${Math.random()}`
@@ -436,12 +1172,18 @@ function Analytics() {
       date: entryData.date,
       title: entryData.title,
       amount: Math.abs(entryData.amount),
+      recurrence: entryData.recurrence,
       createdAt: new Date().toISOString(),
       updatedAt: new Date().toISOString(),
     }
 
-    setForecastEntries(prev => [...prev, newEntry])
     setShowAddModal(null)
+    if (activeScenario) {
+      await saveScenario({ ...activeScenario, entries: [...activeScenario.entries, newEntry], updatedAt: new Date().toISOString() }, activeScenario)
+      return
+    }
+
+    setForecastEntries(prev => [...prev, newEntry])
 
     const result = await saveForecastEntry(newEntry, uid)
     if (result.success && result.entries) {
@@ -452,9 +1194,20 @@ function Analytics() {
     }
   }
 
-  const handleEditEntry = async (entryData: { date: string; title: string; amount: number }) => {
+  const handleEditEntry = async (entryData: ForecastEntryFormData) => {
     if (!editingEntry) return
 
+    if (activeScenario) {
+      const entries = activeScenario.entries.map(entry =>
+        entry.id === editingEntry.id
+          ? { ...entry, ...entryData, amount: Math.abs(entryData.amount), updatedAt: new Date().toISOString() }
+          : entry
+      )
+      setEditingEntry(null)
+      await saveScenario({ ...activeScenario, entries, updatedAt: new Date().toISOString() }, activeScenario)
+      return
+    }
+
     const existingEntry = forecastEntries.find(e => e.id === editingEntry.id)
     const clientUpdatedAt = toDateSafe(existingEntry?.updatedAt)
 
@@ -463,6 +1216,7 @@ function Analytics() {
       date: entryData.date,
       title: entryData.title,
       amount: Math.abs(entryData.amount),
+      recurrence: entryData.recurrence,
       updatedAt: new Date().toISOString(),
     }
 
@@ -481,6 +1235,12 @@ function Analytics() {
   }
 
   const handleDeleteEntry = async (entryId: string) => {
+    if (activeScenario) {
+      const entries = activeScenario.entries.filter(entry => entry.id !== entryId)
+      await saveScenario({ ...activeScenario, entries, updatedAt: new Date().toISOString() }, activeScenario)
+      return
+    }
+
     const existingEntry = forecastEntries.find(e => e.id === entryId)
     const clientUpdatedAt = toDateSafe(existingEntry?.updatedAt)
     setForecastEntries(prev => prev.filter(entry => entry.id !== entryId))
@@ -493,9 +1253,107 @@ function Analytics() {
     }
   }
 
-  const selectedPlatformEntries = forecastEntries.filter(
-    entry => entry.platformId === selectedPlatformId
-  )
+  const saveScenario = async (scenario: ForecastScenario, existingScenario?: ForecastScenario) => {
+    const clientUpdatedAt = toDateSafe(existingScenario?.updatedAt)
+    setForecastScenarios(prev =>
+      existingScenario ? prev.map(s => (s.id === scenario.id ? scenario : s)) : [...prev, scenario]
+    )
+
+    const result = await saveForecastScenario(scenario, uid, existingScenario ? { clientUpdatedAt } : {})
+    if (result.success && result.entries) {
+      setForecastScenarios(result.entries)
+    } else if (!result.success) {
+      console.error('[Analytics] Failed to save forecast scenario:', result.reason)
+      addToast('Failed to save changes. Please try again.')
+    }
+  }
+
+  const handleSubmitScenario = async (scenarioData: ScenarioFormData) => {
+    const now = new Date().toISOString()
+    const newId = () =>
+      typeof crypto !== 'undefined' && 'randomUUID' in crypto
+        ? crypto.randomUUID()
+        : `forecast-${Date.now()}-${Math.random()}`
+    setShowScenarioModal(false)
+    setEditingScenario(null)
+
+    if (editingScenario) {
+      const existingScenario = forecastScenarios.find(s => s.id === editingScenario.id)
+      await saveScenario({ ...(existingScenario || editingScenario), ...scenarioData, updatedAt: now }, existingScenario)
+      return
+    }
+
+    // A new scenario starts as a copy of the plan shown
+    const scenario: ForecastScenario = {
+      id: newId(),
+      platformId: selectedPlatformId,
+      ...scenarioData,
+      entries: (activePlan?.entries || []).map(entry => ({ ...entry, id: newId() })),
+      createdAt: now,
+      updatedAt: now,
+    }
+    setActiveScenarioId(scenario.id)
+    await saveScenario(scenario)
+  }
+
+  const handleDeleteScenario = async (scenarioId: string) => {
+    const existingScenario = forecastScenarios.find(s => s.id === scenarioId)
+    const clientUpdatedAt = toDateSafe(existingScenario?.updatedAt)
+    setForecastScenarios(prev => prev.filter(s => s.id !== scenarioId))
+    if (activeScenarioId === scenarioId) setActiveScenarioId(null)
+
+    const result = await deleteForecastScenario(scenarioId, uid, { clientUpdatedAt })
+    if (result.success && result.entries) {
+      setForecastScenarios(result.entries)
+    } else if (!result.success) {
+      console.error('[Analytics] Failed to delete forecast scenario:', result.reason)
+    }
+  }
+
+  const handleSubmitGoal = async (goalData: GoalFormData) => {
+    const now = new Date().toISOString()
+    const existingGoal = editingGoal ? goals.find((g) => g.id === editingGoal.id) : undefined
+    const clientUpdatedAt = toDateSafe(existingGoal?.updatedAt)
+    const id = editingGoal
+      ? editingGoal.id
+      : typeof crypto !== 'undefined' && 'randomUUID' in crypto
+        ? crypto.randomUUID()
+        : `goal-${Date.now()}-${Math.random()}`
+
+    const goal: Goal = {
+      id,
+      ...goalData,
+      createdAt: existingGoal?.createdAt || now,
+      updatedAt: now,
+    }
+
+    setGoals(prev => (editingGoal ? prev.map(g => (g.id === id ? goal : g)) : [...prev, goal]))
+    setShowGoalModal(false)
+    setEditingGoal(null)
+
+    const result = await saveGoal(goal, uid, existingGoal ? { clientUpdatedAt } : {})
+    if (result.success && result.entries) {
+      setGoals(result.entries)
+    } else if (!result.success) {
+      console.error('[Analytics] Failed to save goal:', result.reason)
+      addToast('Failed to save changes. Please try again.')
+    }
+  }
+
+  const handleDeleteGoal = async (goalId: string) => {
+    const existingGoal = goals.find(g => g.id === goalId)
+    const clientUpdatedAt = toDateSafe(existingGoal?.updatedAt)
+    setGoals(prev => prev.filter(g => g.id !== goalId))
+
+    const result = await deleteGoal(goalId, uid, { clientUpdatedAt })
+    if (result.success && result.entries) {
+      setGoals(result.entries)
+    } else if (!result.success) {
+      console.error('[Analytics] Failed to delete goal:', result.reason)
+    }
+  }
+
+  const selectedPlatformEntries = activePlan?.entries ?? []
 
   const inflowEntries = selectedPlatformEntries
     .filter(entry => entry.type === 'inflow')
@@ -523,14 +1381,14 @@ function Analytics() {
 
         <div className="bg-bg-frame border border-border-subtle rounded-card shadow-card px-3 py-3 lg:p-6">
           <div className="mb-6 pb-4 border-b border-border-strong">
-            <Heading level={2}>Cashflow Forecast (12 Months)</Heading>
+            <Heading level={2}>Cashflow Forecast ({forecastMonths} Months)</Heading>
             <p className="text-text-secondary text-[0.567rem] md:text-xs mt-2">
               Plan future inflows/outflows and see projected monthly balances.
             </p>
           </div>
 
           <div className="space-y-4 mb-6">
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
               <div>
                 <label htmlFor="analytics-platform" className="block text-text-secondary text-[0.567rem] md:text-xs font-medium mb-2">
                   Platform
@@ -567,6 +1425,23 @@ function Analytics() {
                   min="0"
                 />
               </div>
+              <div>
+                <label htmlFor="analytics-forecast-horizon" className="block text-text-secondary text-[0.567rem] md:text-xs font-medium mb-2">
+                  Horizon
+                </label>
+                <select
+                  id="analytics-forecast-horizon"
+                  value={forecastMonths}
+                  onChange={(e) => setForecastMonths(parseInt(e.target.value, 10))}
+                  className="w-full bg-bg-surface-2 border border-border-subtle rounded-input px-3 py-2 text-text-primary text-xs md:text-sm focus:outline-none focus:border-accent-blue"
+                >
+                  {FORECAST_HORIZONS.map((months) => (
+                    <option key={months} value={months}>
+                      {months / 12} {months === 12 ? 'year' : 'years'}
+                    </option>
+                  ))}
+                </select>
+              </div>
             </div>
           </div>
 
@@ -582,7 +1457,7 @@ function Analytics() {
                 <div className="bg-bg-surface-2 border border-border-subtle rounded-input px-3 py-2">
                   <div className="text-text-secondary text-[0.567rem] md:text-xs mb-1">Spare-Change Inflow</div>
                   <TotalText variant="spare" className="text-sm md:text-base">
-                    {formatCurrency(platformData.spareChangeInflow)} / month
+                    {formatCurrency(activePlan?.spareChangeInflow ?? platformData.spareChangeInflow)} / month
                   </TotalText>
                 </div>
                 {forecastResult && (
@@ -606,6 +1481,65 @@ function Analytics() {
                 )}
               </div>
 
+              <div className="bg-bg-frame border border-border-subtle rounded-input p-4 mb-6">
+                <div className="flex items-end justify-between mb-4">
+                  <div>
+                    <Heading level={3}>Scenarios</Heading>
+                    <p className="text-text-muted text-[0.567rem] md:text-xs mt-1">
+                      The entries below belong to the selected plan.
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => setShowScenarioModal(true)}
+                    className="py-2 px-4 bg-gradient-to-r from-[#DAA520] to-[#B87333] hover:from-[#F0C850] hover:to-[#D4943F] text-[#050A1A] text-[0.567rem] md:text-xs font-semibold rounded-full transition-all duration-200 shadow-card hover:shadow-lg flex items-center justify-center gap-2 group"
+                  >
+                    <svg
+                      className="w-4 h-4 transition-transform group-hover:rotate-90"
+                      fill="none"
+                      stroke="currentColor"
+                      viewBox="0 0 24 24"
+                      aria-hidden="true"
+                    >
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M12 4v16m8-8H4" />
+                    </svg>
+                    <span>New Scenario</span>
+                  </button>
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  {planForecasts.map((plan) => {
+                    const isActive = plan.id === (activeScenario?.id ?? CURRENT_PLAN_ID)
+                    const scenario = platformScenarios.find((s) => s.id === plan.id)
+                    return (
+                      <div
+                        key={plan.id}
+                        className={`flex items-center gap-1 border rounded-full pl-3 pr-1 py-1 ${
+                          isActive ? 'border-accent-blue bg-bg-surface-2' : 'border-border-subtle'
+                        }`}
+                      >
+                        <span className="w-2 h-2 rounded-full flex-shrink-0" style={{ backgroundColor: plan.color }} aria-hidden="true" />
+                        <button
+                          onClick={() => setActiveScenarioId(scenario ? scenario.id : null)}
+                          className="text-text-primary text-[0.567rem] md:text-xs px-1"
+                          aria-pressed={isActive}
+                        >
+                          {plan.name}
+                        </button>
+                        {scenario && (
+                          <EntryMenu
+                            entry={scenario}
+                            onEdit={(entry) => {
+                              setEditingScenario(entry)
+                              setShowScenarioModal(true)
+                            }}
+                            onRemove={handleDeleteScenario}
+                          />
+                        )}
+                      </div>
+                    )
+                  })}
+                </div>
+              </div>
+
               <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-6">
                 <div className="bg-bg-frame border border-border-subtle rounded-input p-4">
                   <div className="flex items-end justify-between mb-4">
@@ -641,6 +1575,7 @@ function Analytics() {
                             <div className="text-[0.63rem] md:text-[0.79rem] truncate">{entry.title}</div>
                             <div className="text-text-muted text-[0.55rem] md:text-[0.774rem] truncate">
                               {formatDateToDDMMYYYY(entry.date)}
+                              {entry.recurrence && ` · ${formatRecurrence(entry.recurrence)}`}
                             </div>
                           </div>
                           <div className="flex-1 min-w-0 text-right px-2 flex flex-col justify-center">
@@ -654,7 +1589,7 @@ function Analytics() {
                           <div className="flex-shrink-0 flex items-center justify-end">
                             <EntryMenu
                               entry={entry}
-                              onEdit={setEditingEntry}
+                              onEdit={(entry) => setEditingEntry(entry)}
                               onRemove={handleDeleteEntry}
                             />
                           </div>
@@ -698,6 +1633,7 @@ function Analytics() {
                             <div className="text-[0.63rem] md:text-[0.79rem] truncate">{entry.title}</div>
                             <div className="text-text-muted text-[0.55rem] md:text-[0.774rem] truncate">
                               {formatDateToDDMMYYYY(entry.date)}
+                              {entry.recurrence && ` · ${formatRecurrence(entry.recurrence)}`}
                             </div>
                           </div>
                           <div className="flex-1 min-w-0 text-right px-2 flex flex-col justify-center">
@@ -711,7 +1647,7 @@ function Analytics() {
                           <div className="flex-shrink-0 flex items-center justify-end">
                             <EntryMenu
                               entry={entry}
-                              onEdit={setEditingEntry}
+                              onEdit={(entry) => setEditingEntry(entry)}
                               onRemove={handleDeleteEntry}
                             />
                           </div>
@@ -724,9 +1660,84 @@ function Analytics() {
 
               {forecastResult && (
                 <div className="space-y-6">
+                  {planForecasts.length > 1 && (
+                    <div className="bg-bg-frame border border-border-subtle rounded-input p-4">
+                      <Heading level={3} className="mb-4">Scenario Comparison</Heading>
+                      <div className="overflow-x-auto -mx-4 px-4">
+                        <table className="w-full text-xs md:text-sm min-w-[600px]" style={{ tableLayout: 'fixed' }}>
+                          <colgroup>
+                            <col style={{ width: '24%' }} />
+                            <col style={{ width: '18%' }} />
+                            <col style={{ width: '20%' }} />
+                            <col style={{ width: '18%' }} />
+                            <col style={{ width: '20%' }} />
+                          </colgroup>
+                          <thead>
+                            <tr className="border-b border-border-subtle">
+                              <th scope="col" className="text-left pb-2 pr-2">
+                                <Heading level={4}>Plan</Heading>
+                              </th>
+                              <th scope="col" className="text-right pb-2 pr-2">
+                                <Heading level={4}>Spare Change</Heading>
+                              </th>
+                              <th scope="col" className="text-right pb-2 pr-2">
+                                <Heading level={4}>Lowest Balance</Heading>
+                              </th>
+                              <th scope="col" className="text-right pb-2 pr-2">
+                                <Heading level={4}>End Balance</Heading>
+                              </th>
+                              <th scope="col" className="text-right pb-2">
+                                <Heading level={4}>{safetyBuffer && safetyBuffer > 0 ? 'Safety Buffer' : 'Balance'}</Heading>
+                              </th>
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {planForecasts.map((plan) => {
+                              const projections = plan.result.monthlyProjections
+                              return (
+                                <tr
+                                  key={plan.id}
+                                  className={`border-b border-border-subtle last:border-b-0 ${plan.breachMonth ? 'bg-danger/10' : ''}`}
+                                >
+                                  <td className="py-2 pr-2">
+                                    <div className="flex items-center gap-2 min-w-0">
+                                      <span className="w-2 h-2 rounded-full flex-shrink-0" style={{ backgroundColor: plan.color }} aria-hidden="true" />
+                                      <span className="text2 text-text-primary truncate">{plan.name}</span>
+                                    </div>
+                                  </td>
+                                  <td className="py-2 pr-2 text-right whitespace-nowrap">
+                                    <div className="text2 text-text-secondary">{formatCurrency(plan.spareChangeInflow)}</div>
+                                  </td>
+                                  <td className="py-2 pr-2 text-right whitespace-nowrap">
+                                    <div className={`text2 ${plan.result.lowestBalance < 0 ? 'text-danger' : 'text-text-primary'}`}>
+                                      {formatCurrency(plan.result.lowestBalance)}
+                                    </div>
+                                    <div className="text-text-muted text-[0.567rem] md:text-xs">{plan.result.lowestMonth || 'N/A'}</div>
+                                  </td>
+                                  <td className="py-2 pr-2 text-right whitespace-nowrap">
+                                    <div className="text2 text-text-primary">
+                                      {formatCurrency(projections[projections.length - 1]?.endBalance ?? plan.result.currentBalance)}
+                                    </div>
+                                  </td>
+                                  <td className="py-2 text-right whitespace-nowrap">
+                                    {plan.breachMonth ? (
+                                      <div className="text2 text-danger">Breached in {plan.breachMonth}</div>
+                                    ) : (
+                                      <div className="text2 text-success">Kept</div>
+                                    )}
+                                  </td>
+                                </tr>
+                              )
+                            })}
+                          </tbody>
+                        </table>
+                      </div>
+                    </div>
+                  )}
+
                   <div className="bg-bg-frame border border-border-subtle rounded-input p-4">
                     <Heading level={3} className="mb-4">Monthly Projection</Heading>
-                    <div className="overflow-x-auto -mx-4 px-4">
+                    <div className="overflow-x-auto max-h-[32rem] overflow-y-auto -mx-4 px-4">
                       <table className="w-full text-xs md:text-sm min-w-[600px]" style={{ tableLayout: 'fixed' }}>
                         <colgroup>
                           <col style={{ width: '20%' }} />
@@ -795,7 +1806,7 @@ function Analytics() {
                     <Heading level={3} className="mb-4">Balance Projection Chart</Heading>
                     <ResponsiveContainer width="100%" height={300}>
                       <LineChart
-                        data={forecastResult.monthlyProjections}
+                        data={forecastChartData}
                         margin={{ top: 6, right: 8, left: 0, bottom: 0 }}
                       >
                         <XAxis
@@ -825,15 +1836,18 @@ function Analytics() {
                           iconType="line"
                           className="text2"
                         />
-                        <Line
-                          type="monotone"
-                          dataKey="endBalance"
-                          name="End Balance"
-                          stroke={CHART_COLORS.accent1}
-                          strokeWidth={1}
-                          dot={false}
-                          activeDot={false}
-                        />
+                        {planForecasts.map((plan) => (
+                          <Line
+                            key={plan.id}
+                            type="monotone"
+                            dataKey={plan.id}
+                            name={planForecasts.length > 1 ? plan.name : 'End Balance'}
+                            stroke={plan.color}
+                            strokeWidth={plan.id === activePlan?.id && planForecasts.length > 1 ? 2 : 1}
+                            dot={false}
+                            activeDot={false}
+                          />
+                        ))}
                         {safetyBuffer !== null && safetyBuffer !== undefined && safetyBuffer > 0 && (
                           <Line
                             type="monotone"
@@ -861,6 +1875,783 @@ function Analytics() {
           )}
         </div>
 
+        <div className="bg-bg-frame border border-border-subtle rounded-card shadow-card px-3 py-3 lg:p-6">
+          <div className="mb-6 pb-4 border-b border-border-strong">
+            <Heading level={2}>Combined Forecast ({forecastMonths} Months)</Heading>
+            <p className="text-text-secondary text-[0.567rem] md:text-xs mt-2">
+              Every platform projected with its spare change, transfers, investment outflows it receives and its planned entries, stacked into the total liquid net worth.
+            </p>
+          </div>
+
+          {combinedForecast.platforms.length === 0 ? (
+            <div className="text-center text-text-muted text-[0.567rem] md:text-xs py-8">
+              Add platforms in Cashflow to see the combined forecast
+            </div>
+          ) : (
+            <div className="space-y-6">
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div className="bg-bg-surface-2 border border-border-subtle rounded-input px-3 py-2">
+                  <div className="text-text-secondary text-[0.567rem] md:text-xs mb-1">Current Total</div>
+                  <TotalText variant="inflow" className="text-sm md:text-base">
+                    {formatCurrency(combinedForecast.currentTotal)}
+                  </TotalText>
+                </div>
+                <div className="bg-bg-surface-2 border border-border-subtle rounded-input px-3 py-2">
+                  <div className="text-text-secondary text-[0.567rem] md:text-xs mb-1">Total in {combinedForecast.monthlyProjections[combinedForecast.monthlyProjections.length - 1]?.month}</div>
+                  <TotalText variant="spare" className="text-sm md:text-base">
+                    {formatCurrency(combinedForecast.monthlyProjections[combinedForecast.monthlyProjections.length - 1]?.total ?? 0)}
+                  </TotalText>
+                </div>
+                <div className="bg-bg-surface-2 border border-border-subtle rounded-input px-3 py-2">
+                  <div className="text-text-secondary text-[0.567rem] md:text-xs mb-1">Lowest Total</div>
+                  <TotalText
+                    variant={combinedForecast.lowestTotal < 0 ? 'outflow' : 'inflow'}
+                    className="text-sm md:text-base"
+                  >
+                    {formatCurrency(combinedForecast.lowestTotal)}
+                    {combinedForecast.lowestMonth && ` (${combinedForecast.lowestMonth})`}
+                  </TotalText>
+                </div>
+              </div>
+
+              <div className="bg-bg-frame border border-border-subtle rounded-input p-4">
+                <Heading level={3} className="mb-4">Balances by Platform</Heading>
+                <ResponsiveContainer width="100%" height={300}>
+                  <AreaChart data={combinedChartData} margin={{ top: 6, right: 8, left: 0, bottom: 0 }}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#E5E7EB" vertical={false} />
+                    <XAxis
+                      dataKey="month"
+                      stroke={CHART_COLORS.muted1}
+                      tick={{ fill: CHART_COLORS.muted1, fontSize: '0.648rem' }}
+                    />
+                    <YAxis
+                      stroke={CHART_COLORS.muted1}
+                      tick={{ fill: CHART_COLORS.muted1, fontSize: '0.648rem' }}
+                      tickFormatter={formatCurrencyTick}
+                      width={44}
+                    />
+                    <Tooltip
+                      contentStyle={{
+                        backgroundColor: '#FFFFFF',
+                        border: '1px solid #E5E7EB',
+                        borderRadius: '12px',
+                        color: '#111827',
+                        fontSize: '0.648rem',
+                        fontWeight: '400',
+                      }}
+                      formatter={(value: number) => formatCurrencyValue(value)}
+                    />
+                    <Legend
+                      wrapperStyle={{ color: '#8B8F99', fontSize: '0.72rem', fontWeight: '400' }}
+                      className="text2"
+                    />
+                    {combinedForecast.platforms.map((platform, index) => (
+                      <Area
+                        key={platform.platformId}
+                        type="monotone"
+                        dataKey={platform.platformId}
+                        name={platform.name}
+                        stackId="platforms"
+                        stroke={PLATFORM_COLORS[index % PLATFORM_COLORS.length]}
+                        fill={PLATFORM_COLORS[index % PLATFORM_COLORS.length]}
+                        fillOpacity={0.35}
+                        strokeWidth={1}
+                        dot={false}
+                        activeDot={false}
+                      />
+                    ))}
+                  </AreaChart>
+                </ResponsiveContainer>
+              </div>
+
+              <div className="bg-bg-frame border border-border-subtle rounded-input p-4">
+                <Heading level={3} className="mb-4">Platforms</Heading>
+                <div className="overflow-x-auto -mx-4 px-4">
+                  <table className="w-full text-xs md:text-sm min-w-[600px]" style={{ tableLayout: 'fixed' }}>
+                    <colgroup>
+                      <col style={{ width: '24%' }} />
+                      <col style={{ width: '19%' }} />
+                      <col style={{ width: '19%' }} />
+                      <col style={{ width: '19%' }} />
+                      <col style={{ width: '19%' }} />
+                    </colgroup>
+                    <thead>
+                      <tr className="border-b border-border-subtle">
+                        <th scope="col" className="text-left pb-2 pr-2">
+                          <Heading level={4}>Platform</Heading>
+                        </th>
+                        <th scope="col" className="text-right pb-2 pr-2">
+                          <Heading level={4}>Current</Heading>
+                        </th>
+                        <th scope="col" className="text-right pb-2 pr-2">
+                          <Heading level={4}>Inflow / Month</Heading>
+                        </th>
+                        <th scope="col" className="text-right pb-2 pr-2">
+                          <Heading level={4}>Lowest</Heading>
+                        </th>
+                        <th scope="col" className="text-right pb-2">
+                          <Heading level={4}>End</Heading>
+                        </th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {combinedForecast.platforms.map((platform, index) => {
+                        const projections = platform.result.monthlyProjections
+                        return (
+                          <tr key={platform.platformId} className="border-b border-border-subtle last:border-b-0">
+                            <td className="py-2 pr-2">
+                              <div className="flex items-center gap-2 min-w-0">
+                                <span
+                                  className="w-2 h-2 rounded-full flex-shrink-0"
+                                  style={{ backgroundColor: PLATFORM_COLORS[index % PLATFORM_COLORS.length] }}
+                                  aria-hidden="true"
+                                />
+                                <span className="text2 text-text-primary truncate">{platform.name}</span>
+                              </div>
+                            </td>
+                            <td className="py-2 pr-2 text-right whitespace-nowrap">
+                              <div className="text2 text-text-primary">{formatCurrency(platform.result.currentBalance)}</div>
+                            </td>
+                            <td className="py-2 pr-2 text-right whitespace-nowrap">
+                              <div className="text2 text-text-secondary">{formatCurrency(platform.result.spareChangeInflow)}</div>
+                              {platform.investmentInflow !== 0 && (
+                                <div className="text-text-muted text-[0.567rem] md:text-xs">
+                                  incl. {formatCurrency(platform.investmentInflow)} investments
+                                </div>
+                              )}
+                            </td>
+                            <td className="py-2 pr-2 text-right whitespace-nowrap">
+                              <div className={`text2 ${platform.result.lowestBalance < 0 ? 'text-danger' : 'text-text-primary'}`}>
+                                {formatCurrency(platform.result.lowestBalance)}
+                              </div>
+                              <div className="text-text-muted text-[0.567rem] md:text-xs">{platform.result.lowestMonth || 'N/A'}</div>
+                            </td>
+                            <td className="py-2 text-right whitespace-nowrap">
+                              <div className="text2 text-text-primary">
+                                {formatCurrency(projections[projections.length - 1]?.endBalance ?? platform.result.currentBalance)}
+                              </div>
+                            </td>
+                          </tr>
+                        )
+                      })}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            </div>
+          )}
+        </div>
+
+        <div className="bg-bg-frame border border-border-subtle rounded-card shadow-card px-3 py-3 lg:p-6">
+          <div className="mb-6 pb-4 border-b border-border-strong flex items-end justify-between gap-4">
+            <div>
+              <Heading level={2}>Goals</Heading>
+              <p className="text-text-secondary text-[0.567rem] md:text-xs mt-2">
+                Progress from the live valuation; completion projected from the monthly spare change and the growth of the last year of snapshots.
+              </p>
+            </div>
+            <button
+              onClick={() => setShowGoalModal(true)}
+              className="py-2 px-4 bg-gradient-to-r from-[#DAA520] to-[#B87333] hover:from-[#F0C850] hover:to-[#D4943F] text-[#050A1A] text-[0.567rem] md:text-xs font-semibold rounded-full transition-all duration-200 shadow-card hover:shadow-lg flex items-center justify-center gap-2 group shrink-0"
+            >
+              <svg
+                className="w-4 h-4 transition-transform group-hover:rotate-90"
+                fill="none"
+                stroke="currentColor"
+                viewBox="0 0 24 24"
+                aria-hidden="true"
+              >
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M12 4v16m8-8H4" />
+              </svg>
+              <span>Add Goal</span>
+            </button>
+          </div>
+
+          {goals.length === 0 ? (
+            <div className="text-center text-text-muted text-[0.567rem] md:text-xs py-8">
+              No goals yet. Add an emergency fund, a house down payment or your FI number.
+            </div>
+          ) : (
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+              {goals.map((goal) => {
+                const progress = goalProgress[goal.id]
+                if (!progress) return null
+                return (
+                  <div key={goal.id} className="bg-bg-surface-2 border border-border-subtle rounded-input px-3 py-3">
+                    <div className="flex items-start justify-between gap-2 mb-2">
+                      <div className="min-w-0">
+                        <div className="text-text-primary text-xs md:text-sm font-semibold truncate">{goal.name}</div>
+                        <div className="text-text-muted text-[0.567rem] md:text-xs">
+                          {GOAL_KIND_LABELS[goal.kind]} · due {formatDateToDDMMYYYY(goal.deadline)}
+                        </div>
+                      </div>
+                      <div className="flex items-center gap-2 shrink-0">
+                        <span className={`text-[0.567rem] md:text-xs border rounded-full px-2 py-0.5 ${GOAL_STATUS_CLASSES[progress.status]}`}>
+                          {GOAL_STATUS_LABELS[progress.status]}
+                        </span>
+                        <EntryMenu
+                          entry={goal}
+                          onEdit={(entry) => {
+                            setEditingGoal(entry)
+                            setShowGoalModal(true)
+                          }}
+                          onRemove={handleDeleteGoal}
+                        />
+                      </div>
+                    </div>
+                    <div className="h-2 bg-bg-surface-3 rounded-full overflow-hidden mb-2">
+                      <div
+                        className={`h-full rounded-full ${progress.status === 'off-track' ? 'bg-danger' : 'bg-success'}`}
+                        style={{ width: `${(progress.progress * 100).toFixed(1)}%` }}
+                      />
+                    </div>
+                    <div className="flex justify-between text-[0.567rem] md:text-xs mb-3">
+                      <span className="text-text-primary">
+                        {formatCurrency(progress.currentValue)} of {formatCurrency(progress.targetValue)}
+                      </span>
+                      <span className="text-text-secondary">{(progress.progress * 100).toFixed(0)}%</span>
+                    </div>
+                    <div className="grid grid-cols-2 gap-2 text-[0.567rem] md:text-xs">
+                      <div>
+                        <div className="text-text-muted">Projected completion</div>
+                        <div className={progress.status === 'off-track' ? 'text-danger' : 'text-text-primary'}>
+                          {progress.status === 'achieved'
+                            ? 'Reached'
+                            : progress.projectedDate
+                              ? formatDateToDDMMYYYY(progress.projectedDate)
+                              : 'Not within 50 years'}
+                        </div>
+                      </div>
+                      <div>
+                        <div className="text-text-muted">Spare change / month</div>
+                        <div className="text-text-primary">{formatCurrency(progress.monthlyContribution)}</div>
+                      </div>
+                      <div>
+                        <div className="text-text-muted">Growth p.a. (last year)</div>
+                        <div className={progress.growthRate === null ? 'text-text-muted' : 'text-text-primary'}>
+                          {progress.growthRate === null ? 'No history yet' : formatReturnPct(progress.growthRate)}
+                        </div>
+                      </div>
+                      <div>
+                        <div className="text-text-muted">Needed / month for deadline</div>
+                        <div className="text-text-primary">
+                          {progress.requiredMonthlyContribution !== null ? formatCurrency(progress.requiredMonthlyContribution) : '–'}
+                        </div>
+                      </div>
+                    </div>
+                    {progress.growthRate === null && progress.status !== 'achieved' && (
+                      <div className="text-text-muted text-[0.567rem] md:text-xs mt-2">
+                        Less than three months of history for this goal: the projection assumes no growth.
+                      </div>
+                    )}
+                  </div>
+                )
+              })}
+            </div>
+          )}
+        </div>
+
+        <div className="bg-bg-frame border border-border-subtle rounded-card shadow-card px-3 py-3 lg:p-6">
+          <div className="mb-6 pb-4 border-b border-border-strong">
+            <Heading level={2}>Retirement Projection</Heading>
+            <p className="text-text-secondary text-[0.567rem] md:text-xs mt-2">
+              Monte Carlo simulation of the invested assets: monthly savings until retirement, then a yearly withdrawal indexed to inflation. Amounts in today&apos;s money.
+            </p>
+          </div>
+
+          {fireCategories.length === 0 ? (
+            <div className="text-center text-text-muted text-[0.567rem] md:text-xs py-8">
+              Add assets in Net Worth to project your retirement
+            </div>
+          ) : (
+            <div className="space-y-6">
+              <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+                <div>
+                  <label htmlFor="analytics-fire-current-age" className="block text-text-secondary text-[0.567rem] md:text-xs font-medium mb-2">
+                    Current Age
+                  </label>
+                  <input
+                    id="analytics-fire-current-age"
+                    type="number"
+                    value={fireSettings.currentAge}
+                    onChange={(e) => setFireSettings({ ...fireSettings, currentAge: parseFloat(e.target.value) || 0 })}
+                    className="w-full bg-bg-surface-2 border border-border-subtle rounded-input px-3 py-2 text-text-primary text-xs md:text-sm focus:outline-none focus:border-accent-blue"
+                    step="1"
+                  />
+                </div>
+                <div>
+                  <label htmlFor="analytics-fire-retirement-age" className="block text-text-secondary text-[0.567rem] md:text-xs font-medium mb-2">
+                    Retirement Age
+                  </label>
+                  <input
+                    id="analytics-fire-retirement-age"
+                    type="number"
+                    value={fireSettings.retirementAge}
+                    onChange={(e) => setFireSettings({ ...fireSettings, retirementAge: parseFloat(e.target.value) || 0 })}
+                    className="w-full bg-bg-surface-2 border border-border-subtle rounded-input px-3 py-2 text-text-primary text-xs md:text-sm focus:outline-none focus:border-accent-blue"
+                    step="1"
+                  />
+                </div>
+                <div>
+                  <label htmlFor="analytics-fire-end-age" className="block text-text-secondary text-[0.567rem] md:text-xs font-medium mb-2">
+                    Plan Until Age
+                  </label>
+                  <input
+                    id="analytics-fire-end-age"
+                    type="number"
+                    value={fireSettings.endAge}
+                    onChange={(e) => setFireSettings({ ...fireSettings, endAge: parseFloat(e.target.value) || 0 })}
+                    className="w-full bg-bg-surface-2 border border-border-subtle rounded-input px-3 py-2 text-text-primary text-xs md:text-sm focus:outline-none focus:border-accent-blue"
+                    step="1"
+                  />
+                </div>
+                <div>
+                  <label htmlFor="analytics-fire-inflation" className="block text-text-secondary text-[0.567rem] md:text-xs font-medium mb-2">
+                    Inflation (% p.a.)
+                  </label>
+                  <input
+                    id="analytics-fire-inflation"
+                    type="number"
+                    value={fireSettings.inflationPct}
+                    onChange={(e) => setFireSettings({ ...fireSettings, inflationPct: parseFloat(e.target.value) || 0 })}
+                    className="w-full bg-bg-surface-2 border border-border-subtle rounded-input px-3 py-2 text-text-primary text-xs md:text-sm focus:outline-none focus:border-accent-blue"
+                    step="0.1"
+                  />
+                </div>
+                <div>
+                  <label htmlFor="analytics-fire-withdrawal-rate" className="block text-text-secondary text-[0.567rem] md:text-xs font-medium mb-2">
+                    Withdrawal Rate (%)
+                  </label>
+                  <input
+                    id="analytics-fire-withdrawal-rate"
+                    type="number"
+                    value={fireSettings.withdrawalRatePct}
+                    onChange={(e) => setFireSettings({ ...fireSettings, withdrawalRatePct: parseFloat(e.target.value) || 0 })}
+                    className="w-full bg-bg-surface-2 border border-border-subtle rounded-input px-3 py-2 text-text-primary text-xs md:text-sm focus:outline-none focus:border-accent-blue"
+                    step="0.1"
+                  />
+                </div>
+                <div>
+                  <label htmlFor="analytics-fire-savings" className="block text-text-secondary text-[0.567rem] md:text-xs font-medium mb-2">
+                    Monthly Savings
+                  </label>
+                  <input
+                    id="analytics-fire-savings"
+                    type="number"
+                    value={fireMonthlySavings ?? ''}
+                    placeholder={spareChange.total.toFixed(0)}
+                    onChange={(e) => setFireMonthlySavings(e.target.value === '' ? null : parseFloat(e.target.value) || 0)}
+                    className="w-full bg-bg-surface-2 border border-border-subtle rounded-input px-3 py-2 text-text-primary text-xs md:text-sm focus:outline-none focus:border-accent-blue"
+                    step="100"
+                  />
+                  {fireMonthlySavings === null && (
+                    <p className="text-text-muted text-[0.567rem] md:text-xs mt-1">Spare change from Cashflow</p>
+                  )}
+                </div>
+              </div>
+
+              <div className="bg-bg-frame border border-border-subtle rounded-input p-4">
+                <Heading level={3} className="mb-4">Assumptions per Asset Class</Heading>
+                <div className="overflow-x-auto -mx-4 px-4">
+                  <table className="w-full text-xs md:text-sm min-w-[480px]">
+                    <thead>
+                      <tr className="border-b border-border-subtle">
+                        <th scope="col" className="text-left pb-2 pr-2">
+                          <Heading level={4}>Category</Heading>
+                        </th>
+                        <th scope="col" className="text-right pb-2 pr-2">
+                          <Heading level={4}>Weight</Heading>
+                        </th>
+                        <th scope="col" className="text-right pb-2 pr-2">
+                          <Heading level={4}>Return (% p.a.)</Heading>
+                        </th>
+                        <th scope="col" className="text-right pb-2">
+                          <Heading level={4}>Volatility (% p.a.)</Heading>
+                        </th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {fireCategories.map((category) => {
+                        const assumption = fireAssumptions[category] ?? DEFAULT_ASSET_CLASS_ASSUMPTIONS[category]
+                        return (
+                          <tr key={category} className="border-b border-border-subtle last:border-b-0">
+                            <td className="py-2 pr-2 text2 text-text-primary">{category}</td>
+                            <td className="py-2 pr-2 text-right text2 text-text-secondary">
+                              {((fireWeights[category] || 0) * 100).toFixed(1)}%
+                            </td>
+                            <td className="py-2 pr-2 text-right">
+                              <input
+                                type="number"
+                                aria-label={`${category} expected return`}
+                                value={+((assumption?.expectedReturn ?? 0) * 100).toFixed(2)}
+                                onChange={(e) => updateFireAssumption(category, 'expectedReturn', parseFloat(e.target.value) || 0)}
+                                className="w-20 bg-bg-surface-2 border border-border-subtle rounded-input px-2 py-1 text-right text-text-primary text-xs md:text-sm focus:outline-none focus:border-accent-blue"
+                                step="0.5"
+                              />
+                            </td>
+                            <td className="py-2 text-right">
+                              <input
+                                type="number"
+                                aria-label={`${category} volatility`}
+                                value={+((assumption?.volatility ?? 0) * 100).toFixed(2)}
+                                onChange={(e) => updateFireAssumption(category, 'volatility', Math.max(0, parseFloat(e.target.value) || 0))}
+                                className="w-20 bg-bg-surface-2 border border-border-subtle rounded-input px-2 py-1 text-right text-text-primary text-xs md:text-sm focus:outline-none focus:border-accent-blue"
+                                step="0.5"
+                                min="0"
+                              />
+                            </td>
+                          </tr>
+                        )
+                      })}
+                    </tbody>
+                  </table>
+                </div>
+                <p className="text-text-muted text-[0.567rem] md:text-xs mt-2">
+                  Weights of today&apos;s assets, rebalanced yearly. Liabilities are not simulated; loan payments are part of the spare change.
+                </p>
+              </div>
+
+              {fireInputErrors.length > 0 ? (
+                <div className="space-y-1">
+                  {fireInputErrors.map((error) => (
+                    <p key={error} className="text-danger text-[0.567rem] md:text-xs">{error}</p>
+                  ))}
+                </div>
+              ) : fireResult && (
+                <>
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                    <div>
+                      <div className="text-text-muted text-[0.567rem] md:text-xs">Success Probability</div>
+                      <div
+                        className={`text-sm md:text-base font-semibold ${
+                          fireResult.successProbability >= 0.9
+                            ? 'text-success'
+                            : fireResult.successProbability >= 0.7
+                              ? 'text-accent-blue'
+                              : 'text-danger'
+                        }`}
+                      >
+                        {(fireResult.successProbability * 100).toFixed(0)}%
+                      </div>
+                    </div>
+                    <div>
+                      <div className="text-text-muted text-[0.567rem] md:text-xs">Median at {fireSettings.retirementAge}</div>
+                      <div className="text-text-primary text-sm md:text-base font-semibold">
+                        {formatCurrency(fireResult.medianAtRetirement)}
+                      </div>
+                    </div>
+                    <div>
+                      <div className="text-text-muted text-[0.567rem] md:text-xs">Median Withdrawal / Month</div>
+                      <div className="text-text-primary text-sm md:text-base font-semibold">
+                        {formatCurrency(fireResult.medianWithdrawal / 12)}
+                      </div>
+                    </div>
+                    <div>
+                      <div className="text-text-muted text-[0.567rem] md:text-xs">Portfolio Return / Volatility</div>
+                      <div className="text-text-primary text-sm md:text-base font-semibold">
+                        {formatReturnPct(fireResult.portfolioReturn)} / {formatReturnPct(fireResult.portfolioVolatility).replace('+', '')}
+                      </div>
+                    </div>
+                  </div>
+
+                  <div className="bg-bg-frame border border-border-subtle rounded-input p-4">
+                    <Heading level={3} className="mb-4">Projected Assets by Age</Heading>
+                    <ResponsiveContainer width="100%" height={300}>
+                      <AreaChart data={fireChartData} margin={{ top: 6, right: 8, left: 0, bottom: 0 }}>
+                        <CartesianGrid strokeDasharray="3 3" stroke="#E5E7EB" vertical={false} />
+                        <XAxis
+                          dataKey="age"
+                          stroke={CHART_COLORS.muted1}
+                          tick={{ fill: CHART_COLORS.muted1, fontSize: '0.648rem' }}
+                          minTickGap={16}
+                        />
+                        <YAxis
+                          stroke={CHART_COLORS.muted1}
+                          tick={{ fill: CHART_COLORS.muted1, fontSize: '0.648rem' }}
+                          tickFormatter={(value: number) => (isIncognito ? '****' : `${Math.round(value / 1000)}k`)}
+                          width={52}
+                        />
+                        <Tooltip
+                          contentStyle={{
+                            backgroundColor: '#FFFFFF',
+                            border: '1px solid #E5E7EB',
+                            borderRadius: '12px',
+                            color: '#111827',
+                            fontSize: '0.648rem',
+                            fontWeight: '400',
+                          }}
+                          labelFormatter={(age) => `Age ${age}`}
+                          formatter={(value: number | number[]) =>
+                            Array.isArray(value)
+                              ? `${formatCurrency(value[0])} – ${formatCurrency(value[1])}`
+                              : formatCurrency(value)
+                          }
+                        />
+                        <Legend
+                          wrapperStyle={{ color: '#8B8F99', fontSize: '0.72rem', fontWeight: '400' }}
+                          className="text2"
+                        />
+                        <Area
+                          type="monotone"
+                          dataKey="outer"
+                          name="10th–90th percentile"
+                          stroke="none"
+                          fill={CHART_COLORS.gold}
+                          fillOpacity={0.15}
+                          activeDot={false}
+                        />
+                        <Area
+                          type="monotone"
+                          dataKey="inner"
+                          name="25th–75th percentile"
+                          stroke="none"
+                          fill={CHART_COLORS.gold}
+                          fillOpacity={0.3}
+                          activeDot={false}
+                        />
+                        <Area
+                          type="monotone"
+                          dataKey="median"
+                          name="Median"
+                          stroke={CHART_COLORS.bronze}
+                          fill="none"
+                          strokeWidth={2}
+                          dot={false}
+                        />
+                      </AreaChart>
+                    </ResponsiveContainer>
+                    <p className="text-text-muted text-[0.567rem] md:text-xs mt-2">
+                      1,000 paths with independent lognormal returns per asset class. The success probability is the share of paths whose assets last until age {fireSettings.endAge}.
+                    </p>
+                  </div>
+                </>
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="bg-bg-frame border border-border-subtle rounded-card shadow-card px-3 py-3 lg:p-6">
+          <div className="mb-6 pb-4 border-b border-border-strong">
+            <Heading level={2}>Risk</Heading>
+            <p className="text-text-secondary text-[0.567rem] md:text-xs mt-2">
+              Drawdowns, volatility and risk-adjusted returns from the net worth snapshots. Crypto and Perpetuals are reported apart from traditional assets.
+            </p>
+          </div>
+
+          {riskReport.metrics.length === 0 ? (
+            <div className="text-center text-text-muted text-[0.567rem] md:text-xs py-8">
+              At least two daily snapshots are needed to compute risk metrics
+            </div>
+          ) : (
+            <div className="space-y-6">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label htmlFor="analytics-risk-group" className="block text-text-secondary text-[0.567rem] md:text-xs font-medium mb-2">
+                    Underwater Chart
+                  </label>
+                  <select
+                    id="analytics-risk-group"
+                    value={selectedRiskMetrics?.groupId ?? ''}
+                    onChange={(e) => setRiskGroupId(e.target.value)}
+                    className="w-full bg-bg-surface-2 border border-border-subtle rounded-input px-3 py-2 text-text-primary text-xs md:text-sm focus:outline-none focus:border-accent-blue"
+                  >
+                    {riskReport.metrics.map((metrics) => (
+                      <option key={metrics.groupId} value={metrics.groupId}>
+                        {metrics.label}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label htmlFor="analytics-risk-free-rate" className="block text-text-secondary text-[0.567rem] md:text-xs font-medium mb-2">
+                    Risk-Free Rate (% p.a.)
+                  </label>
+                  <input
+                    id="analytics-risk-free-rate"
+                    type="number"
+                    value={riskFreeRatePct}
+                    onChange={(e) => setRiskFreeRatePct(parseFloat(e.target.value) || 0)}
+                    className="w-full bg-bg-surface-2 border border-border-subtle rounded-input px-3 py-2 text-text-primary text-xs md:text-sm focus:outline-none focus:border-accent-blue"
+                    step="0.1"
+                  />
+                </div>
+              </div>
+
+              <div className="bg-bg-frame border border-border-subtle rounded-input p-4">
+                <Heading level={3} className="mb-4">Risk Metrics</Heading>
+                <div className="overflow-x-auto -mx-4 px-4">
+                  <table className="w-full text-xs md:text-sm min-w-[720px]" style={{ tableLayout: 'fixed' }}>
+                    <colgroup>
+                      <col style={{ width: '19%' }} />
+                      <col style={{ width: '17%' }} />
+                      <col style={{ width: '11%' }} />
+                      <col style={{ width: '11%' }} />
+                      <col style={{ width: '11%' }} />
+                      <col style={{ width: '10%' }} />
+                      <col style={{ width: '11%' }} />
+                      <col style={{ width: '10%' }} />
+                    </colgroup>
+                    <thead>
+                      <tr className="border-b border-border-subtle">
+                        <th scope="col" className="text-left pb-2 pr-2">
+                          <Heading level={4}>Group</Heading>
+                        </th>
+                        <th scope="col" className="text-right pb-2 pr-2">
+                          <Heading level={4}>Max Drawdown</Heading>
+                        </th>
+                        <th scope="col" className="text-right pb-2 pr-2">
+                          <Heading level={4}>Current</Heading>
+                        </th>
+                        <th scope="col" className="text-right pb-2 pr-2">
+                          <Heading level={4}>Return p.a.</Heading>
+                        </th>
+                        <th scope="col" className="text-right pb-2 pr-2">
+                          <Heading level={4}>Volatility p.a.</Heading>
+                        </th>
+                        <th scope="col" className="text-right pb-2 pr-2">
+                          <Heading level={4}>Sharpe</Heading>
+                        </th>
+                        <th scope="col" className="text-right pb-2 pr-2">
+                          <Heading level={4}>Sortino</Heading>
+                        </th>
+                        <th scope="col" className="text-right pb-2">
+                          <Heading level={4}>Calmar</Heading>
+                        </th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {[...riskSummaryMetrics, ...riskCategoryMetrics].map((metrics: RiskMetrics, index) => (
+                        <tr
+                          key={metrics.groupId}
+                          className={`border-b border-border-subtle last:border-b-0 ${
+                            index === riskSummaryMetrics.length && index > 0 ? 'border-t border-border-strong' : ''
+                          }`}
+                        >
+                          <td className="py-2 pr-2">
+                            <div className="text2 text-text-primary truncate">{metrics.label}</div>
+                            <div className="text-text-muted text-[0.567rem] md:text-xs">
+                              since {metrics.startDate}
+                            </div>
+                          </td>
+                          <td className="py-2 text-right pr-2 whitespace-nowrap">
+                            <div className="text2 text-danger">{formatReturnPct(metrics.maxDrawdown)}</div>
+                            {metrics.maxDrawdown < 0 && (
+                              <div className="text-text-muted text-[0.567rem] md:text-xs">
+                                {metrics.maxDrawdownPeakDate} → {metrics.maxDrawdownTroughDate}
+                              </div>
+                            )}
+                          </td>
+                          <td className="py-2 text-right pr-2 whitespace-nowrap">
+                            <div className={`text2 ${metrics.currentDrawdown < 0 ? 'text-danger' : 'text-success'}`}>
+                              {formatReturnPct(metrics.currentDrawdown)}
+                            </div>
+                            <div className="text-text-muted text-[0.567rem] md:text-xs">
+                              ATH {metrics.allTimeHighDate}
+                            </div>
+                          </td>
+                          <td className="py-2 text-right pr-2 whitespace-nowrap">
+                            <div className="text2 text-text-primary">{formatReturnPct(metrics.annualizedReturn)}</div>
+                          </td>
+                          <td className="py-2 text-right pr-2 whitespace-nowrap">
+                            <div className="text2 text-text-primary">
+                              {formatReturnPct(metrics.annualizedVolatility).replace('+', '')}
+                            </div>
+                          </td>
+                          <td className="py-2 text-right pr-2 whitespace-nowrap">
+                            <div className="text2 text-text-secondary">{formatRatio(metrics.sharpeRatio)}</div>
+                          </td>
+                          <td className="py-2 text-right pr-2 whitespace-nowrap">
+                            <div className="text2 text-text-secondary">{formatRatio(metrics.sortinoRatio)}</div>
+                          </td>
+                          <td className="py-2 text-right whitespace-nowrap">
+                            <div className="text2 text-text-secondary">{formatRatio(metrics.calmarRatio)}</div>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+
+              {selectedRiskMetrics && (
+                <div className="bg-bg-frame border border-border-subtle rounded-input p-4">
+                  <Heading level={3} className="mb-4">Underwater Chart – {selectedRiskMetrics.label}</Heading>
+                  <ResponsiveContainer width="100%" height={260}>
+                    <AreaChart data={underwaterData} margin={{ top: 6, right: 8, left: 0, bottom: 0 }}>
+                      <CartesianGrid strokeDasharray="3 3" stroke="#E5E7EB" vertical={false} />
+                      <XAxis
+                        dataKey="date"
+                        stroke={CHART_COLORS.muted1}
+                        tick={{ fill: CHART_COLORS.muted1, fontSize: '0.648rem' }}
+                        minTickGap={24}
+                      />
+                      <YAxis
+                        stroke={CHART_COLORS.muted1}
+                        tick={{ fill: CHART_COLORS.muted1, fontSize: '0.648rem' }}
+                        tickFormatter={(value: number) => `${Math.round(value * 100)}%`}
+                        domain={['dataMin', 0]}
+                        width={44}
+                      />
+                      <Tooltip
+                        contentStyle={{
+                          backgroundColor: '#FFFFFF',
+                          border: '1px solid #E5E7EB',
+                          borderRadius: '12px',
+                          color: '#111827',
+                          fontSize: '0.648rem',
+                          fontWeight: '400',
+                        }}
+                        formatter={(value: number) => formatReturnPct(value)}
+                      />
+                      <Area
+                        type="linear"
+                        dataKey="drawdown"
+                        name="Drawdown"
+                        stroke={CHART_COLORS.danger}
+                        fill={CHART_COLORS.danger}
+                        fillOpacity={0.2}
+                        strokeWidth={1}
+                        dot={false}
+                        activeDot={false}
+                      />
+                    </AreaChart>
+                  </ResponsiveContainer>
+                  <p className="text-text-muted text-[0.567rem] md:text-xs mt-2">
+                    Decline of the return index from its running high. Contributions are excluded where snapshots carry per-item detail.
+                  </p>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        {showGoalModal && (
+          <GoalModal
+            editingGoal={editingGoal}
+            baseCurrency={baseCurrency}
+            items={goalItems}
+            platforms={platforms}
+            onClose={() => {
+              setShowGoalModal(false)
+              setEditingGoal(null)
+            }}
+            onSubmit={handleSubmitGoal}
+          />
+        )}
+
+        {showScenarioModal && (
+          <ScenarioModal
+            editingScenario={editingScenario}
+            sourceName={activePlan?.name ?? 'Current plan'}
+            cashflowSpareChange={platformData.spareChangeInflow}
+            onClose={() => {
+              setShowScenarioModal(false)
+              setEditingScenario(null)
+            }}
+            onSubmit={handleSubmitScenario}
+          />
+        )}
+
         {(showAddModal || editingEntry) && (
           <ForecastEntryModal
             type={editingEntry ? editingEntry.type : showAddModal!}
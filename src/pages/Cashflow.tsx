@@ -1,12 +1,14 @@
 // TypeScript types
-import React, { useState, useRef, useEffect, FormEvent } from 'react'
+import React, { useState, useRef, useEffect, useMemo, useCallback, FormEvent } from 'react'
 import Heading from '../components/Heading'
 import { useToast } from '../hooks/useToast'
 import ToastContainer from '../components/ToastContainer'
 import TotalText from '../components/TotalText'
 import { useCurrency } from '../contexts/CurrencyContext'
+import { useFxConvert } from '../hooks/market-data/useFxConvert'
 import { useAuth } from '../lib/dataSafety/authGateCompat'
 import { useIncognito } from '../contexts/IncognitoContext'
+import { useData } from '../contexts/DataContext'
 import { formatMoney, type CurrencyCode } from '../lib/currency'
 import { toDateSafe } from '../lib/firestoreSafeWrite'
 import { DEFAULT_PLATFORMS } from '../constants/platforms'
@@ -22,9 +24,51 @@ import {
   loadCashflowAccountflowMappings,
   savePlatform,
   loadPlatforms,
+  saveCashflowActual,
+  deleteCashflowActual,
+  loadCashflowActuals,
   type Platform,
 } from '../services/storageService'
-import { getInflowGroupSum, getOutflowGroupSum, computeMappingAmount } from '../services/cashflowCalculationService'
+import {
+  CASHFLOW_FREQUENCIES,
+  CASHFLOW_FREQUENCY_LABELS,
+  getInflowGroupSum,
+  getOutflowGroupSum,
+  computeMappingAmount,
+  getCashflowFrequency,
+  getDueMonths,
+  getItemAmount,
+  getItemMonthlyAmount,
+  getItemMonthlyFxImpact,
+  buildCashflowSankey,
+  validateAccountflowMappings,
+  type CashflowFrequency,
+  type MappingFix,
+  type MappingIssue,
+  type CashflowSankeyNode,
+  type CashflowSankeyNodeKind,
+} from '../services/cashflowCalculationService'
+import { getLoanOutflowItems, isLoanOutflowItem } from '../services/loanAmortizationService'
+import {
+  computeMonthVariance,
+  getLedgerTransactions,
+  getPreviousMonths,
+  type CashflowActual,
+  type LedgerTransaction,
+} from '../services/cashflowActualsService'
+import type { NetWorthItem, NetWorthTransaction } from './NetWorth'
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ReferenceLine,
+  ResponsiveContainer,
+  Sankey,
+} from 'recharts'
 
 type InflowGroupName = 'Time' | 'Service' | 'Worker Bees'
 
@@ -36,6 +80,10 @@ export interface InflowItem {
   currency: string // Original currency (CHF, EUR, USD)
   provider: string
   group: InflowGroupName
+  fxRate?: number | null // Pinned CHF per unit of currency (contract rate); missing = current rate
+  frequency?: CashflowFrequency | null // Missing = monthly
+  dueMonths?: number[] | null // Calendar months (1-12) of quarterly, semi-annual and yearly amounts
+  oneOffMonth?: string | null // YYYY-MM of a one-off amount
 }
 
 type OutflowGroupName = 'Fix' | 'Variable' | 'Shared Variable' | 'Investments'
@@ -48,6 +96,33 @@ export interface OutflowItem {
   currency: string // Original currency (CHF, EUR, USD)
   receiver: string
   group: OutflowGroupName
+  fxRate?: number | null // Pinned CHF per unit of currency (contract rate); missing = current rate
+  frequency?: CashflowFrequency | null // Missing = monthly
+  dueMonths?: number[] | null // Calendar months (1-12) of quarterly, semi-annual and yearly amounts
+  oneOffMonth?: string | null // YYYY-MM of a one-off amount
+}
+
+/** Schedule fields of the item modals (null clears a stored value) */
+interface CashflowScheduleFormData {
+  frequency: CashflowFrequency
+  dueMonths: number[] | null
+  oneOffMonth: string | null
+}
+
+type InflowItemFormData = { item: string; amountChf: number; amount: number; currency: string; fxRate: number | null; provider: string } & CashflowScheduleFormData
+type OutflowItemFormData = { item: string; amountChf: number; amount: number; currency: string; fxRate: number | null; receiver: string } & CashflowScheduleFormData
+
+const MONTH_LABELS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec']
+
+/**
+ * Frequency and due months of a non-monthly item (e.g. "Yearly · Dec"), empty for monthly items
+ */
+function formatSchedule(item: InflowItem | OutflowItem): string {
+  const frequency = getCashflowFrequency(item)
+  if (frequency === 'monthly') return ''
+  if (frequency === 'once') return `${CASHFLOW_FREQUENCY_LABELS.once}${item.oneOffMonth ? ` · ${item.oneOffMonth}` : ''}`
+  const dueMonths = (item.dueMonths || []).map(month => MONTH_LABELS[month - 1]).filter(Boolean)
+  return `${CASHFLOW_FREQUENCY_LABELS[frequency]}${dueMonths.length > 0 ? ` · ${dueMonths.join(', ')}` : ''}`
 }
 
 type AccountPlatform = string // Now dynamic from stored platforms
@@ -73,6 +148,7 @@ interface InflowToAccountMapping {
   group?: InflowGroupName
   inflowItemId?: string
   account: AccountPlatform
+  updatedAt?: string
 }
 
 interface AccountToOutflowMapping {
@@ -82,6 +158,7 @@ interface AccountToOutflowMapping {
   group?: OutflowGroupName
   outflowItemId?: string
   account: AccountPlatform
+  updatedAt?: string
 }
 
 interface AccountToAccountMapping {
@@ -90,6 +167,7 @@ interface AccountToAccountMapping {
   fromAccount: AccountPlatform
   toAccount: AccountPlatform
   amountChf: number
+  updatedAt?: string
 }
 
 type AccountflowMapping =
@@ -207,23 +285,21 @@ function GroupedList<T extends Record<string, any>>({
 // Inflow Section Component
 interface InflowSectionProps {
   items: InflowItem[]
-  onAddItem: (group: InflowGroupName, data: { item: string; amountChf: number; amount: number; currency: string; provider: string }) => void
-  onEditItem: (id: string, data: { item: string; amountChf: number; amount: number; currency: string; provider: string }) => void
+  onAddItem: (group: InflowGroupName, data: InflowItemFormData) => void
+  onEditItem: (id: string, data: InflowItemFormData) => void
   onRemoveItem: (id: string) => void
+  convert: (amount: number, from: CurrencyCode) => number
 }
 
-function InflowSection({ items, onAddItem, onEditItem, onRemoveItem }: InflowSectionProps) {
-  const { baseCurrency, convert } = useCurrency()
+function InflowSection({ items, onAddItem, onEditItem, onRemoveItem, convert }: InflowSectionProps) {
+  const { baseCurrency } = useCurrency()
   const { isIncognito } = useIncognito()
   const formatCurrency = (value: number) => formatMoney(value, baseCurrency, 'ch', { incognito: isIncognito })
   
   const inflowGroups: InflowGroupName[] = ['Time', 'Service', 'Worker Bees']
   const totalInflowChf = items.reduce((sum, item) => {
-    // Use original amount and currency if available, otherwise fall back to amountChf
-    if (item.amount !== undefined && item.currency) {
-      return sum + convert(item.amount, item.currency as CurrencyCode)
-    }
-    return sum + item.amountChf
+    // Monthly equivalent of non-monthly items
+    return sum + getItemMonthlyAmount(item, convert)
   }, 0)
   const totalInflow = convert(totalInflowChf, 'CHF')
   const [addItemGroup, setAddItemGroup] = useState<InflowGroupName | null>(null)
@@ -236,11 +312,8 @@ function InflowSection({ items, onAddItem, onEditItem, onRemoveItem }: InflowSec
         {inflowGroups.map((groupName) => {
           const groupItems = items.filter((i) => i.group === groupName)
           const totalChf = groupItems.reduce((sum, item) => {
-            // Use original amount and currency if available, otherwise fall back to amountChf
-            if (item.amount !== undefined && item.currency) {
-              return sum + convert(item.amount, item.currency as CurrencyCode)
-            }
-            return sum + item.amountChf
+            // Monthly equivalent of non-monthly items
+            return sum + getItemMonthlyAmount(item, convert)
           }, 0)
           const total = convert(totalChf, 'CHF')
 
@@ -302,16 +375,23 @@ function InflowSection({ items, onAddItem, onEditItem, onRemoveItem }: InflowSec
                                 <div className="text-[0.63rem] md:text-[0.79rem] truncate">{item.item}</div>
                                 <div className="text-text-muted text-[0.55rem] md:text-[0.774rem] truncate">
                                   {item.provider}
+                                  {formatSchedule(item) && ` · ${formatSchedule(item)}`}
+                                  {item.fxRate && item.currency !== 'CHF' ? ` · Fixed rate ${item.fxRate}` : ''}
                                 </div>
                               </div>
                               <div className="flex-1 min-w-0 text-right px-2 flex flex-col justify-center">
                                 <TotalText variant="inflow" className="text-[0.63rem] md:text-[0.79rem] whitespace-nowrap">
                                   {formatCurrency(
                                     item.amount !== undefined && item.currency
-                                      ? convert(item.amount, item.currency as CurrencyCode)
+                                      ? getItemAmount(item, convert)
                                       : convert(item.amountChf, 'CHF')
                                   )}
                                 </TotalText>
+                                {getCashflowFrequency(item) !== 'monthly' && (
+                                  <div className="text-text-muted text-[0.55rem] md:text-[0.774rem] whitespace-nowrap">
+                                    {formatCurrency(getItemMonthlyAmount(item, convert))} / month
+                                  </div>
+                                )}
                               </div>
                               <div className="flex-shrink-0 w-3" aria-hidden="true" />
                               <div className="flex-shrink-0 w-px self-stretch bg-border-subtle" aria-hidden="true" />
@@ -353,6 +433,7 @@ function InflowSection({ items, onAddItem, onEditItem, onRemoveItem }: InflowSec
             setAddItemGroup(null)
           }
         }}
+        convert={convert}
       />
     )}
     </>
@@ -362,23 +443,21 @@ function InflowSection({ items, onAddItem, onEditItem, onRemoveItem }: InflowSec
 // Outflow Section Component
 interface OutflowSectionProps {
   items: OutflowItem[]
-  onAddItem: (group: OutflowGroupName, data: { item: string; amountChf: number; amount: number; currency: string; receiver: string }) => void
-  onEditItem: (id: string, data: { item: string; amountChf: number; amount: number; currency: string; receiver: string }) => void
+  onAddItem: (group: OutflowGroupName, data: OutflowItemFormData) => void
+  onEditItem: (id: string, data: OutflowItemFormData) => void
   onRemoveItem: (id: string) => void
+  convert: (amount: number, from: CurrencyCode) => number
 }
 
-function OutflowSection({ items, onAddItem, onEditItem, onRemoveItem }: OutflowSectionProps) {
-  const { baseCurrency, convert } = useCurrency()
+function OutflowSection({ items, onAddItem, onEditItem, onRemoveItem, convert }: OutflowSectionProps) {
+  const { baseCurrency } = useCurrency()
   const { isIncognito } = useIncognito()
   const formatCurrency = (value: number) => formatMoney(value, baseCurrency, 'ch', { incognito: isIncognito })
   
   const outflowGroups: OutflowGroupName[] = ['Fix', 'Variable', 'Shared Variable', 'Investments']
   const totalOutflowChf = items.reduce((sum, item) => {
-    // Use original amount and currency if available, otherwise fall back to amountChf
-    if (item.amount !== undefined && item.currency) {
-      return sum + convert(item.amount, item.currency as CurrencyCode)
-    }
-    return sum + item.amountChf
+    // Monthly equivalent of non-monthly items
+    return sum + getItemMonthlyAmount(item, convert)
   }, 0)
   const totalOutflow = convert(totalOutflowChf, 'CHF')
   const [addItemGroup, setAddItemGroup] = useState<OutflowGroupName | null>(null)
@@ -391,11 +470,8 @@ function OutflowSection({ items, onAddItem, onEditItem, onRemoveItem }: OutflowS
         {outflowGroups.map((groupName) => {
           const groupItems = items.filter((i) => i.group === groupName)
           const totalChf = groupItems.reduce((sum, item) => {
-            // Use original amount and currency if available, otherwise fall back to amountChf
-            if (item.amount !== undefined && item.currency) {
-              return sum + convert(item.amount, item.currency as CurrencyCode)
-            }
-            return sum + item.amountChf
+            // Monthly equivalent of non-monthly items
+            return sum + getItemMonthlyAmount(item, convert)
           }, 0)
           const total = convert(totalChf, 'CHF')
 
@@ -457,26 +533,40 @@ function OutflowSection({ items, onAddItem, onEditItem, onRemoveItem }: OutflowS
                                 <div className="text-[0.63rem] md:text-[0.79rem] truncate">{item.item}</div>
                                 <div className="text-text-muted text-[0.55rem] md:text-[0.774rem] truncate">
                                   {item.receiver}
+                                  {formatSchedule(item) && ` · ${formatSchedule(item)}`}
+                                  {item.fxRate && item.currency !== 'CHF' ? ` · Fixed rate ${item.fxRate}` : ''}
                                 </div>
                               </div>
                               <div className="flex-1 min-w-0 text-right px-2 flex flex-col justify-center">
                                 <TotalText variant="outflow" className="text-[0.63rem] md:text-[0.79rem] whitespace-nowrap">
                                   {formatCurrency(
                                     item.amount !== undefined && item.currency
-                                      ? convert(item.amount, item.currency as CurrencyCode)
+                                      ? getItemAmount(item, convert)
                                       : convert(item.amountChf, 'CHF')
                                   )}
                                 </TotalText>
+                                {getCashflowFrequency(item) !== 'monthly' && (
+                                  <div className="text-text-muted text-[0.55rem] md:text-[0.774rem] whitespace-nowrap">
+                                    {formatCurrency(getItemMonthlyAmount(item, convert))} / month
+                                  </div>
+                                )}
                               </div>
                               <div className="flex-shrink-0 w-3" aria-hidden="true" />
                               <div className="flex-shrink-0 w-px self-stretch bg-border-subtle" aria-hidden="true" />
                               <div className="flex-shrink-0 w-3" aria-hidden="true" />
                               <div className="flex-shrink-0 flex items-center justify-end">
-                                <CashflowItemMenu
-                                  itemId={item.id}
-                                  onEdit={() => setEditingItem(item)}
-                                  onRemove={() => onRemoveItem(item.id)}
-                                />
+                                {isLoanOutflowItem(item) ? (
+                                  // Derived from a loan schedule - edited on the Net Worth page
+                                  <span className="text-text-muted text-[0.55rem] md:text-[0.65rem]" title="Derived from loan schedule (edit on Net Worth page)">
+                                    Loan
+                                  </span>
+                                ) : (
+                                  <CashflowItemMenu
+                                    itemId={item.id}
+                                    onEdit={() => setEditingItem(item)}
+                                    onRemove={() => onRemoveItem(item.id)}
+                                  />
+                                )}
                               </div>
                             </div>
                           </td>
@@ -508,6 +598,7 @@ function OutflowSection({ items, onAddItem, onEditItem, onRemoveItem }: OutflowS
             setAddItemGroup(null)
           }
         }}
+        convert={convert}
       />
     )}
     </>
@@ -540,6 +631,62 @@ function getMappingLabel(
   return 'Unknown'
 }
 
+// Mapping Check Component (validation pass over all mappings)
+interface MappingCheckProps {
+  issues: MappingIssue[]
+  onApplyFix: (fix: MappingFix) => void
+}
+
+function MappingCheck({ issues, onApplyFix }: MappingCheckProps) {
+  const { baseCurrency, convert } = useCurrency()
+  const { isIncognito } = useIncognito()
+  const formatCurrency = (value: number) => formatMoney(value, baseCurrency, 'ch', { incognito: isIncognito })
+  const errorCount = issues.filter(issue => issue.severity === 'error').length
+
+  if (issues.length === 0) {
+    return (
+      <div className="mb-6 bg-bg-surface-1 border border-success/30 rounded-input px-4 py-3 text-success text-[0.567rem] md:text-xs">
+        All mappings are consistent: every item is routed exactly once and no platform pays out more than it receives.
+      </div>
+    )
+  }
+
+  return (
+    <div className={`mb-6 border rounded-input p-4 ${errorCount > 0 ? 'bg-danger/10 border-danger/30' : 'bg-warning/10 border-warning/30'}`}>
+      <div className="flex items-center justify-between gap-3 mb-3">
+        <Heading level={3}>Mapping Check</Heading>
+        <span className="text-text-secondary text-[0.567rem] md:text-xs">
+          {errorCount} {errorCount === 1 ? 'error' : 'errors'}, {issues.length - errorCount} {issues.length - errorCount === 1 ? 'warning' : 'warnings'}
+        </span>
+      </div>
+      <ul className="space-y-2">
+        {issues.map(issue => (
+          <li key={issue.id} className="flex items-center gap-3 bg-bg-surface-1 border border-border-subtle rounded-input px-3 py-2">
+            <span className={`flex-shrink-0 text-[0.567rem] md:text-xs font-semibold uppercase ${issue.severity === 'error' ? 'text-danger' : 'text-warning'}`}>
+              {issue.severity}
+            </span>
+            <div className="flex-1 min-w-0 text-[0.63rem] md:text-[0.79rem]">{issue.message}</div>
+            {issue.amount > 0 && (
+              <div className="flex-shrink-0 text-text-secondary text-[0.63rem] md:text-[0.79rem] whitespace-nowrap">
+                {formatCurrency(convert(issue.amount, 'CHF'))}
+              </div>
+            )}
+            {issue.fix && (
+              <button
+                type="button"
+                onClick={() => onApplyFix(issue.fix!)}
+                className="flex-shrink-0 py-1.5 px-3 bg-bg-surface-2 border border-border-subtle hover:border-accent-blue rounded-full text-text-primary text-[0.567rem] md:text-xs font-medium transition-colors"
+              >
+                {issue.fix.label}
+              </button>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
+
 // Platformflow Section Component
 interface AccountflowSectionProps {
   mappings: AccountflowMapping[]
@@ -547,18 +694,34 @@ interface AccountflowSectionProps {
   onAddMapping: (mapping: AccountflowMapping) => void
   onEditMapping: (mapping: AccountflowMapping) => void
   onRemoveMapping: (id: string) => void
+  onRemoveMappings: (ids: string[]) => void
   inflowItems: InflowItem[]
   outflowItems: OutflowItem[]
+  convert: (amount: number, from: CurrencyCode) => number
 }
 
-function AccountflowSection({ mappings, platforms, onAddMapping, onEditMapping, onRemoveMapping, inflowItems, outflowItems }: AccountflowSectionProps) {
-  const { baseCurrency, convert } = useCurrency()
+function AccountflowSection({ mappings, platforms, onAddMapping, onEditMapping, onRemoveMapping, onRemoveMappings, inflowItems, outflowItems, convert }: AccountflowSectionProps) {
+  const { baseCurrency } = useCurrency()
   const { isIncognito } = useIncognito()
   const formatCurrency = (value: number) => formatMoney(value, baseCurrency, 'ch', { incognito: isIncognito })
   const [showAddMappingModal, setShowAddMappingModal] = useState(false)
   const [editingMapping, setEditingMapping] = useState<AccountflowMapping | null>(null)
   const [preselectedAccount, setPreselectedAccount] = useState<AccountPlatform | null>(null)
   const [showEmptyPlatforms, setShowEmptyPlatforms] = useState(false)
+
+  const mappingIssues = useMemo(
+    () => validateAccountflowMappings(mappings, inflowItems, outflowItems, platforms.map(p => p.name), convert),
+    [mappings, inflowItems, outflowItems, platforms, convert]
+  )
+
+  const applyMappingFix = (fix: MappingFix) => {
+    if (fix.kind === 'removeMappings') {
+      onRemoveMappings(fix.mappingIds)
+    } else {
+      const id = typeof crypto !== 'undefined' && 'randomUUID' in crypto ? crypto.randomUUID() : `mapping-${Date.now()}`
+      onAddMapping({ ...fix.mapping, id } as AccountflowMapping)
+    }
+  }
   
   // Helper to get label for account-to-account mappings
   const getAccountToAccountLabel = (mapping: AccountToAccountMapping, account: AccountPlatform): string => {
@@ -764,6 +927,8 @@ function AccountflowSection({ mappings, platforms, onAddMapping, onEditMapping,
           <Heading level={2}>Platformflow</Heading>
         </div>
 
+        <MappingCheck issues={mappingIssues} onApplyFix={applyMappingFix} />
+
         {/* Account Visualizations */}
         <div className="space-y-8">
           {platforms.length > 0 ? (
@@ -841,12 +1006,306 @@ function AccountflowSection({ mappings, platforms, onAddMapping, onEditMapping,
             }
             setPreselectedAccount(null)
           }}
+          convert={convert}
         />
       )}
     </>
   )
 }
 
+// FX Revaluation Section Component
+interface FxRevaluationSectionProps {
+  inflowItems: InflowItem[]
+  outflowItems: OutflowItem[]
+  onEditInflowItem: (id: string, data: InflowItemFormData) => void
+  onEditOutflowItem: (id: string, data: OutflowItemFormData) => void
+  convert: (amount: number, from: CurrencyCode) => number
+}
+
+function FxRevaluationSection({ inflowItems, outflowItems, onEditInflowItem, onEditOutflowItem, convert }: FxRevaluationSectionProps) {
+  const { baseCurrency } = useCurrency()
+  const { isIncognito } = useIncognito()
+  const formatCurrency = (value: number) => formatMoney(value, baseCurrency, 'ch', { incognito: isIncognito })
+  const formatAmount = (value: number, currency: string) => formatMoney(value, currency as CurrencyCode, 'ch', { incognito: isIncognito })
+
+  const rows = [
+    ...inflowItems.map(item => ({ direction: 'inflow' as const, item })),
+    ...outflowItems.map(item => ({ direction: 'outflow' as const, item })),
+  ]
+    .filter(({ item }) => item.amount !== undefined && item.currency && item.currency !== 'CHF')
+    .map(({ direction, item }) => {
+      const current = getItemAmount(item, convert)
+      return {
+        direction,
+        item,
+        current,
+        // CHF per unit of the item's currency
+        rate: item.amount ? current / item.amount / (convert(1, 'CHF') || 1) : 0,
+        impact: getItemMonthlyFxImpact(item, convert),
+      }
+    })
+
+  const inflowImpact = rows.filter(row => row.direction === 'inflow').reduce((sum, row) => sum + row.impact, 0)
+  const outflowImpact = rows.filter(row => row.direction === 'outflow').reduce((sum, row) => sum + row.impact, 0)
+
+  // Pins the current rate (CHF per unit) or unpins it; the stored CHF amount follows the new rate
+  const togglePinnedRate = (direction: 'inflow' | 'outflow', item: InflowItem | OutflowItem) => {
+    const chfPerUnit = convert(1, item.currency as CurrencyCode) / (convert(1, 'CHF') || 1)
+    const fxRate = item.fxRate ? null : Math.round(chfPerUnit * 10000) / 10000
+    const data = {
+      item: item.item,
+      amountChf: item.amount * (fxRate ?? chfPerUnit),
+      amount: item.amount,
+      currency: item.currency,
+      fxRate,
+      frequency: getCashflowFrequency(item),
+      dueMonths: item.dueMonths ?? null,
+      oneOffMonth: item.oneOffMonth ?? null,
+    }
+    if (direction === 'inflow') {
+      onEditInflowItem(item.id, { ...data, provider: (item as InflowItem).provider })
+    } else {
+      onEditOutflowItem(item.id, { ...data, receiver: (item as OutflowItem).receiver })
+    }
+  }
+
+  return (
+    <div className="bg-bg-frame border border-border-subtle rounded-card shadow-card px-3 py-3 lg:p-6">
+      <div className="mb-6 pb-4 border-b border-border-strong">
+        <Heading level={2}>FX Revaluation</Heading>
+      </div>
+
+      {rows.length === 0 ? (
+        <div className="text-center text-text-muted text-[0.567rem] md:text-xs py-4">
+          All cashflow items are in CHF.
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3 mb-6">
+            <div className="bg-bg-surface-1 border border-border-subtle rounded-input p-3">
+              <div className="text-text-secondary text-[0.567rem] md:text-xs">Inflow impact / month</div>
+              <TotalText variant={inflowImpact >= 0 ? 'inflow' : 'outflow'} className="block mt-1">{formatCurrency(inflowImpact)}</TotalText>
+            </div>
+            <div className="bg-bg-surface-1 border border-border-subtle rounded-input p-3">
+              <div className="text-text-secondary text-[0.567rem] md:text-xs">Outflow impact / month</div>
+              <TotalText variant={outflowImpact <= 0 ? 'inflow' : 'outflow'} className="block mt-1">{formatCurrency(outflowImpact)}</TotalText>
+            </div>
+            <div className="bg-bg-surface-1 border border-border-subtle rounded-input p-3">
+              <div className="text-text-secondary text-[0.567rem] md:text-xs">Spare change impact / month</div>
+              <TotalText variant={inflowImpact - outflowImpact >= 0 ? 'inflow' : 'outflow'} className="block mt-1">
+                {formatCurrency(inflowImpact - outflowImpact)}
+              </TotalText>
+            </div>
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-[0.63rem] md:text-[0.79rem]">
+              <thead>
+                <tr className="text-text-secondary text-left border-b border-border-subtle">
+                  <th className="py-2 pr-2 font-medium">Item</th>
+                  <th className="py-2 px-2 font-medium text-right">Amount</th>
+                  <th className="py-2 px-2 font-medium text-right">Rate (CHF)</th>
+                  <th className="py-2 px-2 font-medium text-right">Stored</th>
+                  <th className="py-2 px-2 font-medium text-right">Current</th>
+                  <th className="py-2 px-2 font-medium text-right">Impact / Month</th>
+                  <th className="py-2 pl-2" />
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map(({ direction, item, current, rate, impact }) => {
+                  // More inflow or less outflow is favourable
+                  const favourable = direction === 'inflow' ? impact >= 0 : impact <= 0
+                  return (
+                    <tr key={item.id} className="border-b border-border-subtle last:border-b-0">
+                      <td className="py-2 pr-2">
+                        <div className="truncate">{item.item}</div>
+                        <div className="text-text-muted text-[0.55rem] md:text-[0.774rem]">{direction === 'inflow' ? 'Inflow' : 'Outflow'} · {item.group}</div>
+                      </td>
+                      <td className="py-2 px-2 text-right whitespace-nowrap">{formatAmount(item.amount, item.currency)}</td>
+                      <td className="py-2 px-2 text-right whitespace-nowrap">
+                        {rate.toFixed(4)}
+                        {item.fxRate ? <span className="text-text-muted"> (fixed)</span> : null}
+                      </td>
+                      <td className="py-2 px-2 text-right whitespace-nowrap">{formatCurrency(convert(item.amountChf, 'CHF'))}</td>
+                      <td className="py-2 px-2 text-right whitespace-nowrap">{formatCurrency(current)}</td>
+                      <td className={`py-2 px-2 text-right whitespace-nowrap ${Math.abs(impact) < 0.005 ? 'text-text-muted' : favourable ? 'text-success' : 'text-danger'}`}>
+                        {formatCurrency(impact)}
+                      </td>
+                      <td className="py-2 pl-2 text-right">
+                        <button
+                          type="button"
+                          onClick={() => togglePinnedRate(direction, item)}
+                          className="py-1.5 px-3 bg-bg-surface-2 border border-border-subtle hover:border-accent-blue rounded-full text-text-primary text-[0.567rem] md:text-xs font-medium transition-colors whitespace-nowrap"
+                        >
+                          {item.fxRate ? 'Unpin rate' : 'Pin current rate'}
+                        </button>
+                      </td>
+                    </tr>
+                  )
+                })}
+              </tbody>
+            </table>
+          </div>
+          <p className="text-text-muted text-[0.567rem] md:text-xs mt-2">
+            Non-CHF items are revalued with the current rate unless their rate is pinned. Impact is the current monthly amount minus the amount stored when the item was saved.
+          </p>
+        </>
+      )}
+    </div>
+  )
+}
+
+// Money Flow (Sankey) Section Component
+const SANKEY_NODE_COLORS: Record<CashflowSankeyNodeKind, string> = {
+  inflow: '#2ECC71',
+  account: '#4A90E2',
+  outflow: '#B87333',
+  spare: '#DAA520',
+  unmapped: '#E67E22',
+  overAllocated: '#E74C3C',
+}
+
+function isHighlightedSankeyNode(node: CashflowSankeyNode): boolean {
+  return node.kind === 'unmapped' || node.kind === 'overAllocated'
+}
+
+interface SankeyNodeShapeProps {
+  x: number
+  y: number
+  width: number
+  height: number
+  containerWidth: number
+  payload: CashflowSankeyNode & { value: number }
+}
+
+function SankeyNodeShape({ x, y, width, height, containerWidth, payload }: SankeyNodeShapeProps) {
+  const isRightColumn = x + width + 6 > containerWidth
+  return (
+    <g>
+      <rect x={x} y={y} width={width} height={height} fill={SANKEY_NODE_COLORS[payload.kind]} rx={2} />
+      <text
+        x={isRightColumn ? x - 6 : x + width + 6}
+        y={y + height / 2}
+        textAnchor={isRightColumn ? 'end' : 'start'}
+        dominantBaseline="middle"
+        fill={isHighlightedSankeyNode(payload) ? SANKEY_NODE_COLORS[payload.kind] : '#8B8F99'}
+        fontSize="0.648rem"
+        fontWeight={isHighlightedSankeyNode(payload) ? 600 : 400}
+      >
+        {payload.name}
+      </text>
+    </g>
+  )
+}
+
+interface SankeyLinkShapeProps {
+  sourceX: number
+  targetX: number
+  sourceY: number
+  targetY: number
+  sourceControlX: number
+  targetControlX: number
+  linkWidth: number
+  payload: { source: CashflowSankeyNode; target: CashflowSankeyNode }
+}
+
+function SankeyLinkShape({ sourceX, targetX, sourceY, targetY, sourceControlX, targetControlX, linkWidth, payload }: SankeyLinkShapeProps) {
+  const highlighted = [payload.source, payload.target].find(isHighlightedSankeyNode)
+  return (
+    <path
+      d={`M${sourceX},${sourceY} C${sourceControlX},${sourceY} ${targetControlX},${targetY} ${targetX},${targetY}`}
+      fill="none"
+      stroke={highlighted ? SANKEY_NODE_COLORS[highlighted.kind] : '#4A90E2'}
+      strokeOpacity={highlighted ? 0.45 : 0.2}
+      strokeWidth={Math.max(1, linkWidth)}
+    />
+  )
+}
+
+interface MoneyFlowSectionProps {
+  mappings: AccountflowMapping[]
+  inflowItems: InflowItem[]
+  outflowItems: OutflowItem[]
+  convert: (amount: number, from: CurrencyCode) => number
+}
+
+function MoneyFlowSection({ mappings, inflowItems, outflowItems, convert }: MoneyFlowSectionProps) {
+  const { baseCurrency } = useCurrency()
+  const { isIncognito } = useIncognito()
+  const formatCurrency = (value: number) => formatMoney(value, baseCurrency, 'ch', { incognito: isIncognito })
+
+  // Amounts as on the platform cards (see AccountflowSection)
+  const sankeyData = useMemo(() => {
+    const data = buildCashflowSankey(mappings, inflowItems, outflowItems, convert)
+    return { ...data, links: data.links.map(link => ({ ...link, value: convert(link.value, 'CHF') })) }
+  }, [mappings, inflowItems, outflowItems, convert])
+
+  // Total per highlighted node (links into or out of it)
+  const highlightedTotals = sankeyData.nodes
+    .map((node, index) => ({
+      node,
+      total: sankeyData.links
+        .filter(link => link.source === index || link.target === index)
+        .reduce((sum, link) => sum + link.value, 0),
+    }))
+    .filter(({ node }) => isHighlightedSankeyNode(node))
+
+  const chartHeight = Math.max(320, Math.min(720, sankeyData.nodes.length * 36))
+
+  return (
+    <div className="bg-bg-frame border border-border-subtle rounded-card shadow-card px-3 py-3 lg:p-6">
+      <div className="mb-6 pb-4 border-b border-border-strong">
+        <Heading level={2}>Money Flow</Heading>
+      </div>
+
+      {sankeyData.links.length === 0 ? (
+        <div className="text-center text-text-muted text-[0.567rem] md:text-xs py-4">
+          No cashflow items or mappings yet.
+        </div>
+      ) : (
+        <>
+          <ResponsiveContainer width="100%" height={chartHeight}>
+            <Sankey
+              data={sankeyData}
+              node={(props: SankeyNodeShapeProps) => <SankeyNodeShape {...props} />}
+              link={(props: SankeyLinkShapeProps) => <SankeyLinkShape {...props} />}
+              nodePadding={24}
+              nodeWidth={10}
+              margin={{ top: 8, right: 8, bottom: 8, left: 8 }}
+            >
+              <Tooltip
+                contentStyle={{
+                  backgroundColor: '#FFFFFF',
+                  border: '1px solid #E5E7EB',
+                  borderRadius: '12px',
+                  color: '#111827',
+                  fontSize: '0.648rem',
+                  fontWeight: '400',
+                }}
+                formatter={(value: number) => formatCurrency(value)}
+              />
+            </Sankey>
+          </ResponsiveContainer>
+          {highlightedTotals.length > 0 && (
+            <div className="mt-4 flex flex-wrap gap-x-6 gap-y-2">
+              {highlightedTotals.map(({ node, total }) => (
+                <div key={node.name} className="flex items-center gap-2 text-[0.567rem] md:text-xs">
+                  <span className="w-2.5 h-2.5 rounded-sm" style={{ backgroundColor: SANKEY_NODE_COLORS[node.kind] }} />
+                  <span className="text-text-secondary">{node.name}</span>
+                  <span className="font-semibold" style={{ color: SANKEY_NODE_COLORS[node.kind] }}>{formatCurrency(total)}</span>
+                </div>
+              ))}
+            </div>
+          )}
+          <p className="text-text-muted text-[0.567rem] md:text-xs mt-2">
+            Monthly amounts from the mappings above. Income not routed to a platform, spending not paid from one and mappings that route more than there is are shown as their own nodes.
+          </p>
+        </>
+      )}
+    </div>
+  )
+}
+
 // Cashflow Item Menu Component (3-dots)
 interface CashflowItemMenuProps {
   itemId: string
@@ -935,19 +1394,112 @@ function CashflowItemMenu({ itemId, onEdit, onRemove }: CashflowItemMenuProps) {
 }
 
 // Add Inflow Item Modal
+// Frequency fields shared by the inflow and outflow item modals
+interface ScheduleFormState {
+  frequency: CashflowFrequency
+  firstDueMonth: number
+  oneOffMonth: string
+}
+
+function getScheduleFormState(item?: InflowItem | OutflowItem | null): ScheduleFormState {
+  const now = new Date()
+  const currentMonth = `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}`
+  return {
+    frequency: item ? getCashflowFrequency(item) : 'monthly',
+    firstDueMonth: item?.dueMonths && item.dueMonths.length > 0 ? Math.min(...item.dueMonths) : now.getMonth() + 1,
+    oneOffMonth: item?.oneOffMonth || currentMonth,
+  }
+}
+
+function toScheduleFormData(state: ScheduleFormState): CashflowScheduleFormData {
+  const dueMonths = getDueMonths(state.frequency, state.firstDueMonth)
+  return {
+    frequency: state.frequency,
+    dueMonths: dueMonths.length > 0 ? dueMonths : null,
+    oneOffMonth: state.frequency === 'once' ? state.oneOffMonth : null,
+  }
+}
+
+interface CashflowScheduleFieldsProps {
+  idPrefix: string
+  value: ScheduleFormState
+  onChange: (value: ScheduleFormState) => void
+}
+
+function CashflowScheduleFields({ idPrefix, value, onChange }: CashflowScheduleFieldsProps) {
+  const hasDueMonths = value.frequency === 'quarterly' || value.frequency === 'semiannual' || value.frequency === 'yearly'
+  return (
+    <>
+      <div>
+        <label className="block text-text-secondary text-[0.567rem] md:text-xs font-medium mb-1" htmlFor={`${idPrefix}-frequency`}>
+          Frequency
+        </label>
+        <select
+          id={`${idPrefix}-frequency`}
+          value={value.frequency}
+          onChange={(e) => onChange({ ...value, frequency: e.target.value as CashflowFrequency })}
+          className="w-full bg-bg-surface-2 border border-border-subtle rounded-input pl-3 pr-8 py-2 text-text-primary text-xs md:text-sm focus:outline-none focus:border-accent-blue"
+        >
+          {CASHFLOW_FREQUENCIES.map((frequency) => (
+            <option key={frequency} value={frequency}>{CASHFLOW_FREQUENCY_LABELS[frequency]}</option>
+          ))}
+        </select>
+      </div>
+
+      {hasDueMonths && (
+        <div>
+          <label className="block text-text-secondary text-[0.567rem] md:text-xs font-medium mb-1" htmlFor={`${idPrefix}-due-month`}>
+            First Due Month
+          </label>
+          <select
+            id={`${idPrefix}-due-month`}
+            value={value.firstDueMonth}
+            onChange={(e) => onChange({ ...value, firstDueMonth: Number(e.target.value) })}
+            className="w-full bg-bg-surface-2 border border-border-subtle rounded-input pl-3 pr-8 py-2 text-text-primary text-xs md:text-sm focus:outline-none focus:border-accent-blue"
+          >
+            {MONTH_LABELS.map((label, index) => (
+              <option key={label} value={index + 1}>{label}</option>
+            ))}
+          </select>
+          <div className="text-text-muted text-[0.567rem] md:text-xs mt-1">
+            Due in {getDueMonths(value.frequency, value.firstDueMonth).map(month => MONTH_LABELS[month - 1]).join(', ')}
+          </div>
+        </div>
+      )}
+
+      {value.frequency === 'once' && (
+        <div>
+          <label className="block text-text-secondary text-[0.567rem] md:text-xs font-medium mb-1" htmlFor={`${idPrefix}-one-off-month`}>
+            Month
+          </label>
+          <input
+            id={`${idPrefix}-one-off-month`}
+            type="month"
+            value={value.oneOffMonth}
+            onChange={(e) => onChange({ ...value, oneOffMonth: e.target.value })}
+            className="w-full bg-bg-surface-2 border border-border-subtle rounded-input px-3 py-2 text-text-primary text-xs md:text-sm focus:outline-none focus:border-accent-blue"
+          />
+        </div>
+      )}
+    </>
+  )
+}
+
 interface AddInflowItemModalProps {
   group: InflowGroupName
   editingItem?: InflowItem | null
   onClose: () => void
-  onSubmit: (data: { item: string; amountChf: number; amount: number; currency: string; provider: string }) => void
+  onSubmit: (data: InflowItemFormData) => void
+  convert: (amount: number, from: CurrencyCode) => number
 }
 
-function AddInflowItemModal({ group, editingItem, onClose, onSubmit }: AddInflowItemModalProps) {
-  const { convert } = useCurrency()
+function AddInflowItemModal({ group, editingItem, onClose, onSubmit, convert }: AddInflowItemModalProps) {
   const [item, setItem] = useState('')
   const [inflow, setInflow] = useState('')
   const [currency, setCurrency] = useState<CurrencyCode>('CHF')
+  const [fxRate, setFxRate] = useState('')
   const [provider, setProvider] = useState('')
+  const [schedule, setSchedule] = useState<ScheduleFormState>(() => getScheduleFormState())
   const [error, setError] = useState<string | null>(null)
 
   // Populate form when editing
@@ -963,12 +1515,16 @@ function AddInflowItemModal({ group, editingItem, onClose, onSubmit }: AddInflow
         setInflow(editingItem.amountChf.toString())
         setCurrency('CHF')
       }
+      setFxRate(editingItem.fxRate ? editingItem.fxRate.toString() : '')
       setProvider(editingItem.provider)
+      setSchedule(getScheduleFormState(editingItem))
     } else {
       setItem('')
       setInflow('')
       setCurrency('CHF')
+      setFxRate('')
       setProvider('')
+      setSchedule(getScheduleFormState())
     }
   }, [editingItem])
 
@@ -989,21 +1545,33 @@ function AddInflowItemModal({ group, editingItem, onClose, onSubmit }: AddInflow
       setError('Please enter a provider.')
       return
     }
+    const parsedFxRate = currency !== 'CHF' && fxRate.trim() ? Number(fxRate) : null
+    if (parsedFxRate !== null && (Number.isNaN(parsedFxRate) || parsedFxRate <= 0)) {
+      setError('Please enter a valid fixed rate greater than 0, or leave it empty.')
+      return
+    }
+    if (schedule.frequency === 'once' && !/^\d{4}-\d{2}$/.test(schedule.oneOffMonth)) {
+      setError('Please select the month of the one-off amount.')
+      return
+    }
 
     // Convert to CHF for backward compatibility (amountChf field)
-    const amountChf = convert(parsedInflow, currency)
+    const amountChf = getItemAmount({ amount: parsedInflow, currency, amountChf: 0, fxRate: parsedFxRate }, convert)
 
     onSubmit({
       item: item.trim(),
       amountChf, // Converted to CHF for backward compatibility
       amount: parsedInflow, // Original amount
       currency, // Original currency
+      fxRate: parsedFxRate,
       provider: provider.trim(),
+      ...toScheduleFormData(schedule),
     })
 
     setItem('')
     setInflow('')
     setCurrency('CHF')
+    setFxRate('')
     setProvider('')
     onClose()
   }
@@ -1073,6 +1641,29 @@ function AddInflowItemModal({ group, editingItem, onClose, onSubmit }: AddInflow
             </select>
           </div>
 
+          {currency !== 'CHF' && (
+            <div>
+              <label className="block text-text-secondary text-[0.567rem] md:text-xs font-medium mb-1" htmlFor="inflow-fx-rate">
+                Fixed Rate (CHF per 1 {currency}, optional)
+              </label>
+              <input
+                id="inflow-fx-rate"
+                type="number"
+                min="0"
+                step="0.0001"
+                value={fxRate}
+                onChange={(e) => setFxRate(e.target.value)}
+                placeholder="Current rate"
+                className="w-full bg-bg-surface-2 border border-border-subtle rounded-input px-3 py-2 text-text-primary text-xs md:text-sm focus:outline-none focus:border-accent-blue"
+              />
+              <div className="text-text-muted text-[0.567rem] md:text-xs mt-1">
+                Pin the rate when a contract fixes it; otherwise the amount is revalued with the current rate.
+              </div>
+            </div>
+          )}
+
+          <CashflowScheduleFields idPrefix="inflow" value={schedule} onChange={setSchedule} />
+
           <div>
             <label className="block text-text-secondary text-[0.567rem] md:text-xs font-medium mb-1" htmlFor="inflow-provider">
               Provider
@@ -1112,15 +1703,17 @@ interface AddOutflowItemModalProps {
   group: OutflowGroupName
   editingItem?: OutflowItem | null
   onClose: () => void
-  onSubmit: (data: { item: string; amountChf: number; amount: number; currency: string; receiver: string }) => void
+  onSubmit: (data: OutflowItemFormData) => void
+  convert: (amount: number, from: CurrencyCode) => number
 }
 
-function AddOutflowItemModal({ group, editingItem, onClose, onSubmit }: AddOutflowItemModalProps) {
-  const { convert } = useCurrency()
+function AddOutflowItemModal({ group, editingItem, onClose, onSubmit, convert }: AddOutflowItemModalProps) {
   const [item, setItem] = useState('')
   const [outflow, setOutflow] = useState('')
   const [currency, setCurrency] = useState<CurrencyCode>('CHF')
+  const [fxRate, setFxRate] = useState('')
   const [receiver, setReceiver] = useState('')
+  const [schedule, setSchedule] = useState<ScheduleFormState>(() => getScheduleFormState())
   const [error, setError] = useState<string | null>(null)
 
   // Populate form when editing
@@ -1136,12 +1729,16 @@ function AddOutflowItemModal({ group, editingItem, onClose, onSubmit }: AddOutfl
         setOutflow(editingItem.amountChf.toString())
         setCurrency('CHF')
       }
+      setFxRate(editingItem.fxRate ? editingItem.fxRate.toString() : '')
       setReceiver(editingItem.receiver)
+      setSchedule(getScheduleFormState(editingItem))
     } else {
       setItem('')
       setOutflow('')
       setCurrency('CHF')
+      setFxRate('')
       setReceiver('')
+      setSchedule(getScheduleFormState())
     }
   }, [editingItem])
 
@@ -1162,21 +1759,33 @@ function AddOutflowItemModal({ group, editingItem, onClose, onSubmit }: AddOutfl
       setError('Please enter a receiver.')
       return
     }
+    const parsedFxRate = currency !== 'CHF' && fxRate.trim() ? Number(fxRate) : null
+    if (parsedFxRate !== null && (Number.isNaN(parsedFxRate) || parsedFxRate <= 0)) {
+      setError('Please enter a valid fixed rate greater than 0, or leave it empty.')
+      return
+    }
+    if (schedule.frequency === 'once' && !/^\d{4}-\d{2}$/.test(schedule.oneOffMonth)) {
+      setError('Please select the month of the one-off amount.')
+      return
+    }
 
     // Convert to CHF for backward compatibility (amountChf field)
-    const amountChf = convert(parsedOutflow, currency)
+    const amountChf = getItemAmount({ amount: parsedOutflow, currency, amountChf: 0, fxRate: parsedFxRate }, convert)
 
     onSubmit({
       item: item.trim(),
       amountChf, // Converted to CHF for backward compatibility
       amount: parsedOutflow, // Original amount
       currency, // Original currency
+      fxRate: parsedFxRate,
       receiver: receiver.trim(),
+      ...toScheduleFormData(schedule),
     })
 
     setItem('')
     setOutflow('')
     setCurrency('CHF')
+    setFxRate('')
     setReceiver('')
     onClose()
   }
@@ -1246,6 +1855,29 @@ function AddOutflowItemModal({ group, editingItem, onClose, onSubmit }: AddOutfl
             </select>
           </div>
 
+          {currency !== 'CHF' && (
+            <div>
+              <label className="block text-text-secondary text-[0.567rem] md:text-xs font-medium mb-1" htmlFor="outflow-fx-rate">
+                Fixed Rate (CHF per 1 {currency}, optional)
+              </label>
+              <input
+                id="outflow-fx-rate"
+                type="number"
+                min="0"
+                step="0.0001"
+                value={fxRate}
+                onChange={(e) => setFxRate(e.target.value)}
+                placeholder="Current rate"
+                className="w-full bg-bg-surface-2 border border-border-subtle rounded-input px-3 py-2 text-text-primary text-xs md:text-sm focus:outline-none focus:border-accent-blue"
+              />
+              <div className="text-text-muted text-[0.567rem] md:text-xs mt-1">
+                Pin the rate when a contract fixes it; otherwise the amount is revalued with the current rate.
+              </div>
+            </div>
+          )}
+
+          <CashflowScheduleFields idPrefix="outflow" value={schedule} onChange={setSchedule} />
+
           <div>
             <label className="block text-text-secondary text-[0.567rem] md:text-xs font-medium mb-1" htmlFor="outflow-receiver">
               Receiver
@@ -1289,10 +1921,11 @@ interface AddMappingModalProps {
   preselectedAccount?: AccountPlatform | null
   onClose: () => void
   onSubmit: (mapping: AccountflowMapping) => void
+  convert: (amount: number, from: CurrencyCode) => number
 }
 
-function AddMappingModal({ inflowItems, outflowItems, platforms, editingMapping, preselectedAccount, onClose, onSubmit }: AddMappingModalProps) {
-  const { baseCurrency, convert } = useCurrency()
+function AddMappingModal({ inflowItems, outflowItems, platforms, editingMapping, preselectedAccount, onClose, onSubmit, convert }: AddMappingModalProps) {
+  const { baseCurrency } = useCurrency()
   const { isIncognito } = useIncognito()
   const formatCurrency = (value: number) => formatMoney(value, baseCurrency, 'ch', { incognito: isIncognito })
   const [mappingType, setMappingType] = useState<MappingKind>('inflowToAccount')
@@ -1373,11 +2006,7 @@ function AddMappingModal({ inflowItems, outflowItems, platforms, editingMapping,
     } else if (inflowToAccountMode === 'item' && inflowToAccountItem) {
       const item = inflowItems.find(i => i.id === inflowToAccountItem)
       if (!item) return 0
-      // Use original amount and currency if available, otherwise fall back to amountChf
-      if (item.amount !== undefined && item.currency) {
-        return convert(item.amount, item.currency as CurrencyCode)
-      }
-      return item.amountChf
+      return getItemMonthlyAmount(item, convert)
     }
     return 0
   }
@@ -1388,11 +2017,7 @@ function AddMappingModal({ inflowItems, outflowItems, platforms, editingMapping,
     } else if (accountToOutflowMode === 'item' && accountToOutflowItem) {
       const item = outflowItems.find(i => i.id === accountToOutflowItem)
       if (!item) return 0
-      // Use original amount and currency if available, otherwise fall back to amountChf
-      if (item.amount !== undefined && item.currency) {
-        return convert(item.amount, item.currency as CurrencyCode)
-      }
-      return item.amountChf
+      return getItemMonthlyAmount(item, convert)
     }
     return 0
   }
@@ -2037,18 +2662,623 @@ function AddAccountflowItemModal({ platform, onClose, onSubmit }: AddAccountflow
   )
 }
 
+// Budget vs Actual Section Component
+interface BudgetActualSectionProps {
+  inflowItems: InflowItem[]
+  outflowItems: OutflowItem[]
+  netWorthItems: NetWorthItem[]
+  transactions: NetWorthTransaction[]
+  actuals: CashflowActual[]
+  onSaveActual: (actual: CashflowActual) => void
+  onRemoveActual: (id: string) => void
+  convert: (amount: number, from: CurrencyCode) => number
+}
+
+const VARIANCE_GROUP_COLORS: Record<OutflowGroupName, string> = {
+  Fix: '#4A90E2',
+  Variable: '#DAA520',
+  'Shared Variable': '#B87333',
+  Investments: '#2ECC71',
+}
+
+function getCurrentMonth(): string {
+  const now = new Date()
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}`
+}
+
+// Groups compared in the actual-vs-budget view, in display order
+const BUDGET_GROUPS: { inflow: InflowGroupName[]; outflow: OutflowGroupName[] } = {
+  inflow: ['Time', 'Service', 'Worker Bees'],
+  outflow: ['Fix', 'Variable', 'Shared Variable', 'Investments'],
+}
+
+function BudgetActualSection({ inflowItems, outflowItems, netWorthItems, transactions, actuals, onSaveActual, onRemoveActual, convert }: BudgetActualSectionProps) {
+  const { baseCurrency } = useCurrency()
+  const { isIncognito } = useIncognito()
+  const formatCurrency = (value: number) => formatMoney(value, baseCurrency, 'ch', { incognito: isIncognito })
+  const formatCurrencyTick = (value: number) => {
+    if (isIncognito) return '****'
+    const abs = Math.abs(value)
+    if (abs >= 1_000_000) return `${(value / 1_000_000).toFixed(1).replace(/\.0$/, '')}M`
+    if (abs >= 1_000) return `${(value / 1_000).toFixed(abs >= 10_000 ? 0 : 1).replace(/\.0$/, '')}k`
+    return `${Math.round(value)}`
+  }
+
+  const inflowGroups = BUDGET_GROUPS.inflow
+  const outflowGroups = BUDGET_GROUPS.outflow
+  const [month, setMonth] = useState(getCurrentMonth)
+  const [showAddActual, setShowAddActual] = useState(false)
+  const [editingActual, setEditingActual] = useState<CashflowActual | null>(null)
+
+  // Budget of a month: the cashflow items plus that month's loan payments
+  const getBudget = useCallback((budgetMonth: string) => ({
+    inflowItems,
+    outflowItems: [
+      ...outflowItems.filter(item => !isLoanOutflowItem(item)),
+      ...getLoanOutflowItems(netWorthItems, convert, new Date(`${budgetMonth}-01T00:00:00`)),
+    ],
+  }), [inflowItems, outflowItems, netWorthItems, convert])
+
+  const variance = useMemo(
+    () => computeMonthVariance(month, actuals, getBudget(month), BUDGET_GROUPS, convert),
+    [month, actuals, getBudget, convert]
+  )
+
+  const varianceHistory = useMemo(
+    () =>
+      getPreviousMonths(month, 12).map((historyMonth) => {
+        const monthVariance = computeMonthVariance(historyMonth, actuals, getBudget(historyMonth), BUDGET_GROUPS, convert)
+        const row: Record<string, string | number | null> = { month: historyMonth }
+        for (const group of monthVariance.groups.filter(g => g.direction === 'outflow')) {
+          row[group.group] = monthVariance.hasActuals ? group.variance : null
+        }
+        return row
+      }),
+    [month, actuals, getBudget, convert]
+  )
+
+  const monthActuals = actuals
+    .filter(actual => actual.month === month)
+    .sort((a, b) => a.direction.localeCompare(b.direction) || a.group.localeCompare(b.group))
+  const bookedTransactionIds = new Set(actuals.map(actual => actual.transactionId).filter(Boolean))
+  const unbookedTransactions = getLedgerTransactions(month, transactions, netWorthItems)
+    .filter(tx => !bookedTransactionIds.has(tx.transactionId))
+
+  const getActualLabel = (actual: CashflowActual) => {
+    const items: Array<InflowItem | OutflowItem> = actual.direction === 'inflow' ? inflowItems : outflowItems
+    const item = actual.itemId ? items.find(i => i.id === actual.itemId) : undefined
+    return item ? item.item : actual.group
+  }
+
+  // Outflows above and inflows below the budget are unfavourable
+  const getVarianceClass = (direction: 'inflow' | 'outflow', value: number) => {
+    if (Math.abs(value) < 0.005) return 'text-text-secondary'
+    const unfavourable = direction === 'outflow' ? value > 0 : value < 0
+    return unfavourable ? 'text-danger' : 'text-success'
+  }
+
+  const handleBookTransaction = (tx: LedgerTransaction, target: string) => {
+    if (!target) return
+    const [group, itemId] = target.split('|')
+    const now = new Date().toISOString()
+    onSaveActual({
+      id: typeof crypto !== 'undefined' && 'randomUUID' in crypto ? crypto.randomUUID() : `actual-${Date.now()}`,
+      month,
+      direction: tx.direction,
+      group,
+      itemId: itemId || null,
+      amount: tx.amount,
+      currency: tx.currency,
+      note: tx.itemName,
+      transactionId: tx.transactionId,
+      createdAt: now,
+      updatedAt: now,
+    })
+  }
+
+  const spareBudget = variance.budgetInflow - variance.budgetOutflow
+  const spareActual = variance.actualInflow - variance.actualOutflow
+
+  return (
+    <>
+    <div className="bg-bg-frame border border-border-subtle rounded-card shadow-card px-3 py-3 lg:p-6">
+      <div className="mb-6 pb-4 border-b border-border-strong flex items-end justify-between gap-4">
+        <div>
+          <Heading level={2}>Budget vs Actual</Heading>
+          <p className="text-text-secondary text-[0.567rem] md:text-xs mt-2">
+            Actual inflows and outflows of a month, entered manually or booked from Bank Account and Cash transactions, against the monthly budget.
+          </p>
+        </div>
+        <div className="flex items-end gap-3 flex-shrink-0">
+          <div>
+            <label className="block text-text-secondary text-[0.567rem] md:text-xs font-medium mb-1" htmlFor="actuals-month">
+              Month
+            </label>
+            <input
+              id="actuals-month"
+              type="month"
+              value={month}
+              onChange={(e) => e.target.value && setMonth(e.target.value)}
+              className="bg-bg-surface-2 border border-border-subtle rounded-input px-3 py-2 text-text-primary text-xs md:text-sm focus:outline-none focus:border-accent-blue"
+            />
+          </div>
+          <button
+            onClick={() => setShowAddActual(true)}
+            className="py-2 px-3 bg-gradient-to-r from-[#DAA520] to-[#B87333] hover:from-[#F0C850] hover:to-[#D4943F] text-[#050A1A] text-[0.567rem] md:text-xs font-semibold rounded-full transition-all duration-200 shadow-card hover:shadow-lg flex items-center justify-center gap-1.5 group"
+          >
+            <svg
+              className="w-4 h-4 transition-transform group-hover:rotate-90"
+              fill="none"
+              stroke="currentColor"
+              viewBox="0 0 24 24"
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2.5}
+                d="M12 4v16m8-8H4"
+              />
+            </svg>
+            <span>Add Actual</span>
+          </button>
+        </div>
+      </div>
+
+      <div className="space-y-6">
+        {/* Totals */}
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          {[
+            { label: 'Inflow', direction: 'inflow' as const, budget: variance.budgetInflow, actual: variance.actualInflow },
+            { label: 'Outflow', direction: 'outflow' as const, budget: variance.budgetOutflow, actual: variance.actualOutflow },
+            { label: 'Spare Change', direction: 'inflow' as const, budget: spareBudget, actual: spareActual },
+          ].map(({ label, direction, budget, actual }) => (
+            <div key={label} className="bg-bg-surface-2 border border-border-subtle rounded-input px-3 py-2">
+              <div className="text-text-secondary text-[0.567rem] md:text-xs mb-1">{label}</div>
+              <div className="text-text-primary text-sm md:text-base">{formatCurrency(actual)}</div>
+              <div className="text-text-muted text-[0.567rem] md:text-xs">
+                Budget {formatCurrency(budget)}
+                {variance.hasActuals && (
+                  <span className={`ml-2 ${getVarianceClass(direction, actual - budget)}`}>
+                    {actual - budget >= 0 ? '+' : ''}{formatCurrency(actual - budget)}
+                  </span>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {/* Variance per group */}
+        <div className="bg-bg-frame border border-border-subtle rounded-input p-4">
+          <Heading level={3} className="mb-4">Variance by Group</Heading>
+          <div className="overflow-x-auto -mx-4 px-4">
+            <table className="w-full text-xs md:text-sm min-w-[520px]" style={{ tableLayout: 'fixed' }}>
+              <colgroup>
+                <col style={{ width: '40%' }} />
+                <col style={{ width: '20%' }} />
+                <col style={{ width: '20%' }} />
+                <col style={{ width: '20%' }} />
+              </colgroup>
+              <thead>
+                <tr className="border-b border-border-subtle">
+                  <th scope="col" className="text-left pb-2 pr-2">
+                    <Heading level={4}>Group / Item</Heading>
+                  </th>
+                  <th scope="col" className="text-right pb-2 pr-2">
+                    <Heading level={4}>Budget</Heading>
+                  </th>
+                  <th scope="col" className="text-right pb-2 pr-2">
+                    <Heading level={4}>Actual</Heading>
+                  </th>
+                  <th scope="col" className="text-right pb-2">
+                    <Heading level={4}>Variance</Heading>
+                  </th>
+                </tr>
+              </thead>
+              <tbody>
+                {variance.groups
+                  .filter(group => group.direction === 'outflow' || group.budget !== 0 || group.actual !== 0)
+                  .map((group) => (
+                    <React.Fragment key={`${group.direction}-${group.group}`}>
+                      <tr className="border-t border-border-subtle">
+                        <td className="pt-3 pb-1 pr-2">
+                          <div className="text2 text-text-primary font-semibold truncate">
+                            {group.group}
+                            <span className="ml-2 text-text-muted text-[0.567rem] md:text-xs font-normal">
+                              {group.direction === 'inflow' ? 'Inflow' : 'Outflow'}
+                            </span>
+                          </div>
+                        </td>
+                        <td className="pt-3 pb-1 pr-2 text-right whitespace-nowrap text-text-primary">{formatCurrency(group.budget)}</td>
+                        <td className="pt-3 pb-1 pr-2 text-right whitespace-nowrap text-text-primary">{formatCurrency(group.actual)}</td>
+                        <td className={`pt-3 pb-1 text-right whitespace-nowrap ${getVarianceClass(group.direction, group.variance)}`}>
+                          {formatCurrency(group.variance)}
+                        </td>
+                      </tr>
+                      {group.rows.map((row) => (
+                        <tr key={row.itemId ?? 'other'}>
+                          <td className="py-1 pr-2 pl-3">
+                            <div className="text-text-secondary text-[0.567rem] md:text-xs truncate">{row.label}</div>
+                          </td>
+                          <td className="py-1 pr-2 text-right whitespace-nowrap text-text-secondary text-[0.567rem] md:text-xs">{formatCurrency(row.budget)}</td>
+                          <td className="py-1 pr-2 text-right whitespace-nowrap text-text-secondary text-[0.567rem] md:text-xs">{formatCurrency(row.actual)}</td>
+                          <td className={`py-1 text-right whitespace-nowrap text-[0.567rem] md:text-xs ${getVarianceClass(group.direction, row.variance)}`}>
+                            {formatCurrency(row.variance)}
+                          </td>
+                        </tr>
+                      ))}
+                    </React.Fragment>
+                  ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+
+        {/* Ledger of the month */}
+        <div className="bg-bg-frame border border-border-subtle rounded-input p-4">
+          <Heading level={3} className="mb-4">Ledger</Heading>
+          {monthActuals.length === 0 ? (
+            <div className="text-center text-text-muted text-[0.567rem] md:text-xs py-4">
+              No actuals in this month. Click "Add Actual" or book a transaction below.
+            </div>
+          ) : (
+            <div className="space-y-2">
+              {monthActuals.map((actual) => (
+                <div key={actual.id} className="flex items-stretch bg-bg-surface-1 border border-border-subtle rounded-input overflow-hidden p-[10px]">
+                  <div className="flex-1 min-w-0 pr-2">
+                    <div className="text-[0.63rem] md:text-[0.79rem] truncate">{getActualLabel(actual)}</div>
+                    <div className="text-text-muted text-[0.55rem] md:text-[0.774rem] truncate">
+                      {actual.group}
+                      {actual.transactionId ? ' · from transaction' : ''}
+                      {actual.note ? ` · ${actual.note}` : ''}
+                    </div>
+                  </div>
+                  <div className="flex-1 min-w-0 text-right px-2 flex flex-col justify-center">
+                    <TotalText variant={actual.direction === 'inflow' ? 'inflow' : 'outflow'} className="text-[0.63rem] md:text-[0.79rem] whitespace-nowrap">
+                      {formatCurrency(convert(actual.amount, actual.currency as CurrencyCode))}
+                    </TotalText>
+                  </div>
+                  <div className="flex-shrink-0 w-3" aria-hidden="true" />
+                  <div className="flex-shrink-0 w-px self-stretch bg-border-subtle" aria-hidden="true" />
+                  <div className="flex-shrink-0 w-3" aria-hidden="true" />
+                  <div className="flex-shrink-0 flex items-center justify-end">
+                    <CashflowItemMenu
+                      itemId={actual.id}
+                      onEdit={() => setEditingActual(actual)}
+                      onRemove={() => onRemoveActual(actual.id)}
+                    />
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Bank Account / Cash transactions not booked yet */}
+        {unbookedTransactions.length > 0 && (
+          <div className="bg-bg-frame border border-border-subtle rounded-input p-4">
+            <Heading level={3} className="mb-4">Unbooked Transactions</Heading>
+            <div className="space-y-2">
+              {unbookedTransactions.map((tx) => {
+                const groups = tx.direction === 'inflow' ? inflowGroups : outflowGroups
+                const items: Array<InflowItem | OutflowItem> = tx.direction === 'inflow'
+                  ? inflowItems
+                  : outflowItems.filter(item => !isLoanOutflowItem(item))
+                return (
+                  <div key={tx.transactionId} className="flex flex-col md:flex-row md:items-center gap-2 bg-bg-surface-1 border border-border-subtle rounded-input p-[10px]">
+                    <div className="flex-1 min-w-0">
+                      <div className="text-[0.63rem] md:text-[0.79rem] truncate">{tx.itemName}</div>
+                      <div className="text-text-muted text-[0.55rem] md:text-[0.774rem]">{tx.date}</div>
+                    </div>
+                    <TotalText variant={tx.direction === 'inflow' ? 'inflow' : 'outflow'} className="text-[0.63rem] md:text-[0.79rem] whitespace-nowrap md:w-32 md:text-right">
+                      {formatCurrency(convert(tx.amount, tx.currency as CurrencyCode))}
+                    </TotalText>
+                    <select
+                      value=""
+                      onChange={(e) => handleBookTransaction(tx, e.target.value)}
+                      className="md:w-56 bg-bg-surface-2 border border-border-subtle rounded-input pl-3 pr-8 py-2 text-text-primary text-xs md:text-sm focus:outline-none focus:border-accent-blue"
+                      aria-label={`Book ${tx.itemName} ${tx.date}`}
+                    >
+                      <option value="">Book to…</option>
+                      {groups.map((group) => (
+                        <optgroup key={group} label={group}>
+                          <option value={`${group}|`}>{group} (group)</option>
+                          {items.filter(item => item.group === group).map((item) => (
+                            <option key={item.id} value={`${group}|${item.id}`}>{item.item}</option>
+                          ))}
+                        </optgroup>
+                      ))}
+                    </select>
+                  </div>
+                )
+              })}
+            </div>
+          </div>
+        )}
+
+        {/* 12-month variance history */}
+        <div className="bg-bg-frame border border-border-subtle rounded-input p-4">
+          <Heading level={3} className="mb-4">Outflow Variance (12 Months)</Heading>
+          <ResponsiveContainer width="100%" height={260}>
+            <BarChart data={varianceHistory} margin={{ top: 6, right: 8, left: 0, bottom: 0 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#E5E7EB" vertical={false} />
+              <XAxis
+                dataKey="month"
+                stroke="#8B8F99"
+                tick={{ fill: '#8B8F99', fontSize: '0.648rem' }}
+              />
+              <YAxis
+                stroke="#8B8F99"
+                tick={{ fill: '#8B8F99', fontSize: '0.648rem' }}
+                tickFormatter={formatCurrencyTick}
+                width={44}
+              />
+              <ReferenceLine y={0} stroke="#8B8F99" />
+              <Tooltip
+                cursor={false}
+                contentStyle={{
+                  backgroundColor: '#FFFFFF',
+                  border: '1px solid #E5E7EB',
+                  borderRadius: '12px',
+                  color: '#111827',
+                  fontSize: '0.648rem',
+                  fontWeight: '400',
+                }}
+                formatter={(value: number) => formatCurrency(value)}
+              />
+              <Legend
+                wrapperStyle={{ color: '#8B8F99', fontSize: '0.72rem', fontWeight: '400' }}
+                className="text2"
+              />
+              {outflowGroups.map((group) => (
+                <Bar key={group} dataKey={group} stackId="variance" fill={VARIANCE_GROUP_COLORS[group]} isAnimationActive={false} />
+              ))}
+            </BarChart>
+          </ResponsiveContainer>
+          <p className="text-text-muted text-[0.567rem] md:text-xs mt-2">
+            Actual minus budget per outflow group; months without actuals are left empty.
+          </p>
+        </div>
+      </div>
+    </div>
+    {(showAddActual || editingActual) && (
+      <ActualModal
+        month={month}
+        editingActual={editingActual}
+        inflowItems={inflowItems}
+        outflowItems={outflowItems.filter(item => !isLoanOutflowItem(item))}
+        onClose={() => {
+          setShowAddActual(false)
+          setEditingActual(null)
+        }}
+        onSubmit={(actual) => {
+          onSaveActual(actual)
+          setShowAddActual(false)
+          setEditingActual(null)
+        }}
+      />
+    )}
+    </>
+  )
+}
+
+// Actual Modal (manual ledger entry)
+interface ActualModalProps {
+  month: string
+  editingActual: CashflowActual | null
+  inflowItems: InflowItem[]
+  outflowItems: OutflowItem[]
+  onClose: () => void
+  onSubmit: (actual: CashflowActual) => void
+}
+
+function ActualModal({ month, editingActual, inflowItems, outflowItems, onClose, onSubmit }: ActualModalProps) {
+  const inflowGroups: InflowGroupName[] = ['Time', 'Service', 'Worker Bees']
+  const outflowGroups: OutflowGroupName[] = ['Fix', 'Variable', 'Shared Variable', 'Investments']
+  const [direction, setDirection] = useState<'inflow' | 'outflow'>(editingActual?.direction ?? 'outflow')
+  const [target, setTarget] = useState(editingActual ? `${editingActual.group}|${editingActual.itemId ?? ''}` : '')
+  const [actualMonth, setActualMonth] = useState(editingActual?.month ?? month)
+  const [amount, setAmount] = useState(editingActual ? editingActual.amount.toString() : '')
+  const [currency, setCurrency] = useState<CurrencyCode>((editingActual?.currency as CurrencyCode) ?? 'CHF')
+  const [note, setNote] = useState(editingActual?.note ?? '')
+  const [error, setError] = useState<string | null>(null)
+
+  const groups = direction === 'inflow' ? inflowGroups : outflowGroups
+  const items: Array<InflowItem | OutflowItem> = direction === 'inflow' ? inflowItems : outflowItems
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault()
+    setError(null)
+
+    const parsedAmount = Number(amount)
+    if (!target) {
+      setError('Please select a group or item.')
+      return
+    }
+    if (!/^\d{4}-\d{2}$/.test(actualMonth)) {
+      setError('Please select a month.')
+      return
+    }
+    if (!amount || Number.isNaN(parsedAmount) || parsedAmount <= 0) {
+      setError('Please enter a valid amount greater than 0.')
+      return
+    }
+
+    const [group, itemId] = target.split('|')
+    const now = new Date().toISOString()
+    onSubmit({
+      ...editingActual,
+      id: editingActual?.id ?? (typeof crypto !== 'undefined' && 'randomUUID' in crypto ? crypto.randomUUID() : `actual-${Date.now()}`),
+      month: actualMonth,
+      direction,
+      group,
+      itemId: itemId || null,
+      amount: parsedAmount,
+      currency,
+      note: note.trim(),
+      transactionId: editingActual?.transactionId ?? null,
+      createdAt: editingActual?.createdAt ?? now,
+      updatedAt: now,
+    })
+  }
+
+  return (
+    <div className="fixed inset-0 z-[80] flex items-center justify-center bg-black/60 px-4" onClick={onClose}>
+      <div className="w-full max-w-md bg-bg-surface-1 border border-border-strong rounded-card shadow-card p-6 relative" onClick={(e) => e.stopPropagation()}>
+        <Heading level={2} className="mb-4">
+          {editingActual ? 'Edit Actual' : 'Add Actual'}
+        </Heading>
+
+        {error && (
+          <div className="mb-3 text-[0.567rem] md:text-xs text-danger bg-bg-surface-2 border border-danger/40 rounded-input px-3 py-2">
+            {error}
+          </div>
+        )}
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label className="block text-text-secondary text-[0.567rem] md:text-xs font-medium mb-1" htmlFor="actual-direction">
+              Type
+            </label>
+            <select
+              id="actual-direction"
+              value={direction}
+              onChange={(e) => {
+                setDirection(e.target.value as 'inflow' | 'outflow')
+                setTarget('')
+              }}
+              disabled={!!editingActual?.transactionId}
+              className="w-full bg-bg-surface-2 border border-border-subtle rounded-input pl-3 pr-8 py-2 text-text-primary text-xs md:text-sm focus:outline-none focus:border-accent-blue"
+            >
+              <option value="inflow">Inflow</option>
+              <option value="outflow">Outflow</option>
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-text-secondary text-[0.567rem] md:text-xs font-medium mb-1" htmlFor="actual-target">
+              Group / Item
+            </label>
+            <select
+              id="actual-target"
+              value={target}
+              onChange={(e) => setTarget(e.target.value)}
+              className="w-full bg-bg-surface-2 border border-border-subtle rounded-input pl-3 pr-8 py-2 text-text-primary text-xs md:text-sm focus:outline-none focus:border-accent-blue"
+            >
+              <option value="">Select…</option>
+              {groups.map((group) => (
+                <optgroup key={group} label={group}>
+                  <option value={`${group}|`}>{group} (group)</option>
+                  {items.filter(item => item.group === group).map((item) => (
+                    <option key={item.id} value={`${group}|${item.id}`}>{item.item}</option>
+                  ))}
+                </optgroup>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-text-secondary text-[0.567rem] md:text-xs font-medium mb-1" htmlFor="actual-month">
+              Month
+            </label>
+            <input
+              id="actual-month"
+              type="month"
+              value={actualMonth}
+              onChange={(e) => setActualMonth(e.target.value)}
+              disabled={!!editingActual?.transactionId}
+              className="w-full bg-bg-surface-2 border border-border-subtle rounded-input px-3 py-2 text-text-primary text-xs md:text-sm focus:outline-none focus:border-accent-blue"
+            />
+          </div>
+
+          <div>
+            <label className="block text-text-secondary text-[0.567rem] md:text-xs font-medium mb-1" htmlFor="actual-amount">
+              Amount
+            </label>
+            <input
+              id="actual-amount"
+              type="number"
+              min="0"
+              step="0.01"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              className="w-full bg-bg-surface-2 border border-border-subtle rounded-input px-3 py-2 text-text-primary text-xs md:text-sm focus:outline-none focus:border-accent-blue"
+            />
+          </div>
+          <div>
+            <label className="block text-text-secondary text-[0.567rem] md:text-xs font-medium mb-1" htmlFor="actual-currency">
+              Currency
+            </label>
+            <select
+              id="actual-currency"
+              value={currency}
+              onChange={(e) => setCurrency(e.target.value as CurrencyCode)}
+              className="w-full bg-bg-surface-2 border border-border-subtle rounded-input pl-3 pr-8 py-2 text-text-primary text-xs md:text-sm focus:outline-none focus:border-accent-blue"
+            >
+              <option value="CHF">CHF</option>
+              <option value="EUR">EUR</option>
+              <option value="USD">USD</option>
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-text-secondary text-[0.567rem] md:text-xs font-medium mb-1" htmlFor="actual-note">
+              Note
+            </label>
+            <input
+              id="actual-note"
+              type="text"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              className="w-full bg-bg-surface-2 border border-border-subtle rounded-input px-3 py-2 text-text-primary text-xs md:text-sm focus:outline-none focus:border-accent-blue"
+            />
+          </div>
+
+          <div className="flex justify-end gap-3 pt-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 rounded-full text-[0.567rem] md:text-xs bg-bg-surface-2 border border-border-subtle text-text-primary hover:bg-bg-surface-3 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className="px-4 py-2 rounded-full text-[0.567rem] md:text-xs bg-gradient-to-r from-[#DAA520] to-[#B87333] text-[#050A1A] font-semibold hover:brightness-110 transition-all duration-200 shadow-card"
+            >
+              {editingActual ? 'Save Changes' : 'Add Actual'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  )
+}
+
 // Main Cashflow Component
 function Cashflow() {
   const { baseCurrency, convert } = useCurrency()
+  // Current-rate converter shared by the sections (see useFxConvert)
+  const { convert: cashflowConvert } = useFxConvert()
   const { isIncognito } = useIncognito()
   const formatCurrency = (value: number) => formatMoney(value, baseCurrency, 'ch', { incognito: isIncognito })
   const { uid } = useAuth()
   const { toasts, addToast, dismissToast } = useToast()
   const [inflowItems, setInflowItems] = useState<InflowItem[]>([])
   const [outflowItems, setOutflowItems] = useState<OutflowItem[]>([])
+  const { data } = useData()
+  // Interest/amortization derived from loan schedules (read-only, not persisted)
+  const loanOutflowItems = useMemo(
+    () => getLoanOutflowItems(data.netWorthItems, convert),
+    [data.netWorthItems, convert]
+  )
+  const allOutflowItems = useMemo(
+    () => [...outflowItems, ...loanOutflowItems],
+    [outflowItems, loanOutflowItems]
+  )
   const [accountflowItems, setAccountflowItems] = useState<AccountflowItem[]>([])
   const [accountflowMappings, setAccountflowMappings] = useState<AccountflowMapping[]>([])
   const [platforms, setPlatforms] = useState<Platform[]>([])
+  const [actuals, setActuals] = useState<CashflowActual[]>([])
   const [dataLoading, setDataLoading] = useState(true)
 
   // Load data from Firestore on mount and when uid changes
@@ -2058,6 +3288,7 @@ function Cashflow() {
       setOutflowItems([])
       setAccountflowItems([])
       setAccountflowMappings([])
+      setActuals([])
       setDataLoading(false)
       return
     }
@@ -2065,14 +3296,16 @@ function Cashflow() {
     const loadData = async () => {
       setDataLoading(true)
       try {
-        const [inflow, outflow, mappings, loadedPlatforms] = await Promise.all([
+        const [inflow, outflow, mappings, loadedPlatforms, loadedActuals] = await Promise.all([
           loadCashflowInflowItems(mockInflowItems, uid),
           loadCashflowOutflowItems(mockOutflowItems, uid),
           loadCashflowAccountflowMappings([], uid),
           loadPlatforms(DEFAULT_PLATFORMS, uid),
+          loadCashflowActuals([], uid),
         ])
         setInflowItems(inflow)
         setOutflowItems(outflow)
+        setActuals(loadedActuals)
         
         // Filter out mappings for removed platforms
         const platformNames = new Set(loadedPlatforms.map(p => p.name))
@@ -2155,7 +3388,7 @@ function Cashflow() {
 
 
 
-  const handleAddInflowItem = async (group: InflowGroupName, data: { item: string; amountChf: number; amount: number; currency: string; provider: string }) => {
+  const handleAddInflowItem = async (group: InflowGroupName, data: InflowItemFormData) => {
     const id = typeof crypto !== 'undefined' && 'randomUUID' in crypto ? crypto.randomUUID() : `inflow-${Date.now()}`
     const newItem: InflowItem = {
       id,
@@ -2165,6 +3398,10 @@ function Cashflow() {
       currency: data.currency, // Original currency
       provider: data.provider,
       group,
+      fxRate: data.fxRate,
+      frequency: data.frequency,
+      dueMonths: data.dueMonths,
+      oneOffMonth: data.oneOffMonth,
     }
     setInflowItems(prev => [...prev, newItem])
     const result = await saveCashflowInflowItem(newItem, uid)
@@ -2176,7 +3413,7 @@ function Cashflow() {
     }
   }
 
-  const handleAddOutflowItem = async (group: OutflowGroupName, data: { item: string; amountChf: number; amount: number; currency: string; receiver: string }) => {
+  const handleAddOutflowItem = async (group: OutflowGroupName, data: OutflowItemFormData) => {
     const id = typeof crypto !== 'undefined' && 'randomUUID' in crypto ? crypto.randomUUID() : `outflow-${Date.now()}`
     const newItem: OutflowItem = {
       id,
@@ -2186,6 +3423,10 @@ function Cashflow() {
       currency: data.currency, // Original currency
       receiver: data.receiver,
       group,
+      fxRate: data.fxRate,
+      frequency: data.frequency,
+      dueMonths: data.dueMonths,
+      oneOffMonth: data.oneOffMonth,
     }
     setOutflowItems(prev => [...prev, newItem])
     const result = await saveCashflowOutflowItem(newItem, uid)
@@ -2210,17 +3451,17 @@ function Cashflow() {
     setAccountflowItems(prev => [...prev, newItem])
   }
 
-  const handleEditInflowItem = async (id: string, data: { item: string; amountChf: number; amount: number; currency: string; provider: string }) => {
+  const handleEditInflowItem = async (id: string, data: InflowItemFormData) => {
     const existingItem = inflowItems.find(item => item.id === id)
     const clientUpdatedAt = toDateSafe(existingItem?.updatedAt)
 
     const updatedItem: InflowItem | null = existingItem
-      ? { ...existingItem, item: data.item, amountChf: data.amountChf, amount: data.amount, currency: data.currency, provider: data.provider }
+      ? { ...existingItem, item: data.item, amountChf: data.amountChf, amount: data.amount, currency: data.currency, fxRate: data.fxRate, provider: data.provider, frequency: data.frequency, dueMonths: data.dueMonths, oneOffMonth: data.oneOffMonth }
       : null
 
     setInflowItems(prev => prev.map(item =>
       item.id === id
-        ? { ...item, item: data.item, amountChf: data.amountChf, amount: data.amount, currency: data.currency, provider: data.provider }
+        ? { ...item, item: data.item, amountChf: data.amountChf, amount: data.amount, currency: data.currency, fxRate: data.fxRate, provider: data.provider, frequency: data.frequency, dueMonths: data.dueMonths, oneOffMonth: data.oneOffMonth }
         : item
     ))
 
@@ -2235,17 +3476,17 @@ function Cashflow() {
     }
   }
 
-  const handleEditOutflowItem = async (id: string, data: { item: string; amountChf: number; amount: number; currency: string; receiver: string }) => {
+  const handleEditOutflowItem = async (id: string, data: OutflowItemFormData) => {
     const existingItem = outflowItems.find(item => item.id === id)
     const clientUpdatedAt = toDateSafe(existingItem?.updatedAt)
 
     const updatedItem: OutflowItem | null = existingItem
-      ? { ...existingItem, item: data.item, amountChf: data.amountChf, amount: data.amount, currency: data.currency, receiver: data.receiver }
+      ? { ...existingItem, item: data.item, amountChf: data.amountChf, amount: data.amount, currency: data.currency, fxRate: data.fxRate, receiver: data.receiver, frequency: data.frequency, dueMonths: data.dueMonths, oneOffMonth: data.oneOffMonth }
       : null
 
     setOutflowItems(prev => prev.map(item =>
       item.id === id
-        ? { ...item, item: data.item, amountChf: data.amountChf, amount: data.amount, currency: data.currency, receiver: data.receiver }
+        ? { ...item, item: data.item, amountChf: data.amountChf, amount: data.amount, currency: data.currency, fxRate: data.fxRate, receiver: data.receiver, frequency: data.frequency, dueMonths: data.dueMonths, oneOffMonth: data.oneOffMonth }
         : item
     ))
 
@@ -2339,6 +3580,50 @@ function Cashflow() {
     }
   }
 
+  // Removes several mappings at once (mapping check fixes), without asking for each
+  const handleRemoveMappings = async (ids: string[]) => {
+    const removed = accountflowMappings.filter(m => ids.includes(m.id))
+    setAccountflowMappings(prev => prev.filter(m => !ids.includes(m.id)))
+    for (const mapping of removed) {
+      const clientUpdatedAt = toDateSafe(mapping.updatedAt)
+      const result = await deleteCashflowAccountflowMapping<AccountflowMapping>(mapping.id, uid, { clientUpdatedAt })
+      if (result.success && result.entries) {
+        setAccountflowMappings(result.entries)
+      } else if (!result.success) {
+        console.error('[Cashflow] Failed to delete mapping:', result.reason)
+        addToast('Failed to save changes. Please try again.')
+      }
+    }
+  }
+
+  const handleSaveActual = async (actual: CashflowActual) => {
+    const existing = actuals.find(a => a.id === actual.id)
+    const clientUpdatedAt = toDateSafe(existing?.updatedAt)
+    setActuals(prev => existing ? prev.map(a => a.id === actual.id ? actual : a) : [...prev, actual])
+    const result = await saveCashflowActual(actual, uid, { clientUpdatedAt })
+    if (result.success && result.entries) {
+      setActuals(result.entries)
+    } else if (!result.success) {
+      console.error('[Cashflow] Failed to save actual:', result.reason)
+      addToast('Failed to save changes. Please try again.')
+    }
+  }
+
+  const handleRemoveActual = async (id: string) => {
+    if (window.confirm('Are you sure you want to remove this actual?')) {
+      const existing = actuals.find(a => a.id === id)
+      const clientUpdatedAt = toDateSafe(existing?.updatedAt)
+      setActuals(prev => prev.filter(a => a.id !== id))
+      const result = await deleteCashflowActual(id, uid, { clientUpdatedAt })
+      if (result.success && result.entries) {
+        setActuals(result.entries)
+      } else if (!result.success) {
+        console.error('[Cashflow] Failed to delete actual:', result.reason)
+        addToast('Failed to save changes. Please try again.')
+      }
+    }
+  }
+
   if (dataLoading && inflowItems.length === 0 && outflowItems.length === 0) {
     return (
       <div className="min-h-screen flex items-center justify-center">
@@ -2362,14 +3647,16 @@ function Cashflow() {
           onAddItem={handleAddInflowItem}
           onEditItem={handleEditInflowItem}
           onRemoveItem={handleRemoveInflowItem}
+          convert={cashflowConvert}
         />
 
         {/* Outflow Section */}
         <OutflowSection
-          items={outflowItems}
+          items={allOutflowItems}
           onAddItem={handleAddOutflowItem}
           onEditItem={handleEditOutflowItem}
           onRemoveItem={handleRemoveOutflowItem}
+          convert={cashflowConvert}
         />
 
         {/* Platformflow Section - Full width */}
@@ -2380,10 +3667,41 @@ function Cashflow() {
             onAddMapping={handleAddMapping}
             onEditMapping={handleEditMapping}
             onRemoveMapping={handleRemoveMapping}
+            onRemoveMappings={handleRemoveMappings}
             inflowItems={inflowItems}
-            outflowItems={outflowItems}
+            outflowItems={allOutflowItems}
+            convert={cashflowConvert}
           />
         </div>
+
+        {/* FX Revaluation Section */}
+        <FxRevaluationSection
+          inflowItems={inflowItems}
+          outflowItems={outflowItems}
+          onEditInflowItem={handleEditInflowItem}
+          onEditOutflowItem={handleEditOutflowItem}
+          convert={cashflowConvert}
+        />
+
+        {/* Money Flow Section */}
+        <MoneyFlowSection
+          mappings={accountflowMappings}
+          inflowItems={inflowItems}
+          outflowItems={allOutflowItems}
+          convert={cashflowConvert}
+        />
+
+        {/* Budget vs Actual Section */}
+        <BudgetActualSection
+          inflowItems={inflowItems}
+          outflowItems={allOutflowItems}
+          netWorthItems={data.netWorthItems}
+          transactions={data.transactions}
+          actuals={actuals}
+          onSaveActual={handleSaveActual}
+          onRemoveActual={handleRemoveActual}
+          convert={cashflowConvert}
+        />
       </div>
       <ToastContainer toasts={toasts} onDismiss={dismissToast} />
     </div>
@@ -2,6 +2,8 @@ import { useState, useMemo, useEffect } from 'react'
 import {
   LineChart,
   Line,
+  BarChart,
+  Bar,
   PieChart,
   Pie,
   Cell,
@@ -19,14 +21,29 @@ import { useCurrency } from '../contexts/CurrencyContext'
 import { useAuth } from '../lib/dataSafety/authGateCompat'
 import { useIncognito } from '../contexts/IncognitoContext'
 import { useData } from '../contexts/DataContext'
-import { formatMoney } from '../lib/currency'
+import { formatMoney, formatNumber, type CurrencyCode } from '../lib/currency'
 import { formatDate } from '../lib/dateFormat'
 import type { NetWorthSnapshot } from '../services/snapshotService'
 import type { NetWorthItem, NetWorthTransaction } from './NetWorth'
 import type { NetWorthCategory } from './NetWorth'
 import { calculateBalanceChf, calculateCoinAmount, calculateHoldings } from '../services/balanceCalculationService'
 import type { InflowItem, OutflowItem } from './Cashflow'
-import { NetWorthCalculationService } from '../services/netWorthCalculationService'
+import { NetWorthCalculationService, LIABILITY_CATEGORIES, isLiabilityCategory } from '../services/netWorthCalculationService'
+import { getLoanOutflowItems } from '../services/loanAmortizationService'
+import { getItemMonthlyAmount } from '../services/cashflowCalculationService'
+import { useFxConvert } from '../hooks/market-data/useFxConvert'
+import { calculateCostBasis } from '../services/costBasisService'
+import { useCostBasis } from '../contexts/CostBasisContext'
+import { useBenchmarks } from '../contexts/BenchmarkContext'
+import { useAllocationTargets } from '../contexts/AllocationTargetContext'
+import { computeAllocationDrift, computeRebalancingPlan, getAllocationTargetErrors } from '../services/targetAllocationService'
+import { fetchBenchmarkCloses, getBenchmarkReturns, type BenchmarkCloses } from '../services/benchmarkService'
+import { valuateAsOf } from '../services/valuation'
+import { fromSnapshotItemEntry, getItemGroupSeries, getItemSeries, toChfItemValues, type ItemValueChf } from '../services/snapshotItemsService'
+import { attributePnl } from '../services/pnlAttributionService'
+import { RETURN_PERIODS, RETURN_PERIOD_LABELS, computeReturns, computeTwrSeries, formatReturnPct, getFallbackValuationDates, toValuationPoints, type PeriodReturns } from '../services/performanceReturnsService'
+import { getTodayUTCDate } from '../services/snapshotService'
+import { useHistoricalItemValues } from '../hooks/valuation/useHistoricalItemValues'
 
 // TypeScript interfaces
 interface NetWorthDataPoint {
@@ -42,6 +59,7 @@ interface NetWorthDataPoint {
   'Perpetuals': number
   'Real Estate': number
   'Depreciating Assets': number
+  'Liabilities': number
 }
 
 interface AssetAllocationItem {
@@ -173,6 +191,41 @@ function PnLBox({ title, value, snapshotDateLabel }: PnLBoxProps) {
   )
 }
 
+// Helper component: Return Box (TWR + XIRR of one period)
+interface ReturnBoxProps {
+  title: string
+  returns: PeriodReturns | null
+}
+
+function ReturnBox({ title, returns }: ReturnBoxProps) {
+  const twr = returns?.twr ?? null
+
+  return (
+    <div className="bg-bg-surface-2 border border-border-subtle rounded-card p-4 relative">
+      <div className="flex items-start justify-between gap-2 mb-2">
+        <div className="text-text-muted text-xs md:text-sm">{title}</div>
+        {returns && (
+          <div className="text-text-muted text-[0.65rem] md:text-[0.7rem] whitespace-nowrap text-right shrink-0">
+            since {formatDate(returns.startDate)}
+          </div>
+        )}
+      </div>
+      {twr === null ? (
+        <div className="text-text-muted text-lg font-medium">N/A</div>
+      ) : (
+        <TotalText variant={twr >= 0 ? 'inflow' : 'outflow'} className="block" title="Time-weighted return">
+          TWR {formatReturnPct(twr)}
+        </TotalText>
+      )}
+      {returns && (
+        <div className="text-text-muted text-[0.65rem] md:text-xs mt-1" title="Money-weighted return (annualized)">
+          XIRR {formatReturnPct(returns.xirr)} p.a.
+        </div>
+      )}
+    </div>
+  )
+}
+
 // Helper component: KPI Card
 function KpiCard({ title, value, subtitle }: KpiCardProps) {
   return (
@@ -190,6 +243,62 @@ function KpiCard({ title, value, subtitle }: KpiCardProps) {
   )
 }
 
+// Helper function: outstanding liabilities of a snapshot as a positive CHF amount.
+// Older snapshots have no totalLiabilities field and no liability categories (-> 0).
+function getSnapshotLiabilities(snapshot: NetWorthSnapshot): number {
+  if (typeof snapshot.totalLiabilities === 'number' && isFinite(snapshot.totalLiabilities)) {
+    return snapshot.totalLiabilities
+  }
+  return LIABILITY_CATEGORIES.reduce((sum, category) => sum - (snapshot.categories[category] || 0), 0)
+}
+
+type TimeFrame = 'YTD' | '6M' | '1Y' | '5Y' | 'MAX'
+
+type AttributionPeriod = 'daily' | 'weekly' | 'monthly' | 'ytd'
+
+/** Net Worth Evolution chart: values, or the portfolio return against the benchmarks */
+type EvolutionView = 'value' | 'benchmarks'
+
+function getMonthLabel(date: string): string {
+  const [year, month] = date.split('-').map(Number)
+  return new Date(Date.UTC(year, month - 1, 1)).toLocaleString('en-US', { month: 'short', year: 'numeric' })
+}
+
+const ATTRIBUTION_PERIOD_LABELS: Record<AttributionPeriod, string> = {
+  daily: 'Daily',
+  weekly: 'Weekly',
+  monthly: 'Monthly',
+  ytd: 'YTD',
+}
+
+interface WaterfallStep {
+  name: string
+  /** Invisible bar the step stands on */
+  base: number
+  /** Visible bar height */
+  height: number
+  /** Signed amount shown in the tooltip */
+  value: number
+  kind: 'total' | 'up' | 'down'
+}
+
+// Helper function: first timestamp (UTC) shown for a chart timeframe, null for MAX
+function getTimeFrameCutoff(timeFrame: TimeFrame, now: Date): number | null {
+  switch (timeFrame) {
+    case 'YTD':
+      return Date.UTC(now.getUTCFullYear(), 0, 1)
+    case '6M':
+      return Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - 6, 1)
+    case '1Y':
+      return Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - 12, 1)
+    case '5Y':
+      return Date.UTC(now.getUTCFullYear() - 5, now.getUTCMonth(), 1)
+    case 'MAX':
+    default:
+      return null
+  }
+}
+
 // Helper function: Format CHF for chart ticks
 function formatCHFTick(value: number): string {
   if (value >= 1000) {
@@ -199,9 +308,24 @@ function formatCHFTick(value: number): string {
 }
 
 function Dashboard() {
-  const [timeFrame, setTimeFrame] = useState<'YTD' | '6M' | '1Y' | '5Y' | 'MAX'>('MAX')
+  const [timeFrame, setTimeFrame] = useState<TimeFrame>('MAX')
+  const [evolutionView, setEvolutionView] = useState<EvolutionView>('value')
+  const [benchmarkCloses, setBenchmarkCloses] = useState<BenchmarkCloses | null>(null)
+  const [benchmarkLoading, setBenchmarkLoading] = useState(false)
+  // Drill-down chart: one item or all items of a platform, from per-item snapshot detail
+  const [drilldownMode, setDrilldownMode] = useState<'item' | 'platform'>('item')
+  const [drilldownTarget, setDrilldownTarget] = useState('')
+  const [attributionPeriod, setAttributionPeriod] = useState<AttributionPeriod>('monthly')
+  // Rebalancing: cash to invest (display currency) and whether to buy only
+  const [rebalanceCash, setRebalanceCash] = useState('')
+  const [rebalanceCashOnly, setRebalanceCashOnly] = useState(false)
   const [windowWidth, setWindowWidth] = useState(window.innerWidth)
   const { baseCurrency, convert, exchangeRates } = useCurrency()
+  // Cashflow items in foreign currencies are revalued with the current rates
+  const { convert: cashflowConvert } = useFxConvert()
+  const { costBasisMethod } = useCostBasis()
+  const { benchmarks } = useBenchmarks()
+  const { allocationTargets } = useAllocationTargets()
   const { toasts, addToast, dismissToast } = useToast()
 
   // Load data from DataContext (includes merged Perpetuals data)
@@ -210,7 +334,11 @@ function Dashboard() {
   const netWorthItems = data.netWorthItems
   const transactions = data.transactions
   const inflowItems = data.inflowItems
-  const outflowItems = data.outflowItems
+  // Include interest/amortization derived from loan schedules
+  const outflowItems = useMemo(
+    () => [...data.outflowItems, ...getLoanOutflowItems(data.netWorthItems, convert)],
+    [data.outflowItems, data.netWorthItems, convert]
+  )
   const snapshots = data.snapshots
   
   // Store current crypto prices (ticker -> USD price)
@@ -299,31 +427,36 @@ function Dashboard() {
   }, []) // Only run once on mount
 
 
-  // Calculate total net worth using shared calculation service
-  const totalNetWorthChf = useMemo(() => {
-    const result = NetWorthCalculationService.calculateTotals(
-      netWorthItems,
-      transactions,
-      cryptoPrices,
-      stockPrices,
-      usdToChfRate,
-      convert
-    )
-    return result.totalNetWorthChf
-  }, [netWorthItems, transactions, cryptoPrices, stockPrices, usdToChfRate, convert])
+  // Calculate totals using shared calculation service (net = gross assets - liabilities)
+  const totals = useMemo(
+    () =>
+      NetWorthCalculationService.calculateTotals(
+        netWorthItems,
+        transactions,
+        cryptoPrices,
+        stockPrices,
+        usdToChfRate,
+        convert
+      ),
+    [netWorthItems, transactions, cryptoPrices, stockPrices, usdToChfRate, convert]
+  )
+  const totalNetWorthChf = totals.totalNetWorthChf
+  const grossAssetsChf = totals.grossAssetsChf
+  const totalLiabilitiesChf = totals.totalLiabilitiesChf
 
   // Calculate monthly inflow/outflow from cashflow items
   const monthlyInflowChf = useMemo(() => {
-    return inflowItems.reduce((sum, item) => sum + item.amountChf, 0)
-  }, [inflowItems])
+    return inflowItems.reduce((sum, item) => sum + getItemMonthlyAmount(item, cashflowConvert), 0)
+  }, [inflowItems, cashflowConvert])
 
   const monthlyOutflowChf = useMemo(() => {
-    return outflowItems.reduce((sum, item) => sum + item.amountChf, 0)
-  }, [outflowItems])
+    return outflowItems.reduce((sum, item) => sum + getItemMonthlyAmount(item, cashflowConvert), 0)
+  }, [outflowItems, cashflowConvert])
 
   const monthlySpareChangeChf = monthlyInflowChf - monthlyOutflowChf
 
   // Helper function to calculate net worth at a specific date from transactions
+  // (current prices; used until the historical valuation below has loaded)
   const calculateNetWorthAtDate = useMemo(() => {
     return (targetDate: Date): number => {
       // Filter transactions up to target date
@@ -344,13 +477,16 @@ function Dashboard() {
         'Perpetuals': 0,
         'Real Estate': 0,
         'Depreciating Assets': 0,
+        'Mortgage': 0,
+        'Loan': 0,
+        'Credit Card': 0,
       }
 
       netWorthItems.forEach((item: NetWorthItem) => {
         let balance: number
         if (item.category === 'Crypto') {
           // For Crypto: calculate coin amount from filtered transactions, use current price
-          const coinAmount = calculateCoinAmount(item.id, transactionsUpToDate)
+          const coinAmount = calculateCoinAmount(item.id, transactionsUpToDate, item)
           const ticker = item.name.trim().toUpperCase()
           const currentPriceUsd = cryptoPrices[ticker] || 0
           if (currentPriceUsd > 0 && usdToChfRate !== null && usdToChfRate > 0) {
@@ -398,10 +534,10 @@ function Dashboard() {
         }
         // Ensure balance is a valid number
         const validBalance = isNaN(balance) || !isFinite(balance) ? 0 : balance
-        categoryTotals[item.category] += validBalance
+        categoryTotals[item.category] += isLiabilityCategory(item.category) ? -validBalance : validBalance
       })
 
-      // Sum all category totals
+      // Sum all category totals (liabilities are already negative)
       return Object.values(categoryTotals).reduce((sum, val) => sum + (isNaN(val) ? 0 : val), 0)
     }
   }, [netWorthItems, transactions, cryptoPrices, stockPrices, usdToChfRate, convert])
@@ -544,6 +680,32 @@ function Dashboard() {
   const weeklyPnLSnapshotDateTime = useMemo(() => formatSnapshotDateTime(weeklyPnLSnapshot), [weeklyPnLSnapshot])
   const ytdPnLSnapshotDateTime = useMemo(() => formatSnapshotDateTime(ytdPnLSnapshot), [ytdPnLSnapshot])
 
+  // Net worth at the end of the previous month, revalued with that day's closes and FX rates
+  // (only needed when there is no snapshot to compare against)
+  const [previousMonthValuationTotal, setPreviousMonthValuationTotal] = useState<number | null>(null)
+  useEffect(() => {
+    if (monthlyPnLSnapshot || netWorthItems.length === 0) return
+
+    let cancelled = false
+    const now = new Date()
+    const lastDayOfPreviousMonth = new Date(now.getFullYear(), now.getMonth(), 0)
+    valuateAsOf(netWorthItems, transactions, lastDayOfPreviousMonth, {
+      baseCurrency: 'CHF',
+      displayCurrency: baseCurrency,
+      costBasisMethod,
+    })
+      .then((result) => {
+        if (!cancelled) setPreviousMonthValuationTotal(result.total)
+      })
+      .catch((error) => {
+        console.error('[Dashboard] Failed to revalue previous month end:', error)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [monthlyPnLSnapshot, netWorthItems, transactions, baseCurrency, costBasisMethod])
+
   // Calculate monthly PnL (difference between current net worth and last snapshot of previous month)
   const monthlyPnLChf = useMemo(() => {
     if (monthlyPnLSnapshot) {
@@ -552,13 +714,13 @@ function Dashboard() {
       return totalNetWorthChf - previousMonthNetWorth
     }
     
-    // If no snapshots, fall back to transaction-based calculation
+    // If no snapshots, fall back to the historical valuation (transaction-based until it has loaded)
     const now = new Date()
     const lastDayOfPreviousMonth = new Date(now.getFullYear(), now.getMonth(), 0)
     lastDayOfPreviousMonth.setHours(23, 59, 59, 999)
-    const previousMonthNetWorth = calculateNetWorthAtDate(lastDayOfPreviousMonth)
+    const previousMonthNetWorth = previousMonthValuationTotal ?? calculateNetWorthAtDate(lastDayOfPreviousMonth)
     return totalNetWorthChf - previousMonthNetWorth
-  }, [totalNetWorthChf, monthlyPnLSnapshot, calculateNetWorthAtDate, convert])
+  }, [totalNetWorthChf, monthlyPnLSnapshot, previousMonthValuationTotal, calculateNetWorthAtDate, convert])
 
   // Calculate monthly PnL percentage
   const monthlyPnLPercentage = useMemo(() => {
@@ -569,14 +731,14 @@ function Dashboard() {
       return ((totalNetWorthChf - previousMonthNetWorth) / previousMonthNetWorth) * 100
     }
     
-    // If no snapshots, fall back to transaction-based calculation
+    // If no snapshots, fall back to the historical valuation (transaction-based until it has loaded)
     const now = new Date()
     const lastDayOfPreviousMonth = new Date(now.getFullYear(), now.getMonth(), 0)
     lastDayOfPreviousMonth.setHours(23, 59, 59, 999)
-    const previousMonthNetWorth = calculateNetWorthAtDate(lastDayOfPreviousMonth)
+    const previousMonthNetWorth = previousMonthValuationTotal ?? calculateNetWorthAtDate(lastDayOfPreviousMonth)
     if (previousMonthNetWorth === 0) return 0
     return ((totalNetWorthChf - previousMonthNetWorth) / previousMonthNetWorth) * 100
-  }, [totalNetWorthChf, monthlyPnLSnapshot, calculateNetWorthAtDate, convert])
+  }, [totalNetWorthChf, monthlyPnLSnapshot, previousMonthValuationTotal, calculateNetWorthAtDate, convert])
 
   // Calculate Weekly PnL (current value vs last snapshot before Monday 00:00 UTC of this week)
   const weeklyPnLChf = useMemo(() => {
@@ -618,6 +780,134 @@ function Dashboard() {
     return 0
   }, [totalNetWorthChf, ytdPnLSnapshot, convert])
 
+  // Unrealized / realized PnL from transaction lots (Crypto, Index Funds, Stocks, Commodities).
+  // Costs and values are already in baseCurrency (convert maps item currency -> baseCurrency).
+  // Items without a live price are skipped for unrealized PnL.
+  const lotPnL = useMemo(() => {
+    let unrealized = 0
+    let realized = 0
+    let hasLots = false
+
+    netWorthItems.forEach((item) => {
+      const isCrypto = item.category === 'Crypto'
+      const isStockCategory = item.category === 'Index Funds' || item.category === 'Stocks' || item.category === 'Commodities'
+      if (!isCrypto && !isStockCategory) return
+
+      const lots = calculateCostBasis(item.id, transactions, costBasisMethod, convert, item, netWorthItems)
+      if (lots.openLots.length === 0 && lots.realizedPnl === 0) return
+      hasLots = true
+      realized += lots.realizedPnl
+
+      const ticker = item.name.trim().toUpperCase()
+      const price = isCrypto ? cryptoPrices[ticker] || 0 : stockPrices[ticker] || 0
+      if (price <= 0 || lots.quantity <= 0) return
+      const priceCurrency: CurrencyCode = isCrypto ? 'USD' : ((item.currency as CurrencyCode) || 'USD')
+      const value = convert(lots.quantity * price, priceCurrency)
+      if (isFinite(value)) unrealized += value - lots.costBasis
+    })
+
+    return hasLots ? { unrealized, realized } : null
+  }, [netWorthItems, transactions, costBasisMethod, convert, cryptoPrices, stockPrices])
+
+  // PnL attribution: current per-item values vs the snapshot of the selected PnL period.
+  // Computed in CHF (snapshots are stored in CHF, `convert` maps to baseCurrency).
+  const attributionSnapshot = {
+    daily: latestSnapshot,
+    weekly: weeklyPnLSnapshot,
+    monthly: monthlyPnLSnapshot,
+    ytd: ytdPnLSnapshot,
+  }[attributionPeriod]
+
+  const attribution = useMemo(() => {
+    if (!attributionSnapshot?.items) return null
+    const chfRate = convert(1, 'CHF') || 1
+    const start: Record<string, ItemValueChf> = {}
+    Object.entries(attributionSnapshot.items).forEach(([itemId, entry]) => {
+      start[itemId] = fromSnapshotItemEntry(entry)
+    })
+    return attributePnl({
+      start,
+      end: toChfItemValues(totals.itemValues, chfRate),
+      startDate: attributionSnapshot.date,
+      endDate: getTodayUTCDate(),
+      transactions,
+      items: netWorthItems,
+      convert: (amount, from) => convert(amount, from) / chfRate,
+    })
+  }, [attributionSnapshot, totals.itemValues, transactions, netWorthItems, convert])
+
+  // Waterfall: start -> contributions -> price effect per category -> FX -> end (display currency)
+  const attributionWaterfall = useMemo((): WaterfallStep[] => {
+    if (!attribution) return []
+    const steps: WaterfallStep[] = []
+    const startValue = convert(attribution.startValue, 'CHF')
+    steps.push({ name: 'Start', base: 0, height: startValue, value: startValue, kind: 'total' })
+
+    let running = startValue
+    const addStep = (name: string, amountChf: number) => {
+      const amount = convert(amountChf, 'CHF')
+      if (Math.abs(amount) < 0.005) return
+      steps.push({
+        name,
+        base: Math.min(running, running + amount),
+        height: Math.abs(amount),
+        value: amount,
+        kind: amount >= 0 ? 'up' : 'down',
+      })
+      running += amount
+    }
+
+    addStep('Contributions', attribution.contributions)
+    Object.entries(attribution.byCategory)
+      .sort(([, a], [, b]) => Math.abs(b?.priceEffect || 0) - Math.abs(a?.priceEffect || 0))
+      .forEach(([category, effects]) => addStep(category, effects?.priceEffect || 0))
+    // Price effect of items no longer in the item list
+    const categorizedPriceEffect = Object.values(attribution.byCategory).reduce((sum, effects) => sum + (effects?.priceEffect || 0), 0)
+    addStep('Other', attribution.priceEffect - categorizedPriceEffect)
+    addStep('FX', attribution.fxEffect)
+
+    const endValue = convert(attribution.endValue, 'CHF')
+    steps.push({ name: 'End', base: 0, height: endValue, value: endValue, kind: 'total' })
+    return steps
+  }, [attribution, convert])
+
+  // Period starts without a snapshot with per-item detail are valued from transactions and historical prices
+  const fallbackValuationDates = useMemo(
+    () => getFallbackValuationDates(snapshots, getTodayUTCDate(), RETURN_PERIODS),
+    [snapshots]
+  )
+  const { points: fallbackValuationPoints } = useHistoricalItemValues(
+    netWorthItems,
+    transactions,
+    fallbackValuationDates,
+    costBasisMethod
+  )
+
+  // TWR / XIRR from snapshots with per-item detail up to the current valuation (CHF)
+  const performanceReturns = useMemo(() => {
+    const points = toValuationPoints(
+      snapshots,
+      { date: getTodayUTCDate(), values: toChfItemValues(totals.itemValues, convert(1, 'CHF')) },
+      fallbackValuationPoints
+    )
+    const chfRate = convert(1, 'CHF') || 1
+    return computeReturns({
+      points,
+      periods: RETURN_PERIODS,
+      transactions,
+      items: netWorthItems,
+      convert: (amount, from) => convert(amount, from) / chfRate,
+    })
+  }, [snapshots, totals.itemValues, fallbackValuationPoints, transactions, netWorthItems, convert])
+
+  // Items with the largest price effect in the period
+  const attributionTopItems = useMemo(() => {
+    if (!attribution) return []
+    return attribution.items
+      .filter((item) => Math.abs(item.priceEffect) >= 0.005 || Math.abs(item.fxEffect) >= 0.005)
+      .sort((a, b) => Math.abs(b.priceEffect) - Math.abs(a.priceEffect))
+      .slice(0, 5)
+  }, [attribution])
 
   // Convert values from CHF to baseCurrency
   const totalNetWorthConverted = convert(totalNetWorthChf, 'CHF')
@@ -676,36 +966,67 @@ function Dashboard() {
     return `${Math.round(converted)}`
   }
 
-  // Calculate asset allocation from net worth items using shared calculation service
+  // Calculate asset allocation (gross assets only) from the shared totals
   const assetAllocationData = useMemo(() => {
-    const result = NetWorthCalculationService.calculateTotals(
-      netWorthItems,
-      transactions,
-      cryptoPrices,
-      stockPrices,
-      usdToChfRate,
-      convert
-    )
-    const categoryTotals = result.categoryTotals
+    const categoryTotals = totals.categoryTotals
 
-    const total = Object.values(categoryTotals).reduce((sum, val) => sum + (isNaN(val) ? 0 : val), 0)
-    if (total === 0 || isNaN(total)) return []
+    if (totals.grossAssetsChf === 0 || isNaN(totals.grossAssetsChf)) return []
 
     // Return actual values, not percentages - the pie chart will calculate percentages automatically
-    // Include all categories with valid positive values
+    // Liabilities are shown separately and never take a slice of the allocation
     return Object.entries(categoryTotals)
+      .filter(([name]) => !isLiabilityCategory(name))
       .map(([name, value]) => ({
         name,
         value: isNaN(value) || !isFinite(value) ? 0 : Math.max(0, value),
       }))
       .filter(({ value }) => value > 0) // Only show categories with positive values in the chart
-  }, [netWorthItems, transactions, cryptoPrices, stockPrices, usdToChfRate, convert])
+  }, [totals])
+
+  // Outstanding debt per liability category (positive CHF amounts)
+  const liabilityBreakdownData = useMemo(() => {
+    return LIABILITY_CATEGORIES.map((name) => {
+      const value = -(totals.categoryTotals[name] || 0)
+      return { name, value: isNaN(value) || !isFinite(value) ? 0 : value }
+    })
+  }, [totals])
+
+  // Target allocation: drift of the current allocation (display currency) and trades back within the bands
+  const allocationTargetErrors = useMemo(
+    () =>
+      getAllocationTargetErrors(
+        allocationTargets,
+        netWorthItems.map((item) => ({ itemId: item.id, name: item.name, category: item.category }))
+      ),
+    [allocationTargets, netWorthItems]
+  )
+
+  const allocationDrift = useMemo(() => {
+    if (Object.keys(allocationTargets).length === 0 || allocationTargetErrors.length > 0) return null
+    const holdings = netWorthItems
+      .filter((item) => !isLiabilityCategory(item.category))
+      .map((item) => ({
+        itemId: item.id,
+        name: item.name,
+        category: item.category,
+        value: convert(totals.itemValues[item.id]?.valueChf || 0, 'CHF'),
+      }))
+    return computeAllocationDrift(holdings, allocationTargets)
+  }, [allocationTargets, allocationTargetErrors, netWorthItems, totals.itemValues, convert])
+
+  const rebalancingPlan = useMemo(() => {
+    if (!allocationDrift) return null
+    return computeRebalancingPlan(allocationDrift, {
+      newCash: parseFloat(rebalanceCash) || 0,
+      cashOnly: rebalanceCashOnly,
+    })
+  }, [allocationDrift, rebalanceCash, rebalanceCashOnly])
 
   // Calculate inflow breakdown
   const inflowBreakdownData = useMemo(() => {
     const groupTotals: Record<string, number> = {}
     inflowItems.forEach(item => {
-      groupTotals[item.group] = (groupTotals[item.group] || 0) + item.amountChf
+      groupTotals[item.group] = (groupTotals[item.group] || 0) + getItemMonthlyAmount(item, cashflowConvert)
     })
 
     const total = Object.values(groupTotals).reduce((sum, val) => sum + val, 0)
@@ -718,13 +1039,13 @@ function Dashboard() {
         name,
         value: value,
       }))
-  }, [inflowItems])
+  }, [inflowItems, cashflowConvert])
 
   // Calculate outflow breakdown
   const outflowBreakdownData = useMemo(() => {
     const groupTotals: Record<string, number> = {}
     outflowItems.forEach(item => {
-      groupTotals[item.group] = (groupTotals[item.group] || 0) + item.amountChf
+      groupTotals[item.group] = (groupTotals[item.group] || 0) + getItemMonthlyAmount(item, cashflowConvert)
     })
 
     const total = Object.values(groupTotals).reduce((sum, val) => sum + val, 0)
@@ -737,7 +1058,7 @@ function Dashboard() {
         name,
         value: value,
       }))
-  }, [outflowItems])
+  }, [outflowItems, cashflowConvert])
 
   // Generate net worth evolution data from snapshots (only last snapshot per month)
   const netWorthData = useMemo(() => {
@@ -747,26 +1068,7 @@ function Dashboard() {
 
     // Calculate cutoff timestamp based on timeframe (using UTC)
     const now = new Date()
-    let cutoffTimestamp: number | null = null
-
-    switch (timeFrame) {
-      case 'YTD':
-        cutoffTimestamp = Date.UTC(now.getUTCFullYear(), 0, 1)
-        break
-      case '6M':
-        cutoffTimestamp = Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - 6, 1)
-        break
-      case '1Y':
-        cutoffTimestamp = Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - 12, 1)
-        break
-      case '5Y':
-        cutoffTimestamp = Date.UTC(now.getUTCFullYear() - 5, now.getUTCMonth(), 1)
-        break
-      case 'MAX':
-      default:
-        cutoffTimestamp = null
-        break
-    }
+    const cutoffTimestamp = getTimeFrameCutoff(timeFrame, now)
 
     // Get current year and month in UTC (to exclude current month)
     const currentYear = now.getUTCFullYear()
@@ -873,6 +1175,7 @@ function Dashboard() {
           'Perpetuals': convert(snapshot.categories['Perpetuals'] || 0, 'CHF'),
           'Real Estate': convert(snapshot.categories['Real Estate'] || 0, 'CHF'),
           'Depreciating Assets': convert(snapshot.categories['Depreciating Assets'] || 0, 'CHF'),
+          'Liabilities': convert(getSnapshotLiabilities(snapshot), 'CHF'),
         }
       })
       .filter((item): item is NetWorthDataPoint => item !== null)
@@ -941,12 +1244,152 @@ function Dashboard() {
         'Perpetuals': convert(lastCurrentMonthSnapshot.categories['Perpetuals'] || 0, 'CHF'),
         'Real Estate': convert(lastCurrentMonthSnapshot.categories['Real Estate'] || 0, 'CHF'),
         'Depreciating Assets': convert(lastCurrentMonthSnapshot.categories['Depreciating Assets'] || 0, 'CHF'),
+        'Liabilities': convert(getSnapshotLiabilities(lastCurrentMonthSnapshot), 'CHF'),
       })
     }
 
     return chartData
   }, [snapshots, convert, timeFrame])
 
+  // Items and platforms that appear in snapshots with per-item detail
+  const drilldownOptions = useMemo(() => {
+    const storedIds = new Set<string>()
+    snapshots.forEach((snapshot) => {
+      Object.keys(snapshot.items || {}).forEach((itemId) => storedIds.add(itemId))
+    })
+    const items = netWorthItems
+      .filter((item) => storedIds.has(item.id))
+      .map((item) => ({ value: item.id, label: item.platform ? `${item.name} (${item.platform})` : item.name }))
+      .sort((a, b) => a.label.localeCompare(b.label))
+    const platforms = [...new Set(
+      netWorthItems.filter((item) => storedIds.has(item.id) && item.platform).map((item) => item.platform)
+    )]
+      .sort((a, b) => a.localeCompare(b))
+      .map((platform) => ({ value: platform, label: platform }))
+    return drilldownMode === 'item' ? items : platforms
+  }, [snapshots, netWorthItems, drilldownMode])
+
+  const effectiveDrilldownTarget = drilldownOptions.some((option) => option.value === drilldownTarget)
+    ? drilldownTarget
+    : drilldownOptions[0]?.value || ''
+
+  // Drill-down series in CHF (every snapshot with per-item detail in the timeframe)
+  const drilldownData = useMemo(() => {
+    if (!effectiveDrilldownTarget) return []
+    const cutoffTimestamp = getTimeFrameCutoff(timeFrame, new Date())
+    const inTimeFrame = snapshots.filter((snapshot) => cutoffTimestamp === null || snapshot.timestamp >= cutoffTimestamp)
+
+    if (drilldownMode === 'item') {
+      return getItemSeries(inTimeFrame, effectiveDrilldownTarget).map((point) => ({
+        date: formatDate(point.date),
+        Value: point.valueChf,
+        quantity: point.quantity,
+        price: point.price,
+      }))
+    }
+    const itemIds = netWorthItems
+      .filter((item) => item.platform === effectiveDrilldownTarget)
+      .map((item) => item.id)
+    return getItemGroupSeries(inTimeFrame, itemIds).map((point) => ({
+      date: formatDate(point.date),
+      Value: point.valueChf,
+      quantity: undefined,
+      price: undefined,
+    }))
+  }, [snapshots, netWorthItems, drilldownMode, effectiveDrilldownTarget, timeFrame])
+
+  // Last snapshot of each month in the timeframe before the current month (which uses the current valuation)
+  const benchmarkSnapshots = useMemo(() => {
+    const today = getTodayUTCDate()
+    const cutoffTimestamp = getTimeFrameCutoff(timeFrame, new Date())
+    const lastPerMonth = new Map<string, NetWorthSnapshot>()
+    snapshots
+      .filter((snapshot) => cutoffTimestamp === null || snapshot.timestamp >= cutoffTimestamp)
+      .filter((snapshot) => snapshot.date.slice(0, 7) !== today.slice(0, 7))
+      .forEach((snapshot) => {
+        const existing = lastPerMonth.get(snapshot.date.slice(0, 7))
+        if (!existing || snapshot.date > existing.date) lastPerMonth.set(snapshot.date.slice(0, 7), snapshot)
+      })
+    return Array.from(lastPerMonth.values())
+  }, [snapshots, timeFrame])
+
+  // Month ends without per-item detail are valued from transactions and historical prices (benchmark view only)
+  const benchmarkFallbackDates = useMemo(
+    () =>
+      evolutionView === 'benchmarks'
+        ? benchmarkSnapshots.filter((snapshot) => !snapshot.items).map((snapshot) => snapshot.date)
+        : [],
+    [evolutionView, benchmarkSnapshots]
+  )
+  const { points: benchmarkFallbackPoints, isLoading: benchmarkFallbackLoading } = useHistoricalItemValues(
+    netWorthItems,
+    transactions,
+    benchmarkFallbackDates,
+    costBasisMethod
+  )
+
+  // Portfolio TWR in CHF at the month ends and today, the points the benchmarks are compared on
+  const benchmarkTwrSeries = useMemo(() => {
+    const chfRate = convert(1, 'CHF') || 1
+    const points = toValuationPoints(
+      benchmarkSnapshots,
+      { date: getTodayUTCDate(), values: toChfItemValues(totals.itemValues, chfRate) },
+      benchmarkFallbackPoints
+    )
+    if (points.length < 2) return []
+    return computeTwrSeries({
+      points,
+      transactions,
+      items: netWorthItems,
+      convert: (amount, from) => convert(amount, from) / chfRate,
+    })
+  }, [benchmarkSnapshots, benchmarkFallbackPoints, totals.itemValues, transactions, netWorthItems, convert])
+
+  const benchmarkDatesKey = benchmarkTwrSeries.map((point) => point.date).join(',')
+
+  // Benchmark closes on the compared days
+  useEffect(() => {
+    if (evolutionView !== 'benchmarks' || benchmarks.length === 0 || !benchmarkDatesKey) {
+      setBenchmarkCloses(null)
+      return
+    }
+    let cancelled = false
+    setBenchmarkLoading(true)
+    fetchBenchmarkCloses(benchmarks, benchmarkDatesKey.split(','))
+      .then((closes) => {
+        if (!cancelled) setBenchmarkCloses(closes)
+      })
+      .catch((error) => {
+        console.error('[Dashboard] Failed to load benchmark prices:', error)
+        if (!cancelled) setBenchmarkCloses(null)
+      })
+      .finally(() => {
+        if (!cancelled) setBenchmarkLoading(false)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [evolutionView, benchmarks, benchmarkDatesKey])
+
+  // Returns in % since the first point, portfolio and each benchmark
+  const benchmarkChartData = useMemo(() => {
+    const dates = benchmarkTwrSeries.map((point) => point.date)
+    const benchmarkReturns = benchmarks.map((benchmark) =>
+      benchmarkCloses ? getBenchmarkReturns(benchmark, benchmarkCloses, dates) : dates.map(() => null)
+    )
+    return benchmarkTwrSeries.map((point, index) => {
+      const row: Record<string, string | number | null> = {
+        month: getMonthLabel(point.date),
+        Portfolio: point.twr !== null ? point.twr * 100 : null,
+      }
+      benchmarks.forEach((benchmark, benchmarkIndex) => {
+        const value = benchmarkReturns[benchmarkIndex][index]
+        row[benchmark.name] = value !== null ? value * 100 : null
+      })
+      return row
+    })
+  }, [benchmarkTwrSeries, benchmarks, benchmarkCloses])
+
   // Calculate dynamic interval for x-axis ticks based on data length and window width
   const xAxisInterval = useMemo(() => {
     const dataLength = netWorthData.length
@@ -1052,10 +1495,120 @@ function Dashboard() {
                 <PnLBox title="Monthly PnL" value={monthlyPnLConverted} snapshotDateLabel={monthlyPnLSnapshotDateTime} />
                 <PnLBox title="YTD PnL" value={ytdPnLConverted} snapshotDateLabel={ytdPnLSnapshotDateTime} />
               </div>
+              {lotPnL && (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-4">
+                  <PnLBox title="Unrealized PnL" value={lotPnL.unrealized} snapshotDateLabel={costBasisMethod.toUpperCase()} />
+                  <PnLBox title="Realized PnL" value={lotPnL.realized} snapshotDateLabel={costBasisMethod.toUpperCase()} />
+                </div>
+              )}
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4 mt-4">
+                {RETURN_PERIODS.map((period) => (
+                  <ReturnBox
+                    key={period}
+                    title={RETURN_PERIOD_LABELS[period]}
+                    returns={performanceReturns[period]?.portfolio ?? null}
+                  />
+                ))}
+              </div>
             </SectionCard>
           </div>
         </div>
 
+        {/* PnL Attribution (waterfall) */}
+        <SectionCard
+          title="PnL Attribution"
+          titleRight={
+            <select
+              value={attributionPeriod}
+              onChange={(e) => setAttributionPeriod(e.target.value as AttributionPeriod)}
+              className="bg-bg-surface-2 border border-border-subtle rounded-input pl-3 pr-8 py-2 text-text-primary text2 focus:outline-none focus:border-accent-blue"
+              aria-label="PnL attribution period"
+            >
+              {(Object.keys(ATTRIBUTION_PERIOD_LABELS) as AttributionPeriod[]).map((period) => (
+                <option key={period} value={period}>{ATTRIBUTION_PERIOD_LABELS[period]}</option>
+              ))}
+            </select>
+          }
+        >
+          {!attribution ? (
+            <div className="flex items-center justify-center h-[240px] text-text-muted text-sm text-center">
+              {attributionSnapshot
+                ? 'The snapshot of this period has no per-item detail. Attribution is available from snapshots created or backfilled while "Store per-item values in snapshots" is on in Settings.'
+                : 'No snapshot for this period yet.'}
+            </div>
+          ) : (
+            <>
+              <div className="text-xs text-text-muted mb-4">
+                Since {formatSnapshotDateTime(attributionSnapshot)}: contributions {formatCurrencyValue(convert(attribution.contributions, 'CHF'))}, price effect {formatCurrencyValue(convert(attribution.priceEffect, 'CHF'))}, FX effect {formatCurrencyValue(convert(attribution.fxEffect, 'CHF'))}
+              </div>
+              <ResponsiveContainer width="100%" height={260}>
+                <BarChart data={attributionWaterfall} margin={{ top: 6, right: 8, left: 0, bottom: 0 }}>
+                  <XAxis
+                    dataKey="name"
+                    stroke={CHART_COLORS.muted1}
+                    tick={{ fill: CHART_COLORS.muted1, fontSize: '0.648rem' }}
+                    interval={0}
+                    angle={-30}
+                    textAnchor="end"
+                    height={60}
+                  />
+                  <YAxis
+                    stroke={CHART_COLORS.muted1}
+                    tick={{ fill: CHART_COLORS.muted1, fontSize: '0.648rem' }}
+                    tickFormatter={(value: number) => formatCurrencyTick(value / (convert(1, 'CHF') || 1))}
+                    width={44}
+                  />
+                  <Tooltip
+                    cursor={false}
+                    contentStyle={{
+                      backgroundColor: '#FFFFFF',
+                      border: '1px solid #E5E7EB',
+                      borderRadius: '12px',
+                      color: '#111827',
+                      fontSize: '0.648rem',
+                      fontWeight: '400',
+                    }}
+                    formatter={(_value: number, name: string, entry: { payload?: WaterfallStep }) =>
+                      name === 'base' ? [null, null] : [formatCurrencyValue(entry.payload?.value ?? 0), 'Amount']
+                    }
+                  />
+                  <Bar dataKey="base" stackId="waterfall" fill="transparent" isAnimationActive={false} />
+                  <Bar dataKey="height" stackId="waterfall" isAnimationActive={false}>
+                    {attributionWaterfall.map((step) => (
+                      <Cell
+                        key={step.name}
+                        fill={step.kind === 'total' ? CHART_COLORS.gold : step.kind === 'up' ? CHART_COLORS.success : CHART_COLORS.danger}
+                      />
+                    ))}
+                  </Bar>
+                </BarChart>
+              </ResponsiveContainer>
+              {attributionTopItems.length > 0 && (
+                <div className="mt-4 pt-4 border-t border-border-subtle">
+                  <div className="text-text-muted text-xs mb-2">Largest price effects</div>
+                  <div className="space-y-1">
+                    {attributionTopItems.map((item) => (
+                      <div key={item.itemId} className="flex items-center justify-between gap-2 text-[0.567rem] md:text-xs">
+                        <span className="text-text-secondary truncate">
+                          {item.name ?? 'Removed item'}{item.category ? ` · ${item.category}` : ''}
+                        </span>
+                        <span className="flex gap-3 shrink-0">
+                          <TotalText variant={item.priceEffect >= 0 ? 'inflow' : 'outflow'}>
+                            {formatCurrencyValue(convert(item.priceEffect, 'CHF'))}
+                          </TotalText>
+                          {Math.abs(item.fxEffect) >= 0.005 && (
+                            <span className="text-text-muted">FX {formatCurrencyValue(convert(item.fxEffect, 'CHF'))}</span>
+                          )}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </>
+          )}
+        </SectionCard>
+
         {/* Second Row: Net Worth Evolution (Full Width) */}
         <div className="bg-bg-frame border border-border-subtle rounded-card shadow-card px-3 py-3 lg:p-6">
           <div className="mb-6 pb-4 border-b border-border-strong">
@@ -1068,21 +1621,106 @@ function Dashboard() {
                   </div>
                 )}
               </div>
-              <select
-                value={timeFrame}
-                onChange={(e) => setTimeFrame(e.target.value as 'YTD' | '6M' | '1Y' | '5Y' | 'MAX')}
-                className="bg-bg-surface-2 border border-border-subtle rounded-input pl-3 pr-8 py-2 text-text-primary text2 focus:outline-none focus:border-accent-blue"
-                aria-label="Time range for net worth chart"
-              >
-                <option value="YTD">YTD</option>
-                <option value="6M">6M</option>
-                <option value="1Y">1Y</option>
-                <option value="5Y">5Y</option>
-                <option value="MAX">MAX</option>
-              </select>
+              <div className="flex items-center gap-2">
+                <select
+                  value={evolutionView}
+                  onChange={(e) => setEvolutionView(e.target.value as EvolutionView)}
+                  className="bg-bg-surface-2 border border-border-subtle rounded-input pl-3 pr-8 py-2 text-text-primary text2 focus:outline-none focus:border-accent-blue"
+                  aria-label="Net worth chart view"
+                >
+                  <option value="value">Value</option>
+                  <option value="benchmarks">Return vs benchmarks</option>
+                </select>
+                <select
+                  value={timeFrame}
+                  onChange={(e) => setTimeFrame(e.target.value as TimeFrame)}
+                  className="bg-bg-surface-2 border border-border-subtle rounded-input pl-3 pr-8 py-2 text-text-primary text2 focus:outline-none focus:border-accent-blue"
+                  aria-label="Time range for net worth chart"
+                >
+                  <option value="YTD">YTD</option>
+                  <option value="6M">6M</option>
+                  <option value="1Y">1Y</option>
+                  <option value="5Y">5Y</option>
+                  <option value="MAX">MAX</option>
+                </select>
+              </div>
             </div>
           </div>
-          {netWorthData.length === 0 ? (
+          {evolutionView === 'benchmarks' ? (
+            benchmarkChartData.length === 0 ? (
+              <div className="flex items-center justify-center h-[300px] text-text-muted text-sm text-center">
+                {benchmarkFallbackLoading
+                  ? 'Valuing past months from historical prices...'
+                  : 'The comparison needs at least one snapshot before this month in this timeframe.'}
+              </div>
+            ) : (
+              <>
+                <div className="text-xs text-text-muted mb-2">
+                  Time-weighted return in CHF since {formatDate(benchmarkTwrSeries[0].date)}
+                  {benchmarks.length === 0 && ' · Pick benchmarks in Settings to compare.'}
+                  {benchmarkLoading && ' · Loading benchmark prices...'}
+                </div>
+                <ResponsiveContainer width="100%" height={300}>
+                  <LineChart data={benchmarkChartData} margin={{ top: 6, right: 8, left: 0, bottom: 0 }}>
+                    <XAxis
+                      dataKey="month"
+                      stroke={CHART_COLORS.muted1}
+                      tick={{ fill: CHART_COLORS.muted1, fontSize: '0.648rem' }}
+                      interval={xAxisInterval}
+                      angle={-45}
+                      textAnchor="end"
+                      height={60}
+                      minTickGap={40}
+                    />
+                    <YAxis
+                      stroke={CHART_COLORS.muted1}
+                      tick={{ fill: CHART_COLORS.muted1, fontSize: '0.648rem' }}
+                      tickFormatter={(value: number) => `${Math.round(value)}%`}
+                      width={44}
+                    />
+                    <Tooltip
+                      contentStyle={{
+                        backgroundColor: '#FFFFFF',
+                        border: '1px solid #E5E7EB',
+                        borderRadius: '12px',
+                        color: '#111827',
+                        fontSize: '0.648rem',
+                        fontWeight: '400',
+                      }}
+                      formatter={(value: number) => formatReturnPct(value / 100)}
+                    />
+                    <Legend
+                      wrapperStyle={{ color: '#8B8F99', fontSize: '0.72rem', fontWeight: '400' }}
+                      iconType="line"
+                      className="text2"
+                    />
+                    <Line
+                      type="monotone"
+                      dataKey="Portfolio"
+                      stroke={CHART_COLORS.danger}
+                      strokeWidth={2}
+                      dot={false}
+                      activeDot={false}
+                      connectNulls
+                    />
+                    {benchmarks.map((benchmark, index) => (
+                      <Line
+                        key={benchmark.id}
+                        type="monotone"
+                        dataKey={benchmark.name}
+                        stroke={PIE_CHART_COLORS[index % PIE_CHART_COLORS.length]}
+                        strokeWidth={1}
+                        strokeDasharray="4 3"
+                        dot={false}
+                        activeDot={false}
+                        connectNulls
+                      />
+                    ))}
+                  </LineChart>
+                </ResponsiveContainer>
+              </>
+            )
+          ) : netWorthData.length === 0 ? (
             <div className="flex items-center justify-center h-[300px] text-text-muted text-sm">
               No snapshots yet. Create a snapshot in Settings to see your net worth evolution.
             </div>
@@ -1212,6 +1850,103 @@ function Dashboard() {
                   dot={false}
                   activeDot={false}
                 />
+                <Line
+                  type="monotone"
+                  dataKey="Liabilities"
+                  stroke={CHART_COLORS.deepOrange}
+                  strokeWidth={1}
+                  strokeDasharray="4 3"
+                  dot={false}
+                  activeDot={false}
+                />
+            </LineChart>
+          </ResponsiveContainer>
+          )}
+        </div>
+
+        {/* Snapshot Drill-Down (per item / per platform) */}
+        <div className="bg-bg-frame border border-border-subtle rounded-card shadow-card px-3 py-3 lg:p-6">
+          <div className="mb-6 pb-4 border-b border-border-strong">
+            <div className="flex flex-col gap-3 md:flex-row md:items-center md:justify-between">
+              <div>
+                <Heading level={2}>Snapshot Drill-Down</Heading>
+                <div className="text-xs text-text-muted mt-1">
+                  Value per item or platform over time ({timeFrame})
+                </div>
+              </div>
+              <div className="flex gap-2">
+                <select
+                  value={drilldownMode}
+                  onChange={(e) => setDrilldownMode(e.target.value as 'item' | 'platform')}
+                  className="bg-bg-surface-2 border border-border-subtle rounded-input pl-3 pr-8 py-2 text-text-primary text2 focus:outline-none focus:border-accent-blue"
+                  aria-label="Drill down by"
+                >
+                  <option value="item">Item</option>
+                  <option value="platform">Platform</option>
+                </select>
+                <select
+                  value={effectiveDrilldownTarget}
+                  onChange={(e) => setDrilldownTarget(e.target.value)}
+                  disabled={drilldownOptions.length === 0}
+                  className="bg-bg-surface-2 border border-border-subtle rounded-input pl-3 pr-8 py-2 text-text-primary text2 focus:outline-none focus:border-accent-blue max-w-[12rem]"
+                  aria-label={drilldownMode === 'item' ? 'Item' : 'Platform'}
+                >
+                  {drilldownOptions.map((option) => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+          </div>
+          {drilldownData.length === 0 ? (
+            <div className="flex items-center justify-center h-[240px] text-text-muted text-sm">
+              No snapshots with per-item detail yet. New snapshots store the value of each item.
+            </div>
+          ) : (
+          <ResponsiveContainer width="100%" height={240}>
+            <LineChart
+              data={drilldownData}
+              margin={{ top: 6, right: 8, left: 0, bottom: 0 }}
+            >
+              <XAxis
+                dataKey="date"
+                stroke={CHART_COLORS.muted1}
+                tick={{ fill: CHART_COLORS.muted1, fontSize: '0.648rem' }}
+                angle={-45}
+                textAnchor="end"
+                height={60}
+                minTickGap={40}
+              />
+              <YAxis
+                stroke={CHART_COLORS.muted1}
+                tick={{ fill: CHART_COLORS.muted1, fontSize: '0.648rem' }}
+                tickFormatter={formatCurrencyTick}
+                width={44}
+              />
+              <Tooltip
+                contentStyle={{
+                  backgroundColor: '#FFFFFF',
+                  border: '1px solid #E5E7EB',
+                  borderRadius: '12px',
+                  color: '#111827',
+                  fontSize: '0.648rem',
+                  fontWeight: '400',
+                }}
+                formatter={(value: number, _name: string, entry: { payload?: { quantity?: number; price?: number } }) => {
+                  const formatted = formatCurrencyValue(convert(value, 'CHF'))
+                  const { quantity, price } = entry.payload || {}
+                  if (isIncognito || quantity === undefined || price === undefined) return formatted
+                  return `${formatted} (${quantity} × ${formatNumber(price)})`
+                }}
+              />
+              <Line
+                type="monotone"
+                dataKey="Value"
+                stroke={CHART_COLORS.gold}
+                strokeWidth={2}
+                dot={false}
+                activeDot={false}
+              />
             </LineChart>
           </ResponsiveContainer>
           )}
@@ -1272,6 +2007,27 @@ function Dashboard() {
                 />
               </PieChart>
             </ResponsiveContainer>
+            {/* Gross assets vs liabilities vs net */}
+            <div className="mt-4 pt-4 border-t border-border-subtle grid grid-cols-3 gap-2 text-[0.567rem] md:text-xs">
+              <div>
+                <div className="text-text-muted">Gross Assets</div>
+                <TotalText variant={grossAssetsChf > 0 ? 'inflow' : 'neutral'} className="block">
+                  {formatCurrencyValue(convert(grossAssetsChf, 'CHF'))}
+                </TotalText>
+              </div>
+              <div>
+                <div className="text-text-muted">Liabilities</div>
+                <TotalText variant={totalLiabilitiesChf > 0 ? 'outflow' : 'neutral'} className="block">
+                  {formatCurrencyValue(convert(-totalLiabilitiesChf, 'CHF'))}
+                </TotalText>
+              </div>
+              <div>
+                <div className="text-text-muted">Net</div>
+                <TotalText variant={totalNetWorthChf >= 0 ? 'inflow' : 'outflow'} className="block">
+                  {formatCurrencyValue(totalNetWorthConverted)}
+                </TotalText>
+              </div>
+            </div>
           </div>
 
           {/* Inflow Breakdown Pie Chart */}
@@ -1383,6 +2139,126 @@ function Dashboard() {
           </div>
         </div>
 
+        {/* Target Allocation: drift vs target and rebalancing trades */}
+        <SectionCard title="Target Allocation">
+          {Object.keys(allocationTargets).length === 0 ? (
+            <div className="text-center text-text-muted text-[0.567rem] md:text-xs py-4">
+              No target allocation defined. Set target weights and tolerance bands in Settings.
+            </div>
+          ) : !allocationDrift || !rebalancingPlan ? (
+            <div className="text-center text-text-muted text-[0.567rem] md:text-xs py-4">
+              {allocationTargetErrors.join('. ')}. Adjust the targets in Settings.
+            </div>
+          ) : (
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              <div className="space-y-2">
+                <div className="grid grid-cols-[1fr_4.5rem_6rem_4.5rem] gap-2 text-text-muted text-[0.567rem] md:text-xs">
+                  <span>Category / Item</span>
+                  <span className="text-right">Current</span>
+                  <span className="text-right">Target</span>
+                  <span className="text-right">Drift</span>
+                </div>
+                {allocationDrift.rows.map((row) => (
+                  <div
+                    key={row.key}
+                    className={`grid grid-cols-[1fr_4.5rem_6rem_4.5rem] gap-2 items-center text-[0.567rem] md:text-xs ${
+                      row.outOfBand ? 'bg-danger/10 rounded-input' : ''
+                    }`}
+                  >
+                    <span className={`truncate ${row.itemId ? 'pl-3 text-text-secondary' : 'text-text-primary'}`}>
+                      {row.label}
+                    </span>
+                    <span className="text-right text-text-primary">{(row.currentWeight * 100).toFixed(1)}%</span>
+                    <span className="text-right text-text-secondary">
+                      {(row.targetWeight * 100).toFixed(1)}% ±{(row.tolerance * 100).toFixed(1)}
+                    </span>
+                    <span className={`text-right ${row.outOfBand ? 'text-danger' : 'text-text-muted'}`}>
+                      {row.drift >= 0 ? '+' : ''}{(row.drift * 100).toFixed(1)}
+                    </span>
+                  </div>
+                ))}
+                <div className="pt-2 border-t border-border-subtle text-text-muted text-[0.567rem] md:text-xs">
+                  {allocationDrift.withinBands ? 'All within their bands' : 'Outside the band: highlighted'} · Allocated assets {formatCurrencyValue(allocationDrift.total)}
+                </div>
+              </div>
+
+              <div className="space-y-3">
+                <div className="flex flex-col sm:flex-row gap-2 sm:items-center">
+                  <input
+                    type="number"
+                    value={rebalanceCash}
+                    onChange={(e) => setRebalanceCash(e.target.value)}
+                    placeholder={`New cash (${baseCurrency})`}
+                    className="flex-1 bg-bg-surface-2 border border-border-subtle rounded-input px-3 py-2 text-text-primary text2 focus:outline-none focus:border-accent-blue"
+                    aria-label="New cash to invest"
+                    min="0"
+                    step="100"
+                  />
+                  <label className="flex items-center gap-2 text-text-secondary text-[0.567rem] md:text-xs">
+                    <input
+                      type="checkbox"
+                      checked={rebalanceCashOnly}
+                      onChange={(e) => setRebalanceCashOnly(e.target.checked)}
+                    />
+                    Only use new cash (no sells)
+                  </label>
+                </div>
+                {rebalancingPlan.trades.length === 0 ? (
+                  <div className="text-text-muted text-[0.567rem] md:text-xs py-2">
+                    No trades needed.
+                  </div>
+                ) : (
+                  <div className="space-y-1">
+                    {rebalancingPlan.trades.map((trade) => (
+                      <div key={trade.key} className="flex items-center justify-between gap-2 text-[0.567rem] md:text-xs">
+                        <span className="text-text-primary truncate">
+                          {trade.amount > 0 ? 'Buy' : 'Sell'} {trade.label}
+                        </span>
+                        <span className="flex items-center gap-3 whitespace-nowrap">
+                          <TotalText variant={trade.amount > 0 ? 'inflow' : 'outflow'}>
+                            {formatCurrencyValue(Math.abs(trade.amount))}
+                          </TotalText>
+                          <span className="text-text-muted w-12 text-right">→ {(trade.weightAfter * 100).toFixed(1)}%</span>
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+                {!rebalancingPlan.withinBands && (
+                  <div className="text-[0.567rem] md:text-xs text-danger">
+                    The new cash is not enough to bring every row back within its band without selling.
+                  </div>
+                )}
+              </div>
+            </div>
+          )}
+        </SectionCard>
+
+        {/* Fourth Row: Liabilities */}
+        <SectionCard
+          title="Liabilities"
+          titleRight={totalLiabilitiesChf > 0 ? formatCurrencyValue(convert(-totalLiabilitiesChf, 'CHF')) : undefined}
+        >
+          {totalLiabilitiesChf <= 0 ? (
+            <div className="text-center text-text-muted text-[0.567rem] md:text-xs py-4">
+              No liabilities recorded. Add a mortgage, loan or credit card on the Net Worth page.
+            </div>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              {liabilityBreakdownData.map(({ name, value }) => (
+                <div key={name} className="bg-bg-surface-2 border border-border-subtle rounded-card p-4">
+                  <div className="text-text-muted text-xs md:text-sm mb-2">{name}</div>
+                  <TotalText variant={value > 0 ? 'outflow' : 'neutral'} className="block">
+                    {formatCurrencyValue(convert(-value, 'CHF'))}
+                  </TotalText>
+                  <div className="text-text-muted text-[0.65rem] md:text-[0.7rem] mt-1">
+                    {grossAssetsChf > 0 ? `${((value / grossAssetsChf) * 100).toFixed(1)}% of gross assets` : '\u00a0'}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </SectionCard>
 
       </div>
       <ToastContainer toasts={toasts} onDismiss={dismissToast} />
@@ -6,6 +6,8 @@ import { useData } from '../contexts/DataContext'
 import { useApiKeys } from '../contexts/ApiKeysContext'
 import { formatMoney, formatNumber } from '../lib/currency'
 import { calculateCoinAmount } from '../services/balanceCalculationService'
+import { calculateCostBasis, calculateUnrealizedPnl, type CostBasisMethod } from '../services/costBasisService'
+import { useCostBasis } from '../contexts/CostBasisContext'
 import type { NetWorthItem, NetWorthTransaction, PerpetualsOpenPosition, PerpetualsOpenOrder } from './NetWorth'
 import { useHyperliquidAssetCtx } from '../hooks/valuation/useHyperliquidAssetCtx'
 import { useHyperliquidWsPositions } from '../hooks/valuation/useHyperliquidWsPositions'
@@ -103,79 +105,28 @@ interface SpotRow {
   valueUsd: number
   unrealizedPnlUsd: number | null
   unrealizedPnlPct: number | null
+  realizedPnlUsd: number
 }
 
-function getSignedTransactionAmount(tx: NetWorthTransaction): number {
-  const rawAmount = Number(tx.amount)
-  if (!Number.isFinite(rawAmount) || rawAmount === 0) return 0
-
-  if (tx.cryptoType === 'BUY') return Math.abs(rawAmount)
-  if (tx.cryptoType === 'SELL') return -Math.abs(rawAmount)
-  if (tx.cryptoType === 'ADJUSTMENT') return rawAmount
-
-  return tx.side === 'buy' ? Math.abs(rawAmount) : -Math.abs(rawAmount)
-}
-
-function getTransactionUnitPrice(tx: NetWorthTransaction): number | null {
-  const directPrice = Number(tx.pricePerItem)
-  if (Number.isFinite(directPrice) && directPrice > 0) return directPrice
-
-  const fallbackPrice = Number(tx.pricePerItemChf)
-  if (Number.isFinite(fallbackPrice) && fallbackPrice > 0) return fallbackPrice
-
-  return null
-}
-
-function buildSpotRow(item: NetWorthItem, transactions: NetWorthTransaction[], currentPrices: Record<string, number>): SpotRow {
+function buildSpotRow(
+  item: NetWorthItem,
+  items: NetWorthItem[],
+  transactions: NetWorthTransaction[],
+  currentPrices: Record<string, number>,
+  costBasisMethod: CostBasisMethod
+): SpotRow {
   const asset = item.name.trim().toUpperCase()
-  const itemTransactions = transactions
-    .filter((tx) => tx.itemId === item.id)
-    .slice()
-    .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
-
-  const amount = Math.max(0, calculateCoinAmount(item.id, transactions))
+  const amount = Math.max(0, calculateCoinAmount(item.id, transactions, item))
   const currentPriceUsd = Number(currentPrices[asset])
   const safeCurrentPriceUsd = Number.isFinite(currentPriceUsd) && currentPriceUsd > 0 ? currentPriceUsd : null
 
-  let remainingAmount = 0
-  let remainingCostUsd = 0
-
-  for (const tx of itemTransactions) {
-    const signedAmount = getSignedTransactionAmount(tx)
-    if (signedAmount === 0) continue
-
-    if (signedAmount > 0) {
-      const unitPrice = getTransactionUnitPrice(tx)
-      const currentAvg = remainingAmount > 0 ? remainingCostUsd / remainingAmount : 0
-      remainingCostUsd += signedAmount * (unitPrice ?? currentAvg)
-      remainingAmount += signedAmount
-      continue
-    }
-
-    if (remainingAmount <= 0) {
-      remainingAmount = 0
-      remainingCostUsd = 0
-      continue
-    }
-
-    const amountToClose = Math.min(Math.abs(signedAmount), remainingAmount)
-    const avgCost = remainingCostUsd / remainingAmount
-    remainingCostUsd -= amountToClose * avgCost
-    remainingAmount -= amountToClose
-
-    if (remainingAmount <= 0) {
-      remainingAmount = 0
-      remainingCostUsd = 0
-    }
-  }
+  // No convert: lot costs stay in the transaction price currency (USD for crypto)
+  const lots = calculateCostBasis(item.id, transactions, costBasisMethod, undefined, item, items)
 
-  const avgEntryUsd = remainingAmount > 0 ? remainingCostUsd / remainingAmount : null
+  const avgEntryUsd = lots.quantity > 0 ? lots.averageCost : null
   const valueUsd = safeCurrentPriceUsd !== null ? amount * safeCurrentPriceUsd : 0
   const costBasisUsd = avgEntryUsd !== null ? amount * avgEntryUsd : null
-  const unrealizedPnlUsd = costBasisUsd !== null ? valueUsd - costBasisUsd : null
-  const unrealizedPnlPct = costBasisUsd && costBasisUsd > 0 && unrealizedPnlUsd !== null
-    ? (unrealizedPnlUsd / costBasisUsd) * 100
-    : null
+  const unrealized = costBasisUsd !== null ? calculateUnrealizedPnl(costBasisUsd, valueUsd) : null
 
   return {
     id: item.id,
@@ -184,8 +135,9 @@ function buildSpotRow(item: NetWorthItem, transactions: NetWorthTransaction[], c
     avgEntryUsd,
     currentPriceUsd: safeCurrentPriceUsd,
     valueUsd,
-    unrealizedPnlUsd,
-    unrealizedPnlPct,
+    unrealizedPnlUsd: unrealized ? unrealized.unrealizedPnl : null,
+    unrealizedPnlPct: unrealized ? unrealized.unrealizedPnlPct : null,
+    realizedPnlUsd: lots.realizedPnl,
   }
 }
 
@@ -193,6 +145,7 @@ function Hyperliquid() {
   const { isIncognito } = useIncognito()
   const { data, loading: dataLoading } = useData()
   const { hyperliquidWalletAddress } = useApiKeys()
+  const { costBasisMethod } = useCostBasis()
   const { positions: hlWsPositions, status: hlWsStatus, error: hlWsError } = useHyperliquidWsPositions({
     walletAddress: hyperliquidWalletAddress,
     dex: null, // default dex (future-proof: allow multiple dex clients later)
@@ -288,10 +241,10 @@ function Hyperliquid() {
     )
 
     return spotItems
-      .map((item) => buildSpotRow(item, data.netWorthTransactions, data.cryptoPrices))
+      .map((item) => buildSpotRow(item, data.netWorthItems, data.netWorthTransactions, data.cryptoPrices, costBasisMethod))
       .filter((row) => row.amount > 0)
       .sort((a, b) => b.valueUsd - a.valueUsd)
-  }, [data.netWorthItems, data.netWorthTransactions, data.cryptoPrices])
+  }, [data.netWorthItems, data.netWorthTransactions, data.cryptoPrices, costBasisMethod])
 
   // Extract open positions from all perpetuals items
   const positions: PositionRow[] = useMemo(() => {
@@ -579,6 +532,11 @@ function Hyperliquid() {
                             <div className="text2 mt-0.5" style={{ color: row.unrealizedPnlPct === null ? undefined : (pnlPositive ? '#2ECC71' : '#E74C3C') }}>
                               {row.unrealizedPnlPct !== null ? `${row.unrealizedPnlPct >= 0 ? '+' : ''}${row.unrealizedPnlPct.toFixed(2)}%` : '-'}
                             </div>
+                            {row.realizedPnlUsd !== 0 && (
+                              <div className="text2 mt-0.5 text-text-muted" title="Realized PnL from closed lots">
+                                Realized {formatCurrency(row.realizedPnlUsd)}
+                              </div>
+                            )}
                           </div>
                         </td>
                       </tr>
@@ -13,8 +13,19 @@ import type { CurrencyCode } from '../lib/currency'
 import { fetchCryptoPrices } from '../services/cryptoCompareService'
 import { getDailyPricesMap } from '../services/market-data/DailyPriceService'
 import { useData } from '../contexts/DataContext'
-import { NetWorthCalculationService } from '../services/netWorthCalculationService'
+import { NetWorthCalculationService, LIABILITY_CATEGORIES, isLiabilityCategory } from '../services/netWorthCalculationService'
 import { calculateBalanceChf, calculateCoinAmount, calculateHoldings, calculateAveragePricePerItem } from '../services/balanceCalculationService'
+import { getLoanPaymentForMonth, isValidLoanSchedule, type LoanAmortizationType, type LoanRateType, type LoanSchedule } from '../services/loanAmortizationService'
+import { calculateCostBasis, calculateUnrealizedPnl } from '../services/costBasisService'
+import { getCorporateActions, getSymbolAtDate, type CorporateAction } from '../services/corporateActionsService'
+import { TRANSFER_CATEGORIES, createTransferTransactions, findTransferCounterpart, getTransferNetworkFee, isTransferTransaction } from '../services/transfersService'
+import { BROKER_IDS, BROKER_LABELS, BROKER_PLATFORMS, IMPORT_CATEGORIES, buildImportPlan, detectBroker, parseBrokerCsv, type BrokerId, type BrokerParseError, type ImportPlan, type ImportPlanRow, type NewImportItem } from '../services/transactionImportService'
+import { TRANSACTION_TYPE_LABELS, getIncomeBreakdown, isFeeTransaction, isIncomeTransaction } from '../services/incomeSummaryService'
+import { RETURN_PERIODS, RETURN_PERIOD_LABELS, computeReturns, formatReturnPct, getFallbackValuationDates, toValuationPoints, type PeriodReturns, type ReturnPeriod } from '../services/performanceReturnsService'
+import { toChfItemValues } from '../services/snapshotItemsService'
+import { getTodayUTCDate } from '../services/snapshotService'
+import { useHistoricalItemValues } from '../hooks/valuation/useHistoricalItemValues'
+import { useCostBasis } from '../contexts/CostBasisContext'
 import { DEFAULT_PLATFORMS } from '../constants/platforms'
 import {
   saveNetWorthItem,
@@ -23,6 +34,7 @@ import {
   saveNetWorthTransaction,
   deleteNetWorthTransaction,
   loadNetWorthTransactions,
+  saveNetWorthImport,
   loadPlatforms,
   type Platform,
 } from '../services/storageService'
@@ -39,6 +51,9 @@ export type NetWorthCategory =
   | 'Perpetuals'
   | 'Real Estate'
   | 'Depreciating Assets'
+  | 'Mortgage'
+  | 'Loan'
+  | 'Credit Card'
 
 // Perpetuals subcategory types
 export interface PerpetualsOpenPosition {
@@ -99,11 +114,17 @@ export interface NetWorthItem {
   currency: string
   monthlyDepreciationChf?: number // Only for Depreciating Assets category
   perpetualsData?: PerpetualsData // Only for Perpetuals category
+  loanSchedule?: LoanSchedule // Only for Mortgage and Loan categories
+  corporateActions?: CorporateAction[] // Splits and ticker changes, only for priced categories
 }
 
 type TransactionSide = 'buy' | 'sell'
-// Crypto-only transaction types
-export type CryptoTransactionType = 'BUY' | 'SELL' | 'ADJUSTMENT'
+// Transaction types for supported categories (originally crypto-only)
+// DIVIDEND / INTEREST / STAKING are income, FEE is a cost (see lib/incomeSummary.ts)
+// TRANSFER_OUT / TRANSFER_IN are the two legs of a transfer between platforms (see lib/transfers.ts)
+export type CryptoTransactionType =
+  | 'BUY' | 'SELL' | 'ADJUSTMENT' | 'DIVIDEND' | 'INTEREST' | 'STAKING' | 'FEE' | 'TRANSFER_OUT' | 'TRANSFER_IN'
+type IncomeFeeTransactionType = Extract<CryptoTransactionType, 'DIVIDEND' | 'INTEREST' | 'STAKING' | 'FEE'>
 
 export interface NetWorthTransaction {
   id: string
@@ -117,6 +138,14 @@ export interface NetWorthTransaction {
   // Transaction type fields (used for supported categories)
   cryptoType?: CryptoTransactionType // If set, overrides 'side' for supported categories
   adjustmentReason?: string // Optional reason/note for all transaction types
+  // Income / fee fields (DIVIDEND, INTEREST, STAKING, FEE), in `currency`
+  grossAmount?: number // Income before withholding tax, or the fee amount
+  withholdingTax?: number // Tax withheld at source
+  netAmount?: number // Amount received (gross - withholding tax)
+  // Transfer fields (TRANSFER_OUT, TRANSFER_IN)
+  transferId?: string // Shared by both legs
+  transferItemId?: string // Item on the other side
+  networkFee?: number // Units paid as network fee (TRANSFER_OUT only)
 }
 
 // Empty data - user will add their own data
@@ -151,6 +180,9 @@ const categoryOrder: NetWorthCategory[] = [
   'Depreciating Assets',
 ]
 
+// Liability categories are rendered in their own group below the assets
+const liabilityCategoryOrder: NetWorthCategory[] = [...LIABILITY_CATEGORIES]
+
 // Helper function to format CHF
 // formatChf will be replaced with currency-aware formatting in the component
 
@@ -170,6 +202,10 @@ interface NetWorthCategorySectionProps {
   onRemoveItem: (itemId: string) => void
   onShowTransactions: (itemId: string) => void
   onEditItem: (itemId: string) => void
+  onTransfer?: (itemId: string) => void
+  /** TWR / XIRR of the category and its items for the selected period */
+  returns?: PeriodReturns
+  itemReturns?: Record<string, PeriodReturns>
 }
 
 // Helper function to format coin amount
@@ -192,9 +228,13 @@ function NetWorthCategorySection({
   onRemoveItem,
   onShowTransactions,
   onEditItem,
+  onTransfer,
+  returns,
+  itemReturns = {},
 }: NetWorthCategorySectionProps) {
   const { baseCurrency, convert, exchangeRates } = useCurrency()
   const { isIncognito } = useIncognito()
+  const { costBasisMethod } = useCostBasis()
   const formatCurrency = (value: number) => formatMoney(value, baseCurrency, 'ch', { incognito: isIncognito })
   const formatUsd = (value: number) => formatMoney(value, 'USD', 'ch', { incognito: isIncognito })
   
@@ -202,7 +242,7 @@ function NetWorthCategorySection({
   const subtotal = items.reduce((sum, item) => {
     if (category === 'Crypto') {
       // For Crypto: coin amount * current price (always in USD)
-      const coinAmount = calculateCoinAmount(item.id, transactions)
+      const coinAmount = calculateCoinAmount(item.id, transactions, item)
       const ticker = item.name.trim().toUpperCase()
       const currentPriceUsd = cryptoPrices[ticker] || 0
       if (currentPriceUsd > 0) {
@@ -237,7 +277,7 @@ function NetWorthCategorySection({
     }
     if (category === 'Index Funds' || category === 'Stocks' || category === 'Commodities') {
       // For Index Funds/Stocks/Commodities: use live price if available
-      const holdings = calculateHoldings(item.id, transactions)
+      const holdings = calculateHoldings(item.id, transactions, item)
       const ticker = item.name.trim().toUpperCase()
       const currentPrice = stockPrices[ticker] || 0
       
@@ -274,20 +314,23 @@ function NetWorthCategorySection({
   // For Crypto, also calculate the subtotal in baseCurrency
   // For non-Crypto, subtotal is already in baseCurrency
   // Use usdToChfRate (from CryptoCompare) to match Dashboard calculation, fallback to convert if not available
-  const subtotalInBaseCurrency = category === 'Crypto' 
+  // Liabilities are entered as positive outstanding balances but shown as negative amounts
+  const isLiability = isLiabilityCategory(category)
+  const sign = isLiability ? -1 : 1
+  const subtotalInBaseCurrency = sign * (category === 'Crypto' 
     ? (usdToChfRate && usdToChfRate > 0 ? subtotal * usdToChfRate : convert(subtotal, 'USD'))
     : (category === 'Perpetuals'
       ? subtotal  // subtotal is already in CHF for Perpetuals
-      : subtotal)
+      : subtotal))
   
   // Calculate USD value for all categories
   // For Crypto, subtotal is already in USD
   // For non-Crypto, convert from baseCurrency (CHF) to USD using exchange rate
-  const subtotalInUsd = category === 'Crypto' 
+  const subtotalInUsd = sign * (category === 'Crypto' 
     ? subtotal 
     : (category === 'Perpetuals'
       ? (usdToChfRate && usdToChfRate > 0 ? subtotal / usdToChfRate : (subtotal / (exchangeRates?.rates['USD'] || 1)))
-      : (subtotal * (exchangeRates?.rates['USD'] || 1)))
+      : (subtotal * (exchangeRates?.rates['USD'] || 1))))
 
   return (
     <div className="bg-bg-frame border border-border-subtle rounded-card shadow-card px-3 py-3 lg:p-6 overflow-hidden">
@@ -308,6 +351,11 @@ function NetWorthCategorySection({
             >
               {formatUsd(subtotalInUsd)}
             </TotalText>
+            {returns && returns.twr !== null && (
+              <div className="text-text-muted text-[0.567rem] md:text-xs mt-1" title={`Since ${formatDate(returns.startDate)}`}>
+                TWR {formatReturnPct(returns.twr)} · XIRR {formatReturnPct(returns.xirr)} p.a.
+              </div>
+            )}
           </div>
           {category !== 'Perpetuals' && (
             <button
@@ -481,7 +529,7 @@ function NetWorthCategorySection({
                   // Calculate balance for item a - always convert to CHF
                   let balanceA: number
                   if (category === 'Crypto') {
-                    const coinAmountA = calculateCoinAmount(a.id, transactions)
+                    const coinAmountA = calculateCoinAmount(a.id, transactions, a)
                     const tickerA = a.name.trim().toUpperCase()
                     const currentPriceUsdA = cryptoPrices[tickerA] || 0
                     if (currentPriceUsdA > 0 && usdToChfRate !== null && usdToChfRate > 0) {
@@ -493,7 +541,7 @@ function NetWorthCategorySection({
                       balanceA = convert(calculateBalanceChf(a.id, transactions, a, cryptoPrices, convert), 'CHF')
                     }
                   } else if (category === 'Index Funds' || category === 'Stocks' || category === 'Commodities') {
-                    const holdingsA = calculateHoldings(a.id, transactions)
+                    const holdingsA = calculateHoldings(a.id, transactions, a)
                     const tickerA = a.name.trim().toUpperCase()
                     const currentPriceA = stockPrices[tickerA] || 0
                     if (currentPriceA > 0) {
@@ -518,7 +566,7 @@ function NetWorthCategorySection({
                   // Calculate balance for item b - always convert to CHF
                   let balanceB: number
                   if (category === 'Crypto') {
-                    const coinAmountB = calculateCoinAmount(b.id, transactions)
+                    const coinAmountB = calculateCoinAmount(b.id, transactions, b)
                     const tickerB = b.name.trim().toUpperCase()
                     const currentPriceUsdB = cryptoPrices[tickerB] || 0
                     if (currentPriceUsdB > 0 && usdToChfRate !== null && usdToChfRate > 0) {
@@ -530,7 +578,7 @@ function NetWorthCategorySection({
                       balanceB = convert(calculateBalanceChf(b.id, transactions, b, cryptoPrices, convert), 'CHF')
                     }
                   } else if (category === 'Index Funds' || category === 'Stocks' || category === 'Commodities') {
-                    const holdingsB = calculateHoldings(b.id, transactions)
+                    const holdingsB = calculateHoldings(b.id, transactions, b)
                     const tickerB = b.name.trim().toUpperCase()
                     const currentPriceB = stockPrices[tickerB] || 0
                     if (currentPriceB > 0) {
@@ -556,12 +604,12 @@ function NetWorthCategorySection({
                   return balanceB - balanceA
                 }).map((item) => {
                   // For all categories, calculate holdings
-                  const holdings = calculateHoldings(item.id, transactions)
+                  const holdings = calculateHoldings(item.id, transactions, item)
                   
                   // Calculate balance - always convert to CHF for display
                   let balanceConverted: number
                   if (category === 'Crypto') {
-                    const coinAmount = calculateCoinAmount(item.id, transactions)
+                    const coinAmount = calculateCoinAmount(item.id, transactions, item)
                     const ticker = item.name.trim().toUpperCase()
                     const currentPriceUsd = cryptoPrices[ticker] || 0
                     if (currentPriceUsd > 0 && usdToChfRate !== null && usdToChfRate > 0) {
@@ -574,7 +622,7 @@ function NetWorthCategorySection({
                     }
                   } else if (category === 'Index Funds' || category === 'Stocks' || category === 'Commodities') {
                     // For Index Funds, Stocks, and Commodities: use current price from Yahoo Finance
-                    const holdings = calculateHoldings(item.id, transactions)
+                    const holdings = calculateHoldings(item.id, transactions, item)
                     const ticker = item.name.trim().toUpperCase()
                     const currentPrice = stockPrices[ticker] || 0
                     
@@ -637,10 +685,26 @@ function NetWorthCategorySection({
                     ? 'USD'
                     : ((item.currency as CurrencyCode) || baseCurrency)
                   const showItemCurrencyTotal = itemCurrency !== baseCurrency
-                  const totalInItemCurrency = balanceConverted * (exchangeRates?.rates[itemCurrency] || 1)
+                  const signedBalance = sign * balanceConverted
+                  const totalInItemCurrency = signedBalance * (exchangeRates?.rates[itemCurrency] || 1)
                   
                   // Color for total value (same behavior as Cashflow item totals)
-                  const totalVariant = balanceConverted > 0 ? 'inflow' : balanceConverted < 0 ? 'outflow' : 'neutral'
+                  const totalVariant = signedBalance > 0 ? 'inflow' : signedBalance < 0 ? 'outflow' : 'neutral'
+
+                  // Market-driven items: cost basis of open lots and P&L (method from Settings)
+                  const lots = isMarketDriven
+                    ? calculateCostBasis(item.id, transactions, costBasisMethod, convert, item, items)
+                    : null
+                  const pnl = lots && lots.costBasis > 0 ? calculateUnrealizedPnl(lots.costBasis, balanceConverted) : null
+                  const returns = itemReturns[item.id]
+
+                  // Loan items: this month's interest + amortization from the schedule
+                  const loanPayment = isValidLoanSchedule(item.loanSchedule)
+                    ? getLoanPaymentForMonth(item.loanSchedule, new Date())
+                    : null
+                  const loanPaymentTotal = loanPayment
+                    ? convert(loanPayment.interest + loanPayment.amortization + loanPayment.pillar3aContribution, itemCurrency)
+                    : 0
                   
                   return (
                     <tr key={item.id}>
@@ -653,6 +717,26 @@ function NetWorthCategorySection({
                             </div>
                             <div className="text-text-muted text-[0.55rem] md:text-[0.774rem] truncate flex items-center gap-1">
                               <span>{item.platform}</span>
+                              {loanPayment && loanPaymentTotal > 0 && (
+                                <span title="Interest and amortization this month">· {formatCurrency(loanPaymentTotal)}/mo</span>
+                              )}
+                              {lots && pnl && (
+                                <span
+                                  className={pnl.unrealizedPnl >= 0 ? 'text-success' : 'text-danger'}
+                                  title={`Cost basis ${formatCurrency(lots.costBasis)} · Realized ${formatCurrency(lots.realizedPnl)}`}
+                                >
+                                  · {pnl.unrealizedPnl >= 0 ? '+' : ''}{formatCurrency(pnl.unrealizedPnl)}
+                                  {pnl.unrealizedPnlPct !== null && ` (${pnl.unrealizedPnlPct >= 0 ? '+' : ''}${pnl.unrealizedPnlPct.toFixed(1)}%)`}
+                                </span>
+                              )}
+                              {returns && returns.twr !== null && (
+                                <span
+                                  className={returns.twr >= 0 ? 'text-success' : 'text-danger'}
+                                  title={`Since ${formatDate(returns.startDate)} · XIRR ${formatReturnPct(returns.xirr)} p.a.`}
+                                >
+                                  · TWR {formatReturnPct(returns.twr)}
+                                </span>
+                              )}
                               {platforms.length > 0 && !platforms.some(p => p.name === item.platform) && (
                                 <svg className="w-3.5 h-3.5 text-warning flex-shrink-0" fill="currentColor" viewBox="0 0 20 20">
                                   <title>Platform has been removed. Please update this item.</title>
@@ -694,7 +778,7 @@ function NetWorthCategorySection({
                           {/* Column 3: Total CHF + Total USD (fixed width, responsive) */}
                           <div className={`w-[85px] md:w-[120px] flex-shrink-0 text-right flex flex-col ${showItemCurrencyTotal ? '' : 'justify-center'}`}>
                             <TotalText variant={totalVariant} className="text-[0.63rem] md:text-[0.79rem] whitespace-nowrap">
-                              {formatCurrency(balanceConverted)}
+                              {formatCurrency(signedBalance)}
                             </TotalText>
                             {showItemCurrencyTotal && (
                               <div className="text-text-muted text-[0.55rem] md:text-[0.774rem] whitespace-nowrap">
@@ -715,6 +799,7 @@ function NetWorthCategorySection({
                               onShowTransactions={onShowTransactions}
                               onRemoveItem={onRemoveItem}
                               onEditItem={onEditItem}
+                              onTransfer={onTransfer}
                             />
                           </div>
                         </div>
@@ -739,9 +824,10 @@ interface ItemMenuProps {
   onShowTransactions: (itemId: string) => void
   onRemoveItem: (itemId: string) => void
   onEditItem: (itemId: string) => void
+  onTransfer?: (itemId: string) => void
 }
 
-function ItemMenu({ itemId, onAddTransaction, onShowTransactions, onRemoveItem, onEditItem }: ItemMenuProps) {
+function ItemMenu({ itemId, onAddTransaction, onShowTransactions, onRemoveItem, onEditItem, onTransfer }: ItemMenuProps) {
   const [menuOpen, setMenuOpen] = useState(false)
   const [menuPosition, setMenuPosition] = useState<{ x: number; y: number } | null>(null)
   const buttonRef = useRef<HTMLButtonElement>(null)
@@ -797,6 +883,12 @@ function ItemMenu({ itemId, onAddTransaction, onShowTransactions, onRemoveItem,
     onEditItem(itemId)
   }
 
+  const handleTransfer = () => {
+    setMenuOpen(false)
+    setMenuPosition(null)
+    onTransfer?.(itemId)
+  }
+
   return (
     <>
       <button
@@ -827,6 +919,14 @@ function ItemMenu({ itemId, onAddTransaction, onShowTransactions, onRemoveItem,
           >
             Add Transaction
           </button>
+          {onTransfer && (
+            <button
+              onClick={handleTransfer}
+              className="w-full text-left px-3 py-1.5 text-text-primary text-[0.567rem] md:text-xs hover:bg-bg-surface-2 transition-colors rounded-input"
+            >
+              Transfer
+            </button>
+          )}
           <button
             onClick={handleShowTransactions}
             className="w-full text-left px-3 py-1.5 text-text-primary text-[0.567rem] md:text-xs hover:bg-bg-surface-2 transition-colors rounded-input"
@@ -935,9 +1035,12 @@ function NetWorth() {
 
   const [activeCategory, setActiveCategory] = useState<NetWorthCategory | null>(null)
   const [transactionItemId, setTransactionItemId] = useState<string | null>(null)
+  const [transferItemId, setTransferItemId] = useState<string | null>(null)
+  const [isImportOpen, setIsImportOpen] = useState(false)
   const [editingTransactionId, setEditingTransactionId] = useState<string | null>(null)
   const [editingItemId, setEditingItemId] = useState<string | null>(null)
   const [showTransactionsItemId, setShowTransactionsItemId] = useState<string | null>(null)
+  const [returnPeriod, setReturnPeriod] = useState<ReturnPeriod>('YTD')
 
   const groupedItems = useMemo(
     () =>
@@ -956,17 +1059,21 @@ function NetWorth() {
 
   // Calculate total net worth by summing all category subtotals (same logic as category sections)
   // Calculate total net worth using shared calculation service
-  const totalNetWorth = useMemo(() => {
-    const result = NetWorthCalculationService.calculateTotals(
-      netWorthItems,
-      transactions,
-      cryptoPrices,
-      stockPrices,
-      usdToChfRate,
-      convert
-    )
-    return result.totalNetWorthChf
-  }, [netWorthItems, transactions, cryptoPrices, stockPrices, usdToChfRate, convert])
+  const totals = useMemo(
+    () =>
+      NetWorthCalculationService.calculateTotals(
+        netWorthItems,
+        transactions,
+        cryptoPrices,
+        stockPrices,
+        usdToChfRate,
+        convert
+      ),
+    [netWorthItems, transactions, cryptoPrices, stockPrices, usdToChfRate, convert]
+  )
+  const totalNetWorth = totals.totalNetWorthChf
+  const grossAssets = totals.grossAssetsChf
+  const totalLiabilities = totals.totalLiabilitiesChf
 
   // Calculate USD value for total net worth
   const totalNetWorthInUsd = useMemo(
@@ -974,10 +1081,40 @@ function NetWorth() {
     [totalNetWorth, exchangeRates]
   )
 
+  // The period start is valued from transactions and historical prices without a snapshot with per-item detail
+  const { costBasisMethod } = useCostBasis()
+  const fallbackValuationDates = useMemo(
+    () => getFallbackValuationDates(data.snapshots, getTodayUTCDate(), [returnPeriod]),
+    [data.snapshots, returnPeriod]
+  )
+  const { points: fallbackValuationPoints } = useHistoricalItemValues(
+    netWorthItems,
+    transactions,
+    fallbackValuationDates,
+    costBasisMethod
+  )
+
+  // TWR / XIRR of the selected period from snapshots with per-item detail up to the current valuation (CHF)
+  const periodReturns = useMemo(() => {
+    const chfRate = convert(1, 'CHF') || 1
+    const points = toValuationPoints(
+      data.snapshots,
+      { date: getTodayUTCDate(), values: toChfItemValues(totals.itemValues, chfRate) },
+      fallbackValuationPoints
+    )
+    return computeReturns({
+      points,
+      periods: [returnPeriod],
+      transactions,
+      items: netWorthItems,
+      convert: (amount, from) => convert(amount, from) / chfRate,
+    })[returnPeriod] ?? null
+  }, [data.snapshots, totals.itemValues, fallbackValuationPoints, transactions, netWorthItems, convert, returnPeriod])
+
 
   const handleAddItem = async (
     category: NetWorthCategory,
-    data: { name: string; currency: string; platform: string; monthlyDepreciationChf?: number }
+    data: { name: string; currency: string; platform: string; monthlyDepreciationChf?: number; loanSchedule?: LoanSchedule }
   ) => {
     const id =
       typeof crypto !== 'undefined' && 'randomUUID' in crypto
@@ -991,6 +1128,7 @@ function NetWorth() {
       currency: data.currency,
       platform: data.platform,
       ...(data.monthlyDepreciationChf !== undefined && { monthlyDepreciationChf: data.monthlyDepreciationChf }),
+      ...(data.loanSchedule && { loanSchedule: data.loanSchedule }),
     }
 
     // Update local state immediately (optimistic update)
@@ -1074,6 +1212,101 @@ function NetWorth() {
     setTransactionItemId(itemId)
   }
 
+  const handleTransfer = (itemId: string) => {
+    setTransferItemId(itemId)
+  }
+
+  // Saves both legs of a transfer (TRANSFER_OUT on the source, TRANSFER_IN on the destination)
+  const handleSaveTransfer = async (legs: Array<Omit<NetWorthTransaction, 'id'>>) => {
+    const newTransactions: NetWorthTransaction[] = legs.map((leg, index) => ({
+      id:
+        typeof crypto !== 'undefined' && 'randomUUID' in crypto
+          ? crypto.randomUUID()
+          : `tx-${Date.now()}-${index}`,
+      ...leg,
+    }))
+
+    // Update local state immediately (optimistic update)
+    setTransactions((prev) => [...prev, ...newTransactions])
+    setTransferItemId(null)
+
+    if (uid) {
+      for (const transaction of newTransactions) {
+        const cleanedTransaction = removeUndefined(transaction) as NetWorthTransaction
+        const result = await saveNetWorthTransaction(cleanedTransaction, uid)
+        if (result.success && result.entries) {
+          setTransactions(result.entries as NetWorthTransaction[])
+        } else if (!result.success) {
+          console.error('[NetWorth] Failed to save transfer:', result.reason)
+          addToast('Failed to save changes. Please try again.')
+          return
+        }
+      }
+    }
+  }
+
+  // Imports broker CSV rows: saves the new items and the transactions together (see lib/transactionImport.ts)
+  const handleImportTransactions = async (newItems: NewImportItem[], rows: ImportPlanRow[]) => {
+    const createId = (prefix: string, index: number) =>
+      typeof crypto !== 'undefined' && 'randomUUID' in crypto
+        ? crypto.randomUUID()
+        : `${prefix}-${Date.now()}-${index}`
+
+    const createdItems: NetWorthItem[] = newItems
+      .filter((newItem) => rows.some((row) => row.newItemSymbol === newItem.symbol))
+      .map((newItem, index) => ({
+        id: createId('item', index),
+        category: newItem.category,
+        name: newItem.symbol,
+        currency: newItem.currency,
+        platform: newItem.platform,
+      }))
+    const itemIdBySymbol = new Map(createdItems.map((item) => [item.name, item.id]))
+
+    // Rows whose item could not be resolved are not imported
+    const importedRows = rows.filter((row) => row.itemId || itemIdBySymbol.has(row.newItemSymbol || ''))
+    let txIndex = 0
+    const newTransactions: NetWorthTransaction[] = importedRows.flatMap((row) => {
+      const itemId = row.itemId || itemIdBySymbol.get(row.newItemSymbol || '')!
+      return row.transactions.map((transaction) => ({
+        id: createId('tx', txIndex++),
+        itemId,
+        ...transaction,
+      }) as NetWorthTransaction)
+    })
+
+    // Update local state immediately (optimistic update)
+    setNetWorthItems((prev) => [...prev, ...createdItems])
+    setTransactions((prev) => [...prev, ...newTransactions])
+    setIsImportOpen(false)
+
+    if (uid) {
+      // One batch: either the whole import is saved or nothing is
+      const result = await saveNetWorthImport(
+        createdItems.map((item) => removeUndefined(item) as NetWorthItem),
+        newTransactions.map((transaction) => removeUndefined(transaction) as NetWorthTransaction),
+        uid
+      )
+      if (!result.success) {
+        console.error('[NetWorth] Failed to save import:', result.reason)
+        const createdItemIds = new Set(createdItems.map((item) => item.id))
+        const newTransactionIds = new Set(newTransactions.map((transaction) => transaction.id))
+        setNetWorthItems((prev) => prev.filter((item) => !createdItemIds.has(item.id)))
+        setTransactions((prev) => prev.filter((transaction) => !newTransactionIds.has(transaction.id)))
+        addToast(
+          result.reason === 'too_many_documents'
+            ? 'Too many rows to import at once. Nothing was imported; split the file and try again.'
+            : 'Failed to import transactions. Nothing was imported, please try again.'
+        )
+        return
+      }
+      if (result.items) setNetWorthItems(result.items)
+      if (result.transactions) setTransactions(result.transactions)
+    }
+
+    addToast(`Imported ${importedRows.length} transaction${importedRows.length === 1 ? '' : 's'}.`, 'success')
+  }
+
   const handleSaveTransaction = async (transaction: Omit<NetWorthTransaction, 'id'>) => {
     const id =
       typeof crypto !== 'undefined' && 'randomUUID' in crypto
@@ -1150,20 +1383,29 @@ function NetWorth() {
   const handleDeleteTransaction = async (transactionId: string) => {
     // Find the existing transaction to get its updatedAt timestamp for conflict detection
     const existingTransaction = transactions.find(tx => tx.id === transactionId)
-    const clientUpdatedAt = toDateSafe(existingTransaction?.updatedAt)
+    // Deleting one leg of a transfer deletes the other leg too
+    const counterpart = existingTransaction ? findTransferCounterpart(existingTransaction, transactions) : undefined
+    const transactionsToDelete = [existingTransaction, counterpart].filter(
+      (tx): tx is NetWorthTransaction => !!tx
+    )
+    const idsToDelete = new Set([transactionId, ...transactionsToDelete.map(tx => tx.id)])
 
     // Update local state immediately (optimistic update)
-    setTransactions((prev) => prev.filter((tx) => tx.id !== transactionId))
+    setTransactions((prev) => prev.filter((tx) => !idsToDelete.has(tx.id)))
     
     if (uid) {
-      const result = await deleteNetWorthTransaction<NetWorthTransaction>(transactionId, uid, {
-        clientUpdatedAt,
-      })
-      if (result.success && result.entries) {
-        setTransactions(result.entries)
-      } else if (!result.success) {
-        console.error('[NetWorth] Failed to delete transaction:', result.reason)
-        addToast('Failed to save changes. Please try again.')
+      for (const id of idsToDelete) {
+        const clientUpdatedAt = toDateSafe(transactionsToDelete.find(tx => tx.id === id)?.updatedAt)
+        const result = await deleteNetWorthTransaction<NetWorthTransaction>(id, uid, {
+          clientUpdatedAt,
+        })
+        if (result.success && result.entries) {
+          setTransactions(result.entries)
+        } else if (!result.success) {
+          console.error('[NetWorth] Failed to delete transaction:', result.reason)
+          addToast('Failed to save changes. Please try again.')
+          return
+        }
       }
     }
   }
@@ -1222,7 +1464,15 @@ function NetWorth() {
     setEditingItemId(itemId)
   }
 
-  const handleSaveEditItem = async (itemId: string, newName: string, currency: string, platform: string, monthlyDepreciationChf?: number) => {
+  const handleSaveEditItem = async (
+    itemId: string,
+    newName: string,
+    currency: string,
+    platform: string,
+    monthlyDepreciationChf?: number,
+    loanSchedule?: LoanSchedule,
+    corporateActions?: CorporateAction[]
+  ) => {
     // Find the existing item to get its updatedAt timestamp for conflict detection
     const existingItem = netWorthItems.find(item => item.id === itemId)
     const clientUpdatedAt = toDateSafe(existingItem?.updatedAt)
@@ -1236,7 +1486,9 @@ function NetWorth() {
               name: newName.trim(), 
               currency, 
               platform,
-              ...(monthlyDepreciationChf !== undefined && { monthlyDepreciationChf })
+              ...(monthlyDepreciationChf !== undefined && { monthlyDepreciationChf }),
+              ...(LOAN_SCHEDULE_CATEGORIES.includes(item.category) && { loanSchedule }),
+              ...(CORPORATE_ACTION_CATEGORIES.includes(item.category) && { corporateActions }),
             } 
           : item
       )
@@ -1249,6 +1501,11 @@ function NetWorth() {
         currency,
         platform,
         ...(monthlyDepreciationChf !== undefined && { monthlyDepreciationChf }),
+        // Clearing the schedule removes the field (undefined is stripped before saving)
+        ...(LOAN_SCHEDULE_CATEGORIES.includes(existingItem.category) && { loanSchedule }),
+        ...(CORPORATE_ACTION_CATEGORIES.includes(existingItem.category) && {
+          corporateActions: corporateActions && corporateActions.length > 0 ? corporateActions : undefined,
+        }),
       }
       const cleanedItem = removeUndefined(updatedItem) as NetWorthItem
       const result = await saveNetWorthItem(cleanedItem, uid, {
@@ -1276,11 +1533,53 @@ function NetWorth() {
     )
   }
 
+  const renderCategorySection = (category: NetWorthCategory) => (
+    <NetWorthCategorySection
+      key={category}
+      category={category}
+      items={groupedItems[category] || []}
+      transactions={transactions}
+      cryptoPrices={cryptoPrices}
+      stockPrices={stockPrices}
+      usdToChfRate={usdToChfRate}
+      platforms={platforms}
+      onAddClick={() => setActiveCategory(category)}
+      onAddTransaction={handleAddTransaction}
+      onRemoveItem={handleRemoveItem}
+      onShowTransactions={handleShowTransactions}
+      onEditItem={handleEditItem}
+      onTransfer={TRANSFER_CATEGORIES.includes(category) ? handleTransfer : undefined}
+      returns={periodReturns?.byCategory[category]}
+      itemReturns={periodReturns?.byItem}
+    />
+  )
+
   return (
     <div className="min-h-screen px-2 lg:px-6 pt-4 pb-12 lg:pt-6 lg:pb-16">
       <div className="max-w-7xl mx-auto space-y-6">
         {/* Page Title */}
-        <Heading level={1}>Net Worth</Heading>
+        <div className="flex items-center justify-between gap-4">
+          <Heading level={1}>Net Worth</Heading>
+          <div className="flex items-center gap-2">
+            <select
+              value={returnPeriod}
+              onChange={(e) => setReturnPeriod(e.target.value as ReturnPeriod)}
+              className="bg-bg-surface-2 border border-border-subtle rounded-full px-3 py-2 text-[0.567rem] md:text-xs text-text-primary focus:outline-none focus:border-accent-blue"
+              aria-label="Return period"
+            >
+              {RETURN_PERIODS.map((period) => (
+                <option key={period} value={period}>Returns: {RETURN_PERIOD_LABELS[period]}</option>
+              ))}
+            </select>
+            <button
+              type="button"
+              onClick={() => setIsImportOpen(true)}
+              className="px-4 py-2 rounded-full text-[0.567rem] md:text-xs bg-bg-surface-2 border border-border-subtle text-text-primary hover:bg-bg-surface-3 transition-colors"
+            >
+              Import CSV
+            </button>
+          </div>
+        </div>
         
         {/* Total Net Worth */}
         <div className="bg-bg-frame border border-border-subtle rounded-card shadow-card px-3 py-3 lg:p-6">
@@ -1302,31 +1601,60 @@ function NetWorth() {
               </TotalText>
             </div>
           </div>
+          {/* Gross assets, liabilities, net */}
+          <div className="grid grid-cols-3 gap-3 text-[0.567rem] md:text-xs">
+            <div>
+              <div className="text-text-secondary">Gross Assets</div>
+              <TotalText variant={grossAssets > 0 ? 'inflow' : 'neutral'} className="block">
+                {formatCurrency(grossAssets)}
+              </TotalText>
+            </div>
+            <div>
+              <div className="text-text-secondary">Liabilities</div>
+              <TotalText variant={totalLiabilities > 0 ? 'outflow' : 'neutral'} className="block">
+                {formatCurrency(-totalLiabilities)}
+              </TotalText>
+            </div>
+            <div>
+              <div className="text-text-secondary">Net</div>
+              <TotalText
+                variant={totalNetWorth > 0 ? 'inflow' : totalNetWorth < 0 ? 'outflow' : 'neutral'}
+                className="block"
+              >
+                {formatCurrency(totalNetWorth)}
+              </TotalText>
+            </div>
+          </div>
+          {/* Time- and money-weighted returns of the selected period */}
+          <div className="mt-3 text-[0.567rem] md:text-xs text-text-secondary">
+            {periodReturns && periodReturns.portfolio.twr !== null ? (
+              <>
+                {RETURN_PERIOD_LABELS[returnPeriod]} since {formatDate(periodReturns.portfolio.startDate)}:{' '}
+                <TotalText variant={periodReturns.portfolio.twr >= 0 ? 'inflow' : 'outflow'}>
+                  TWR {formatReturnPct(periodReturns.portfolio.twr)}
+                </TotalText>
+                {' · '}XIRR {formatReturnPct(periodReturns.portfolio.xirr)} p.a.
+              </>
+            ) : (
+              <span className="text-text-muted">Returns need at least one snapshot with per-item detail.</span>
+            )}
+          </div>
         </div>
 
         {/* Grouped Categories */}
         <div className="space-y-6">
-          {categoryOrder.map((category) => {
-            const items = groupedItems[category] || []
+          {categoryOrder.map(renderCategorySection)}
+        </div>
 
-            return (
-              <NetWorthCategorySection
-                key={category}
-                category={category}
-                items={items}
-                transactions={transactions}
-                cryptoPrices={cryptoPrices}
-                stockPrices={stockPrices}
-                usdToChfRate={usdToChfRate}
-                platforms={platforms}
-                onAddClick={() => setActiveCategory(category)}
-                onAddTransaction={handleAddTransaction}
-                onRemoveItem={handleRemoveItem}
-                onShowTransactions={handleShowTransactions}
-                onEditItem={handleEditItem}
-              />
-            )
-          })}
+        {/* Liabilities */}
+        <div className="space-y-6">
+          <div className="flex items-end justify-between gap-4">
+            <Heading level={2}>Liabilities</Heading>
+            <TotalText variant={totalLiabilities > 0 ? 'outflow' : 'neutral'}>
+              {formatCurrency(-totalLiabilities)}
+            </TotalText>
+          </div>
+          {liabilityCategoryOrder.map(renderCategorySection)}
         </div>
 
         {/* Add Item Modal */}
@@ -1359,6 +1687,32 @@ function NetWorth() {
           )
         })()}
 
+        {/* Transfer Modal */}
+        {transferItemId && (() => {
+          const item = netWorthItems.find(i => i.id === transferItemId)
+          if (!item) return null
+          return (
+            <TransferModal
+              item={item}
+              items={netWorthItems}
+              transactions={transactions}
+              onClose={() => setTransferItemId(null)}
+              onSave={handleSaveTransfer}
+            />
+          )
+        })()}
+
+        {/* Import Transactions Modal */}
+        {isImportOpen && (
+          <ImportTransactionsModal
+            items={netWorthItems}
+            transactions={transactions}
+            platforms={platforms}
+            onClose={() => setIsImportOpen(false)}
+            onImport={handleImportTransactions}
+          />
+        )}
+
         {/* Show Transactions Modal */}
         {showTransactionsItemId && (() => {
           const item = netWorthItems.find(i => i.id === showTransactionsItemId)
@@ -1367,6 +1721,7 @@ function NetWorth() {
             <ShowTransactionsModal
               item={item}
               transactions={transactions.filter(tx => tx.itemId === showTransactionsItemId)}
+              items={netWorthItems}
               cryptoPrices={cryptoPrices}
               platforms={platforms}
               onClose={() => setShowTransactionsItemId(null)}
@@ -1415,105 +1770,513 @@ function NetWorth() {
   )
 }
 
-// Add Item Modal
-interface AddNetWorthItemModalProps {
-  category: NetWorthCategory
-  platforms: Platform[]
-  onClose: () => void
-  onSubmit: (
-    category: NetWorthCategory,
-    data: { name: string; currency: string; platform: string; monthlyDepreciationChf?: number }
-  ) => Promise<string> | string | void // Returns itemId if available
-  onSaveTransaction?: (itemId: string, transaction: Omit<NetWorthTransaction, 'id' | 'itemId'>) => void
+// Loan schedule form (Mortgage and Loan categories)
+const LOAN_SCHEDULE_CATEGORIES: NetWorthCategory[] = ['Mortgage', 'Loan']
+
+interface LoanScheduleFormState {
+  enabled: boolean
+  principal: string
+  rateType: LoanRateType
+  ratePercent: string
+  saronPercent: string
+  startDate: string // YYYY-MM-DD
+  termMonths: string
+  amortizationType: LoanAmortizationType
+  annualAmortization: string
 }
 
-function AddNetWorthItemModal({ category, platforms, onClose, onSubmit, onSaveTransaction }: AddNetWorthItemModalProps) {
-  const { convert } = useCurrency()
-  const isCrypto = category === 'Crypto'
-  const isStockCategory = category === 'Index Funds' || category === 'Stocks' || category === 'Commodities'
-  // Categories where price per item is always 1 (no need to show input)
-  const categoriesWithoutPricePerItem: NetWorthCategory[] = ['Cash', 'Bank Accounts', 'Retirement Funds', 'Real Estate', 'Perpetuals']
-  const hidePricePerItem = categoriesWithoutPricePerItem.includes(category)
-  
-  const [name, setName] = useState('')
-  const [amount, setAmount] = useState('')
-  const [pricePerItem, setPricePerItem] = useState('')
-  const [monthlyDepreciationChf, setMonthlyDepreciationChf] = useState('')
-  // Index Funds, Stocks, Commodities: user selects CHF, USD, or EUR. Crypto: USD. Others: default CHF.
-  const [currency, setCurrency] = useState<CurrencyCode>(
-    isCrypto || isStockCategory ? 'USD' : 'CHF'
-  )
-  const [platform, setPlatform] = useState('Physical')
-  const isDepreciatingAsset = category === 'Depreciating Assets'
-  // For date input, use YYYY-MM-DD format (HTML5 date input format)
-  const [date, setDate] = useState(() => {
-    const now = new Date()
-    return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`
-  })
-  const [error, setError] = useState<string | null>(null)
-  const [isLoadingPrice, setIsLoadingPrice] = useState(false)
-  const [priceError, setPriceError] = useState<string | null>(null)
-
-  useEffect(() => {
-    if (isCrypto && name.trim()) {
-      const ticker = name.trim().toUpperCase()
+function getLoanScheduleFormState(schedule?: LoanSchedule): LoanScheduleFormState {
+  const now = new Date()
+  return {
+    enabled: !!schedule,
+    principal: schedule?.principal.toString() || '',
+    rateType: schedule?.rateType || 'fixed',
+    ratePercent: schedule?.ratePercent.toString() || '',
+    saronPercent: schedule?.saronPercent?.toString() || '',
+    startDate: schedule?.startDate || `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`,
+    termMonths: schedule?.termMonths.toString() || '',
+    amortizationType: schedule?.amortizationType || 'direct',
+    annualAmortization: schedule?.annualAmortization?.toString() || '',
+  }
+}
 
-      const debounceTimer = setTimeout(() => {
-        setIsLoadingPrice(true)
-        setPriceError(null)
+/**
+ * Validate the loan schedule form. Returns the schedule, or an error message.
+ */
+function parseLoanScheduleForm(form: LoanScheduleFormState): { schedule?: LoanSchedule; error?: string } {
+  const principal = Number(form.principal)
+  if (!form.principal || Number.isNaN(principal) || principal <= 0) {
+    return { error: 'Please enter a valid principal greater than 0.' }
+  }
+  const ratePercent = Number(form.ratePercent)
+  if (form.ratePercent === '' || Number.isNaN(ratePercent) || ratePercent < 0) {
+    return { error: form.rateType === 'saron' ? 'Please enter a valid SARON margin.' : 'Please enter a valid interest rate.' }
+  }
+  const saronPercent = Number(form.saronPercent)
+  if (form.rateType === 'saron' && (form.saronPercent === '' || Number.isNaN(saronPercent))) {
+    return { error: 'Please enter the current SARON rate.' }
+  }
+  if (!form.startDate) {
+    return { error: 'Please select a start date.' }
+  }
+  const termMonths = Number(form.termMonths)
+  if (!form.termMonths || !Number.isInteger(termMonths) || termMonths <= 0) {
+    return { error: 'Please enter a valid term in months.' }
+  }
+  const annualAmortization = Number(form.annualAmortization)
+  if (form.annualAmortization !== '' && (Number.isNaN(annualAmortization) || annualAmortization < 0)) {
+    return { error: 'Please enter a valid yearly amortization amount.' }
+  }
 
-        fetchCryptoPrices([ticker])
-          .then((prices) => {
-            const price = prices[ticker]
-            if (price !== undefined && price !== null) {
-              setPricePerItem(price.toString())
-              setPriceError(null)
-            } else {
-              setPriceError(`Could not fetch price for ${ticker}. Please enter price manually.`)
-            }
-          })
-          .catch(() => {
-            setPriceError(`Failed to fetch price for ${ticker}. Please enter price manually.`)
-          })
-          .finally(() => {
-            setIsLoadingPrice(false)
-          })
-      }, 1000)
+  return {
+    schedule: {
+      principal,
+      rateType: form.rateType,
+      ratePercent,
+      ...(form.rateType === 'saron' && { saronPercent }),
+      startDate: form.startDate,
+      termMonths,
+      amortizationType: form.amortizationType,
+      ...(form.annualAmortization !== '' && { annualAmortization }),
+    },
+  }
+}
 
-      return () => clearTimeout(debounceTimer)
-    } else if (isCrypto && !name.trim()) {
-      setPricePerItem('')
-      setPriceError(null)
-      setIsLoadingPrice(false)
-    }
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [isCrypto, name])
+interface LoanScheduleFieldsProps {
+  idPrefix: string
+  currency: string
+  form: LoanScheduleFormState
+  onChange: (form: LoanScheduleFormState) => void
+}
 
-  useEffect(() => {
-    if (isStockCategory && name.trim()) {
-      const ticker = name.trim().toUpperCase()
+function LoanScheduleFields({ idPrefix, currency, form, onChange }: LoanScheduleFieldsProps) {
+  const update = (changes: Partial<LoanScheduleFormState>) => onChange({ ...form, ...changes })
+  const labelClass = 'block text-text-secondary text-[0.567rem] md:text-xs font-medium mb-1'
+  const inputClass = 'w-full bg-bg-surface-2 border border-border-subtle rounded-input px-3 py-2 text-text-primary text-xs md:text-sm focus:outline-none focus:border-accent-blue'
+  const selectClass = 'w-full bg-bg-surface-2 border border-border-subtle rounded-input pl-3 pr-8 py-2 text-text-primary text-xs md:text-sm focus:outline-none focus:border-accent-blue'
 
-      const debounceTimer = setTimeout(() => {
-        setIsLoadingPrice(true)
-        setPriceError(null)
+  return (
+    <div className="space-y-4">
+      <label className="flex items-center gap-2 text-text-primary text-[0.567rem] md:text-xs cursor-pointer">
+        <input
+          id={`${idPrefix}-loan-enabled`}
+          type="checkbox"
+          checked={form.enabled}
+          onChange={(e) => update({ enabled: e.target.checked })}
+        />
+        Amortization schedule (balance, interest and amortization are calculated automatically)
+      </label>
+
+      {form.enabled && (
+        <>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className={labelClass} htmlFor={`${idPrefix}-loan-principal`}>
+                Principal ({currency})
+              </label>
+              <input
+                id={`${idPrefix}-loan-principal`}
+                type="number"
+                step="0.01"
+                min="0"
+                value={form.principal}
+                onChange={(e) => update({ principal: e.target.value })}
+                className={inputClass}
+                placeholder="e.g. 800000"
+              />
+            </div>
+            <div>
+              <label className={labelClass} htmlFor={`${idPrefix}-loan-start`}>
+                Start date
+              </label>
+              <input
+                id={`${idPrefix}-loan-start`}
+                type="date"
+                value={form.startDate}
+                onChange={(e) => update({ startDate: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+          </div>
 
-        getDailyPricesMap([ticker])
-          .then((prices) => {
-            const price = prices[ticker]
-            if (price !== undefined && price !== null) {
-              setPricePerItem(price.toString())
-              setPriceError(null)
-            } else {
-              setPriceError(`Price for ${ticker} not found. Please enter price manually.`)
-            }
-          })
-          .catch(() => {
-            setPriceError(`Failed to fetch price for ${ticker}. Please enter price manually.`)
-          })
-          .finally(() => {
-            setIsLoadingPrice(false)
-          })
-      }, 1000)
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className={labelClass} htmlFor={`${idPrefix}-loan-rate-type`}>
+                Interest rate
+              </label>
+              <select
+                id={`${idPrefix}-loan-rate-type`}
+                value={form.rateType}
+                onChange={(e) => update({ rateType: e.target.value as LoanRateType })}
+                className={selectClass}
+              >
+                <option value="fixed">Fixed</option>
+                <option value="saron">SARON-linked</option>
+              </select>
+            </div>
+            <div>
+              <label className={labelClass} htmlFor={`${idPrefix}-loan-rate`}>
+                {form.rateType === 'saron' ? 'Margin (%)' : 'Rate (%)'}
+              </label>
+              <input
+                id={`${idPrefix}-loan-rate`}
+                type="number"
+                step="0.001"
+                min="0"
+                value={form.ratePercent}
+                onChange={(e) => update({ ratePercent: e.target.value })}
+                className={inputClass}
+                placeholder={form.rateType === 'saron' ? 'e.g. 0.80' : 'e.g. 1.75'}
+              />
+            </div>
+          </div>
+
+          {form.rateType === 'saron' && (
+            <div>
+              <label className={labelClass} htmlFor={`${idPrefix}-loan-saron`}>
+                Current SARON (%)
+              </label>
+              <input
+                id={`${idPrefix}-loan-saron`}
+                type="number"
+                step="0.001"
+                value={form.saronPercent}
+                onChange={(e) => update({ saronPercent: e.target.value })}
+                className={inputClass}
+                placeholder="e.g. 0.95"
+              />
+              <p className="mt-1 text-[0.4725rem] md:text-[0.567rem] text-text-muted">
+                Negative SARON is floored at 0%
+              </p>
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className={labelClass} htmlFor={`${idPrefix}-loan-term`}>
+                Term (months)
+              </label>
+              <input
+                id={`${idPrefix}-loan-term`}
+                type="number"
+                step="1"
+                min="1"
+                value={form.termMonths}
+                onChange={(e) => update({ termMonths: e.target.value })}
+                className={inputClass}
+                placeholder="e.g. 120"
+              />
+            </div>
+            <div>
+              <label className={labelClass} htmlFor={`${idPrefix}-loan-amortization-type`}>
+                Amortization
+              </label>
+              <select
+                id={`${idPrefix}-loan-amortization-type`}
+                value={form.amortizationType}
+                onChange={(e) => update({ amortizationType: e.target.value as LoanAmortizationType })}
+                className={selectClass}
+              >
+                <option value="direct">Direct</option>
+                <option value="indirect">Indirect (via 3a)</option>
+              </select>
+            </div>
+          </div>
+
+          <div>
+            <label className={labelClass} htmlFor={`${idPrefix}-loan-annual-amortization`}>
+              Yearly amortization ({currency}, optional)
+            </label>
+            <input
+              id={`${idPrefix}-loan-annual-amortization`}
+              type="number"
+              step="0.01"
+              min="0"
+              value={form.annualAmortization}
+              onChange={(e) => update({ annualAmortization: e.target.value })}
+              className={inputClass}
+              placeholder="Defaults to principal spread over the term"
+            />
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
+
+// Corporate actions (splits, reverse splits, ticker changes) for priced categories
+const CORPORATE_ACTION_CATEGORIES: NetWorthCategory[] = ['Crypto', 'Index Funds', 'Stocks', 'Commodities']
+
+type CorporateActionFormType = 'SPLIT' | 'REVERSE_SPLIT' | 'TICKER_CHANGE'
+
+interface CorporateActionsFieldsProps {
+  idPrefix: string
+  symbol: string
+  actions: CorporateAction[]
+  onChange: (actions: CorporateAction[]) => void
+  /** Called with the new symbol when a ticker change is added */
+  onTickerChange: (toSymbol: string) => void
+  onError: (error: string | null) => void
+}
+
+function describeCorporateAction(action: CorporateAction): string {
+  if (action.type === 'TICKER_CHANGE') return `Ticker change ${action.fromSymbol} → ${action.toSymbol}`
+  return action.to > action.from
+    ? `Split ${action.to}-for-${action.from}`
+    : `Reverse split ${action.to}-for-${action.from}`
+}
+
+function CorporateActionsFields({ idPrefix, symbol, actions, onChange, onTickerChange, onError }: CorporateActionsFieldsProps) {
+  const [type, setType] = useState<CorporateActionFormType>('SPLIT')
+  const [date, setDate] = useState('')
+  const [ratio, setRatio] = useState('')
+  const [toSymbol, setToSymbol] = useState('')
+  const labelClass = 'block text-text-secondary text-[0.567rem] md:text-xs font-medium mb-1'
+  const inputClass = 'w-full bg-bg-surface-2 border border-border-subtle rounded-input px-3 py-2 text-text-primary text-xs md:text-sm focus:outline-none focus:border-accent-blue'
+  const selectClass = 'w-full bg-bg-surface-2 border border-border-subtle rounded-input pl-3 pr-8 py-2 text-text-primary text-xs md:text-sm focus:outline-none focus:border-accent-blue'
+
+  const handleAdd = () => {
+    if (!date) {
+      onError('Please select the date the corporate action took effect.')
+      return
+    }
+    const id =
+      typeof crypto !== 'undefined' && 'randomUUID' in crypto
+        ? crypto.randomUUID()
+        : String(Date.now())
+
+    let action: CorporateAction
+    if (type === 'TICKER_CHANGE') {
+      const newSymbol = toSymbol.trim().toUpperCase()
+      if (!newSymbol || newSymbol === symbol.trim().toUpperCase()) {
+        onError('Please enter the new ticker symbol.')
+        return
+      }
+      action = { id, type: 'TICKER_CHANGE', date, fromSymbol: symbol.trim().toUpperCase(), toSymbol: newSymbol }
+    } else {
+      // Ratio is entered as "new shares per old share" (split) or "old shares per new share" (reverse split)
+      const parsedRatio = Number(ratio)
+      if (!ratio || Number.isNaN(parsedRatio) || parsedRatio <= 0 || parsedRatio === 1) {
+        onError('Please enter a valid ratio other than 1.')
+        return
+      }
+      action = type === 'SPLIT'
+        ? { id, type: 'SPLIT', date, from: 1, to: parsedRatio }
+        : { id, type: 'SPLIT', date, from: parsedRatio, to: 1 }
+    }
+
+    onError(null)
+    onChange(getCorporateActions({ corporateActions: [...actions, action] }))
+    if (action.type === 'TICKER_CHANGE') onTickerChange(action.toSymbol)
+    setRatio('')
+    setToSymbol('')
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className={labelClass}>Corporate Actions</div>
+      {actions.length === 0 ? (
+        <p className="text-[0.4725rem] md:text-[0.567rem] text-text-muted">
+          No splits or ticker changes. Splits rescale the quantity and price of earlier transactions.
+        </p>
+      ) : (
+        <ul className="space-y-1">
+          {actions.map((action) => (
+            <li key={action.id} className="flex items-center justify-between gap-2 text-text-primary text-[0.567rem] md:text-xs">
+              <span>
+                {formatDate(action.date)} · {describeCorporateAction(action)}
+              </span>
+              <button
+                type="button"
+                onClick={() => onChange(actions.filter((a) => a.id !== action.id))}
+                className="text-danger hover:underline"
+              >
+                Remove
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <label className={labelClass} htmlFor={`${idPrefix}-corporate-action-type`}>
+            Type
+          </label>
+          <select
+            id={`${idPrefix}-corporate-action-type`}
+            value={type}
+            onChange={(e) => setType(e.target.value as CorporateActionFormType)}
+            className={selectClass}
+          >
+            <option value="SPLIT">Split</option>
+            <option value="REVERSE_SPLIT">Reverse split</option>
+            <option value="TICKER_CHANGE">Ticker change</option>
+          </select>
+        </div>
+        <div>
+          <label className={labelClass} htmlFor={`${idPrefix}-corporate-action-date`}>
+            Effective date
+          </label>
+          <input
+            id={`${idPrefix}-corporate-action-date`}
+            type="date"
+            value={date}
+            onChange={(e) => setDate(e.target.value)}
+            className={inputClass}
+          />
+        </div>
+      </div>
+
+      <div className="flex items-end gap-3">
+        <div className="flex-1">
+          {type === 'TICKER_CHANGE' ? (
+            <>
+              <label className={labelClass} htmlFor={`${idPrefix}-corporate-action-symbol`}>
+                New ticker
+              </label>
+              <input
+                id={`${idPrefix}-corporate-action-symbol`}
+                type="text"
+                value={toSymbol}
+                onChange={(e) => setToSymbol(e.target.value)}
+                className={inputClass}
+                placeholder="e.g. POL"
+              />
+            </>
+          ) : (
+            <>
+              <label className={labelClass} htmlFor={`${idPrefix}-corporate-action-ratio`}>
+                {type === 'SPLIT' ? 'New units per old unit' : 'Old units per new unit'}
+              </label>
+              <input
+                id={`${idPrefix}-corporate-action-ratio`}
+                type="number"
+                step="any"
+                min="0"
+                value={ratio}
+                onChange={(e) => setRatio(e.target.value)}
+                className={inputClass}
+                placeholder={type === 'SPLIT' ? 'e.g. 4' : 'e.g. 10'}
+              />
+            </>
+          )}
+        </div>
+        <button
+          type="button"
+          onClick={handleAdd}
+          className="px-4 py-2 rounded-full text-[0.567rem] md:text-xs bg-bg-surface-2 border border-border-subtle text-text-primary hover:bg-bg-surface-3 transition-colors"
+        >
+          Add
+        </button>
+      </div>
+    </div>
+  )
+}
+
+// Add Item Modal
+interface AddNetWorthItemModalProps {
+  category: NetWorthCategory
+  platforms: Platform[]
+  onClose: () => void
+  onSubmit: (
+    category: NetWorthCategory,
+    data: { name: string; currency: string; platform: string; monthlyDepreciationChf?: number; loanSchedule?: LoanSchedule }
+  ) => Promise<string> | string | void // Returns itemId if available
+  onSaveTransaction?: (itemId: string, transaction: Omit<NetWorthTransaction, 'id' | 'itemId'>) => void
+}
+
+function AddNetWorthItemModal({ category, platforms, onClose, onSubmit, onSaveTransaction }: AddNetWorthItemModalProps) {
+  const { convert } = useCurrency()
+  const isCrypto = category === 'Crypto'
+  const isStockCategory = category === 'Index Funds' || category === 'Stocks' || category === 'Commodities'
+  // Categories where price per item is always 1 (no need to show input)
+  const categoriesWithoutPricePerItem: NetWorthCategory[] = ['Cash', 'Bank Accounts', 'Retirement Funds', 'Real Estate', 'Perpetuals', ...LIABILITY_CATEGORIES]
+  const hidePricePerItem = categoriesWithoutPricePerItem.includes(category)
+  
+  const [name, setName] = useState('')
+  const [amount, setAmount] = useState('')
+  const [pricePerItem, setPricePerItem] = useState('')
+  const [monthlyDepreciationChf, setMonthlyDepreciationChf] = useState('')
+  // Index Funds, Stocks, Commodities: user selects CHF, USD, or EUR. Crypto: USD. Others: default CHF.
+  const [currency, setCurrency] = useState<CurrencyCode>(
+    isCrypto || isStockCategory ? 'USD' : 'CHF'
+  )
+  const [platform, setPlatform] = useState('Physical')
+  const isDepreciatingAsset = category === 'Depreciating Assets'
+  const isLiability = isLiabilityCategory(category)
+  const supportsLoanSchedule = LOAN_SCHEDULE_CATEGORIES.includes(category)
+  const [loanScheduleForm, setLoanScheduleForm] = useState<LoanScheduleFormState>(() => getLoanScheduleFormState())
+  const hasLoanSchedule = supportsLoanSchedule && loanScheduleForm.enabled
+  // For date input, use YYYY-MM-DD format (HTML5 date input format)
+  const [date, setDate] = useState(() => {
+    const now = new Date()
+    return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`
+  })
+  const [error, setError] = useState<string | null>(null)
+  const [isLoadingPrice, setIsLoadingPrice] = useState(false)
+  const [priceError, setPriceError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (isCrypto && name.trim()) {
+      const ticker = name.trim().toUpperCase()
+
+      const debounceTimer = setTimeout(() => {
+        setIsLoadingPrice(true)
+        setPriceError(null)
+
+        fetchCryptoPrices([ticker])
+          .then((prices) => {
+            const price = prices[ticker]
+            if (price !== undefined && price !== null) {
+              setPricePerItem(price.toString())
+              setPriceError(null)
+            } else {
+              setPriceError(`Could not fetch price for ${ticker}. Please enter price manually.`)
+            }
+          })
+          .catch(() => {
+            setPriceError(`Failed to fetch price for ${ticker}. Please enter price manually.`)
+          })
+          .finally(() => {
+            setIsLoadingPrice(false)
+          })
+      }, 1000)
+
+      return () => clearTimeout(debounceTimer)
+    } else if (isCrypto && !name.trim()) {
+      setPricePerItem('')
+      setPriceError(null)
+      setIsLoadingPrice(false)
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isCrypto, name])
+
+  useEffect(() => {
+    if (isStockCategory && name.trim()) {
+      const ticker = name.trim().toUpperCase()
+
+      const debounceTimer = setTimeout(() => {
+        setIsLoadingPrice(true)
+        setPriceError(null)
+
+        getDailyPricesMap([ticker])
+          .then((prices) => {
+            const price = prices[ticker]
+            if (price !== undefined && price !== null) {
+              setPricePerItem(price.toString())
+              setPriceError(null)
+            } else {
+              setPriceError(`Price for ${ticker} not found. Please enter price manually.`)
+            }
+          })
+          .catch(() => {
+            setPriceError(`Failed to fetch price for ${ticker}. Please enter price manually.`)
+          })
+          .finally(() => {
+            setIsLoadingPrice(false)
+          })
+      }, 1000)
 
       return () => clearTimeout(debounceTimer)
     } else if (isStockCategory && !name.trim()) {
@@ -1526,11 +2289,11 @@ function AddNetWorthItemModal({ category, platforms, onClose, onSubmit, onSaveTr
 
   // Calculate total balance for all categories
   const totalBalance = useMemo(() => {
-    const parsedAmount = Number(amount) || 0
+    const parsedAmount = Number(hasLoanSchedule ? loanScheduleForm.principal : amount) || 0
     // For categories without price per item, price is always 1
     const parsedPrice = hidePricePerItem ? 1 : (Number(pricePerItem) || 0)
     return parsedAmount * parsedPrice
-  }, [amount, pricePerItem, hidePricePerItem])
+  }, [amount, pricePerItem, hidePricePerItem, hasLoanSchedule, loanScheduleForm.principal])
 
   const handleSubmit = async (e: FormEvent) => {
     e.preventDefault()
@@ -1541,18 +2304,29 @@ function AddNetWorthItemModal({ category, platforms, onClose, onSubmit, onSaveTr
       return
     }
 
-    if (!date) {
+    // With a loan schedule the principal is the opening balance at the schedule start date
+    let loanSchedule: LoanSchedule | undefined
+    if (hasLoanSchedule) {
+      const parsed = parseLoanScheduleForm(loanScheduleForm)
+      if (parsed.error) {
+        setError(parsed.error)
+        return
+      }
+      loanSchedule = parsed.schedule
+    }
+
+    if (!loanSchedule && !date) {
       setError('Please select a date.')
         return
       }
-    const parsedDate = date // Already in YYYY-MM-DD format
+    const parsedDate = loanSchedule ? loanSchedule.startDate : date // Already in YYYY-MM-DD format
 
     // For all categories, use the same format
-    const parsedAmount = Number(amount)
+    const parsedAmount = loanSchedule ? loanSchedule.principal : Number(amount)
     // For categories without price per item, price is always 1
     const parsedPricePerItem = hidePricePerItem ? 1 : Number(pricePerItem)
 
-    if (!amount || Number.isNaN(parsedAmount) || parsedAmount === 0) {
+    if (!loanSchedule && (!amount || Number.isNaN(parsedAmount) || parsedAmount === 0)) {
       setError('Please enter a valid amount (can be positive for buy or negative for sell).')
           return
         }
@@ -1583,6 +2357,7 @@ function AddNetWorthItemModal({ category, platforms, onClose, onSubmit, onSaveTr
       currency: itemCurrency,
       platform,
       ...(isDepreciatingAsset && { monthlyDepreciationChf: Number(monthlyDepreciationChf) }),
+      ...(loanSchedule && { loanSchedule }),
     })
     const newItemId = newItemIdResult instanceof Promise ? await newItemIdResult : newItemIdResult
 
@@ -1610,6 +2385,7 @@ function AddNetWorthItemModal({ category, platforms, onClose, onSubmit, onSaveTr
     setAmount('')
     setPricePerItem('')
     setMonthlyDepreciationChf('')
+    setLoanScheduleForm(getLoanScheduleFormState())
     setCurrency(isCrypto ? 'USD' : (isStockCategory ? 'USD' : 'CHF'))
     setPlatform('Physical')
     // Reset date to today in YYYY-MM-DD format
@@ -1685,12 +2461,23 @@ function AddNetWorthItemModal({ category, platforms, onClose, onSubmit, onSaveTr
             )}
           </div>
 
+          {/* Loan schedule for Mortgage and Loan (principal replaces the amount field) */}
+          {supportsLoanSchedule && (
+            <LoanScheduleFields
+              idPrefix="nw"
+              currency={currency}
+              form={loanScheduleForm}
+              onChange={setLoanScheduleForm}
+            />
+          )}
+
+          {!hasLoanSchedule && (
               <div>
                 <label
                   className="block text-text-secondary text-[0.567rem] md:text-xs font-medium mb-1"
               htmlFor="nw-amount"
                 >
-              Amount (holdings)
+              {isLiability ? 'Outstanding balance' : 'Amount (holdings)'}
                 </label>
                 <input
               id="nw-amount"
@@ -1699,9 +2486,10 @@ function AddNetWorthItemModal({ category, platforms, onClose, onSubmit, onSaveTr
                   value={amount}
                   onChange={(e) => setAmount(e.target.value)}
                   className="w-full bg-bg-surface-2 border border-border-subtle rounded-input px-3 py-2 text-text-primary text-xs md:text-sm focus:outline-none focus:border-accent-blue"
-              placeholder="Positive for buy, negative for sell"
+              placeholder={isLiability ? 'Amount owed (positive)' : 'Positive for buy, negative for sell'}
                 />
               </div>
+          )}
 
           {/* Only show price per item field for categories that need it */}
           {!hidePricePerItem && (
@@ -1800,6 +2588,7 @@ function AddNetWorthItemModal({ category, platforms, onClose, onSubmit, onSaveTr
             </select>
           </div>
 
+          {!hasLoanSchedule && (
               <div>
                 <label
                   className="block text-text-secondary text-[0.567rem] md:text-xs font-medium mb-1"
@@ -1854,6 +2643,7 @@ function AddNetWorthItemModal({ category, platforms, onClose, onSubmit, onSaveTr
               </button>
               </div>
           </div>
+          )}
 
           <div className="flex justify-end gap-3 pt-2">
             <button
@@ -1881,7 +2671,15 @@ interface EditNetWorthItemModalProps {
   item: NetWorthItem
   platforms: Platform[]
   onClose: () => void
-  onSave: (itemId: string, newName: string, currency: string, platform: string, monthlyDepreciationChf?: number) => void
+  onSave: (
+    itemId: string,
+    newName: string,
+    currency: string,
+    platform: string,
+    monthlyDepreciationChf?: number,
+    loanSchedule?: LoanSchedule,
+    corporateActions?: CorporateAction[]
+  ) => void
 }
 
 function EditNetWorthItemModal({ item, platforms, onClose, onSave }: EditNetWorthItemModalProps) {
@@ -1893,6 +2691,12 @@ function EditNetWorthItemModal({ item, platforms, onClose, onSave }: EditNetWort
   const [monthlyDepreciationChf, setMonthlyDepreciationChf] = useState(
     item.monthlyDepreciationChf?.toString() || ''
   )
+  const supportsLoanSchedule = LOAN_SCHEDULE_CATEGORIES.includes(item.category)
+  const [loanScheduleForm, setLoanScheduleForm] = useState<LoanScheduleFormState>(() =>
+    getLoanScheduleFormState(item.loanSchedule)
+  )
+  const supportsCorporateActions = CORPORATE_ACTION_CATEGORIES.includes(item.category)
+  const [corporateActions, setCorporateActions] = useState<CorporateAction[]>(() => getCorporateActions(item))
   const [error, setError] = useState<string | null>(null)
 
   const handleSubmit = (e: FormEvent) => {
@@ -1913,13 +2717,25 @@ function EditNetWorthItemModal({ item, platforms, onClose, onSave }: EditNetWort
       }
     }
 
+    let loanSchedule: LoanSchedule | undefined
+    if (supportsLoanSchedule && loanScheduleForm.enabled) {
+      const parsed = parseLoanScheduleForm(loanScheduleForm)
+      if (parsed.error) {
+        setError(parsed.error)
+        return
+      }
+      loanSchedule = parsed.schedule
+    }
+
     // Currency cannot be changed - always use item's original currency
     onSave(
       item.id, 
       name.trim(), 
       item.currency, 
       platform,
-      isDepreciatingAsset ? Number(monthlyDepreciationChf) : undefined
+      isDepreciatingAsset ? Number(monthlyDepreciationChf) : undefined,
+      loanSchedule,
+      supportsCorporateActions ? corporateActions : undefined
     )
     onClose()
   }
@@ -2060,6 +2876,28 @@ function EditNetWorthItemModal({ item, platforms, onClose, onSave }: EditNetWort
             </div>
           )}
 
+          {/* Loan schedule for Mortgage and Loan */}
+          {supportsLoanSchedule && (
+            <LoanScheduleFields
+              idPrefix="edit"
+              currency={item.currency}
+              form={loanScheduleForm}
+              onChange={setLoanScheduleForm}
+            />
+          )}
+
+          {/* Splits and ticker changes for priced items */}
+          {supportsCorporateActions && (
+            <CorporateActionsFields
+              idPrefix="edit"
+              symbol={name}
+              actions={corporateActions}
+              onChange={setCorporateActions}
+              onTickerChange={setName}
+              onError={setError}
+            />
+          )}
+
           <div className="flex justify-end gap-3 pt-2">
             <button
               type="button"
@@ -2091,7 +2929,7 @@ interface AddTransactionModalProps {
 }
 
 // Categories that don't need price per item (1 unit = 1 CHF equivalent)
-const categoriesWithoutPricePerItem: NetWorthCategory[] = ['Cash', 'Bank Accounts', 'Real Estate']
+const categoriesWithoutPricePerItem: NetWorthCategory[] = ['Cash', 'Bank Accounts', 'Real Estate', ...LIABILITY_CATEGORIES]
 
 type TransactionTab = 'buy' | 'sell'
 
@@ -2103,14 +2941,19 @@ function AddTransactionModal({ item, transaction, transactions = [], onClose, on
   const isCrypto = item.category === 'Crypto'
   const isStockCategory = item.category === 'Index Funds' || item.category === 'Stocks' || item.category === 'Commodities'
   // Categories where price per item is always 1 (no need to show input)
-  const categoriesWithoutPricePerItem: NetWorthCategory[] = ['Cash', 'Bank Accounts', 'Retirement Funds', 'Real Estate', 'Perpetuals']
+  const categoriesWithoutPricePerItem: NetWorthCategory[] = ['Cash', 'Bank Accounts', 'Retirement Funds', 'Real Estate', 'Perpetuals', ...LIABILITY_CATEGORIES]
   const hidePricePerItem = categoriesWithoutPricePerItem.includes(item.category)
   // Categories that support Buy/Sell and Adjustment modes
   const supportsAdjustmentMode: NetWorthCategory[] = [
     'Crypto', 'Cash', 'Bank Accounts', 'Retirement Funds', 'Stocks', 
-    'Commodities', 'Real Estate', 'Depreciating Assets'
+    'Commodities', 'Real Estate', 'Depreciating Assets', ...LIABILITY_CATEGORIES
   ]
   const canUseAdjustmentMode = supportsAdjustmentMode.includes(item.category)
+  // Categories that can record income (dividends, interest, staking rewards) and fees
+  const supportsIncomeMode: NetWorthCategory[] = [
+    'Crypto', 'Cash', 'Bank Accounts', 'Retirement Funds', 'Index Funds', 'Stocks', 'Commodities', 'Real Estate'
+  ]
+  const canUseIncomeMode = supportsIncomeMode.includes(item.category)
   
   // For all categories, use original pricePerItem if available, otherwise convert from CHF
   const getInitialPrice = () => {
@@ -2143,6 +2986,22 @@ function AddTransactionModal({ item, transaction, transactions = [], onClose, on
     }
     return false // Default to Buy/Sell mode for new transactions
   })
+
+  // Income/Fee mode: DIVIDEND, INTEREST, STAKING or FEE with gross/withholding tax/net amounts
+  const [isIncomeMode, setIsIncomeMode] = useState<boolean>(() => {
+    return canUseIncomeMode && !!transaction && (isIncomeTransaction(transaction) || isFeeTransaction(transaction))
+  })
+  const [incomeType, setIncomeType] = useState<IncomeFeeTransactionType>(() => {
+    if (transaction && (isIncomeTransaction(transaction) || isFeeTransaction(transaction))) {
+      return transaction.cryptoType as IncomeFeeTransactionType
+    }
+    return isCrypto ? 'STAKING' : 'DIVIDEND'
+  })
+  const [grossAmount, setGrossAmount] = useState(() => {
+    if (!transaction || !(isIncomeTransaction(transaction) || isFeeTransaction(transaction))) return ''
+    return getIncomeBreakdown(transaction).gross.toString()
+  })
+  const [withholdingTax, setWithholdingTax] = useState(() => transaction?.withholdingTax ? transaction.withholdingTax.toString() : '')
   
   // Transaction reason/note (available for all transaction types)
   const [adjustmentReason, setAdjustmentReason] = useState(() => transaction?.adjustmentReason || '')
@@ -2165,6 +3024,10 @@ function AddTransactionModal({ item, transaction, transactions = [], onClose, on
         // ADJUSTMENT can be negative, show the signed amount
         return transaction.amount.toString()
       }
+      if (isIncomeTransaction(transaction) || isFeeTransaction(transaction)) {
+        // Income/fee: units received or paid, always positive
+        return Math.abs(transaction.amount).toString()
+      }
       // BUY/SELL: keep the original sign
       return transaction.side === 'sell' ? `-${transaction.amount}` : transaction.amount.toString()
     }
@@ -2173,6 +3036,7 @@ function AddTransactionModal({ item, transaction, transactions = [], onClose, on
   
   // Derive transactionType from mode and amount (must be after amount is defined)
   const transactionType = useMemo<CryptoTransactionType>(() => {
+    if (isIncomeMode) return incomeType
     if (!canUseAdjustmentMode) return 'BUY' // Not used for unsupported categories
     if (isAdjustmentMode) return 'ADJUSTMENT'
     // In Buy/Sell mode, determine from amount sign
@@ -2182,7 +3046,7 @@ function AddTransactionModal({ item, transaction, transactions = [], onClose, on
     }
     // Default to BUY if amount is 0 or invalid
     return 'BUY'
-  }, [canUseAdjustmentMode, isAdjustmentMode, amount])
+  }, [canUseAdjustmentMode, isAdjustmentMode, isIncomeMode, incomeType, amount])
   
   const [targetHoldings, setTargetHoldings] = useState(() => {
     if (transaction) {
@@ -2191,12 +3055,12 @@ function AddTransactionModal({ item, transaction, transactions = [], onClose, on
         tx.itemId === item.id && tx.id !== transaction.id
       )
       // For all categories, use holdings (quantity)
-      const holdingsBefore = calculateHoldings(item.id, relevantTransactions)
+      const holdingsBefore = calculateHoldings(item.id, relevantTransactions, item)
       return (holdingsBefore + (transaction.side === 'buy' ? 1 : -1) * transaction.amount).toString()
     }
     // Default to current holdings for new transactions
     const relevantTransactions = transactions.filter(tx => tx.itemId === item.id)
-    const currentHoldingsValue = calculateHoldings(item.id, relevantTransactions)
+    const currentHoldingsValue = calculateHoldings(item.id, relevantTransactions, item)
     return currentHoldingsValue.toString()
   })
   const [isUpdatingFromAmount, setIsUpdatingFromAmount] = useState(false)
@@ -2231,7 +3095,7 @@ function AddTransactionModal({ item, transaction, transactions = [], onClose, on
     const relevantTransactions = transactions.filter(tx => 
       tx.itemId === item.id && (!transaction || tx.id !== transaction.id)
     )
-    return calculateHoldings(item.id, relevantTransactions)
+    return calculateHoldings(item.id, relevantTransactions, item)
   }, [transactions, item.id, transaction])
   
   // Calculate current balance for display (for crypto: balance value in USD, for others: same as holdings)
@@ -2364,6 +3228,11 @@ function AddTransactionModal({ item, transaction, transactions = [], onClose, on
     if (isCrypto && isAdjustmentMode) {
       return 0
     }
+    // For income and fees, the total is the gross amount
+    if (isIncomeMode) {
+      const parsedGross = Number(grossAmount)
+      return isNaN(parsedGross) ? 0 : parsedGross
+    }
     // Use absolute value for calculation
     const absoluteAmount = Math.abs(parsedAmount)
     // For categories without price per item, price is always 1
@@ -2374,7 +3243,7 @@ function AddTransactionModal({ item, transaction, transactions = [], onClose, on
     // For all categories, total is in the selected currency (not converted to CHF for display)
     // The total will be converted to CHF when saving
     return absoluteAmount * parsedPrice
-  }, [amount, pricePerItemChf, hidePricePerItem, isCrypto, isAdjustmentMode])
+  }, [amount, pricePerItemChf, hidePricePerItem, isCrypto, isAdjustmentMode, isIncomeMode, grossAmount])
 
   // Update target holdings when amount changes (only in amount mode)
   useEffect(() => {
@@ -2416,11 +3285,55 @@ function AddTransactionModal({ item, transaction, transactions = [], onClose, on
     const parsedDate = date
 
     // Handle transaction types for supported categories
-    if (canUseAdjustmentMode && transactionType) {
+    if ((canUseAdjustmentMode || isIncomeMode) && transactionType) {
       // Index Funds, Stocks, Commodities: use item currency (CHF, USD, EUR). Crypto: USD. Others: item currency.
       const transactionCurrency = (isCrypto ? 'USD' : (item.currency as CurrencyCode))
       
       switch (transactionType) {
+        case 'DIVIDEND':
+        case 'INTEREST':
+        case 'STAKING':
+        case 'FEE': {
+          const isFee = transactionType === 'FEE'
+          const parsedGross = Number(grossAmount)
+          const parsedWithholding = !isFee && withholdingTax ? Number(withholdingTax) : 0
+
+          if (!grossAmount || Number.isNaN(parsedGross) || parsedGross <= 0) {
+            setError(isFee ? 'Please enter a valid fee amount greater than 0.' : 'Please enter a valid gross amount greater than 0.')
+            return
+          }
+          if (Number.isNaN(parsedWithholding) || parsedWithholding < 0 || parsedWithholding > parsedGross) {
+            setError('Withholding tax must be between 0 and the gross amount.')
+            return
+          }
+
+          const netValue = isFee ? parsedGross : parsedGross - parsedWithholding
+          // Cash-like items hold the money itself: income is credited to (fees taken from) the balance.
+          // Other items record the units received/paid (0 when settled in cash elsewhere).
+          const units = hidePricePerItem ? netValue : Math.abs(Number(amount) || 0)
+          const parsedPrice = hidePricePerItem ? 1 : Number(pricePerItemChf)
+
+          if (!hidePricePerItem && units > 0 && (!pricePerItemChf || Number.isNaN(parsedPrice) || parsedPrice <= 0)) {
+            setError('Please enter a valid price per item greater than 0.')
+            return
+          }
+
+          onSave({
+            itemId: item.id,
+            side: isFee ? 'sell' : 'buy',
+            currency: transactionCurrency,
+            amount: units,
+            pricePerItemChf: hidePricePerItem ? 1 : units > 0 ? convert(parsedPrice, transactionCurrency) : 0,
+            pricePerItem: hidePricePerItem ? 1 : units > 0 ? parsedPrice : 0,
+            date: parsedDate,
+            cryptoType: transactionType,
+            grossAmount: parsedGross,
+            withholdingTax: isFee ? undefined : parsedWithholding,
+            netAmount: netValue,
+            adjustmentReason: adjustmentReason || undefined,
+          })
+          break
+        }
         case 'BUY':
         case 'SELL': {
           const parsedAmount = Number(amount)
@@ -2521,9 +3434,12 @@ function AddTransactionModal({ item, transaction, transactions = [], onClose, on
     setAmount('0')
     setPricePerItemChf('')
     setAdjustmentReason('')
+    setGrossAmount('')
+    setWithholdingTax('')
     if (canUseAdjustmentMode) {
       setIsAdjustmentMode(false)
     }
+    setIsIncomeMode(false)
     // Reset date to today in YYYY-MM-DD format
     const now = new Date()
     setDate(`${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`)
@@ -2548,7 +3464,7 @@ function AddTransactionModal({ item, transaction, transactions = [], onClose, on
 
         <form onSubmit={handleSubmit} className="space-y-4">
           {/* Transaction Mode Selection - Switch Button (for supported categories) */}
-          {canUseAdjustmentMode && (
+          {(canUseAdjustmentMode || canUseIncomeMode) && (
             <div>
               <label className="block text-text-secondary text-[0.567rem] md:text-xs font-medium mb-2">
                 Transaction Mode
@@ -2556,69 +3472,181 @@ function AddTransactionModal({ item, transaction, transactions = [], onClose, on
               <div className="relative inline-flex rounded-lg bg-bg-surface-2 border border-border-subtle p-1 w-full" role="group">
                 <button
                   type="button"
-                  onClick={() => setIsAdjustmentMode(false)}
+                  onClick={() => {
+                    setIsAdjustmentMode(false)
+                    setIsIncomeMode(false)
+                  }}
                   className={`flex-1 px-3 py-2 text-[0.567rem] md:text-xs font-medium rounded-md transition-all duration-200 ${
-                    !isAdjustmentMode
+                    !isAdjustmentMode && !isIncomeMode
                       ? 'bg-gradient-to-r from-[#DAA520] to-[#B87333] text-[#050A1A] shadow-card'
                       : 'text-text-secondary hover:text-text-primary'
                   }`}
                 >
                   Buy/Sell
                 </button>
+                {canUseAdjustmentMode && (
+                  <button
+                    type="button"
+                    onClick={() => {
+                      setIsAdjustmentMode(true)
+                      setIsIncomeMode(false)
+                    }}
+                    className={`flex-1 px-3 py-2 text-[0.567rem] md:text-xs font-medium rounded-md transition-all duration-200 ${
+                      isAdjustmentMode
+                        ? 'bg-gradient-to-r from-[#DAA520] to-[#B87333] text-[#050A1A] shadow-card'
+                        : 'text-text-secondary hover:text-text-primary'
+                    }`}
+                  >
+                    Adjustment
+                  </button>
+                )}
+                {canUseIncomeMode && (
+                  <button
+                    type="button"
+                    onClick={() => {
+                      setIsIncomeMode(true)
+                      setIsAdjustmentMode(false)
+                      setInputMode('amount')
+                      if (!transaction) setAmount('0')
+                    }}
+                    className={`flex-1 px-3 py-2 text-[0.567rem] md:text-xs font-medium rounded-md transition-all duration-200 ${
+                      isIncomeMode
+                        ? 'bg-gradient-to-r from-[#DAA520] to-[#B87333] text-[#050A1A] shadow-card'
+                        : 'text-text-secondary hover:text-text-primary'
+                    }`}
+                  >
+                    Income/Fee
+                  </button>
+                )}
+              </div>
+            </div>
+          )}
+
+          {/* Input Mode Selection - Switch Button (not used for income/fees) */}
+          {!isIncomeMode && (
+            <div>
+              <label className="block text-text-secondary text-[0.567rem] md:text-xs font-medium mb-2">
+                Input Mode
+              </label>
+              <div className="relative inline-flex rounded-lg bg-bg-surface-2 border border-border-subtle p-1 w-full" role="group">
                 <button
                   type="button"
-                  onClick={() => setIsAdjustmentMode(true)}
+                  onClick={() => setInputMode('amount')}
                   className={`flex-1 px-3 py-2 text-[0.567rem] md:text-xs font-medium rounded-md transition-all duration-200 ${
-                    isAdjustmentMode
+                    inputMode === 'amount'
                       ? 'bg-gradient-to-r from-[#DAA520] to-[#B87333] text-[#050A1A] shadow-card'
                       : 'text-text-secondary hover:text-text-primary'
                   }`}
                 >
-                  Adjustment
+                  Amount
                 </button>
-              </div>
-            </div>
-          )}
-
-          {/* Input Mode Selection - Switch Button */}
-          <div>
-            <label className="block text-text-secondary text-[0.567rem] md:text-xs font-medium mb-2">
-              Input Mode
-            </label>
-            <div className="relative inline-flex rounded-lg bg-bg-surface-2 border border-border-subtle p-1 w-full" role="group">
-              <button
-                type="button"
-                onClick={() => setInputMode('amount')}
-                className={`flex-1 px-3 py-2 text-[0.567rem] md:text-xs font-medium rounded-md transition-all duration-200 ${
-                  inputMode === 'amount'
-                    ? 'bg-gradient-to-r from-[#DAA520] to-[#B87333] text-[#050A1A] shadow-card'
-                    : 'text-text-secondary hover:text-text-primary'
-                }`}
-              >
-                Amount
-              </button>
-              <button
-                type="button"
-                onClick={() => setInputMode('balance')}
-                className={`flex-1 px-3 py-2 text-[0.567rem] md:text-xs font-medium rounded-md transition-all duration-200 ${
-                  inputMode === 'balance'
-                    ? 'bg-gradient-to-r from-[#DAA520] to-[#B87333] text-[#050A1A] shadow-card'
-                    : 'text-text-secondary hover:text-text-primary'
-                }`}
-              >
-                End Holdings
-              </button>
+                <button
+                  type="button"
+                  onClick={() => setInputMode('balance')}
+                  className={`flex-1 px-3 py-2 text-[0.567rem] md:text-xs font-medium rounded-md transition-all duration-200 ${
+                    inputMode === 'balance'
+                      ? 'bg-gradient-to-r from-[#DAA520] to-[#B87333] text-[#050A1A] shadow-card'
+                      : 'text-text-secondary hover:text-text-primary'
+                  }`}
+                >
+                  End Holdings
+                </button>
+              </div>
             </div>
-          </div>
+          )}
+
+          {/* Income/Fee fields (shown in Income/Fee mode) */}
+          {isIncomeMode && (
+            <>
+              <div>
+                <label
+                  className="block text-text-secondary text-[0.567rem] md:text-xs font-medium mb-1"
+                  htmlFor="tx-income-type"
+                >
+                  Type
+                </label>
+                <select
+                  id="tx-income-type"
+                  value={incomeType}
+                  onChange={(e) => setIncomeType(e.target.value as IncomeFeeTransactionType)}
+                  className="w-full bg-bg-surface-2 border border-border-subtle rounded-input px-3 py-2 text-text-primary text-xs md:text-sm focus:outline-none focus:border-accent-blue"
+                >
+                  {(['DIVIDEND', 'INTEREST', 'STAKING', 'FEE'] as IncomeFeeTransactionType[]).map((type) => (
+                    <option key={type} value={type}>
+                      {TRANSACTION_TYPE_LABELS[type]}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label
+                  className="block text-text-secondary text-[0.567rem] md:text-xs font-medium mb-1"
+                  htmlFor="tx-gross-amount"
+                >
+                  {incomeType === 'FEE' ? 'Fee' : 'Gross Amount'} ({isCrypto ? 'USD' : item.currency})
+                </label>
+                <input
+                  id="tx-gross-amount"
+                  type="number"
+                  min="0"
+                  step="any"
+                  value={grossAmount}
+                  onChange={(e) => setGrossAmount(e.target.value)}
+                  className="w-full bg-bg-surface-2 border border-border-subtle rounded-input px-3 py-2 text-text-primary text-xs md:text-sm focus:outline-none focus:border-accent-blue"
+                  placeholder={incomeType === 'FEE' ? 'e.g. 9.90' : 'Before withholding tax'}
+                />
+              </div>
+              {incomeType !== 'FEE' && (
+                <div className="grid grid-cols-2 gap-3">
+                  <div>
+                    <label
+                      className="block text-text-secondary text-[0.567rem] md:text-xs font-medium mb-1"
+                      htmlFor="tx-withholding-tax"
+                    >
+                      Withholding Tax
+                    </label>
+                    <input
+                      id="tx-withholding-tax"
+                      type="number"
+                      min="0"
+                      step="any"
+                      value={withholdingTax}
+                      onChange={(e) => setWithholdingTax(e.target.value)}
+                      className="w-full bg-bg-surface-2 border border-border-subtle rounded-input px-3 py-2 text-text-primary text-xs md:text-sm focus:outline-none focus:border-accent-blue"
+                      placeholder="0"
+                    />
+                  </div>
+                  <div>
+                    <label
+                      className="block text-text-secondary text-[0.567rem] md:text-xs font-medium mb-1"
+                      htmlFor="tx-net-amount"
+                    >
+                      Net Amount
+                    </label>
+                    <input
+                      id="tx-net-amount"
+                      type="text"
+                      value={grossAmount ? ((Number(grossAmount) || 0) - (Number(withholdingTax) || 0)).toFixed(2) : ''}
+                      readOnly
+                      className="w-full bg-bg-surface-2 border border-border-subtle rounded-input px-3 py-2 text-text-muted text-xs md:text-sm cursor-not-allowed"
+                      placeholder="Calculated automatically"
+                    />
+                  </div>
+                </div>
+              )}
+            </>
+          )}
 
-          {/* Amount Input (shown when inputMode === 'amount') */}
-          {inputMode === 'amount' && (
+          {/* Amount Input (shown when inputMode === 'amount'; cash-like income is credited from the net amount) */}
+          {inputMode === 'amount' && !(isIncomeMode && hidePricePerItem) && (
             <div>
               <label
                 className="block text-text-secondary text-[0.567rem] md:text-xs font-medium mb-1"
                 htmlFor="tx-amount"
               >
-                Amount (holdings)
+                {isIncomeMode
+                  ? (incomeType === 'FEE' ? 'Units paid (0 if paid in cash)' : 'Units received (0 if paid in cash)')
+                  : 'Amount (holdings)'}
               </label>
               <input
                 id="tx-amount"
@@ -2627,7 +3655,7 @@ function AddTransactionModal({ item, transaction, transactions = [], onClose, on
                 value={amount}
                 onChange={(e) => setAmount(e.target.value)}
                 className="w-full bg-bg-surface-2 border border-border-subtle rounded-input px-3 py-2 text-text-primary text-xs md:text-sm focus:outline-none focus:border-accent-blue"
-                placeholder={canUseAdjustmentMode && isAdjustmentMode ? "Can be positive or negative" : "Positive for buy, negative for sell"}
+                placeholder={isIncomeMode ? "e.g. 0.05 for a staking reward" : canUseAdjustmentMode && isAdjustmentMode ? "Can be positive or negative" : "Positive for buy, negative for sell"}
               />
             </div>
           )}
@@ -2828,10 +3856,479 @@ function AddTransactionModal({ item, transaction, transactions = [], onClose, on
   )
 }
 
+// Transfer Modal (move units to the same asset on another platform)
+interface TransferModalProps {
+  item: NetWorthItem
+  items: NetWorthItem[]
+  transactions: NetWorthTransaction[]
+  onClose: () => void
+  onSave: (legs: Array<Omit<NetWorthTransaction, 'id'>>) => void
+}
+
+function TransferModal({ item, items, transactions, onClose, onSave }: TransferModalProps) {
+  const { convert } = useCurrency()
+  const { costBasisMethod } = useCostBasis()
+  const ticker = item.name.trim().toUpperCase()
+  // Destination: same asset (category and ticker) on another platform
+  const destinations = items.filter(
+    (i) =>
+      i.id !== item.id &&
+      i.category === item.category &&
+      i.name.trim().toUpperCase() === ticker &&
+      i.platform !== item.platform
+  )
+  const [toItemId, setToItemId] = useState(destinations[0]?.id || '')
+  const [date, setDate] = useState(() => {
+    const now = new Date()
+    return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`
+  })
+  const [amount, setAmount] = useState('')
+  const [networkFee, setNetworkFee] = useState('')
+  const [error, setError] = useState<string | null>(null)
+  const holdings = calculateHoldings(item.id, transactions, item)
+  const labelClass = 'block text-text-secondary text-[0.567rem] md:text-xs font-medium mb-1'
+  const inputClass = 'w-full bg-bg-surface-2 border border-border-subtle rounded-input px-3 py-2 text-text-primary text-xs md:text-sm focus:outline-none focus:border-accent-blue'
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault()
+    setError(null)
+
+    if (!toItemId) {
+      setError('Please select the destination.')
+      return
+    }
+    if (!date) {
+      setError('Please select a date.')
+      return
+    }
+    const parsedAmount = Number(amount)
+    if (!amount || Number.isNaN(parsedAmount) || parsedAmount <= 0) {
+      setError('Please enter a valid amount greater than 0.')
+      return
+    }
+    const parsedFee = networkFee ? Number(networkFee) : 0
+    if (Number.isNaN(parsedFee) || parsedFee < 0) {
+      setError('Please enter a valid network fee.')
+      return
+    }
+    if (parsedAmount + parsedFee > holdings + 1e-12) {
+      setError(`Amount plus network fee exceeds the holdings on ${item.platform} (${holdings}).`)
+      return
+    }
+
+    // The legs carry the average cost of the moved units; lots themselves are moved by the cost basis engine
+    const averageCost = calculateCostBasis(item.id, transactions, costBasisMethod, undefined, item, items).averageCost
+    const averageCostChf = calculateCostBasis(item.id, transactions, costBasisMethod, convert, item, items).averageCost
+    const transferId =
+      typeof crypto !== 'undefined' && 'randomUUID' in crypto
+        ? crypto.randomUUID()
+        : `transfer-${Date.now()}`
+
+    onSave(
+      createTransferTransactions({
+        transferId,
+        fromItemId: item.id,
+        toItemId,
+        date, // Already in YYYY-MM-DD format
+        amount: parsedAmount,
+        networkFee: parsedFee,
+        pricePerItemChf: averageCostChf,
+        pricePerItem: averageCost,
+        currency: item.currency,
+      }) as Array<Omit<NetWorthTransaction, 'id'>>
+    )
+  }
+
+  return (
+    <div className="fixed inset-0 z-[80] flex items-center justify-center bg-black/60 px-4" onClick={onClose}>
+      <div className="w-full max-w-md bg-bg-surface-1 border border-border-strong rounded-card shadow-card px-3 py-3 lg:p-6 relative" onClick={(e) => e.stopPropagation()}>
+        <Heading level={2} className="mb-4">
+          Transfer {item.name}
+        </Heading>
+
+        {error && (
+          <div className="mb-3 text-[0.567rem] md:text-xs text-danger bg-bg-surface-2 border border-danger/40 rounded-input px-3 py-2">
+            {error}
+          </div>
+        )}
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <div className={labelClass}>From</div>
+              <div className="text-text-primary text-xs md:text-sm">{item.platform}</div>
+            </div>
+            <div>
+              <label className={labelClass} htmlFor="transfer-destination">
+                To
+              </label>
+              {destinations.length === 0 ? (
+                <p className="text-[0.4725rem] md:text-[0.567rem] text-text-muted">
+                  Add a {item.name} item on the destination platform first.
+                </p>
+              ) : (
+                <select
+                  id="transfer-destination"
+                  value={toItemId}
+                  onChange={(e) => setToItemId(e.target.value)}
+                  className="w-full bg-bg-surface-2 border border-border-subtle rounded-input pl-3 pr-8 py-2 text-text-primary text-xs md:text-sm focus:outline-none focus:border-accent-blue"
+                >
+                  {destinations.map((d) => (
+                    <option key={d.id} value={d.id}>
+                      {d.platform}
+                    </option>
+                  ))}
+                </select>
+              )}
+            </div>
+          </div>
+
+          <div>
+            <label className={labelClass} htmlFor="transfer-date">
+              Date
+            </label>
+            <input
+              id="transfer-date"
+              type="date"
+              value={date}
+              onChange={(e) => setDate(e.target.value)}
+              className={inputClass}
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className={labelClass} htmlFor="transfer-amount">
+                Amount received
+              </label>
+              <input
+                id="transfer-amount"
+                type="number"
+                step="any"
+                min="0"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                className={inputClass}
+                placeholder={`Available: ${holdings}`}
+              />
+            </div>
+            <div>
+              <label className={labelClass} htmlFor="transfer-network-fee">
+                Network fee (optional)
+              </label>
+              <input
+                id="transfer-network-fee"
+                type="number"
+                step="any"
+                min="0"
+                value={networkFee}
+                onChange={(e) => setNetworkFee(e.target.value)}
+                className={inputClass}
+                placeholder="e.g. 0.0001"
+              />
+            </div>
+          </div>
+          <p className="text-[0.4725rem] md:text-[0.567rem] text-text-muted">
+            Cost basis and acquisition dates move with the units. Transfers are not taxable; the network fee is recorded as a fee.
+          </p>
+
+          <div className="flex justify-end gap-3 pt-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 rounded-full text-[0.567rem] md:text-xs bg-bg-surface-2 border border-border-subtle text-text-primary hover:bg-bg-surface-3 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={destinations.length === 0}
+              className="px-4 py-2 rounded-full text-[0.567rem] md:text-xs bg-gradient-to-r from-[#DAA520] to-[#B87333] text-[#050A1A] font-semibold hover:brightness-110 transition-all duration-200 shadow-card disabled:opacity-50"
+            >
+              Transfer
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  )
+}
+
+// Import Transactions Modal (broker CSV statements, see lib/brokerCsv.ts)
+interface ImportTransactionsModalProps {
+  items: NetWorthItem[]
+  transactions: NetWorthTransaction[]
+  platforms: Platform[]
+  onClose: () => void
+  onImport: (newItems: NewImportItem[], rows: ImportPlanRow[]) => void
+}
+
+function ImportTransactionsModal({ items, transactions, platforms, onClose, onImport }: ImportTransactionsModalProps) {
+  const { convert } = useCurrency()
+  const [fileText, setFileText] = useState<string | null>(null)
+  const [fileName, setFileName] = useState('')
+  const [broker, setBroker] = useState<BrokerId>('ibkr')
+  const [platform, setPlatform] = useState(BROKER_PLATFORMS.ibkr)
+  const [category, setCategory] = useState<NetWorthCategory>('Stocks')
+  const [excluded, setExcluded] = useState<Set<number>>(new Set())
+  const [error, setError] = useState<string | null>(null)
+  const labelClass = 'block text-text-secondary text-[0.567rem] md:text-xs font-medium mb-1'
+  const selectClass = 'w-full bg-bg-surface-2 border border-border-subtle rounded-input pl-3 pr-8 py-2 text-text-primary text-xs md:text-sm focus:outline-none focus:border-accent-blue'
+  const platformNames = platforms.map((p) => p.name)
+
+  const plan = useMemo<(ImportPlan & { parseErrors: BrokerParseError[] }) | null>(() => {
+    if (fileText === null) return null
+    const parsed = parseBrokerCsv(fileText, broker)
+    return {
+      ...buildImportPlan(parsed.transactions, { items, transactions, platform, category, convert }),
+      parseErrors: parsed.errors,
+    }
+  }, [fileText, broker, platform, category, items, transactions, convert])
+
+  // Duplicates are left out unless the user selects them
+  useEffect(() => {
+    setExcluded(new Set((plan?.rows || []).flatMap((row, index) => (row.status === 'duplicate' ? [index] : []))))
+  }, [plan])
+
+  const selectBroker = (id: BrokerId) => {
+    setBroker(id)
+    if (platformNames.includes(BROKER_PLATFORMS[id])) setPlatform(BROKER_PLATFORMS[id])
+  }
+
+  const handleFileChange = async (file: File | undefined) => {
+    setError(null)
+    if (!file) return
+    try {
+      const text = await file.text()
+      const detected = detectBroker(text)
+      if (detected) selectBroker(detected)
+      setFileName(file.name)
+      setFileText(text)
+    } catch (err) {
+      console.error('Failed to read CSV file:', err)
+      setError('Please select a readable CSV file.')
+    }
+  }
+
+  const toggleRow = (index: number) => {
+    setExcluded((prev) => {
+      const next = new Set(prev)
+      if (next.has(index)) next.delete(index)
+      else next.add(index)
+      return next
+    })
+  }
+
+  const selectedRows = (plan?.rows || []).filter((_, index) => !excluded.has(index))
+  const errors = plan ? [...plan.parseErrors, ...plan.errors].sort((a, b) => a.line - b.line) : []
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault()
+    setError(null)
+
+    if (!plan) {
+      setError('Please select a CSV file.')
+      return
+    }
+    if (!platform) {
+      setError('Please select a platform.')
+      return
+    }
+    if (selectedRows.length === 0) {
+      setError('Please select at least one transaction to import.')
+      return
+    }
+    onImport(plan.newItems, selectedRows)
+  }
+
+  return (
+    <div className="fixed inset-0 z-[80] flex items-center justify-center bg-black/60 px-4" onClick={onClose}>
+      <div className="w-full max-w-4xl max-h-[90vh] overflow-y-auto bg-bg-surface-1 border border-border-strong rounded-card shadow-card px-3 py-3 lg:p-6 relative" onClick={(e) => e.stopPropagation()}>
+        <Heading level={2} className="mb-4">
+          Import Transactions
+        </Heading>
+
+        {error && (
+          <div className="mb-3 text-[0.567rem] md:text-xs text-danger bg-bg-surface-2 border border-danger/40 rounded-input px-3 py-2">
+            {error}
+          </div>
+        )}
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label className={labelClass} htmlFor="import-file">
+              CSV file
+            </label>
+            <input
+              id="import-file"
+              type="file"
+              accept=".csv,text/csv"
+              onChange={(e) => handleFileChange(e.target.files?.[0])}
+              className="w-full text-text-primary text-xs md:text-sm"
+            />
+            {fileName && (
+              <p className="mt-1 text-[0.4725rem] md:text-[0.567rem] text-text-muted">{fileName}</p>
+            )}
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <div>
+              <label className={labelClass} htmlFor="import-broker">
+                Broker
+              </label>
+              <select
+                id="import-broker"
+                value={broker}
+                onChange={(e) => selectBroker(e.target.value as BrokerId)}
+                className={selectClass}
+              >
+                {BROKER_IDS.map((id) => (
+                  <option key={id} value={id}>
+                    {BROKER_LABELS[id]}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className={labelClass} htmlFor="import-platform">
+                Platform
+              </label>
+              <select
+                id="import-platform"
+                value={platform}
+                onChange={(e) => setPlatform(e.target.value)}
+                className={selectClass}
+              >
+                {!platformNames.includes(platform) && <option value={platform}>{platform}</option>}
+                {platformNames.map((name) => (
+                  <option key={name} value={name}>
+                    {name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className={labelClass} htmlFor="import-category">
+                Category for new items
+              </label>
+              <select
+                id="import-category"
+                value={category}
+                onChange={(e) => setCategory(e.target.value as NetWorthCategory)}
+                className={selectClass}
+              >
+                {IMPORT_CATEGORIES.map((c) => (
+                  <option key={c} value={c}>
+                    {c}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+          <p className="text-[0.4725rem] md:text-[0.567rem] text-text-muted">
+            Rows are matched to items by ticker on the selected platform. Rows already recorded (same date, type, amount and price) are marked as duplicates and left out.
+          </p>
+
+          {errors.length > 0 && (
+            <div className="text-[0.567rem] md:text-xs text-warning bg-bg-surface-2 border border-border-subtle rounded-input px-3 py-2 space-y-1">
+              {errors.map((err, index) => (
+                <div key={`${err.line}-${index}`}>
+                  Line {err.line}: {err.message}
+                </div>
+              ))}
+            </div>
+          )}
+
+          {plan && (
+            <div className="overflow-x-auto">
+              {plan.rows.length === 0 ? (
+                <p className="text-text-muted text-[0.567rem] md:text-xs">No transactions found in this file.</p>
+              ) : (
+                <table className="w-full text-[0.567rem] md:text-xs">
+                  <thead>
+                    <tr className="text-text-secondary text-left border-b border-border-subtle">
+                      <th className="py-2 pr-2"></th>
+                      <th className="py-2 pr-2">Date</th>
+                      <th className="py-2 pr-2">Type</th>
+                      <th className="py-2 pr-2">Ticker</th>
+                      <th className="py-2 pr-2 text-right">Quantity</th>
+                      <th className="py-2 pr-2 text-right">Price / Amount</th>
+                      <th className="py-2 pr-2 text-right">Commission</th>
+                      <th className="py-2 pr-2">Item</th>
+                      <th className="py-2">Status</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {plan.rows.map((row, index) => {
+                      const { source } = row
+                      const value = source.type === 'DIVIDEND' ? source.grossAmount ?? 0 : source.price
+                      return (
+                        <tr key={`${source.line}-${index}`} className="border-b border-border-subtle text-text-primary">
+                          <td className="py-2 pr-2">
+                            <input
+                              type="checkbox"
+                              checked={!excluded.has(index)}
+                              onChange={() => toggleRow(index)}
+                              aria-label={`Import line ${source.line}`}
+                            />
+                          </td>
+                          <td className="py-2 pr-2 whitespace-nowrap">{formatDate(source.date)}</td>
+                          <td className="py-2 pr-2">{source.type === 'DIVIDEND' ? 'Dividend' : source.type === 'BUY' ? 'Buy' : 'Sell'}</td>
+                          <td className="py-2 pr-2">{source.symbol}</td>
+                          <td className="py-2 pr-2 text-right">{source.type === 'DIVIDEND' ? '–' : formatNumber(source.quantity, 'ch')}</td>
+                          <td className="py-2 pr-2 text-right whitespace-nowrap">
+                            {formatMoney(value, source.currency as CurrencyCode, 'ch')}
+                            {source.withholdingTax ? ` (WHT ${formatMoney(source.withholdingTax, source.currency as CurrencyCode, 'ch')})` : ''}
+                          </td>
+                          <td className="py-2 pr-2 text-right">
+                            {source.commission ? formatMoney(source.commission, source.currency as CurrencyCode, 'ch') : '–'}
+                          </td>
+                          <td className="py-2 pr-2">{row.itemId ? 'Existing' : <span className="text-accent-blue">New item</span>}</td>
+                          <td className="py-2">
+                            {row.status === 'duplicate' ? <span className="text-warning">Duplicate</span> : <span className="text-success">New</span>}
+                          </td>
+                        </tr>
+                      )
+                    })}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          )}
+
+          {plan && plan.newItems.length > 0 && (
+            <p className="text-[0.4725rem] md:text-[0.567rem] text-text-muted">
+              New {category} items on {platform}: {plan.newItems.map((newItem) => newItem.symbol).join(', ')}
+            </p>
+          )}
+
+          <div className="flex justify-end gap-3 pt-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 rounded-full text-[0.567rem] md:text-xs bg-bg-surface-2 border border-border-subtle text-text-primary hover:bg-bg-surface-3 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={!plan || selectedRows.length === 0}
+              className="px-4 py-2 rounded-full text-[0.567rem] md:text-xs bg-gradient-to-r from-[#DAA520] to-[#B87333] text-[#050A1A] font-semibold hover:brightness-110 transition-all duration-200 shadow-card disabled:opacity-50"
+            >
+              Import {selectedRows.length > 0 ? selectedRows.length : ''}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  )
+}
+
 // Show Transactions Modal
 interface ShowTransactionsModalProps {
   item: NetWorthItem
   transactions: NetWorthTransaction[]
+  items?: NetWorthItem[] // Used to show the other side of transfers
   cryptoPrices?: Record<string, number>
   platforms: Platform[]
   onClose: () => void
@@ -2839,16 +4336,17 @@ interface ShowTransactionsModalProps {
   onDelete: (transactionId: string) => void
 }
 
-function ShowTransactionsModal({ item, transactions, cryptoPrices = {}, platforms, onClose, onEdit, onDelete }: ShowTransactionsModalProps) {
+function ShowTransactionsModal({ item, transactions, items = [], cryptoPrices = {}, platforms, onClose, onEdit, onDelete }: ShowTransactionsModalProps) {
   const { baseCurrency, convert, exchangeRates } = useCurrency()
   const formatCurrency = (value: number) => formatMoney(value, baseCurrency, 'ch')
   const formatUsd = (value: number) => formatMoney(value, 'USD', 'ch')
   const isCrypto = item.category === 'Crypto'
+  const currentSymbol = getSymbolAtDate(item)
   
   // Calculate balance - Crypto always in USD, others in baseCurrency
   let balanceConverted: number
   if (isCrypto) {
-    const coinAmount = calculateCoinAmount(item.id, transactions)
+    const coinAmount = calculateCoinAmount(item.id, transactions, item)
     const ticker = item.name.trim().toUpperCase()
     const currentPriceUsd = cryptoPrices[ticker] || 0
     if (currentPriceUsd > 0) {
@@ -2925,12 +4423,28 @@ function ShowTransactionsModal({ item, transactions, cryptoPrices = {}, platform
                   
                   // Check if this is an ADJUSTMENT transaction (no price)
                   const isAdjustment = tx.cryptoType === 'ADJUSTMENT'
+                  const isIncome = isIncomeTransaction(tx)
+                  const isFee = isFeeTransaction(tx)
+                  const isTransfer = isTransferTransaction(tx)
+                  const transferCounterpartItem = isTransfer ? items.find(i => i.id === tx.transferItemId) : undefined
+                  // Symbol before a later ticker change
+                  const tradedAs = getSymbolAtDate(item, new Date(tx.date))
                   
                   // Categories where price per item is always 1
-                  const categoriesWithoutPricePerItem = ['Cash', 'Bank Accounts', 'Retirement Funds', 'Real Estate', 'Perpetuals']
+                  const categoriesWithoutPricePerItem: NetWorthCategory[] = ['Cash', 'Bank Accounts', 'Retirement Funds', 'Real Estate', 'Perpetuals', ...LIABILITY_CATEGORIES]
                   const isNoPriceCategory = categoriesWithoutPricePerItem.includes(item.category)
                   
-                  if (isAdjustment) {
+                  if (isTransfer) {
+                    // Transfers move units at cost between platforms, no market value
+                    totalConverted = 0
+                    priceDisplay = '—'
+                  } else if (isIncome || isFee) {
+                    // Income and fees: total is the gross amount in the transaction currency
+                    totalConverted = getIncomeBreakdown(tx).gross
+                    priceDisplay = !isNoPriceCategory && tx.amount > 0 && tx.pricePerItem
+                      ? formatMoney(tx.pricePerItem, tx.currency as CurrencyCode, 'ch')
+                      : '—'
+                  } else if (isAdjustment) {
                     if (isNoPriceCategory) {
                       // For categories where price is always 1, show price as 1 and total = amount
                       totalConverted = tx.amount
@@ -2992,6 +4506,17 @@ function ShowTransactionsModal({ item, transactions, cryptoPrices = {}, platform
                     typeColor = 'text-purple-400'
                     sign = tx.amount >= 0 ? '+' : '-'
                     amountDisplay = tx.amount.toString()
+                  } else if (isTransfer) {
+                    const isOut = tx.cryptoType === 'TRANSFER_OUT'
+                    typeDisplay = isOut ? 'Transfer out' : 'Transfer in'
+                    typeColor = 'text-teal-400'
+                    sign = isOut ? '-' : '+'
+                    amountDisplay = tx.amount.toString()
+                  } else if (isIncome || isFee) {
+                    typeDisplay = TRANSACTION_TYPE_LABELS[tx.cryptoType as keyof typeof TRANSACTION_TYPE_LABELS]
+                    typeColor = isFee ? 'text-orange-400' : 'text-sky-400'
+                    sign = isFee ? '-' : '+'
+                    amountDisplay = tx.amount > 0 ? tx.amount.toString() : '—'
                   } else {
                     // BUY/SELL or legacy
                     typeDisplay = tx.side === 'buy' ? 'Buy' : 'Sell'
@@ -3007,18 +4532,38 @@ function ShowTransactionsModal({ item, transactions, cryptoPrices = {}, platform
                         <span className={typeColor}>
                           {typeDisplay}
                         </span>
+                        {isIncome && getIncomeBreakdown(tx).withholdingTax > 0 && (
+                          <div className="text-[0.4725rem] text-text-muted mt-0.5">
+                            Net {formatMoney(getIncomeBreakdown(tx).net, tx.currency as CurrencyCode, 'ch')} · Withholding tax {formatMoney(getIncomeBreakdown(tx).withholdingTax, tx.currency as CurrencyCode, 'ch')}
+                          </div>
+                        )}
+                        {isTransfer && (
+                          <div className="text-[0.4725rem] text-text-muted mt-0.5">
+                            {tx.cryptoType === 'TRANSFER_OUT' ? 'To' : 'From'} {transferCounterpartItem?.platform || 'deleted item'}
+                            {getTransferNetworkFee(tx) > 0 && ` · Network fee ${getTransferNetworkFee(tx)}`}
+                          </div>
+                        )}
                         {tx.adjustmentReason && (
                           <div className="text-[0.4725rem] text-text-muted mt-0.5">
                             {tx.adjustmentReason}
                           </div>
                         )}
+                        {tradedAs !== currentSymbol && (
+                          <div className="text-[0.4725rem] text-text-muted mt-0.5">
+                            Traded as {tradedAs}
+                          </div>
+                        )}
                       </td>
                       <td className="py-2 px-3 text2">{tx.currency}</td>
                       <td className="py-2 px-3 text2 text-right">{amountDisplay}</td>
                       <td className="py-2 px-3 text2 text-right">{priceDisplay}</td>
                       <td className="py-2 px-3 text2 text-right">
-                        {isAdjustment && !isNoPriceCategory ? (
+                        {(isAdjustment && !isNoPriceCategory) || isTransfer ? (
                           <span className="text-text-muted">—</span>
+                        ) : isIncome || isFee ? (
+                          <span className={typeColor}>
+                            {sign}{formatMoney(Math.abs(totalConverted), tx.currency as CurrencyCode, 'ch')}
+                          </span>
                         ) : (
                           <span className={typeColor}>
                             {sign}{isCrypto 
@@ -3030,18 +4575,24 @@ function ShowTransactionsModal({ item, transactions, cryptoPrices = {}, platform
                       </td>
                       <td className="py-2 px-3 text2">
                         <div className="flex items-center gap-2">
-                          <button
-                            onClick={() => onEdit(tx.id)}
-                            className="p-1.5 hover:bg-bg-surface-2 rounded-input transition-colors"
-                            title="Edit"
-                          >
-                            <svg className="w-4 h-4 text-text-secondary hover:text-text-primary" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
-                            </svg>
-                          </button>
+                          {/* Transfers cannot be edited: delete both legs and record the transfer again */}
+                          {!isTransfer && (
+                            <button
+                              onClick={() => onEdit(tx.id)}
+                              className="p-1.5 hover:bg-bg-surface-2 rounded-input transition-colors"
+                              title="Edit"
+                            >
+                              <svg className="w-4 h-4 text-text-secondary hover:text-text-primary" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
+                              </svg>
+                            </button>
+                          )}
                           <button
                             onClick={() => {
-                              if (confirm('Are you sure you want to delete this transaction?')) {
+                              const message = isTransfer
+                                ? 'Are you sure you want to delete this transfer? Both sides of the transfer will be deleted.'
+                                : 'Are you sure you want to delete this transaction?'
+                              if (confirm(message)) {
                                 onDelete(tx.id)
                               }
                             }}
@@ -1,13 +1,27 @@
-import React, { useState, useEffect, FormEvent } from 'react'
+import React, { useState, useEffect, useMemo, FormEvent } from 'react'
 import Heading from '../components/Heading'
 import { useCurrency } from '../contexts/CurrencyContext'
 import { useAuth } from '../lib/dataSafety/authGateCompat'
 import { useApiKeys } from '../contexts/ApiKeysContext'
 import { useData } from '../contexts/DataContext'
 import { useTheme } from '../contexts/ThemeContext'
+import { useCostBasis } from '../contexts/CostBasisContext'
+import { useBenchmarks } from '../contexts/BenchmarkContext'
+import { useAllocationTargets } from '../contexts/AllocationTargetContext'
 import { THEMES, type ThemeId } from '../lib/themes'
 import { toDateSafe } from '../lib/firestoreSafeWrite'
-import { supportedCurrencies } from '../lib/currency'
+import { loadUserSettings, saveSnapshotItems } from '../lib/dataSafety/userSettingsRepo'
+import { supportedCurrencies, formatMoney } from '../lib/currency'
+import { COST_BASIS_METHODS, COST_BASIS_METHOD_LABELS, type CostBasisMethod } from '../services/costBasisService'
+import { BENCHMARK_PRESETS, MAX_BENCHMARKS, createCustomBenchmark, type Benchmark, type BenchmarkSource } from '../services/benchmarkService'
+import {
+  ALLOCATION_CATEGORIES,
+  getAllocationTargetErrors,
+  getCategoryTargetKey,
+  getItemTargetKey,
+  type AllocationTargets,
+} from '../services/targetAllocationService'
+import type { CurrencyCode } from '../lib/currency'
 import {
   createBackup,
   downloadBackup,
@@ -25,13 +39,26 @@ import {
 } from '../services/storageService'
 import { getYearsWithCryptoActivity, generateCryptoTaxReport } from '../services/cryptoTaxReportService'
 import { generateCryptoTaxReportPDF } from '../services/pdfService'
-import { saveSnapshots, hasSnapshotForDate, createSnapshot, getTodayUTCDate, getToday2359UTCTimestamp } from '../services/snapshotService'
+import { calculateIncomeSummary } from '../services/incomeSummaryService'
+import {
+  saveSnapshots,
+  hasSnapshotForDate,
+  createSnapshot,
+  getTodayUTCDate,
+  getToday2359UTCTimestamp,
+  backfillSnapshots,
+  saveSnapshotsIfAbsent,
+  type BackfillInterval,
+} from '../services/snapshotService'
 import { isBiometricAvailable, isBiometricEnabled, registerBiometric, disableBiometric } from '../services/webAuthnService'
 
 function Settings() {
   const { baseCurrency, exchangeRates, isLoading, error, convert } = useCurrency()
   const { uid, user } = useAuth()
   const { themeId, setThemeId, isLoading: themeLoading } = useTheme()
+  const { costBasisMethod, setCostBasisMethod, isLoading: costBasisLoading } = useCostBasis()
+  const { benchmarks, setBenchmarks, isLoading: benchmarksLoading } = useBenchmarks()
+  const { allocationTargets, setAllocationTargets, isLoading: allocationTargetsLoading } = useAllocationTargets()
   const { 
     hyperliquidWalletAddress, 
     setHyperliquidWalletAddress, 
@@ -41,7 +68,7 @@ function Settings() {
     setMexcSecretKey,
     isLoading: apiKeysLoading 
   } = useApiKeys()
-  const { data } = useData()
+  const { data, refreshData } = useData()
   const [exportLoading, setExportLoading] = useState(false)
   const [exportError, setExportError] = useState<string | null>(null)
   const [exportSuccess, setExportSuccess] = useState(false)
@@ -79,14 +106,95 @@ function Settings() {
   const [creatingSnapshot, setCreatingSnapshot] = useState(false)
   const [snapshotError, setSnapshotError] = useState<string | null>(null)
   const [snapshotSuccess, setSnapshotSuccess] = useState(false)
+  // Per-item values in snapshots (on unless turned off)
+  const [snapshotItems, setSnapshotItems] = useState(true)
+  const [snapshotItemsSaving, setSnapshotItemsSaving] = useState(false)
+  // Snapshot backfill
+  const [backfillFrom, setBackfillFrom] = useState(() => {
+    const date = new Date()
+    date.setUTCFullYear(date.getUTCFullYear() - 1)
+    return date.toISOString().slice(0, 10)
+  })
+  const [backfillTo, setBackfillTo] = useState(() => new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString().slice(0, 10))
+  const [backfillInterval, setBackfillInterval] = useState<BackfillInterval>('weekly')
+  const [backfilling, setBackfilling] = useState(false)
+  const [backfillProgress, setBackfillProgress] = useState<{ done: number; total: number } | null>(null)
+  const [backfillError, setBackfillError] = useState<string | null>(null)
+  const [backfillSuccess, setBackfillSuccess] = useState<string | null>(null)
   // Theme
   const [themeSaving, setThemeSaving] = useState(false)
   const [themeError, setThemeError] = useState<string | null>(null)
   const [themeSuccess, setThemeSuccess] = useState(false)
+  const [costBasisSaving, setCostBasisSaving] = useState(false)
+  const [costBasisError, setCostBasisError] = useState<string | null>(null)
+  // Benchmarks (Net Worth Evolution chart)
+  const [benchmarksSaving, setBenchmarksSaving] = useState(false)
+  const [benchmarksError, setBenchmarksError] = useState<string | null>(null)
+  const [customBenchmarkSymbol, setCustomBenchmarkSymbol] = useState('')
+  const [customBenchmarkSource, setCustomBenchmarkSource] = useState<BenchmarkSource>('market')
+  const [customBenchmarkCurrency, setCustomBenchmarkCurrency] = useState<CurrencyCode>('USD')
+
+  // Target allocation (Dashboard drift and rebalancing); weights and bands in percent as typed
+  const [targetDraft, setTargetDraft] = useState<Record<string, { weight: string; tolerance: string }>>({})
+  const [newTargetItemId, setNewTargetItemId] = useState('')
+  const [targetsSaving, setTargetsSaving] = useState(false)
+  const [targetsError, setTargetsError] = useState<string | null>(null)
+  const [targetsSuccess, setTargetsSuccess] = useState(false)
+
+  useEffect(() => {
+    const draft: Record<string, { weight: string; tolerance: string }> = {}
+    Object.entries(allocationTargets).forEach(([key, target]) => {
+      draft[key] = {
+        weight: String(Math.round(target.weight * 1000) / 10),
+        tolerance: String(Math.round(target.tolerance * 1000) / 10),
+      }
+    })
+    setTargetDraft(draft)
+  }, [allocationTargets])
+
+  const targetItems = useMemo(
+    () =>
+      data.netWorthItems
+        .filter((item) => ALLOCATION_CATEGORIES.includes(item.category))
+        .map((item) => ({ itemId: item.id, name: item.name, category: item.category })),
+    [data.netWorthItems]
+  )
+
+  // Rows without a weight are left out; a blank band defaults to 5 percentage points
+  const draftTargets = useMemo(() => {
+    const targets: AllocationTargets = {}
+    Object.entries(targetDraft).forEach(([key, row]) => {
+      const weight = parseFloat(row.weight)
+      if (!Number.isFinite(weight)) return
+      const tolerance = parseFloat(row.tolerance)
+      targets[key] = {
+        weight: Math.min(Math.max(weight, 0), 100) / 100,
+        tolerance: Number.isFinite(tolerance) ? Math.max(tolerance, 0) / 100 : 0.05,
+      }
+    })
+    return targets
+  }, [targetDraft])
+
+  const draftTargetErrors = useMemo(
+    () => (Object.keys(draftTargets).length > 0 ? getAllocationTargetErrors(draftTargets, targetItems) : []),
+    [draftTargets, targetItems]
+  )
+
+  const draftCategoryWeightSum = ALLOCATION_CATEGORIES.reduce(
+    (sum, category) => sum + (draftTargets[getCategoryTargetKey(category)]?.weight || 0),
+    0
+  )
 
   // Format rate for display
   const formatRate = (value: number) => value.toFixed(4)
 
+  // Income (dividends, interest, staking rewards) and fees per year, in base currency
+  const incomeSummary = useMemo(
+    () => calculateIncomeSummary(data.transactions, convert),
+    [data.transactions, convert]
+  )
+  const formatIncome = (value: number) => formatMoney(value, baseCurrency, 'ch')
+
   // Get other currencies (all except base)
   const otherCurrencies = supportedCurrencies.filter(c => c !== baseCurrency)
 
@@ -213,6 +321,115 @@ function Settings() {
     input.click()
   }
 
+  const handleCostBasisMethodChange = async (nextMethod: CostBasisMethod) => {
+    if (!uid) {
+      alert('Please sign in to change the cost basis method.')
+      return
+    }
+
+    if (nextMethod === costBasisMethod) return
+
+    setCostBasisSaving(true)
+    setCostBasisError(null)
+
+    try {
+      await setCostBasisMethod(nextMethod)
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to save cost basis method'
+      setCostBasisError(message)
+      setTimeout(() => setCostBasisError(null), 5000)
+    } finally {
+      setCostBasisSaving(false)
+    }
+  }
+
+  const saveBenchmarkSelection = async (nextBenchmarks: Benchmark[]) => {
+    if (!uid) {
+      alert('Please sign in to change the benchmarks.')
+      return
+    }
+
+    setBenchmarksSaving(true)
+    setBenchmarksError(null)
+
+    try {
+      await setBenchmarks(nextBenchmarks)
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to save benchmarks'
+      setBenchmarksError(message)
+      setTimeout(() => setBenchmarksError(null), 5000)
+    } finally {
+      setBenchmarksSaving(false)
+    }
+  }
+
+  const handleToggleBenchmark = (benchmark: Benchmark) => {
+    const selected = benchmarks.some((b) => b.id === benchmark.id)
+    saveBenchmarkSelection(selected ? benchmarks.filter((b) => b.id !== benchmark.id) : [...benchmarks, benchmark])
+  }
+
+  const handleAddCustomBenchmark = async (e: FormEvent) => {
+    e.preventDefault()
+    if (!customBenchmarkSymbol.trim()) return
+    const benchmark = createCustomBenchmark(customBenchmarkSymbol, customBenchmarkSource, customBenchmarkCurrency)
+    if (benchmarks.some((b) => b.id === benchmark.id)) {
+      setBenchmarksError(`${benchmark.name} is already selected.`)
+      setTimeout(() => setBenchmarksError(null), 5000)
+      return
+    }
+    await saveBenchmarkSelection([...benchmarks, benchmark])
+    setCustomBenchmarkSymbol('')
+  }
+
+  const updateTargetDraft = (key: string, field: 'weight' | 'tolerance', value: string) => {
+    setTargetDraft((prev) => ({
+      ...prev,
+      [key]: { weight: prev[key]?.weight ?? '', tolerance: prev[key]?.tolerance ?? '', [field]: value },
+    }))
+  }
+
+  const handleAddItemTarget = () => {
+    if (!newTargetItemId) return
+    updateTargetDraft(getItemTargetKey(newTargetItemId), 'weight', '0')
+    setNewTargetItemId('')
+  }
+
+  const handleRemoveItemTarget = (key: string) => {
+    setTargetDraft((prev) => {
+      const next = { ...prev }
+      delete next[key]
+      return next
+    })
+  }
+
+  const handleSaveAllocationTargets = async () => {
+    if (!uid) {
+      alert('Please sign in to change the target allocation.')
+      return
+    }
+    if (draftTargetErrors.length > 0) {
+      setTargetsError(draftTargetErrors[0])
+      setTimeout(() => setTargetsError(null), 5000)
+      return
+    }
+
+    setTargetsSaving(true)
+    setTargetsError(null)
+    setTargetsSuccess(false)
+
+    try {
+      await setAllocationTargets(draftTargets)
+      setTargetsSuccess(true)
+      setTimeout(() => setTargetsSuccess(false), 3000)
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to save target allocation'
+      setTargetsError(message)
+      setTimeout(() => setTargetsError(null), 5000)
+    } finally {
+      setTargetsSaving(false)
+    }
+  }
+
   const handleThemeChange = async (nextThemeId: ThemeId) => {
     if (!uid) {
       alert('Please sign in to change theme.')
@@ -254,6 +471,14 @@ function Settings() {
     if (uid) setBiometricOn(isBiometricEnabled(uid))
   }, [uid])
 
+  // Load the per-item snapshot setting
+  useEffect(() => {
+    if (!uid) return
+    loadUserSettings(uid)
+      .then((settings) => setSnapshotItems(settings?.snapshotItems !== false))
+      .catch((error) => console.error('Failed to load snapshot settings:', error))
+  }, [uid])
+
   // Load available years for crypto tax report
   useEffect(() => {
     const loadYears = async () => {
@@ -496,7 +721,8 @@ function Settings() {
         cryptoPrices,
         stockPrices,
         convert,
-        usdToChfRate
+        usdToChfRate,
+        { includeItems: snapshotItems }
       )
 
       // Override timestamp to be end of day UTC for consistency
@@ -518,6 +744,72 @@ function Settings() {
     }
   }
 
+  const handleToggleSnapshotItems = async () => {
+    if (!uid) return
+    const next = !snapshotItems
+    setSnapshotItemsSaving(true)
+    setSnapshotError(null)
+    try {
+      await saveSnapshotItems(uid, next)
+      setSnapshotItems(next)
+    } catch (error) {
+      console.error('Failed to save snapshot settings:', error)
+      setSnapshotError('Failed to save the snapshot setting')
+      setTimeout(() => setSnapshotError(null), 5000)
+    } finally {
+      setSnapshotItemsSaving(false)
+    }
+  }
+
+  const handleBackfillSnapshots = async () => {
+    if (!uid) {
+      alert('Please sign in to backfill snapshots.')
+      return
+    }
+
+    setBackfilling(true)
+    setBackfillProgress(null)
+    setBackfillError(null)
+    setBackfillSuccess(null)
+
+    try {
+      const { snapshots, netWorthItems, transactions } = data
+      if (!netWorthItems || !transactions) {
+        throw new Error('Data not available. Please wait for data to load.')
+      }
+      if (backfillFrom > backfillTo) {
+        throw new Error('The start date must be before the end date.')
+      }
+
+      const backfilled = await backfillSnapshots(netWorthItems, transactions, snapshots, {
+        from: backfillFrom,
+        to: backfillTo,
+        interval: backfillInterval,
+        costBasisMethod,
+        includeItems: snapshotItems,
+        onProgress: (done, total) => setBackfillProgress({ done, total }),
+      })
+
+      if (backfilled.length === 0) {
+        setBackfillSuccess('Nothing to backfill: every day in the range already has a snapshot.')
+      } else {
+        const merged = await saveSnapshotsIfAbsent(backfilled, snapshots, uid)
+        const created = merged.length - snapshots.length
+        setBackfillSuccess(`Created ${created} backfilled snapshot${created === 1 ? '' : 's'}.`)
+        await refreshData()
+      }
+      setTimeout(() => setBackfillSuccess(null), 5000)
+    } catch (error) {
+      console.error('Snapshot backfill error:', error)
+      const errorMessage = error instanceof Error ? error.message : 'Failed to backfill snapshots'
+      setBackfillError(errorMessage)
+      setTimeout(() => setBackfillError(null), 5000)
+    } finally {
+      setBackfilling(false)
+      setBackfillProgress(null)
+    }
+  }
+
   return (
     <div className="min-h-screen px-2 lg:px-6 pt-4 pb-12 lg:pt-6 lg:pb-16">
       <div className="max-w-7xl mx-auto space-y-6">
@@ -559,7 +851,255 @@ function Settings() {
                 )}
               </div>
             </div>
+
+            {/* Cost basis method (used for lots, cost basis and P&L) */}
+            <div className="mt-6">
+              <label
+                className="block text-text-secondary text-[0.567rem] md:text-xs font-medium mb-2"
+                htmlFor="settings-cost-basis-method"
+              >
+                Cost Basis Method
+              </label>
+              <select
+                id="settings-cost-basis-method"
+                value={costBasisMethod}
+                onChange={(e) => handleCostBasisMethodChange(e.target.value as CostBasisMethod)}
+                disabled={costBasisSaving || costBasisLoading}
+                className="w-full sm:w-auto bg-bg-surface-2 border border-border-subtle rounded-input pl-3 pr-8 py-2 text-text-primary text-xs md:text-sm focus:outline-none focus:border-accent-blue disabled:opacity-60"
+              >
+                {COST_BASIS_METHODS.map((method) => (
+                  <option key={method} value={method}>
+                    {COST_BASIS_METHOD_LABELS[method]}
+                  </option>
+                ))}
+              </select>
+              <p className="mt-1 text-[0.4725rem] md:text-[0.567rem] text-text-muted">
+                Determines which lots a sell closes when computing cost basis and realized/unrealized P&amp;L.
+              </p>
+              {costBasisError && (
+                <div className="mt-2 text-[0.567rem] md:text-xs text-danger bg-bg-surface-2 border border-danger/40 rounded-input px-3 py-2">
+                  {costBasisError}
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+
+        {/* Benchmarks Section */}
+        <div className="bg-bg-frame border border-border-subtle rounded-card shadow-card px-3 py-3 lg:p-6">
+          <Heading level={2} className="mb-4">Benchmarks</Heading>
+          <p className="text-text-muted text-[0.567rem] md:text-xs mb-4">
+            Compared with the portfolio return (TWR, in CHF) on the Dashboard&apos;s Net Worth Evolution chart. Up to {MAX_BENCHMARKS} benchmarks.
+          </p>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+            {[...BENCHMARK_PRESETS, ...benchmarks.filter((b) => !BENCHMARK_PRESETS.some((preset) => preset.id === b.id))].map((benchmark) => {
+              const selected = benchmarks.some((b) => b.id === benchmark.id)
+              return (
+                <label
+                  key={benchmark.id}
+                  className="flex items-center gap-3 px-3 py-2 rounded-input border border-border-subtle bg-bg-surface-1 text-[0.567rem] md:text-xs text-text-primary cursor-pointer"
+                >
+                  <input
+                    type="checkbox"
+                    checked={selected}
+                    onChange={() => handleToggleBenchmark(benchmark)}
+                    disabled={benchmarksSaving || benchmarksLoading || (!selected && benchmarks.length >= MAX_BENCHMARKS)}
+                  />
+                  <span className="flex-1">{benchmark.name}</span>
+                  <span className="text-text-muted">
+                    {benchmark.components.map((c) => `${c.weight < 1 ? `${Math.round(c.weight * 100)}% ` : ''}${c.symbol}`).join(' + ')}
+                  </span>
+                </label>
+              )
+            })}
+          </div>
+
+          <form onSubmit={handleAddCustomBenchmark} className="mt-4 flex flex-col sm:flex-row gap-2">
+            <input
+              type="text"
+              value={customBenchmarkSymbol}
+              onChange={(e) => setCustomBenchmarkSymbol(e.target.value)}
+              placeholder="Ticker, e.g. VWCE.DE or ETH"
+              className="flex-1 bg-bg-surface-2 border border-border-subtle rounded-input px-3 py-2 text-text-primary text-xs md:text-sm focus:outline-none focus:border-accent-blue"
+              aria-label="Custom benchmark ticker"
+            />
+            <select
+              value={customBenchmarkSource}
+              onChange={(e) => setCustomBenchmarkSource(e.target.value as BenchmarkSource)}
+              className="bg-bg-surface-2 border border-border-subtle rounded-input pl-3 pr-8 py-2 text-text-primary text-xs md:text-sm focus:outline-none focus:border-accent-blue"
+              aria-label="Custom benchmark source"
+            >
+              <option value="market">Stock / ETF / Index</option>
+              <option value="crypto">Crypto</option>
+            </select>
+            {customBenchmarkSource === 'market' && (
+              <select
+                value={customBenchmarkCurrency}
+                onChange={(e) => setCustomBenchmarkCurrency(e.target.value as CurrencyCode)}
+                className="bg-bg-surface-2 border border-border-subtle rounded-input pl-3 pr-8 py-2 text-text-primary text-xs md:text-sm focus:outline-none focus:border-accent-blue"
+                aria-label="Custom benchmark currency"
+              >
+                {supportedCurrencies.map((currency) => (
+                  <option key={currency} value={currency}>{currency}</option>
+                ))}
+              </select>
+            )}
+            <button
+              type="submit"
+              disabled={benchmarksSaving || benchmarksLoading || !customBenchmarkSymbol.trim() || benchmarks.length >= MAX_BENCHMARKS}
+              className="px-4 py-2 rounded-full text-[0.567rem] md:text-xs bg-bg-surface-2 border border-border-subtle text-text-primary hover:bg-bg-surface-3 transition-colors disabled:opacity-60"
+            >
+              Add Benchmark
+            </button>
+          </form>
+          {benchmarksError && (
+            <div className="mt-2 text-[0.567rem] md:text-xs text-danger bg-bg-surface-2 border border-danger/40 rounded-input px-3 py-2">
+              {benchmarksError}
+            </div>
+          )}
+        </div>
+
+        {/* Target Allocation Section */}
+        <div className="bg-bg-frame border border-border-subtle rounded-card shadow-card px-3 py-3 lg:p-6">
+          <Heading level={2} className="mb-4">Target Allocation</Heading>
+          <p className="text-text-muted text-[0.567rem] md:text-xs mb-4">
+            Target weight and tolerance band (± percentage points) per asset category, shown against the current allocation on the Dashboard. Categories without a weight are left out of the allocation; category weights must add up to 100%. Item targets are part of their category&apos;s weight.
+          </p>
+
+          <div className="space-y-2">
+            <div className="grid grid-cols-[1fr_5rem_5rem] gap-2 text-text-muted text-[0.567rem] md:text-xs">
+              <span>Category / Item</span>
+              <span className="text-right">Weight %</span>
+              <span className="text-right">Band ± %</span>
+            </div>
+            {ALLOCATION_CATEGORIES.map((category) => {
+              const key = getCategoryTargetKey(category)
+              const itemKeys = targetItems
+                .filter((item) => item.category === category && targetDraft[getItemTargetKey(item.itemId)])
+                .map((item) => ({ key: getItemTargetKey(item.itemId), name: item.name }))
+              return (
+                <div key={key} className="space-y-2">
+                  <div className="grid grid-cols-[1fr_5rem_5rem] gap-2 items-center">
+                    <span className="text-text-primary text-[0.567rem] md:text-xs">{category}</span>
+                    <input
+                      type="number"
+                      value={targetDraft[key]?.weight ?? ''}
+                      onChange={(e) => updateTargetDraft(key, 'weight', e.target.value)}
+                      className="bg-bg-surface-2 border border-border-subtle rounded-input px-2 py-1 text-text-primary text-xs md:text-sm text-right focus:outline-none focus:border-accent-blue"
+                      aria-label={`${category} target weight`}
+                      step="0.1"
+                      min="0"
+                      max="100"
+                    />
+                    <input
+                      type="number"
+                      value={targetDraft[key]?.tolerance ?? ''}
+                      onChange={(e) => updateTargetDraft(key, 'tolerance', e.target.value)}
+                      placeholder="5"
+                      className="bg-bg-surface-2 border border-border-subtle rounded-input px-2 py-1 text-text-primary text-xs md:text-sm text-right focus:outline-none focus:border-accent-blue"
+                      aria-label={`${category} tolerance band`}
+                      step="0.1"
+                      min="0"
+                    />
+                  </div>
+                  {itemKeys.map((item) => (
+                    <div key={item.key} className="grid grid-cols-[1fr_5rem_5rem] gap-2 items-center">
+                      <span className="flex items-center gap-2 pl-4 text-text-secondary text-[0.567rem] md:text-xs">
+                        <span className="truncate">{item.name}</span>
+                        <button
+                          type="button"
+                          onClick={() => handleRemoveItemTarget(item.key)}
+                          className="text-text-muted hover:text-danger"
+                          aria-label={`Remove target for ${item.name}`}
+                        >
+                          ✕
+                        </button>
+                      </span>
+                      <input
+                        type="number"
+                        value={targetDraft[item.key]?.weight ?? ''}
+                        onChange={(e) => updateTargetDraft(item.key, 'weight', e.target.value)}
+                        className="bg-bg-surface-2 border border-border-subtle rounded-input px-2 py-1 text-text-primary text-xs md:text-sm text-right focus:outline-none focus:border-accent-blue"
+                        aria-label={`${item.name} target weight`}
+                        step="0.1"
+                        min="0"
+                        max="100"
+                      />
+                      <input
+                        type="number"
+                        value={targetDraft[item.key]?.tolerance ?? ''}
+                        onChange={(e) => updateTargetDraft(item.key, 'tolerance', e.target.value)}
+                        placeholder="5"
+                        className="bg-bg-surface-2 border border-border-subtle rounded-input px-2 py-1 text-text-primary text-xs md:text-sm text-right focus:outline-none focus:border-accent-blue"
+                        aria-label={`${item.name} tolerance band`}
+                        step="0.1"
+                        min="0"
+                      />
+                    </div>
+                  ))}
+                </div>
+              )
+            })}
+            <div className="grid grid-cols-[1fr_5rem_5rem] gap-2 pt-2 border-t border-border-subtle text-[0.567rem] md:text-xs">
+              <span className="text-text-muted">Total</span>
+              <span className={`text-right ${Math.abs(draftCategoryWeightSum - 1) > 0.001 ? 'text-danger' : 'text-text-primary'}`}>
+                {(draftCategoryWeightSum * 100).toFixed(1)}%
+              </span>
+              <span />
+            </div>
+          </div>
+
+          <div className="mt-4 flex flex-col sm:flex-row gap-2">
+            <select
+              value={newTargetItemId}
+              onChange={(e) => setNewTargetItemId(e.target.value)}
+              className="flex-1 bg-bg-surface-2 border border-border-subtle rounded-input pl-3 pr-8 py-2 text-text-primary text-xs md:text-sm focus:outline-none focus:border-accent-blue"
+              aria-label="Item to add a target for"
+            >
+              <option value="">Add an item target...</option>
+              {targetItems
+                .filter((item) => !targetDraft[getItemTargetKey(item.itemId)])
+                .map((item) => (
+                  <option key={item.itemId} value={item.itemId}>
+                    {item.category} – {item.name}
+                  </option>
+                ))}
+            </select>
+            <button
+              type="button"
+              onClick={handleAddItemTarget}
+              disabled={!newTargetItemId}
+              className="px-4 py-2 rounded-full text-[0.567rem] md:text-xs bg-bg-surface-2 border border-border-subtle text-text-primary hover:bg-bg-surface-3 transition-colors disabled:opacity-60"
+            >
+              Add Item
+            </button>
+            <button
+              type="button"
+              onClick={handleSaveAllocationTargets}
+              disabled={targetsSaving || allocationTargetsLoading || draftTargetErrors.length > 0}
+              className="px-4 py-2 rounded-full text-[0.567rem] md:text-xs bg-bg-surface-2 border border-border-subtle text-text-primary hover:bg-bg-surface-3 transition-colors disabled:opacity-60"
+            >
+              {targetsSaving ? 'Saving...' : 'Save Targets'}
+            </button>
           </div>
+          {draftTargetErrors.length > 0 && (
+            <ul className="mt-2 text-[0.567rem] md:text-xs text-text-muted list-disc pl-4">
+              {draftTargetErrors.map((message) => (
+                <li key={message}>{message}</li>
+              ))}
+            </ul>
+          )}
+          {targetsError && (
+            <div className="mt-2 text-[0.567rem] md:text-xs text-danger bg-bg-surface-2 border border-danger/40 rounded-input px-3 py-2">
+              {targetsError}
+            </div>
+          )}
+          {targetsSuccess && (
+            <div className="mt-2 text-[0.567rem] md:text-xs text-success bg-bg-surface-2 border border-success/40 rounded-input px-3 py-2">
+              Target allocation saved successfully!
+            </div>
+          )}
         </div>
 
         {/* Theme Section */}
@@ -861,6 +1401,45 @@ function Settings() {
                 {generatingTaxReport ? 'Generating...' : 'Detailed Report (CH)'}
               </button>
             </div>
+
+            {/* Income Summary */}
+            <div className="pt-4 border-t border-border-subtle">
+              <Heading level={3} className="mb-2">Income Summary</Heading>
+              {incomeSummary.length === 0 ? (
+                <p className="text-text-muted text-[0.567rem] md:text-xs">
+                  No dividend, interest, staking or fee transactions yet.
+                </p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full min-w-[560px]">
+                    <thead>
+                      <tr className="border-b border-border-subtle">
+                        <th className="text-left py-2 px-2 text2 font-bold">Year</th>
+                        <th className="text-right py-2 px-2 text2 font-bold">Dividends</th>
+                        <th className="text-right py-2 px-2 text2 font-bold">Interest</th>
+                        <th className="text-right py-2 px-2 text2 font-bold">Staking</th>
+                        <th className="text-right py-2 px-2 text2 font-bold">Withholding Tax</th>
+                        <th className="text-right py-2 px-2 text2 font-bold">Net Income</th>
+                        <th className="text-right py-2 px-2 text2 font-bold">Fees</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {incomeSummary.map((row) => (
+                        <tr key={row.year} className="border-b border-border-subtle">
+                          <td className="py-2 px-2 text2">{row.year}</td>
+                          <td className="py-2 px-2 text2 text-right">{formatIncome(row.dividends)}</td>
+                          <td className="py-2 px-2 text2 text-right">{formatIncome(row.interest)}</td>
+                          <td className="py-2 px-2 text2 text-right">{formatIncome(row.staking)}</td>
+                          <td className="py-2 px-2 text2 text-right">{formatIncome(row.withholdingTax)}</td>
+                          <td className="py-2 px-2 text2 text-right text-success">{formatIncome(row.netIncome)}</td>
+                          <td className="py-2 px-2 text2 text-right text-danger">{formatIncome(row.fees)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
           </div>
         </div>
 
@@ -1159,6 +1738,22 @@ function Settings() {
                 Manually create a snapshot of your current net worth. This will calculate and store the total value of all categories in CHF.
               </p>
 
+              <label className="flex items-start gap-3 mb-4 text-[0.567rem] md:text-xs text-text-primary cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={snapshotItems}
+                  onChange={handleToggleSnapshotItems}
+                  disabled={snapshotItemsSaving || !uid}
+                  className="mt-0.5"
+                />
+                <span>
+                  Store per-item values in snapshots
+                  <span className="block text-text-muted">
+                    Adds each item&apos;s value, quantity, price and FX rate to new manual, daily and backfilled snapshots. Needed for the item and platform drill-down on the Dashboard; turn off to keep snapshots to the category totals.
+                  </span>
+                </span>
+              </label>
+
               <button
                 onClick={handleCreateSnapshot}
                 disabled={creatingSnapshot || !uid}
@@ -1183,6 +1778,85 @@ function Settings() {
                 </div>
               )}
             </div>
+
+            {/* Backfill Snapshots */}
+            <div>
+              <Heading level={3} className="mb-2 text-text-secondary">Backfill Snapshots</Heading>
+              <p className="text-text-muted text-[0.567rem] md:text-xs mb-4">
+                Reconstruct past snapshots from your transactions and historical prices. Days that already have a snapshot are skipped; backfilled snapshots are marked as such.
+              </p>
+
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 mb-4">
+                <div>
+                  <label className="block text-text-secondary text-[0.567rem] md:text-xs font-medium mb-2" htmlFor="settings-backfill-from">
+                    From
+                  </label>
+                  <input
+                    id="settings-backfill-from"
+                    type="date"
+                    value={backfillFrom}
+                    onChange={(e) => setBackfillFrom(e.target.value)}
+                    disabled={backfilling}
+                    className="w-full bg-bg-surface-2 border border-border-subtle rounded-input px-3 py-2 text-text-primary text-xs md:text-sm focus:outline-none focus:border-accent-blue disabled:opacity-60"
+                  />
+                </div>
+                <div>
+                  <label className="block text-text-secondary text-[0.567rem] md:text-xs font-medium mb-2" htmlFor="settings-backfill-to">
+                    To
+                  </label>
+                  <input
+                    id="settings-backfill-to"
+                    type="date"
+                    value={backfillTo}
+                    onChange={(e) => setBackfillTo(e.target.value)}
+                    disabled={backfilling}
+                    className="w-full bg-bg-surface-2 border border-border-subtle rounded-input px-3 py-2 text-text-primary text-xs md:text-sm focus:outline-none focus:border-accent-blue disabled:opacity-60"
+                  />
+                </div>
+                <div>
+                  <label className="block text-text-secondary text-[0.567rem] md:text-xs font-medium mb-2" htmlFor="settings-backfill-interval">
+                    Interval
+                  </label>
+                  <select
+                    id="settings-backfill-interval"
+                    value={backfillInterval}
+                    onChange={(e) => setBackfillInterval(e.target.value as BackfillInterval)}
+                    disabled={backfilling}
+                    className="w-full bg-bg-surface-2 border border-border-subtle rounded-input px-3 py-2 text-text-primary text-xs md:text-sm focus:outline-none focus:border-accent-blue disabled:opacity-60"
+                  >
+                    <option value="daily">Daily</option>
+                    <option value="weekly">Weekly (Sundays)</option>
+                  </select>
+                </div>
+              </div>
+
+              <button
+                onClick={handleBackfillSnapshots}
+                disabled={backfilling || !uid}
+                className="w-full py-2 px-4 bg-gradient-to-r from-[#DAA520] to-[#B87333] hover:from-[#F0C850] hover:to-[#D4943F] text-[#050A1A] text-[0.567rem] md:text-xs font-semibold rounded-full transition-all duration-200 shadow-card hover:shadow-lg disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {backfilling
+                  ? backfillProgress
+                    ? `Backfilling ${backfillProgress.done}/${backfillProgress.total}...`
+                    : 'Loading Historical Prices...'
+                  : 'Backfill Snapshots'}
+              </button>
+
+              {(backfillError || backfillSuccess) && (
+                <div className="mt-4">
+                  {backfillError && (
+                    <div className="text-[0.567rem] md:text-xs text-danger bg-bg-surface-2 border border-danger/40 rounded-input px-3 py-2">
+                      {backfillError}
+                    </div>
+                  )}
+                  {backfillSuccess && (
+                    <div className="text-[0.567rem] md:text-xs text-success bg-bg-surface-2 border border-success/40 rounded-input px-3 py-2">
+                      {backfillSuccess}
+                    </div>
+                  )}
+                </div>
+              )}
+            </div>
           </div>
         </div>
 
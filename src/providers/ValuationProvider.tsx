@@ -10,6 +10,7 @@ import type { NetWorthItem, NetWorthTransaction } from '../pages/NetWorth'
 import type { CurrencyCode } from '../lib/currency'
 import { useData } from '../contexts/DataContext'
 import { useCurrency } from '../contexts/CurrencyContext'
+import { useCostBasis } from '../contexts/CostBasisContext'
 import { useMarketData } from './MarketDataProvider'
 
 interface ValuationContextValue {
@@ -36,6 +37,7 @@ export function ValuationProvider({ children }: ValuationProviderProps) {
 
   const { data } = useData()
   const { baseCurrency } = useCurrency()
+  const { costBasisMethod } = useCostBasis()
   const { lastRefresh } = useMarketData()
 
   const netWorthItems = data.netWorthItems
@@ -50,6 +52,7 @@ export function ValuationProvider({ children }: ValuationProviderProps) {
       const result = await computeValuation(netWorthItems, transactions, {
         baseCurrency: 'CHF',
         displayCurrency: baseCurrency,
+        costBasisMethod,
       })
 
       setValuation(result)
@@ -70,6 +73,7 @@ export function ValuationProvider({ children }: ValuationProviderProps) {
     netWorthItems,
     transactions,
     baseCurrency,
+    costBasisMethod,
     lastRefresh,
   ])
 
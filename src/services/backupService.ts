@@ -38,6 +38,10 @@ export interface BackupData {
       baseCurrency?: string
       apiKeys?: ApiKeys
       themeId?: string
+      costBasisMethod?: string
+      benchmarks?: unknown[]
+      allocationTargets?: Record<string, unknown>
+      snapshotItems?: boolean
     } | null
     snapshots: unknown[]
   }
@@ -74,6 +78,10 @@ export async function createBackup(uid: string): Promise<BackupData> {
         baseCurrency: settings.baseCurrency || undefined,
         apiKeys: settings.apiKeys || undefined,
         themeId: settings.themeId || undefined,
+        costBasisMethod: settings.costBasisMethod || undefined,
+        benchmarks: settings.benchmarks || undefined,
+        allocationTargets: settings.allocationTargets || undefined,
+        snapshotItems: settings.snapshotItems ?? undefined,
       }
     : null
 
@@ -339,6 +347,22 @@ export async function restoreBackup(
         settingsData.themeId = settings.themeId
       }
 
+      if (settings.costBasisMethod) {
+        settingsData.costBasisMethod = settings.costBasisMethod
+      }
+
+      if (Array.isArray(settings.benchmarks)) {
+        settingsData.benchmarks = settings.benchmarks
+      }
+
+      if (settings.allocationTargets && typeof settings.allocationTargets === 'object') {
+        settingsData.allocationTargets = settings.allocationTargets
+      }
+
+      if (typeof settings.snapshotItems === 'boolean') {
+        settingsData.snapshotItems = settings.snapshotItems
+      }
+
       if (Object.keys(settingsData).length > 0) {
         // Use safeWrite with merge to preserve existing fields
         collectionPromises.push(
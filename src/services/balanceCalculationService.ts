@@ -3,5 +3,6 @@ export {
   calculateBalanceChf,
   calculateCoinAmount,
   calculateHoldings,
+  getTransactionQuantityDelta,
 } from '../../lib/balanceCalculation'
 
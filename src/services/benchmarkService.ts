@@ -0,0 +1,58 @@
+/**
+ * Benchmark Service
+ *
+ * Benchmark definitions and returns (see lib/benchmarks.ts), and the daily closes they need
+ * from the stored daily prices and the Historical Price Service.
+ */
+
+import {
+  getBenchmarkSymbols,
+  type Benchmark,
+  type BenchmarkCloses,
+} from '../../lib/benchmarks'
+import { getStoredDailyCloses } from './market-data/DailyPriceService'
+import {
+  getHistoricalCryptoPriceSeries,
+  getHistoricalMarketPriceSeries,
+  type DailyCloseSeries,
+} from './market-data/HistoricalPriceService'
+
+export {
+  BENCHMARK_PRESETS,
+  MAX_BENCHMARKS,
+  createCustomBenchmark,
+  getBenchmarkReturns,
+  getBenchmarkSymbols,
+  getFxSymbol,
+  isBenchmark,
+  type Benchmark,
+  type BenchmarkCloses,
+  type BenchmarkComponent,
+  type BenchmarkSource,
+} from '../../lib/benchmarks'
+
+/**
+ * Daily closes (and CHF rates) of all benchmark components on `dates` (YYYY-MM-DD, ascending).
+ * Market closes come from the stored daily prices (`marketDailyPrices`); days missing there are
+ * filled from the historical price series. Symbols without history are missing from the result.
+ */
+export async function fetchBenchmarkCloses(benchmarks: Benchmark[], dates: string[]): Promise<BenchmarkCloses> {
+  if (dates.length === 0) return { market: {}, crypto: {} }
+  const from = dates[0]
+  const to = dates[dates.length - 1]
+  const symbols = getBenchmarkSymbols(benchmarks)
+  const [stored, crypto] = await Promise.all([
+    getStoredDailyCloses(symbols.market, dates),
+    getHistoricalCryptoPriceSeries(symbols.crypto, from, to),
+  ])
+
+  const gaps = symbols.market.filter((symbol) => dates.some((date) => stored[symbol]?.[date] === undefined))
+  const fetched = await getHistoricalMarketPriceSeries(gaps, from, to)
+
+  const market: Record<string, DailyCloseSeries> = {}
+  for (const symbol of symbols.market) {
+    const series = { ...fetched[symbol], ...stored[symbol] }
+    if (Object.keys(series).length > 0) market[symbol] = series
+  }
+  return { market, crypto }
+}
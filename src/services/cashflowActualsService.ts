@@ -0,0 +1,15 @@
+export {
+  LEDGER_CATEGORIES,
+  computeMonthVariance,
+  getLedgerTransactions,
+  getMonthKey,
+  getPreviousMonths,
+  type BudgetItem,
+  type BudgetItems,
+  type CashflowActual,
+  type CashflowDirection,
+  type GroupVariance,
+  type LedgerTransaction,
+  type MonthVariance,
+  type VarianceRow,
+} from '../../lib/cashflowActuals'
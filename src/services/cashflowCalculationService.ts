@@ -1,4 +1,17 @@
 import type { CurrencyCode } from '../lib/currency'
+import { getAmountInMonth, getMonthlyEquivalent, type CashflowSchedule } from '../../lib/cashflowFrequency'
+
+export {
+  CASHFLOW_FREQUENCIES,
+  CASHFLOW_FREQUENCY_LABELS,
+  getAmountInMonth,
+  getCashflowFrequency,
+  getDueMonths,
+  getMonthlyEquivalent,
+  isScheduledFrequency,
+  type CashflowFrequency,
+  type CashflowSchedule,
+} from '../../lib/cashflowFrequency'
 
 // Types for cashflow calculations
 type InflowGroupName = 'Time' | 'Service' | 'Worker Bees'
@@ -6,7 +19,7 @@ type OutflowGroupName = 'Fix' | 'Variable' | 'Shared Variable' | 'Investments'
 type InflowEndpointMode = 'group' | 'item'
 type OutflowEndpointMode = 'group' | 'item'
 
-interface InflowItem {
+interface InflowItem extends CashflowSchedule {
   id: string
   item: string
   amountChf: number
@@ -14,9 +27,11 @@ interface InflowItem {
   currency: string
   provider: string
   group: InflowGroupName
+  /** Pinned CHF per unit of `currency` (e.g. a contract rate); missing = current rate */
+  fxRate?: number | null
 }
 
-interface OutflowItem {
+interface OutflowItem extends CashflowSchedule {
   id: string
   item: string
   amountChf: number
@@ -24,6 +39,8 @@ interface OutflowItem {
   currency: string
   receiver: string
   group: OutflowGroupName
+  /** Pinned CHF per unit of `currency` (e.g. a contract rate); missing = current rate */
+  fxRate?: number | null
 }
 
 interface InflowToAccountMapping {
@@ -33,6 +50,7 @@ interface InflowToAccountMapping {
   group?: InflowGroupName
   inflowItemId?: string
   account: string
+  updatedAt?: string
 }
 
 interface AccountToOutflowMapping {
@@ -42,6 +60,7 @@ interface AccountToOutflowMapping {
   group?: OutflowGroupName
   outflowItemId?: string
   account: string
+  updatedAt?: string
 }
 
 interface AccountToAccountMapping {
@@ -50,6 +69,7 @@ interface AccountToAccountMapping {
   fromAccount: string
   toAccount: string
   amountChf: number
+  updatedAt?: string
 }
 
 type AccountflowMapping =
@@ -57,8 +77,59 @@ type AccountflowMapping =
   | AccountToOutflowMapping
   | AccountToAccountMapping
 
+type CashflowAmountFields = Pick<InflowItem, 'amount' | 'currency' | 'amountChf' | 'fxRate'>
+
+/**
+ * Amount of an item per payment, revalued with `convert` (current rates) unless its rate is pinned
+ */
+export function getItemAmount(
+  item: CashflowAmountFields,
+  convert: (amount: number, from: CurrencyCode) => number
+): number {
+  // Use original amount and currency if available, otherwise fall back to amountChf
+  if (item.amount !== undefined && item.currency) {
+    if (item.currency !== 'CHF' && item.fxRate && item.fxRate > 0) {
+      return convert(item.amount * item.fxRate, 'CHF')
+    }
+    return convert(item.amount, item.currency as CurrencyCode)
+  }
+  return item.amountChf
+}
+
+/**
+ * Monthly difference between an item's current amount and the `amountChf` stored when it was saved,
+ * both in the currency `convert` returns
+ */
+export function getItemMonthlyFxImpact(
+  item: CashflowAmountFields & CashflowSchedule,
+  convert: (amount: number, from: CurrencyCode) => number
+): number {
+  return getMonthlyEquivalent(getItemAmount(item, convert) - convert(item.amountChf || 0, 'CHF'), item)
+}
+
 /**
- * Calculate the sum of inflow items for a specific group
+ * Average monthly amount of an inflow or outflow item (see getMonthlyEquivalent)
+ */
+export function getItemMonthlyAmount(
+  item: CashflowAmountFields & CashflowSchedule,
+  convert: (amount: number, from: CurrencyCode) => number
+): number {
+  return getMonthlyEquivalent(getItemAmount(item, convert), item)
+}
+
+/**
+ * Amount of an inflow or outflow item due in a month (YYYY-MM, see getAmountInMonth)
+ */
+export function getItemAmountInMonth(
+  item: CashflowAmountFields & CashflowSchedule,
+  month: string,
+  convert: (amount: number, from: CurrencyCode) => number
+): number {
+  return getAmountInMonth(getItemAmount(item, convert), item, month)
+}
+
+/**
+ * Calculate the monthly sum of inflow items for a specific group (non-monthly items normalised)
  */
 export function getInflowGroupSum(
   group: InflowGroupName,
@@ -68,17 +139,11 @@ export function getInflowGroupSum(
   if (!items) return 0
   return items
     .filter(i => i.group === group)
-    .reduce((sum, i) => {
-      // Use original amount and currency if available, otherwise fall back to amountChf
-      if (i.amount !== undefined && i.currency) {
-        return sum + convert(i.amount, i.currency as CurrencyCode)
-      }
-      return sum + i.amountChf
-    }, 0)
+    .reduce((sum, i) => sum + getItemMonthlyAmount(i, convert), 0)
 }
 
 /**
- * Calculate the sum of outflow items for a specific group
+ * Calculate the monthly sum of outflow items for a specific group (non-monthly items normalised)
  */
 export function getOutflowGroupSum(
   group: OutflowGroupName,
@@ -88,17 +153,11 @@ export function getOutflowGroupSum(
   if (!items) return 0
   return items
     .filter(i => i.group === group)
-    .reduce((sum, i) => {
-      // Use original amount and currency if available, otherwise fall back to amountChf
-      if (i.amount !== undefined && i.currency) {
-        return sum + convert(i.amount, i.currency as CurrencyCode)
-      }
-      return sum + i.amountChf
-    }, 0)
+    .reduce((sum, i) => sum + getItemMonthlyAmount(i, convert), 0)
 }
 
 /**
- * Calculate the amount for an accountflow mapping
+ * Calculate the monthly amount for an accountflow mapping (non-monthly items normalised)
  */
 export function computeMappingAmount(
   mapping: AccountflowMapping,
@@ -114,11 +173,7 @@ export function computeMappingAmount(
     } else if (mapping.mode === 'item' && mapping.inflowItemId) {
       const item = inflowItems.find(i => i.id === mapping.inflowItemId)
       if (!item) return 0
-      // Use original amount and currency if available, otherwise fall back to amountChf
-      if (item.amount !== undefined && item.currency) {
-        return convert(item.amount, item.currency as CurrencyCode)
-      }
-      return item.amountChf
+      return getItemMonthlyAmount(item, convert)
     }
   } else if (mapping.kind === 'accountToOutflow') {
     if (mapping.mode === 'group' && mapping.group) {
@@ -126,11 +181,7 @@ export function computeMappingAmount(
     } else if (mapping.mode === 'item' && mapping.outflowItemId) {
       const item = outflowItems.find(i => i.id === mapping.outflowItemId)
       if (!item) return 0
-      // Use original amount and currency if available, otherwise fall back to amountChf
-      if (item.amount !== undefined && item.currency) {
-        return convert(item.amount, item.currency as CurrencyCode)
-      }
-      return item.amountChf
+      return getItemMonthlyAmount(item, convert)
     }
   } else if (mapping.kind === 'accountToAccount') {
     return mapping.amountChf
@@ -138,3 +189,406 @@ export function computeMappingAmount(
   return 0
 }
 
+
+export type CashflowSankeyNodeKind = 'inflow' | 'account' | 'outflow' | 'spare' | 'unmapped' | 'overAllocated'
+
+export interface CashflowSankeyNode {
+  name: string
+  kind: CashflowSankeyNodeKind
+}
+
+export interface CashflowSankeyLink {
+  /** Index into `nodes` */
+  source: number
+  target: number
+  value: number
+}
+
+export interface CashflowSankeyData {
+  nodes: CashflowSankeyNode[]
+  links: CashflowSankeyLink[]
+}
+
+const INFLOW_GROUPS: InflowGroupName[] = ['Time', 'Service', 'Worker Bees']
+const OUTFLOW_GROUPS: OutflowGroupName[] = ['Fix', 'Variable', 'Shared Variable', 'Investments']
+
+/** Differences below this are rounding, not unmapped, over-allocated or missing money */
+const ROUNDING_TOLERANCE = 0.005
+
+/**
+ * Monthly money flow from the inflow groups through the accounts to the outflow groups, built from
+ * the accountflow mappings (item mappings count towards their item's group). Money that is not
+ * mapped and mappings that route more than there is end in their own nodes:
+ * - inflow not routed to an account flows to "Unmapped income", outflow not paid from an account
+ *   comes from "Unmapped spending"
+ * - inflow groups routing more than they earn and accounts paying out more than they receive are
+ *   fed by "Over-allocated"; outflow groups paid more than they cost flow to "Over-allocated spending"
+ * - what stays on an account flows to "Spare change"
+ * Opposite transfers between two accounts are netted; transfers that would close a loop of accounts
+ * are left out (a Sankey diagram cannot show loops).
+ */
+export function buildCashflowSankey(
+  mappings: AccountflowMapping[],
+  inflowItems: InflowItem[],
+  outflowItems: OutflowItem[],
+  convert: (amount: number, from: CurrencyCode) => number
+): CashflowSankeyData {
+  if (!inflowItems) inflowItems = []
+  if (!outflowItems) outflowItems = []
+  const nodes: CashflowSankeyNode[] = []
+  const nodeIndex = new Map<string, number>()
+  const linkValues = new Map<string, number>()
+
+  const getNode = (key: string, name: string, kind: CashflowSankeyNodeKind): number => {
+    let index = nodeIndex.get(key)
+    if (index === undefined) {
+      index = nodes.length
+      nodes.push({ name, kind })
+      nodeIndex.set(key, index)
+    }
+    return index
+  }
+  const addLink = (source: number, target: number, value: number) => {
+    if (!(value > ROUNDING_TOLERANCE)) return
+    const key = `${source}>${target}`
+    linkValues.set(key, (linkValues.get(key) || 0) + value)
+  }
+  const getAccountNode = (account: string) => getNode(`account:${account}`, account, 'account')
+
+  const mappedInflow = new Map<InflowGroupName, number>()
+  const mappedOutflow = new Map<OutflowGroupName, number>()
+  const accountBalance = new Map<string, number>()
+  const addToBalance = (account: string, amount: number) => accountBalance.set(account, (accountBalance.get(account) || 0) + amount)
+  const transfers = new Map<string, number>()
+
+  for (const mapping of mappings || []) {
+    const amount = computeMappingAmount(mapping, inflowItems, outflowItems, convert)
+    if (mapping.kind === 'inflowToAccount') {
+      const group = mapping.mode === 'item'
+        ? inflowItems.find(i => i.id === mapping.inflowItemId)?.group
+        : mapping.group
+      if (!group || !mapping.account) continue
+      addLink(getNode(`inflow:${group}`, group, 'inflow'), getAccountNode(mapping.account), amount)
+      mappedInflow.set(group, (mappedInflow.get(group) || 0) + amount)
+      addToBalance(mapping.account, amount)
+    } else if (mapping.kind === 'accountToOutflow') {
+      const group = mapping.mode === 'item'
+        ? outflowItems.find(i => i.id === mapping.outflowItemId)?.group
+        : mapping.group
+      if (!group || !mapping.account) continue
+      addLink(getAccountNode(mapping.account), getNode(`outflow:${group}`, group, 'outflow'), amount)
+      mappedOutflow.set(group, (mappedOutflow.get(group) || 0) + amount)
+      addToBalance(mapping.account, -amount)
+    } else if (mapping.kind === 'accountToAccount') {
+      if (!mapping.fromAccount || !mapping.toAccount || mapping.fromAccount === mapping.toAccount) continue
+      const key = JSON.stringify([mapping.fromAccount, mapping.toAccount])
+      transfers.set(key, (transfers.get(key) || 0) + amount)
+    }
+  }
+
+  // Net opposite transfers, then add them largest first unless they close a loop
+  const netTransfers: Array<{ from: string; to: string; amount: number }> = []
+  for (const [key, amount] of transfers) {
+    const [from, to] = JSON.parse(key) as [string, string]
+    const net = amount - (transfers.get(JSON.stringify([to, from])) || 0)
+    if (net > ROUNDING_TOLERANCE) netTransfers.push({ from, to, amount: net })
+  }
+  netTransfers.sort((a, b) => b.amount - a.amount)
+  const transferTargets = new Map<string, string[]>()
+  const reaches = (from: string, to: string): boolean => {
+    const visited = new Set<string>()
+    const stack = [from]
+    while (stack.length > 0) {
+      const account = stack.pop()!
+      if (account === to) return true
+      if (visited.has(account)) continue
+      visited.add(account)
+      stack.push(...(transferTargets.get(account) || []))
+    }
+    return false
+  }
+  for (const { from, to, amount } of netTransfers) {
+    if (reaches(to, from)) continue
+    transferTargets.set(from, [...(transferTargets.get(from) || []), to])
+    addLink(getAccountNode(from), getAccountNode(to), amount)
+    addToBalance(from, -amount)
+    addToBalance(to, amount)
+  }
+
+  for (const group of INFLOW_GROUPS) {
+    const difference = getInflowGroupSum(group, inflowItems, convert) - (mappedInflow.get(group) || 0)
+    if (difference > ROUNDING_TOLERANCE) {
+      addLink(getNode(`inflow:${group}`, group, 'inflow'), getNode('unmappedIncome', 'Unmapped income', 'unmapped'), difference)
+    } else if (difference < -ROUNDING_TOLERANCE) {
+      addLink(getNode('overAllocated', 'Over-allocated', 'overAllocated'), getNode(`inflow:${group}`, group, 'inflow'), -difference)
+    }
+  }
+  for (const group of OUTFLOW_GROUPS) {
+    const difference = getOutflowGroupSum(group, outflowItems, convert) - (mappedOutflow.get(group) || 0)
+    if (difference > ROUNDING_TOLERANCE) {
+      addLink(getNode('unmappedSpending', 'Unmapped spending', 'unmapped'), getNode(`outflow:${group}`, group, 'outflow'), difference)
+    } else if (difference < -ROUNDING_TOLERANCE) {
+      addLink(getNode(`outflow:${group}`, group, 'outflow'), getNode('overAllocatedSpending', 'Over-allocated spending', 'overAllocated'), -difference)
+    }
+  }
+  for (const [account, balance] of accountBalance) {
+    if (balance > ROUNDING_TOLERANCE) {
+      addLink(getAccountNode(account), getNode('spare', 'Spare change', 'spare'), balance)
+    } else if (balance < -ROUNDING_TOLERANCE) {
+      addLink(getNode('overAllocated', 'Over-allocated', 'overAllocated'), getAccountNode(account), -balance)
+    }
+  }
+
+  // Nodes without links (e.g. mappings of 0) are dropped and the links re-indexed
+  const links = Array.from(linkValues, ([key, value]) => {
+    const [source, target] = key.split('>').map(Number)
+    return { source, target, value }
+  })
+  const usedIndices = nodes
+    .map((_, index) => index)
+    .filter(index => links.some(link => link.source === index || link.target === index))
+  const newIndex = new Map(usedIndices.map((index, position) => [index, position]))
+  return {
+    nodes: usedIndices.map(index => nodes[index]),
+    links: links.map(link => ({ source: newIndex.get(link.source)!, target: newIndex.get(link.target)!, value: link.value })),
+  }
+}
+
+export type MappingIssueKind = 'orphaned' | 'overAllocated' | 'unallocated' | 'unfunded' | 'negativeSpare'
+
+type NewAccountflowMapping<T = AccountflowMapping> = T extends AccountflowMapping ? Omit<T, 'id'> : never
+
+export type MappingFix =
+  | { kind: 'removeMappings'; label: string; mappingIds: string[] }
+  | { kind: 'addMapping'; label: string; mapping: NewAccountflowMapping }
+
+export interface MappingIssue {
+  /** Unique within one validation pass */
+  id: string
+  kind: MappingIssueKind
+  severity: 'error' | 'warning'
+  message: string
+  /** Monthly amount concerned (same currency as computeMappingAmount) */
+  amount: number
+  fix: MappingFix | null
+}
+
+interface MappingEndpoint {
+  mapping: InflowToAccountMapping | AccountToOutflowMapping
+  group?: string
+  itemId?: string
+}
+
+/**
+ * Platform most used by the given mappings (first platform when none), for fixes that add a mapping
+ */
+function getSuggestedAccount(endpoints: MappingEndpoint[], platformNames: string[]): string | null {
+  const counts = new Map<string, number>()
+  endpoints.forEach(({ mapping }) => counts.set(mapping.account, (counts.get(mapping.account) || 0) + 1))
+  const [mostUsed] = [...counts].sort((a, b) => b[1] - a[1])
+  return mostUsed?.[0] ?? platformNames[0] ?? null
+}
+
+/**
+ * Over- and under-allocation of one side: each item must be routed exactly once, by its group's
+ * mapping or by its own
+ */
+function getAllocationIssues(
+  direction: 'inflow' | 'outflow',
+  groups: string[],
+  items: Array<InflowItem | OutflowItem>,
+  endpoints: MappingEndpoint[],
+  platformNames: string[],
+  convert: (amount: number, from: CurrencyCode) => number
+): MappingIssue[] {
+  const issues: MappingIssue[] = []
+  const side = direction === 'inflow' ? 'Inflow' : 'Outflow'
+  const missingKind: MappingIssueKind = direction === 'inflow' ? 'unallocated' : 'unfunded'
+  const missingText = direction === 'inflow' ? 'is not routed to a platform' : 'is not paid from a platform'
+  const addMapping = (target: { group: string } | { itemId: string }, groupEndpoints: MappingEndpoint[]): MappingFix | null => {
+    const account = getSuggestedAccount(groupEndpoints.length > 0 ? groupEndpoints : endpoints, platformNames)
+    if (!account) return null
+    const mode = 'group' in target ? 'group' as const : 'item' as const
+    const mapping: NewAccountflowMapping = direction === 'inflow'
+      ? { kind: 'inflowToAccount', mode, account, ...('group' in target ? { group: target.group as InflowGroupName } : { inflowItemId: target.itemId }) }
+      : { kind: 'accountToOutflow', mode, account, ...('group' in target ? { group: target.group as OutflowGroupName } : { outflowItemId: target.itemId }) }
+    return { kind: 'addMapping', label: `Map to ${account}`, mapping }
+  }
+
+  for (const group of groups) {
+    const groupItems = items.filter(item => item.group === group)
+    if (groupItems.length === 0) continue
+    const groupEndpoints = endpoints.filter(endpoint =>
+      endpoint.group === group || groupItems.some(item => item.id === endpoint.itemId)
+    )
+    const groupMappings = groupEndpoints.filter(endpoint => endpoint.group === group)
+    const groupSum = groupItems.reduce((sum, item) => sum + getItemMonthlyAmount(item, convert), 0)
+
+    if (groupEndpoints.length === 0) {
+      issues.push({
+        id: `${missingKind}:${direction}:${group}`,
+        kind: missingKind,
+        severity: 'warning',
+        message: `${side} group "${group}" ${missingText}.`,
+        amount: groupSum,
+        fix: addMapping({ group }, groupEndpoints),
+      })
+      continue
+    }
+    if (groupMappings.length > 1) {
+      issues.push({
+        id: `overAllocated:${direction}:${group}`,
+        kind: 'overAllocated',
+        severity: 'error',
+        message: `${side} group "${group}" is mapped ${groupMappings.length} times (${groupMappings.length * 100}%).`,
+        amount: (groupMappings.length - 1) * groupSum,
+        fix: { kind: 'removeMappings', label: 'Remove duplicates', mappingIds: groupMappings.slice(1).map(({ mapping }) => mapping.id) },
+      })
+    }
+
+    for (const item of groupItems) {
+      const itemMappings = groupEndpoints.filter(endpoint => endpoint.itemId === item.id)
+      const amount = getItemMonthlyAmount(item, convert)
+      if (groupMappings.length === 0 && itemMappings.length === 0) {
+        issues.push({
+          id: `${missingKind}:${direction}:${item.id}`,
+          kind: missingKind,
+          severity: 'warning',
+          message: `${side} item "${item.item}" (${group}) ${missingText}.`,
+          amount,
+          fix: addMapping({ itemId: item.id }, groupEndpoints),
+        })
+      } else if (groupMappings.length > 0 && itemMappings.length > 0) {
+        issues.push({
+          id: `overAllocated:${direction}:${item.id}`,
+          kind: 'overAllocated',
+          severity: 'error',
+          message: `${side} item "${item.item}" is mapped on its own and with its group "${group}" (${(groupMappings.length + itemMappings.length) * 100}%).`,
+          amount: itemMappings.length * amount,
+          fix: { kind: 'removeMappings', label: 'Remove item mapping', mappingIds: itemMappings.map(({ mapping }) => mapping.id) },
+        })
+      } else if (itemMappings.length > 1) {
+        issues.push({
+          id: `overAllocated:${direction}:${item.id}`,
+          kind: 'overAllocated',
+          severity: 'error',
+          message: `${side} item "${item.item}" is mapped ${itemMappings.length} times (${itemMappings.length * 100}%).`,
+          amount: (itemMappings.length - 1) * amount,
+          fix: { kind: 'removeMappings', label: 'Remove duplicates', mappingIds: itemMappings.slice(1).map(({ mapping }) => mapping.id) },
+        })
+      }
+    }
+  }
+  return issues
+}
+
+/**
+ * Validation pass over all accountflow mappings: mappings pointing to deleted platforms or items,
+ * inflow and outflow items or groups routed more than once or not at all, and platforms paying out
+ * more than they receive. Each issue carries a fix where one is obvious: removing the offending
+ * mappings, mapping the item or group to the platform its group (or side) uses most, or a transfer
+ * from the platform with the most spare change.
+ */
+export function validateAccountflowMappings(
+  mappings: AccountflowMapping[],
+  inflowItems: InflowItem[],
+  outflowItems: OutflowItem[],
+  platformNames: string[],
+  convert: (amount: number, from: CurrencyCode) => number
+): MappingIssue[] {
+  if (!inflowItems) inflowItems = []
+  if (!outflowItems) outflowItems = []
+  const platforms = new Set(platformNames)
+  const issues: MappingIssue[] = []
+  const validMappings: AccountflowMapping[] = []
+
+  const addOrphan = (mapping: AccountflowMapping, message: string) => {
+    issues.push({
+      id: `orphaned:${mapping.id}`,
+      kind: 'orphaned',
+      severity: 'error',
+      message,
+      amount: computeMappingAmount(mapping, inflowItems, outflowItems, convert),
+      fix: { kind: 'removeMappings', label: 'Remove mapping', mappingIds: [mapping.id] },
+    })
+  }
+
+  for (const mapping of mappings || []) {
+    if (mapping.kind === 'accountToAccount') {
+      const missing = [mapping.fromAccount, mapping.toAccount].filter(account => !platforms.has(account))
+      if (missing.length > 0) {
+        addOrphan(mapping, `Transfer from ${mapping.fromAccount} to ${mapping.toAccount} refers to a deleted platform (${missing.join(', ')}).`)
+        continue
+      }
+    } else {
+      const side = mapping.kind === 'inflowToAccount' ? 'Inflow' : 'Outflow'
+      const itemId = mapping.kind === 'inflowToAccount' ? mapping.inflowItemId : mapping.outflowItemId
+      const items: Array<InflowItem | OutflowItem> = mapping.kind === 'inflowToAccount' ? inflowItems : outflowItems
+      const item = mapping.mode === 'item' ? items.find(i => i.id === itemId) : undefined
+      const label = mapping.mode === 'group' ? `${side} group "${mapping.group ?? ''}"` : `${side} item "${item?.item ?? 'Unknown item'}"`
+      if (!platforms.has(mapping.account)) {
+        addOrphan(mapping, `${label} is mapped to a deleted platform (${mapping.account}).`)
+        continue
+      }
+      if (mapping.mode === 'item' && !item) {
+        addOrphan(mapping, `Mapping on ${mapping.account} refers to a deleted ${side.toLowerCase()} item.`)
+        continue
+      }
+      if (mapping.mode === 'group' && !mapping.group) {
+        addOrphan(mapping, `Mapping on ${mapping.account} has no ${side.toLowerCase()} group.`)
+        continue
+      }
+    }
+    validMappings.push(mapping)
+  }
+
+  const toEndpoint = (mapping: InflowToAccountMapping | AccountToOutflowMapping): MappingEndpoint => ({
+    mapping,
+    group: mapping.mode === 'group' ? mapping.group : undefined,
+    itemId: mapping.mode === 'item' ? (mapping.kind === 'inflowToAccount' ? mapping.inflowItemId : mapping.outflowItemId) : undefined,
+  })
+  const inflowEndpoints = validMappings
+    .filter((m): m is InflowToAccountMapping => m.kind === 'inflowToAccount')
+    .map(toEndpoint)
+  const outflowEndpoints = validMappings
+    .filter((m): m is AccountToOutflowMapping => m.kind === 'accountToOutflow')
+    .map(toEndpoint)
+  issues.push(...getAllocationIssues('inflow', INFLOW_GROUPS, inflowItems, inflowEndpoints, platformNames, convert))
+  issues.push(...getAllocationIssues('outflow', OUTFLOW_GROUPS, outflowItems, outflowEndpoints, platformNames, convert))
+
+  // Spare change per platform (as on the platform cards)
+  const spare = new Map<string, number>()
+  const addSpare = (account: string, amount: number) => spare.set(account, (spare.get(account) || 0) + amount)
+  for (const mapping of validMappings) {
+    const amount = computeMappingAmount(mapping, inflowItems, outflowItems, convert)
+    if (mapping.kind === 'inflowToAccount') {
+      addSpare(mapping.account, amount)
+    } else if (mapping.kind === 'accountToOutflow') {
+      addSpare(mapping.account, -amount)
+    } else {
+      addSpare(mapping.fromAccount, -amount)
+      addSpare(mapping.toAccount, amount)
+    }
+  }
+  const [richest] = [...spare].filter(([, amount]) => amount > ROUNDING_TOLERANCE).sort((a, b) => b[1] - a[1])
+  for (const [account, amount] of spare) {
+    if (amount >= -ROUNDING_TOLERANCE) continue
+    const transfer = richest && richest[0] !== account ? Math.round(Math.min(-amount, richest[1]) * 100) / 100 : 0
+    issues.push({
+      id: `negativeSpare:${account}`,
+      kind: 'negativeSpare',
+      severity: 'error',
+      message: `${account} pays out more than it receives (negative spare change).`,
+      amount: -amount,
+      fix: transfer > 0
+        ? {
+            kind: 'addMapping',
+            label: `Transfer from ${richest[0]}`,
+            mapping: { kind: 'accountToAccount', fromAccount: richest[0], toAccount: account, amountChf: transfer },
+          }
+        : null,
+    })
+  }
+
+  return issues
+}
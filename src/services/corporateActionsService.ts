@@ -0,0 +1,16 @@
+export {
+  BUILTIN_CRYPTO_SYMBOL_ALIASES,
+  applyCorporateActions,
+  buildSymbolAliasMap,
+  fetchPricesWithAliases,
+  getCorporateActions,
+  getSplitFactor,
+  getSymbolAtDate,
+  isValidCorporateAction,
+  resolveSymbol,
+  type CorporateAction,
+  type CorporateActionItem,
+  type CorporateActionType,
+  type StockSplitAction,
+  type TickerChangeAction,
+} from '../../lib/corporateActions'
@@ -0,0 +1,12 @@
+export {
+  COST_BASIS_METHODS,
+  COST_BASIS_METHOD_LABELS,
+  DEFAULT_COST_BASIS_METHOD,
+  calculateCostBasis,
+  calculateUnrealizedPnl,
+  isCostBasisMethod,
+  type CostBasisLot,
+  type CostBasisMethod,
+  type CostBasisResult,
+  type UnrealizedPnl,
+} from '../../lib/costBasis'
@@ -1,2 +1 @@
-export { fetchCryptoData, fetchCryptoPrices, fetchUsdToChfRate } from '../../lib/cryptoCompare'
-
+export { fetchCryptoData, fetchCryptoPrices, fetchHistoricalCryptoPrices, fetchHistoricalCryptoPriceSeries, fetchUsdToChfRate } from '../../lib/cryptoCompare'
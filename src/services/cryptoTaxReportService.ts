@@ -1,6 +1,9 @@
 import type { NetWorthItem, NetWorthTransaction } from '../pages/NetWorth'
 import { loadNetWorthItems, loadNetWorthTransactions } from './storageService'
 import type { CurrencyCode } from '../lib/currency'
+import { getTransactionQuantityDelta } from './balanceCalculationService'
+import { getIncomeBreakdown, isFeeTransaction, isIncomeTransaction, type IncomeTransactionType } from './incomeSummaryService'
+import { getTransferNetworkFee, isTransferTransaction } from './transfersService'
 
 export interface CryptoTransaction {
   date: string
@@ -15,6 +18,34 @@ export interface AdjustmentTransaction {
   reason?: string
 }
 
+export interface IncomeTransaction {
+  date: string
+  type: IncomeTransactionType
+  /** Coins received (0 when paid out in another currency) */
+  amount: number
+  grossChf: number
+  withholdingTaxChf: number
+  netChf: number
+}
+
+export interface FeeTransaction {
+  date: string
+  /** Coins paid (0 when paid in another currency) */
+  amount: number
+  totalChf: number
+}
+
+/** Movement between own platforms (not a disposal, not taxable) */
+export interface TransferTransaction {
+  date: string
+  /** Coins received by the destination */
+  amount: number
+  /** Coins paid as network fee (also listed under fees) */
+  networkFee: number
+  fromPlatform: string
+  toPlatform: string
+}
+
 export interface CoinReport {
   coin: string
   coinName?: string
@@ -26,6 +57,9 @@ export interface CoinReport {
   buys: CryptoTransaction[]
   sells: CryptoTransaction[]
   adjustments?: AdjustmentTransaction[]
+  income: IncomeTransaction[]
+  fees: FeeTransaction[]
+  transfers: TransferTransaction[]
   balanceEndOfYear: {
     amount: number
     priceChf: number
@@ -42,7 +76,7 @@ export interface CryptoTaxReport {
 
 /**
  * Get all years with crypto activity.
- * Includes any year with a BUY/SELL/ADJUSTMENT transaction,
+ * Includes any year with a crypto transaction (trades, adjustments, income, fees),
  * plus the current year if the user holds any crypto.
  */
 export async function getYearsWithCryptoActivity(uid?: string): Promise<number[]> {
@@ -72,7 +106,7 @@ export async function getYearsWithCryptoActivity(uid?: string): Promise<number[]
 
 /**
  * Calculate coin balance at a specific timestamp.
- * Handles cryptoType (BUY/SELL/ADJUSTMENT) and legacy side field.
+ * Handles all cryptoType values (incl. staking rewards and fees paid in coins) and legacy side field.
  */
 function calculateBalanceAtTimestamp(
   itemId: string,
@@ -85,12 +119,7 @@ function calculateBalanceAtTimestamp(
       const txDate = new Date(tx.date)
       return !isNaN(txDate.getTime()) && txDate.getTime() <= timestamp
     })
-    .reduce((sum, tx) => {
-      if (tx.cryptoType === 'ADJUSTMENT') return sum + tx.amount
-      if (tx.cryptoType === 'BUY' || (!tx.cryptoType && tx.side === 'buy')) return sum + tx.amount
-      if (tx.cryptoType === 'SELL' || (!tx.cryptoType && tx.side === 'sell')) return sum - tx.amount
-      return sum
-    }, 0)
+    .reduce((sum, tx) => sum + getTransactionQuantityDelta(tx), 0)
 }
 
 /**
@@ -217,6 +246,8 @@ export interface TaxReportOptions {
 /**
  * Generate crypto tax report for a specific year.
  * When detailed is true, ADJUSTMENT transactions are included.
+ * Income (staking rewards, interest, dividends), fees and transfers are always included.
+ * Transfers are reported once per transfer as non-taxable movements; their network fee is a fee.
  * For the current year, the end date is capped to today.
  */
 export async function generateCryptoTaxReport(
@@ -271,11 +302,24 @@ export async function generateCryptoTaxReport(
       ? yearTransactions.filter(tx => tx.cryptoType === 'ADJUSTMENT')
       : []
 
+    const incomeTransactions = yearTransactions.filter(isIncomeTransaction)
+    const feeTransactions = yearTransactions.filter(isFeeTransaction)
+
+    // One entry per transfer: prefer the outgoing leg (it carries the network fee)
+    const transferLegs = new Map<string, NetWorthTransaction>()
+    for (const tx of yearTransactions.filter(isTransferTransaction)) {
+      const key = tx.transferId || tx.id
+      const existing = transferLegs.get(key)
+      if (!existing || tx.cryptoType === 'TRANSFER_OUT') transferLegs.set(key, tx)
+    }
+    const transferTransactions = Array.from(transferLegs.values())
+
     const balanceStart = calculateBalanceAtTimestamp(item.id, coinTransactions, yearStart)
     const balanceEnd = calculateBalanceAtTimestamp(item.id, coinTransactions, yearEnd)
 
     const hasActivity = balanceStart !== 0 || balanceEnd !== 0
       || tradeTransactions.length > 0 || adjustmentTransactions.length > 0
+      || incomeTransactions.length > 0 || feeTransactions.length > 0 || transferTransactions.length > 0
 
     if (!hasActivity) continue
 
@@ -324,6 +368,51 @@ export async function generateCryptoTaxReport(
       }))
       .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
 
+    const toChf = (amount: number, tx: NetWorthTransaction) =>
+      convert(amount, (tx.currency || 'USD') as CurrencyCode)
+
+    const income: IncomeTransaction[] = incomeTransactions
+      .map(tx => {
+        const { gross, withholdingTax, net } = getIncomeBreakdown(tx)
+        return {
+          date: tx.date,
+          type: tx.cryptoType as IncomeTransactionType,
+          amount: Math.abs(tx.amount),
+          grossChf: toChf(gross, tx),
+          withholdingTaxChf: toChf(withholdingTax, tx),
+          netChf: toChf(net, tx),
+        }
+      })
+      .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
+
+    const fees: FeeTransaction[] = feeTransactions
+      .map(tx => ({
+        date: tx.date,
+        amount: Math.abs(tx.amount),
+        totalChf: toChf(getIncomeBreakdown(tx).gross, tx),
+      }))
+      .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
+
+    const platformOf = (itemId?: string) => items.find(i => i.id === itemId)?.platform || ''
+    const transfers: TransferTransaction[] = []
+    for (const tx of transferTransactions) {
+      const isOut = tx.cryptoType === 'TRANSFER_OUT'
+      const networkFee = getTransferNetworkFee(tx)
+      transfers.push({
+        date: tx.date,
+        amount: Math.abs(tx.amount),
+        networkFee,
+        fromPlatform: platformOf(isOut ? tx.itemId : tx.transferItemId),
+        toPlatform: platformOf(isOut ? tx.transferItemId : tx.itemId),
+      })
+      if (networkFee > 0) {
+        const feePriceChf = await fetchHistoricalPrice(ticker, new Date(tx.date).getTime(), convert)
+        fees.push({ date: tx.date, amount: networkFee, totalChf: networkFee * feePriceChf })
+      }
+    }
+    transfers.sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
+    fees.sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
+
     coinReports.push({
       coin: ticker,
       coinName: item.name,
@@ -335,6 +424,9 @@ export async function generateCryptoTaxReport(
       buys,
       sells,
       ...(detailed ? { adjustments } : {}),
+      income,
+      fees,
+      transfers,
       balanceEndOfYear: {
         amount: balanceEnd,
         priceChf: priceEnd,
@@ -0,0 +1,11 @@
+export {
+  DEFAULT_ASSET_CLASS_ASSUMPTIONS,
+  computeFireSimulation,
+  getFireInputErrors,
+  getFireWeights,
+  type AssetClassAssumption,
+  type AssetClassAssumptions,
+  type FireInputs,
+  type FirePercentiles,
+  type FireSimulationResult,
+} from '../../lib/fireSimulation'
@@ -6,12 +6,15 @@ import {
   updateDoc,
   deleteDoc,
   writeBatch,
+  runTransaction,
+  serverTimestamp,
   query,
   deleteField,
 } from 'firebase/firestore'
 import { db } from '../config/firebase'
 import { safeWrite, safeDelete } from '../lib/dataSafety/repository'
 import { safeUpsertDoc, safeUpdateDoc, safeDeleteDoc } from '../lib/firestoreSafeWrite'
+import { getDeviceId } from '../lib/deviceId'
 
 function getUserCollectionPath(uid: string, collectionName: string): string {
   if (!uid) throw new Error('getUserCollectionPath: uid is required')
@@ -231,6 +234,33 @@ export async function deleteNetWorthTransaction(
   return await safeDeleteDoc(docRef, options)
 }
 
+/** Firestore's limit of writes per batch, i.e. the most documents one import can create */
+export const MAX_IMPORT_DOCUMENTS = 500
+
+/**
+ * Creates the items and transactions of a CSV import in one batch: either all documents are
+ * written or none. Metadata matches a new document written by safeUpsertDoc.
+ */
+export async function createNetWorthImport<I extends { id: string }, T extends { id: string }>(
+  uid: string,
+  items: I[],
+  transactions: T[]
+): Promise<void> {
+  if (items.length + transactions.length > MAX_IMPORT_DOCUMENTS) {
+    throw new Error(`An import can create at most ${MAX_IMPORT_DOCUMENTS} items and transactions`)
+  }
+
+  const metadata = { updatedAt: serverTimestamp(), updatedBy: getDeviceId(), version: 1 }
+  const batch = writeBatch(db)
+  items.forEach((item) => {
+    batch.set(doc(db, getUserCollectionPath(uid, 'netWorthItems'), item.id), { ...item, ...metadata })
+  })
+  transactions.forEach((transaction) => {
+    batch.set(doc(db, getUserCollectionPath(uid, 'netWorthTransactions'), transaction.id), { ...transaction, ...metadata })
+  })
+  await batch.commit()
+}
+
 /**
  * ⚠️ DEPRECATED: saveNetWorthItems performs bulk overwrites
  * 
@@ -490,6 +520,93 @@ export async function loadForecastEntries<T>(uid: string): Promise<T[]> {
   return loadDocuments<T>(uid, 'forecastEntries')
 }
 
+// Goals (per-document upserts)
+export async function saveGoal<T extends { id: string }>(
+  uid: string,
+  goal: T,
+  options: {
+    clientUpdatedAt?: Date | null
+    allowOverwrite?: boolean
+  } = {}
+): Promise<{ success: boolean; reason?: string }> {
+  const docRef = doc(db, `users/${uid}/goals/${goal.id}`)
+  return await safeUpsertDoc(docRef, goal, options)
+}
+
+export async function deleteGoal(
+  uid: string,
+  goalId: string,
+  options: {
+    clientUpdatedAt?: Date | null
+    allowOverwrite?: boolean
+  } = {}
+): Promise<{ success: boolean; reason?: string }> {
+  const docRef = doc(db, `users/${uid}/goals/${goalId}`)
+  return await safeDeleteDoc(docRef, options)
+}
+
+export async function loadGoals<T>(uid: string): Promise<T[]> {
+  return loadDocuments<T>(uid, 'goals')
+}
+
+// Forecast scenarios (per-document upserts)
+export async function saveForecastScenario<T extends { id: string }>(
+  uid: string,
+  scenario: T,
+  options: {
+    clientUpdatedAt?: Date | null
+    allowOverwrite?: boolean
+  } = {}
+): Promise<{ success: boolean; reason?: string }> {
+  const docRef = doc(db, `users/${uid}/forecastScenarios/${scenario.id}`)
+  return await safeUpsertDoc(docRef, scenario, options)
+}
+
+export async function deleteForecastScenario(
+  uid: string,
+  scenarioId: string,
+  options: {
+    clientUpdatedAt?: Date | null
+    allowOverwrite?: boolean
+  } = {}
+): Promise<{ success: boolean; reason?: string }> {
+  const docRef = doc(db, `users/${uid}/forecastScenarios/${scenarioId}`)
+  return await safeDeleteDoc(docRef, options)
+}
+
+export async function loadForecastScenarios<T>(uid: string): Promise<T[]> {
+  return loadDocuments<T>(uid, 'forecastScenarios')
+}
+
+// Cashflow actuals (per-document upserts)
+export async function saveCashflowActual<T extends { id: string }>(
+  uid: string,
+  actual: T,
+  options: {
+    clientUpdatedAt?: Date | null
+    allowOverwrite?: boolean
+  } = {}
+): Promise<{ success: boolean; reason?: string }> {
+  const docRef = doc(db, `users/${uid}/cashflowActuals/${actual.id}`)
+  return await safeUpsertDoc(docRef, actual, options)
+}
+
+export async function deleteCashflowActual(
+  uid: string,
+  actualId: string,
+  options: {
+    clientUpdatedAt?: Date | null
+    allowOverwrite?: boolean
+  } = {}
+): Promise<{ success: boolean; reason?: string }> {
+  const docRef = doc(db, `users/${uid}/cashflowActuals/${actualId}`)
+  return await safeDeleteDoc(docRef, options)
+}
+
+export async function loadCashflowActuals<T>(uid: string): Promise<T[]> {
+  return loadDocuments<T>(uid, 'cashflowActuals')
+}
+
 export interface Platform {
   id: string
   name: string
@@ -621,10 +738,55 @@ export async function saveSnapshotsFirestore<T extends { date: string }>(
   }
 }
 
+/**
+ * Writes only snapshots whose date has no document yet (existing snapshots are never overwritten).
+ * Each date is checked and written in one transaction, so a snapshot stored meanwhile
+ * (cron job, another tab) is kept. Returns the dates written.
+ */
+export async function createSnapshotsIfAbsentFirestore<T extends { date: string }>(
+  uid: string,
+  snapshots: T[]
+): Promise<string[]> {
+  const collectionPath = getUserCollectionPath(uid, 'snapshots')
+  const created: string[] = []
+
+  for (const snapshot of snapshots) {
+    const docRef = doc(db, collectionPath, snapshot.date)
+    const written = await runTransaction(db, async (transaction) => {
+      const docSnap = await transaction.get(docRef)
+      if (docSnap.exists()) return false
+      transaction.set(docRef, snapshot)
+      return true
+    })
+    if (written) created.push(snapshot.date)
+  }
+
+  return created
+}
+
 export async function loadSnapshotsFirestore<T>(uid: string): Promise<T[]> {
   return loadDocuments<T>(uid, 'snapshots')
 }
 
+/**
+ * Stored daily closes (symbol -> price) of one day from the shared `marketDailyPrices` collection.
+ * Symbols without a document are missing from the result.
+ */
+export async function loadMarketDailyClosesFirestore(
+  dateKey: string,
+  symbolKeys: string[]
+): Promise<Record<string, number>> {
+  const closes: Record<string, number> = {}
+  const docSnaps = await Promise.all(
+    symbolKeys.map((symbolKey) => getDoc(doc(db, `marketDailyPrices/${dateKey}/symbols/${symbolKey}`)))
+  )
+  docSnaps.forEach((docSnap, index) => {
+    const price = docSnap.exists() ? docSnap.data().price : undefined
+    if (typeof price === 'number' && price > 0) closes[symbolKeys[index]] = price
+  })
+  return closes
+}
+
 /**
  * Deletes all user data from Firestore, including collections and settings document.
  * 
@@ -637,7 +799,10 @@ export async function clearAllUserData(uid: string): Promise<void> {
     'cashflowInflowItems',
     'cashflowOutflowItems',
     'cashflowAccountflowMappings',
+    'cashflowActuals',
     'forecastEntries',
+    'goals',
+    'forecastScenarios',
     'snapshots',
     'platforms',
   ]
@@ -1,8 +1,16 @@
-import type { ForecastEntry } from './forecastService'
+import type { ForecastEntry, ForecastRecurrence } from './forecastService'
 import type { NetWorthItem, NetWorthTransaction } from '../pages/NetWorth'
 import type { InflowItem, OutflowItem } from '../pages/Cashflow'
 import { calculateBalanceChf } from './balanceCalculationService'
-import { computeMappingAmount } from './cashflowCalculationService'
+import {
+  computeMappingAmount,
+  getCashflowFrequency,
+  getItemAmountInMonth,
+  getItemMonthlyAmount,
+  isScheduledFrequency,
+} from './cashflowCalculationService'
+import { getLoanOutflowItems, isLoanOutflowItem } from './loanAmortizationService'
+import { isLiabilityCategory } from './netWorthCalculationService'
 import type { CurrencyCode } from '../lib/currency'
 
 // Accountflow mapping types (matching Cashflow.tsx structure)
@@ -18,6 +26,7 @@ interface InflowToAccountMapping {
   group?: InflowGroupName
   inflowItemId?: string
   account: string
+  updatedAt?: string
 }
 
 interface AccountToOutflowMapping {
@@ -27,6 +36,7 @@ interface AccountToOutflowMapping {
   group?: OutflowGroupName
   outflowItemId?: string
   account: string
+  updatedAt?: string
 }
 
 interface AccountToAccountMapping {
@@ -35,6 +45,7 @@ interface AccountToAccountMapping {
   fromAccount: string
   toAccount: string
   amountChf: number
+  updatedAt?: string
 }
 
 type AccountflowMapping =
@@ -51,6 +62,29 @@ export interface MonthlyProjection {
   spareChangeInflow: number
   manualInflows: number
   plannedPayments: number
+  scheduledPayments: number // Loan and non-monthly item payments beyond what the spare-change inflow already covers
+}
+
+/**
+ * An outflow that changes month by month (e.g. loan interest and amortization, a yearly insurance
+ * bill); inflows such as a 13th-month salary are negative
+ */
+export interface ScheduledOutflow {
+  id: string
+  title: string
+  /** Payment per month (YYYY-MM) */
+  amountsByMonth: Record<string, number>
+  /** Part of the payment already contained in the spare-change inflow (current month's amount if mapped) */
+  baselineAmount: number
+}
+
+/** Forecast horizons offered in Analytics (months) */
+export const FORECAST_HORIZONS = [12, 24, 36, 60]
+
+const RECURRENCE_MONTHS: Record<Exclude<ForecastRecurrence['frequency'], 'custom'>, number> = {
+  monthly: 1,
+  quarterly: 3,
+  yearly: 12,
 }
 
 export interface ForecastResult {
@@ -61,6 +95,49 @@ export interface ForecastResult {
   spareChangeInflow: number
 }
 
+export interface CombinedForecastPlatform {
+  platformId: string
+  name: string
+  /** Investment outflows paid from other platforms that land on this one (per month) */
+  investmentInflow: number
+  /** Forecast of the platform with its spare change plus the investment inflow */
+  result: ForecastResult
+}
+
+export interface CombinedMonthlyProjection {
+  month: string // Format: "YYYY-MM"
+  /** End balance per platform id */
+  balances: Record<string, number>
+  total: number
+}
+
+export interface CombinedForecastResult {
+  platforms: CombinedForecastPlatform[]
+  monthlyProjections: CombinedMonthlyProjection[]
+  currentTotal: number
+  lowestTotal: number
+  lowestMonth: string | null
+}
+
+export interface CombinedForecastInput {
+  platforms: Array<{ id: string; name: string }>
+  netWorthItems: NetWorthItem[]
+  transactions: NetWorthTransaction[]
+  cryptoPrices: Record<string, number>
+  stockPrices: Record<string, number>
+  usdToChfRate: number | null
+  accountflowMappings: AccountflowMapping[]
+  inflowItems: InflowItem[]
+  /** Outflow items without the derived loan outflows (added here) */
+  outflowItems: OutflowItem[]
+  forecastEntries: ForecastEntry[]
+  convert: (amount: number, from: CurrencyCode) => number
+  /** Conversion of the cashflow items' amounts (default: convert) */
+  cashflowConvert?: (amount: number, from: CurrencyCode) => number
+  startDate?: Date
+  months?: number
+}
+
 /**
  * Get current balance for a platform
  * @param platformId - The platform ID
@@ -81,7 +158,8 @@ export function getPlatformBalance(
   if (!cryptoPrices) cryptoPrices = {}
   if (!stockPrices) stockPrices = {}
   const platformMatch = platformName || platformId
-  const platformItems = netWorthItems.filter(item => item.platform === platformMatch)
+  // Liabilities are debt, not money available on the platform
+  const platformItems = netWorthItems.filter(item => item.platform === platformMatch && !isLiabilityCategory(item.category))
   
   if (platformItems.length === 0) {
     return 0
@@ -170,47 +248,231 @@ export function getPlatformSpareChangeInflow(
 }
 
 /**
- * Calculate 12-month cashflow forecast
+ * Get the monthly 'Investments' outflows that land on a platform: outflow items whose receiver is the
+ * platform, counted once per accountToOutflow mapping that pays them (unpaid outflows move no money).
+ * Loan outflows are left out, their receiver is the lender.
+ */
+export function getPlatformInvestmentInflow(
+  platformName: string,
+  accountflowMappings: AccountflowMapping[],
+  outflowItems: OutflowItem[],
+  convert: (amount: number, from: CurrencyCode) => number
+): number {
+  if (!accountflowMappings || !outflowItems) return 0
+  const investments = outflowItems.filter(
+    item => item.group === 'Investments' && item.receiver === platformName && !isLoanOutflowItem(item)
+  )
+
+  let totalInflow = 0
+  for (const mapping of accountflowMappings) {
+    if (mapping.kind !== 'accountToOutflow') continue
+    for (const item of investments) {
+      const isPaid = mapping.mode === 'item' ? mapping.outflowItemId === item.id : mapping.group === 'Investments'
+      if (!isPaid) continue
+      totalInflow += getItemMonthlyAmount(item, convert)
+    }
+  }
+  return totalInflow
+}
+
+/**
+ * Get the quarterly, semi-annual, yearly and one-off cashflow items that hit a platform, once per
+ * mapping that routes them to or from it. Their monthly equivalent is already part of the spare
+ * change (see computeMappingAmount), so the forecast applies the due amount minus that baseline.
+ * With `includeInvestmentInflow`, such 'Investments' outflows received by the platform are added
+ * like getPlatformInvestmentInflow.
+ */
+export function getPlatformItemSchedules(
+  platformName: string,
+  accountflowMappings: AccountflowMapping[],
+  inflowItems: InflowItem[],
+  outflowItems: OutflowItem[],
+  convert: (amount: number, from: CurrencyCode) => number,
+  startDate: Date = new Date(),
+  months: number = 12,
+  includeInvestmentInflow: boolean = false
+): ScheduledOutflow[] {
+  if (!accountflowMappings) return []
+  if (!inflowItems) inflowItems = []
+  if (!outflowItems) outflowItems = []
+  const monthKeys = Array.from({ length: months }, (_, i) => {
+    const monthDate = new Date(startDate.getFullYear(), startDate.getMonth() + i, 1)
+    return `${monthDate.getFullYear()}-${String(monthDate.getMonth() + 1).padStart(2, '0')}`
+  })
+  const isScheduled = (item: InflowItem | OutflowItem) => isScheduledFrequency(getCashflowFrequency(item))
+
+  // sign: +1 for money leaving the platform, -1 for money arriving
+  const toSchedule = (id: string, item: InflowItem | OutflowItem, sign: number): ScheduledOutflow => ({
+    id,
+    title: item.item,
+    amountsByMonth: Object.fromEntries(
+      monthKeys.map(month => [month, sign * getItemAmountInMonth(item, month, convert)])
+    ),
+    baselineAmount: sign * getItemMonthlyAmount(item, convert),
+  })
+
+  const result: ScheduledOutflow[] = []
+  for (const mapping of accountflowMappings) {
+    if (mapping.kind === 'inflowToAccount' && mapping.account === platformName) {
+      inflowItems
+        .filter(item => isScheduled(item) && (mapping.mode === 'item' ? mapping.inflowItemId === item.id : mapping.group === item.group))
+        .forEach(item => result.push(toSchedule(`${mapping.id}:${item.id}`, item, -1)))
+    } else if (mapping.kind === 'accountToOutflow') {
+      const paidItems = outflowItems.filter(
+        item => isScheduled(item) && (mapping.mode === 'item' ? mapping.outflowItemId === item.id : mapping.group === item.group)
+      )
+      if (mapping.account === platformName) {
+        paidItems.forEach(item => result.push(toSchedule(`${mapping.id}:${item.id}`, item, 1)))
+      }
+      if (includeInvestmentInflow) {
+        paidItems
+          .filter(item => item.group === 'Investments' && item.receiver === platformName && !isLoanOutflowItem(item))
+          .forEach(item => result.push(toSchedule(`${mapping.id}:${item.id}:received`, item, -1)))
+      }
+    }
+  }
+  return result
+}
+
+/**
+ * Get the loan payments (interest, amortization, pillar 3a) that hit a platform during the forecast.
+ * A payment is included when it is mapped to the platform in Accountflow (then its current amount is
+ * already part of the spare change and only the month-to-month difference is applied) or when the
+ * loan item itself is held on that platform (then the full scheduled amount is applied).
+ */
+export function getPlatformLoanOutflows(
+  platformId: string,
+  netWorthItems: NetWorthItem[],
+  accountflowMappings: AccountflowMapping[],
+  convert: (amount: number, from: CurrencyCode) => number,
+  platformName?: string,
+  startDate: Date = new Date(),
+  months: number = 12
+): ScheduledOutflow[] {
+  if (!netWorthItems) return []
+  if (!accountflowMappings) accountflowMappings = []
+  const accountName = platformName || platformId
+
+  const schedules = new Map<string, ScheduledOutflow & { group: OutflowGroupName; receiver: string }>()
+  for (let i = 0; i < months; i++) {
+    const monthDate = new Date(startDate.getFullYear(), startDate.getMonth() + i, 1)
+    const monthStr = `${monthDate.getFullYear()}-${String(monthDate.getMonth() + 1).padStart(2, '0')}`
+    for (const outflow of getLoanOutflowItems(netWorthItems, convert, monthDate)) {
+      const entry = schedules.get(outflow.id) || {
+        id: outflow.id,
+        title: outflow.item,
+        amountsByMonth: {},
+        baselineAmount: 0,
+        group: outflow.group,
+        receiver: outflow.receiver,
+      }
+      entry.amountsByMonth[monthStr] = outflow.amountChf
+      schedules.set(outflow.id, entry)
+    }
+  }
+
+  const currentOutflows = getLoanOutflowItems(netWorthItems, convert, startDate)
+  const result: ScheduledOutflow[] = []
+
+  schedules.forEach(({ group, receiver, ...scheduled }) => {
+    const isMapped = accountflowMappings.some(
+      (mapping) =>
+        mapping.kind === 'accountToOutflow' &&
+        mapping.account === accountName &&
+        ((mapping.mode === 'item' && mapping.outflowItemId === scheduled.id) ||
+          (mapping.mode === 'group' && mapping.group === group))
+    )
+
+    if (isMapped) {
+      const current = currentOutflows.find((o) => o.id === scheduled.id)
+      result.push({ ...scheduled, baselineAmount: current ? current.amountChf : 0 })
+    } else if (receiver === accountName) {
+      result.push(scheduled)
+    }
+  })
+
+  return result
+}
+
+/**
+ * Months between two occurrences of a recurring entry (at least 1)
+ */
+export function getRecurrenceIntervalMonths(recurrence: ForecastRecurrence): number {
+  if (recurrence.frequency === 'custom') {
+    return Math.max(1, Math.round(recurrence.intervalMonths || 1))
+  }
+  return RECURRENCE_MONTHS[recurrence.frequency]
+}
+
+/**
+ * Whether a forecast entry falls in the given month: one-off entries in the month of their date,
+ * recurring entries every interval months from their date on (on the same day, or the month's last
+ * day when shorter) until the end date
+ */
+export function isForecastEntryInMonth(entry: ForecastEntry, monthDate: Date): boolean {
+  const [year, month, day] = entry.date.split('-').map(Number)
+  const monthsSinceStart = (monthDate.getFullYear() - year) * 12 + (monthDate.getMonth() + 1 - month)
+  if (monthsSinceStart < 0) return false
+  if (!entry.recurrence) return monthsSinceStart === 0
+  if (monthsSinceStart % getRecurrenceIntervalMonths(entry.recurrence) !== 0) return false
+
+  if (entry.recurrence.endDate) {
+    const lastDay = new Date(monthDate.getFullYear(), monthDate.getMonth() + 1, 0).getDate()
+    const occurrence = `${monthDate.getFullYear()}-${String(monthDate.getMonth() + 1).padStart(2, '0')}-${String(Math.min(day, lastDay)).padStart(2, '0')}`
+    if (occurrence > entry.recurrence.endDate) return false
+  }
+  return true
+}
+
+/**
+ * First month whose end balance falls below the safety buffer (below 0 without one), null if none
+ */
+export function getFirstBufferBreach(result: ForecastResult, safetyBuffer: number | null): string | null {
+  const threshold = safetyBuffer && safetyBuffer > 0 ? safetyBuffer : 0
+  return result.monthlyProjections.find((projection) => projection.endBalance < threshold)?.month ?? null
+}
+
+/**
+ * Calculate the monthly cashflow forecast over `months` months (default 12)
  */
 export function calculateForecast(
   currentBalance: number,
   spareChangeInflow: number,
   forecastEntries: ForecastEntry[],
-  startDate: Date = new Date()
+  startDate: Date = new Date(),
+  scheduledOutflows: ScheduledOutflow[] = [],
+  months: number = 12
 ): ForecastResult {
   const monthlyProjections: MonthlyProjection[] = []
   let runningBalance = currentBalance
   let lowestBalance = Infinity
   let lowestMonth: string | null = null
 
-  for (let i = 0; i < 12; i++) {
+  for (let i = 0; i < months; i++) {
     const monthDate = new Date(startDate.getFullYear(), startDate.getMonth() + i, 1)
     const monthStr = `${monthDate.getFullYear()}-${String(monthDate.getMonth() + 1).padStart(2, '0')}`
-    const nextMonthDate = new Date(startDate.getFullYear(), startDate.getMonth() + i + 1, 1)
     
     const startBalance = runningBalance
     
     // Calculate manual inflows in this month
     const manualInflows = forecastEntries
-      .filter(entry => {
-        if (entry.type !== 'inflow') return false
-        const entryDate = new Date(entry.date)
-        return entryDate >= monthDate && entryDate < nextMonthDate
-      })
+      .filter(entry => entry.type === 'inflow' && isForecastEntryInMonth(entry, monthDate))
       .reduce((sum, entry) => sum + entry.amount, 0)
     
     // Calculate planned payments (outflows) in this month
     const plannedPayments = forecastEntries
-      .filter(entry => {
-        if (entry.type !== 'outflow') return false
-        const entryDate = new Date(entry.date)
-        return entryDate >= monthDate && entryDate < nextMonthDate
-      })
+      .filter(entry => entry.type === 'outflow' && isForecastEntryInMonth(entry, monthDate))
       .reduce((sum, entry) => sum + entry.amount, 0)
     
+    // Scheduled outflows (e.g. loans) that differ from the amount already in the spare change
+    const scheduledPayments = scheduledOutflows.reduce(
+      (sum, scheduled) => sum + (scheduled.amountsByMonth[monthStr] || 0) - scheduled.baselineAmount,
+      0
+    )
+    
     // Add spare-change inflow (monthly automatic)
     const totalInflows = spareChangeInflow + manualInflows
-    const totalOutflows = plannedPayments
+    const totalOutflows = plannedPayments + scheduledPayments
     
     // Calculate end balance
     runningBalance = startBalance + totalInflows - totalOutflows
@@ -231,6 +493,7 @@ export function calculateForecast(
       spareChangeInflow,
       manualInflows,
       plannedPayments,
+      scheduledPayments,
     })
   }
 
@@ -242,3 +505,103 @@ export function calculateForecast(
     spareChangeInflow,
   }
 }
+
+/**
+ * Forecast every platform (its spare change including account-to-account transfers, investment
+ * outflows landing on it, loan payments, non-monthly items in their due months and its own forecast
+ * entries) and the total across platforms.
+ * Transfers between platforms cancel out in the total.
+ */
+export function calculateCombinedForecast(input: CombinedForecastInput): CombinedForecastResult {
+  const startDate = input.startDate ?? new Date()
+  const months = input.months ?? 12
+  const outflowItems = [...(input.outflowItems || []), ...getLoanOutflowItems(input.netWorthItems, input.convert, startDate)]
+  const cashflowConvert = input.cashflowConvert ?? input.convert
+
+  const platforms: CombinedForecastPlatform[] = input.platforms.map(platform => {
+    const currentBalance = getPlatformBalance(
+      platform.id,
+      input.netWorthItems,
+      input.transactions,
+      input.cryptoPrices,
+      input.stockPrices,
+      input.usdToChfRate,
+      input.convert,
+      platform.name
+    )
+    const spareChangeInflow = getPlatformSpareChangeInflow(
+      platform.id,
+      input.accountflowMappings,
+      input.inflowItems,
+      outflowItems,
+      cashflowConvert,
+      platform.name
+    )
+    const investmentInflow = getPlatformInvestmentInflow(platform.name, input.accountflowMappings, outflowItems, cashflowConvert)
+    const loanOutflows = getPlatformLoanOutflows(
+      platform.id,
+      input.netWorthItems,
+      input.accountflowMappings,
+      input.convert,
+      platform.name,
+      startDate,
+      months
+    )
+    const itemSchedules = getPlatformItemSchedules(
+      platform.name,
+      input.accountflowMappings,
+      input.inflowItems,
+      outflowItems,
+      cashflowConvert,
+      startDate,
+      months,
+      true
+    )
+    const entries = input.forecastEntries.filter(entry => entry.platformId === platform.id)
+
+    return {
+      platformId: platform.id,
+      name: platform.name,
+      investmentInflow,
+      result: calculateForecast(
+        currentBalance,
+        spareChangeInflow + investmentInflow,
+        entries,
+        startDate,
+        [...loanOutflows, ...itemSchedules],
+        months
+      ),
+    }
+  })
+
+  if (platforms.length === 0) {
+    return { platforms, monthlyProjections: [], currentTotal: 0, lowestTotal: 0, lowestMonth: null }
+  }
+
+  let lowestTotal = Infinity
+  let lowestMonth: string | null = null
+  const monthlyProjections: CombinedMonthlyProjection[] = []
+  for (let i = 0; i < months; i++) {
+    const balances: Record<string, number> = {}
+    let total = 0
+    for (const platform of platforms) {
+      const projection = platform.result.monthlyProjections[i]
+      balances[platform.platformId] = projection.endBalance
+      total += projection.endBalance
+    }
+    const month = platforms[0].result.monthlyProjections[i].month
+    if (total < lowestTotal) {
+      lowestTotal = total
+      lowestMonth = month
+    }
+    monthlyProjections.push({ month, balances, total })
+  }
+
+  return {
+    platforms,
+    monthlyProjections,
+    currentTotal: platforms.reduce((sum, platform) => sum + platform.result.currentBalance, 0),
+    lowestTotal,
+    lowestMonth,
+  }
+}
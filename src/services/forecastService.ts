@@ -2,13 +2,32 @@ import {
   loadDocuments,
 } from './firestoreService'
 
+export type ForecastRecurrenceFrequency = 'monthly' | 'quarterly' | 'yearly' | 'custom'
+
+export interface ForecastRecurrence {
+  frequency: ForecastRecurrenceFrequency
+  intervalMonths?: number // Months between occurrences ('custom' only)
+  endDate?: string // Last possible occurrence (YYYY-MM-DD); open-ended when missing
+}
+
 export interface ForecastEntry {
   id: string
   platformId: string
   type: 'inflow' | 'outflow'
-  date: string // ISO date string (YYYY-MM-DD)
+  date: string // ISO date string (YYYY-MM-DD), first occurrence of recurring entries
   title: string
   amount: number // Absolute value (positive)
+  recurrence?: ForecastRecurrence | null // null/missing = one-off
+  createdAt?: string
+  updatedAt?: string
+}
+
+export interface ForecastScenario {
+  id: string
+  name: string
+  platformId: string
+  entries: ForecastEntry[] // Replace the platform's forecast entries
+  spareChangeInflow: number | null // Monthly spare change assumed instead of Cashflow's; null = Cashflow
   createdAt?: string
   updatedAt?: string
 }
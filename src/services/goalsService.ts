@@ -0,0 +1,17 @@
+export {
+  GOAL_KINDS,
+  GOAL_KIND_LABELS,
+  computeGoalProgress,
+  getGoalGrowthRate,
+  getGoalItemIds,
+  getGoalMonthlyContribution,
+  type Goal,
+  type GoalContext,
+  type GoalGrowthOptions,
+  type GoalItem,
+  type GoalKind,
+  type GoalProgress,
+  type GoalScope,
+  type GoalSnapshot,
+  type GoalStatus,
+} from '../../lib/goals'
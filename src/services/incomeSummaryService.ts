@@ -0,0 +1,11 @@
+export {
+  INCOME_TRANSACTION_TYPES,
+  TRANSACTION_TYPE_LABELS,
+  calculateIncomeSummary,
+  getIncomeBreakdown,
+  isFeeTransaction,
+  isIncomeTransaction,
+  type IncomeBreakdown,
+  type IncomeSummaryYear,
+  type IncomeTransactionType,
+} from '../../lib/incomeSummary'
@@ -0,0 +1,84 @@
+import type { NetWorthItem } from '../pages/NetWorth'
+import type { OutflowItem } from '../pages/Cashflow'
+import type { CurrencyCode } from '../lib/currency'
+import { getLoanPaymentForMonth, isValidLoanSchedule } from '../../lib/loanAmortization'
+
+export {
+  buildLoanSchedule,
+  getAccumulatedAmortization,
+  getLoanAnnualRatePercent,
+  getLoanPaymentForMonth,
+  getMonthlyAmortization,
+  getScheduledLoanBalance,
+  isValidLoanSchedule,
+  type LoanAmortizationType,
+  type LoanMonthlyPayment,
+  type LoanRateType,
+  type LoanSchedule,
+  type LoanScheduleRow,
+} from '../../lib/loanAmortization'
+
+export const LOAN_OUTFLOW_ID_PREFIX = 'loan-'
+
+/**
+ * Check whether an outflow item was generated from a loan schedule (read-only, not persisted)
+ */
+export function isLoanOutflowItem(item: Pick<OutflowItem, 'id'>): boolean {
+  return item.id.startsWith(LOAN_OUTFLOW_ID_PREFIX)
+}
+
+/**
+ * Derive read-only cashflow outflow items from the amortization schedules of liability items.
+ * Interest and direct amortization go to the 'Fix' group, indirect amortization (pillar 3a) to 'Investments'.
+ */
+export function getLoanOutflowItems(
+  netWorthItems: NetWorthItem[],
+  convert: (amount: number, from: CurrencyCode) => number,
+  monthDate: Date = new Date()
+): OutflowItem[] {
+  if (!netWorthItems) return []
+  const outflows: OutflowItem[] = []
+
+  for (const item of netWorthItems) {
+    if (!isValidLoanSchedule(item.loanSchedule)) continue
+    const payment = getLoanPaymentForMonth(item.loanSchedule, monthDate)
+    const currency = item.currency || 'CHF'
+    const toChf = (amount: number) => convert(amount, currency as CurrencyCode)
+
+    if (payment.interest > 0) {
+      outflows.push({
+        id: `${LOAN_OUTFLOW_ID_PREFIX}interest-${item.id}`,
+        item: `${item.name} interest`,
+        amount: payment.interest,
+        amountChf: toChf(payment.interest),
+        currency,
+        receiver: item.platform,
+        group: 'Fix',
+      })
+    }
+    if (payment.amortization > 0) {
+      outflows.push({
+        id: `${LOAN_OUTFLOW_ID_PREFIX}amortization-${item.id}`,
+        item: `${item.name} amortization`,
+        amount: payment.amortization,
+        amountChf: toChf(payment.amortization),
+        currency,
+        receiver: item.platform,
+        group: 'Fix',
+      })
+    }
+    if (payment.pillar3aContribution > 0) {
+      outflows.push({
+        id: `${LOAN_OUTFLOW_ID_PREFIX}3a-${item.id}`,
+        item: `${item.name} amortization (3a)`,
+        amount: payment.pillar3aContribution,
+        amountChf: toChf(payment.pillar3aContribution),
+        currency,
+        receiver: item.platform,
+        group: 'Investments',
+      })
+    }
+  }
+
+  return outflows
+}
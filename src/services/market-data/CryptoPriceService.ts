@@ -4,6 +4,7 @@
  */
 
 import type { CryptoPrice } from './types'
+import { BUILTIN_CRYPTO_SYMBOL_ALIASES, fetchPricesWithAliases } from '../corporateActionsService'
 
 const REQUEST_TIMEOUT_MS = 10000 // 10 seconds
 
@@ -120,15 +121,21 @@ export async function getPrices(symbols: string[]): Promise<CryptoPrice[]> {
 }
 
 /**
- * Get prices as a simple map (symbol -> price in USD)
+ * Get prices as a simple map (symbol -> price in USD).
+ * Rebranded symbols are resolved through `aliases` and returned under the old symbol too.
  */
-export async function getPricesMap(symbols: string[]): Promise<Record<string, number>> {
-  const prices = await getPrices(symbols)
-  const map: Record<string, number> = {}
+export async function getPricesMap(
+  symbols: string[],
+  aliases: Record<string, string> = BUILTIN_CRYPTO_SYMBOL_ALIASES
+): Promise<Record<string, number>> {
+  return fetchPricesWithAliases(symbols, async (resolved) => {
+    const prices = await getPrices(resolved)
+    const map: Record<string, number> = {}
 
-  for (const price of prices) {
-    map[price.symbol] = price.priceUsd
-  }
+    for (const price of prices) {
+      map[price.symbol] = price.priceUsd
+    }
 
-  return map
+    return map
+  }, aliases)
 }
@@ -3,9 +3,11 @@
  *
  * Fetches stock/ETF/commodity prices from Yahoo Finance via a Vercel API proxy.
  * Prices are fetched on every app open/refresh — no Firestore caching.
+ * Past closes stored in `marketDailyPrices` can be read with getStoredDailyCloses.
  */
 
 import { apiPost } from '../../lib/apiClient'
+import { fetchPricesWithAliases } from '../corporateActionsService'
 
 // ============================================================================
 // Types
@@ -127,21 +129,54 @@ export async function getDailyPrices(
   return result
 }
 
+/**
+ * Stored daily closes (symbol -> day -> price) on the given days from `marketDailyPrices`.
+ * Days without a stored close are missing from the series; empty when the store cannot be read.
+ */
+export async function getStoredDailyCloses(
+  symbolsRaw: string[],
+  dates: string[]
+): Promise<Record<string, Record<string, number>>> {
+  const symbolKeys = [...new Set(symbolsRaw.map(normalizeSymbolKey))]
+  if (symbolKeys.length === 0 || dates.length === 0) return {}
+
+  try {
+    const { loadMarketDailyClosesFirestore } = await import('../firestoreService')
+    const closesByDate = await Promise.all(dates.map((date) => loadMarketDailyClosesFirestore(date, symbolKeys)))
+
+    const result: Record<string, Record<string, number>> = {}
+    closesByDate.forEach((closes, index) => {
+      for (const [symbolKey, price] of Object.entries(closes)) {
+        result[symbolKey] = { ...result[symbolKey], [dates[index]]: price }
+      }
+    })
+    return result
+  } catch (err) {
+    console.warn('[DailyPriceService] Error reading stored daily prices:', err)
+    return {}
+  }
+}
+
 /**
  * Get a simple price map (symbol -> price) for backward compatibility.
+ * Symbols renamed by a ticker change are resolved through `aliases` (old -> new)
+ * and returned under both the old and the new symbol.
  */
 export async function getDailyPricesMap(
   symbolsRaw: string[],
-  _uid?: string
+  _uid?: string,
+  aliases: Record<string, string> = {}
 ): Promise<Record<string, number>> {
-  const prices = await getDailyPrices(symbolsRaw)
-  const result: Record<string, number> = {}
+  return fetchPricesWithAliases(symbolsRaw, async (symbols) => {
+    const prices = await getDailyPrices(symbols)
+    const result: Record<string, number> = {}
 
-  for (const [symbol, data] of Object.entries(prices)) {
-    result[symbol] = data.price
-  }
+    for (const [symbol, data] of Object.entries(prices)) {
+      result[symbol] = data.price
+    }
 
-  return result
+    return result
+  }, aliases)
 }
 
 // ============================================================================
@@ -0,0 +1,201 @@
+/**
+ * Historical Price Service (SSOT)
+ *
+ * Daily closes for a past day (YYYY-MM-DD), or for a range of days (series):
+ * - Crypto: CryptoCompare (USD)
+ * - Stocks/ETFs/commodities: Yahoo Finance via the Vercel API proxy (split-adjusted)
+ * Closes of past days do not change, so results are cached for the session.
+ */
+
+import { apiPost } from '../../lib/apiClient'
+import { fetchHistoricalCryptoPrices, fetchHistoricalCryptoPriceSeries } from '../cryptoCompareService'
+import { BUILTIN_CRYPTO_SYMBOL_ALIASES, fetchPricesWithAliases } from '../corporateActionsService'
+import { marketDataCache } from './MarketDataCache'
+import { normalizeSymbolKey } from './DailyPriceService'
+
+const CACHE_TTL_MS = 24 * 60 * 60 * 1000 // 24 hours
+
+/** Daily closes keyed by day (YYYY-MM-DD) */
+export type DailyCloseSeries = Record<string, number>
+
+interface ApiHistoricalResponse {
+  success: boolean
+  date: string
+  prices: Record<string, number>
+  series?: Record<string, DailyCloseSeries>
+  missing?: string[]
+  source: string
+  error?: string
+}
+
+function getCacheKey(kind: 'crypto' | 'market' | 'crypto-series' | 'market-series', symbols: string[], date: string, aliases: Record<string, string>): string {
+  const sortedAliases = Object.entries(aliases).sort(([a], [b]) => a.localeCompare(b))
+  return `historical:${kind}:${date}:${[...symbols].sort().join(',')}:${JSON.stringify(sortedAliases)}`
+}
+
+/** Symbols per request accepted by /api/market/historical-prices */
+const MAX_SYMBOLS_PER_REQUEST = 100
+
+/**
+ * Fetch in requests of at most MAX_SYMBOLS_PER_REQUEST symbols and merge the results
+ */
+async function fetchInChunks<T>(symbols: string[], fetchChunk: (chunk: string[]) => Promise<Record<string, T>>): Promise<Record<string, T>> {
+  const chunks: string[][] = []
+  for (let i = 0; i < symbols.length; i += MAX_SYMBOLS_PER_REQUEST) {
+    chunks.push(symbols.slice(i, i + MAX_SYMBOLS_PER_REQUEST))
+  }
+  const results = await Promise.all(chunks.map(fetchChunk))
+  return Object.assign({}, ...results)
+}
+
+async function fetchMarketClosesFromApi(symbols: string[], date: string): Promise<Record<string, number>> {
+  if (symbols.length === 0) return {}
+  if (symbols.length > MAX_SYMBOLS_PER_REQUEST) {
+    return fetchInChunks(symbols, (chunk) => fetchMarketClosesFromApi(chunk, date))
+  }
+
+  const response = await apiPost('/api/market/historical-prices', { symbols, date })
+  if (!response.ok) {
+    throw new Error(`API returned ${response.status}`)
+  }
+
+  const data: ApiHistoricalResponse = await response.json()
+  if (!data.success || !data.prices) {
+    throw new Error(data.error || 'Invalid response from historical prices API')
+  }
+  if (import.meta.env.DEV && data.missing?.length) {
+    console.warn(`[HistoricalPriceService] No close on ${date} for:`, data.missing)
+  }
+  return data.prices
+}
+
+async function fetchMarketSeriesFromApi(symbols: string[], from: string, to: string): Promise<Record<string, DailyCloseSeries>> {
+  if (symbols.length === 0) return {}
+  if (symbols.length > MAX_SYMBOLS_PER_REQUEST) {
+    return fetchInChunks(symbols, (chunk) => fetchMarketSeriesFromApi(chunk, from, to))
+  }
+
+  const response = await apiPost('/api/market/historical-prices', { symbols, date: to, from })
+  if (!response.ok) {
+    throw new Error(`API returned ${response.status}`)
+  }
+
+  const data: ApiHistoricalResponse = await response.json()
+  if (!data.success || !data.series) {
+    throw new Error(data.error || 'Invalid response from historical prices API')
+  }
+  if (import.meta.env.DEV && data.missing?.length) {
+    console.warn(`[HistoricalPriceService] No closes from ${from} to ${to} for:`, data.missing)
+  }
+  return data.series
+}
+
+/**
+ * Cache non-empty results only, so a failed request is retried on the next call
+ */
+async function getOrFetchCloses<T>(
+  key: string,
+  fetcher: () => Promise<Record<string, T>>
+): Promise<Record<string, T>> {
+  try {
+    return await marketDataCache.getOrFetch(key, async () => {
+      const prices = await fetcher()
+      if (Object.keys(prices).length === 0) throw new Error('No closes returned')
+      return prices
+    }, CACHE_TTL_MS)
+  } catch (error) {
+    console.warn(`[HistoricalPriceService] ${key}:`, error)
+    return {}
+  }
+}
+
+/**
+ * Crypto closes (symbol -> USD) on `date`.
+ * Rebranded symbols are resolved through `aliases` and returned under the old symbol too.
+ */
+export async function getHistoricalCryptoPricesMap(
+  symbols: string[],
+  date: string,
+  aliases: Record<string, string> = BUILTIN_CRYPTO_SYMBOL_ALIASES
+): Promise<Record<string, number>> {
+  const normalized = [...new Set(symbols.map(normalizeSymbolKey))]
+  if (normalized.length === 0) return {}
+
+  return getOrFetchCloses(
+    getCacheKey('crypto', normalized, date, aliases),
+    () => fetchHistoricalCryptoPrices(normalized, date, aliases)
+  )
+}
+
+/**
+ * Stock/ETF/commodity closes (symbol -> price in the listing currency) on `date`.
+ * Symbols renamed by a ticker change are resolved through `aliases` (old -> new).
+ */
+export async function getHistoricalMarketPricesMap(
+  symbols: string[],
+  date: string,
+  aliases: Record<string, string> = {}
+): Promise<Record<string, number>> {
+  const normalized = [...new Set(symbols.map(normalizeSymbolKey))]
+  if (normalized.length === 0) return {}
+
+  return getOrFetchCloses(
+    getCacheKey('market', normalized, date, aliases),
+    () => fetchPricesWithAliases(normalized, (resolved) => fetchMarketClosesFromApi(resolved, date), aliases)
+  )
+}
+
+/**
+ * Crypto closes (symbol -> day -> USD) from `from` to `to`, one request per symbol.
+ */
+export async function getHistoricalCryptoPriceSeries(
+  symbols: string[],
+  from: string,
+  to: string,
+  aliases: Record<string, string> = BUILTIN_CRYPTO_SYMBOL_ALIASES
+): Promise<Record<string, DailyCloseSeries>> {
+  const normalized = [...new Set(symbols.map(normalizeSymbolKey))]
+  if (normalized.length === 0) return {}
+
+  return getOrFetchCloses(
+    getCacheKey('crypto-series', normalized, `${from}:${to}`, aliases),
+    () => fetchHistoricalCryptoPriceSeries(normalized, from, to, aliases)
+  )
+}
+
+/**
+ * Stock/ETF/commodity closes (symbol -> day -> price in the listing currency) from `from` to `to`.
+ * Series start up to 10 days before `from` so the first days have an earlier close to fall back to.
+ */
+export async function getHistoricalMarketPriceSeries(
+  symbols: string[],
+  from: string,
+  to: string,
+  aliases: Record<string, string> = {}
+): Promise<Record<string, DailyCloseSeries>> {
+  const normalized = [...new Set(symbols.map(normalizeSymbolKey))]
+  if (normalized.length === 0) return {}
+
+  return getOrFetchCloses(
+    getCacheKey('market-series', normalized, `${from}:${to}`, aliases),
+    () => fetchPricesWithAliases(normalized, (resolved) => fetchMarketSeriesFromApi(resolved, from, to), aliases)
+  )
+}
+
+/**
+ * Last close on or before `date` of every series (symbol -> close)
+ */
+export function getClosesOnOrBefore(
+  seriesBySymbol: Record<string, DailyCloseSeries>,
+  date: string
+): Record<string, number> {
+  const closes: Record<string, number> = {}
+  for (const [symbol, series] of Object.entries(seriesBySymbol)) {
+    let lastDay: string | null = null
+    for (const day of Object.keys(series)) {
+      if (day <= date && (lastDay === null || day > lastDay)) lastDay = day
+    }
+    if (lastDay !== null) closes[symbol] = series[lastDay]
+  }
+  return closes
+}
@@ -8,4 +8,5 @@ export * from './FxRateService'
 export * from './CryptoPriceService'
 export * from './MarketPriceService'
 export * from './DailyPriceService'
+export * from './HistoricalPriceService'
 export * from './CurrencyConversion'
@@ -1,5 +1,7 @@
 export {
   NetWorthCalculationService,
+  LIABILITY_CATEGORIES,
+  isLiabilityCategory,
   type CategoryTotals,
   type NetWorthCalculationResult,
 } from '../../lib/netWorthCalculation'
@@ -1,6 +1,6 @@
 import jsPDF from 'jspdf'
 import autoTable from 'jspdf-autotable'
-import type { CryptoTaxReport, CoinReport } from './cryptoTaxReportService'
+import type { CryptoTaxReport, CoinReport, IncomeTransaction } from './cryptoTaxReportService'
 
 function fmt(value: number, decimals: number = 2): string {
   return new Intl.NumberFormat('de-CH', {
@@ -33,7 +33,13 @@ function parseDateForSort(formatted: string): number {
   return 0
 }
 
-const TYPE_ORDER: Record<string, number> = { Kauf: 0, Verkauf: 1, Anpassung: 2 }
+const TYPE_ORDER: Record<string, number> = { Kauf: 0, Verkauf: 1, Staking: 2, Zins: 3, Dividende: 4, 'Gebühr': 5, Transfer: 6, Anpassung: 7 }
+
+const INCOME_TYPE_LABELS: Record<IncomeTransaction['type'], string> = {
+  STAKING: 'Staking',
+  INTEREST: 'Zins',
+  DIVIDEND: 'Dividende',
+}
 
 const GOLD: [number, number, number] = [218, 165, 32]
 const DARK: [number, number, number] = [5, 10, 26]
@@ -153,6 +159,17 @@ export function generateCryptoTaxReportPDF(report: CryptoTaxReport): void {
     for (const tx of coin.sells) {
       allRows.push({ asset: coin.coin, type: 'Verkauf', date: fmtDate(tx.date), stk: fmt(tx.amount, 4), kurs: fmt(tx.priceChf), value: fmt(tx.totalChf), comment: '' })
     }
+    for (const inc of coin.income || []) {
+      const comment = inc.withholdingTaxChf > 0 ? `Quellensteuer ${fmt(inc.withholdingTaxChf)}` : ''
+      allRows.push({ asset: coin.coin, type: INCOME_TYPE_LABELS[inc.type], date: fmtDate(inc.date), stk: inc.amount ? fmt(inc.amount, 4) : '', kurs: '', value: fmt(inc.grossChf), comment })
+    }
+    for (const fee of coin.fees || []) {
+      allRows.push({ asset: coin.coin, type: 'Gebühr', date: fmtDate(fee.date), stk: fee.amount ? fmt(fee.amount, 4) : '', kurs: '', value: fmt(fee.totalChf), comment: '' })
+    }
+    for (const t of coin.transfers || []) {
+      const route = t.fromPlatform || t.toPlatform ? `${t.fromPlatform || '?'} → ${t.toPlatform || '?'}, ` : ''
+      allRows.push({ asset: coin.coin, type: 'Transfer', date: fmtDate(t.date), stk: fmt(t.amount, 4), kurs: '', value: '', comment: `${route}steuerneutral` })
+    }
     if (detailed && coin.adjustments) {
       for (const a of coin.adjustments) {
         allRows.push({ asset: coin.coin, type: 'Anpassung', date: fmtDate(a.date), stk: fmt(a.amount, 4), kurs: '', value: '', comment: a.reason || '' })
@@ -213,6 +230,53 @@ export function generateCryptoTaxReportPDF(report: CryptoTaxReport): void {
     },
   })
 
+  // --- Erträge ---
+  const incomeCoins = report.coins.filter(c => (c.income && c.income.length > 0) || (c.fees && c.fees.length > 0))
+  if (incomeCoins.length > 0) {
+    y = getY(doc) + 8
+    y = ensureSpace(doc, y, 20 + incomeCoins.length * 8)
+    doc.setFontSize(11)
+    doc.setFont('helvetica', 'bold')
+    doc.text('Erträge und Gebühren', 14, y)
+    y += 3
+
+    const totals = { gross: 0, withholding: 0, net: 0, fees: 0 }
+    const incomeBody: any[][] = incomeCoins.map(c => {
+      const gross = (c.income || []).reduce((sum, i) => sum + i.grossChf, 0)
+      const withholding = (c.income || []).reduce((sum, i) => sum + i.withholdingTaxChf, 0)
+      const net = (c.income || []).reduce((sum, i) => sum + i.netChf, 0)
+      const fees = (c.fees || []).reduce((sum, f) => sum + f.totalChf, 0)
+      totals.gross += gross
+      totals.withholding += withholding
+      totals.net += net
+      totals.fees += fees
+      return [c.coin, fmt(gross), fmt(withholding), fmt(net), fmt(fees)]
+    })
+    incomeBody.push([
+      { content: 'Total', styles: { fontStyle: 'bold' } },
+      { content: fmt(totals.gross), styles: { fontStyle: 'bold' } },
+      { content: fmt(totals.withholding), styles: { fontStyle: 'bold' } },
+      { content: fmt(totals.net), styles: { fontStyle: 'bold' } },
+      { content: fmt(totals.fees), styles: { fontStyle: 'bold' } },
+    ])
+
+    autoTable(doc, {
+      head: [['Asset', 'Ertrag brutto CHF', 'Quellensteuer CHF', 'Ertrag netto CHF', 'Gebühren CHF']],
+      body: incomeBody,
+      startY: y,
+      tableWidth: 180,
+      styles: STYLES,
+      headStyles: HEAD_STYLES,
+      columnStyles: {
+        0: { cellWidth: 30 },
+        1: { halign: 'right' },
+        2: { halign: 'right' },
+        3: { halign: 'right' },
+        4: { halign: 'right' },
+      },
+    })
+  }
+
   const suffix = detailed ? '-detailed' : ''
   doc.save(`crypto-tax-report-CH-${report.year}${suffix}.pdf`)
 }
@@ -0,0 +1,16 @@
+export {
+  RETURN_PERIODS,
+  RETURN_PERIOD_LABELS,
+  computeReturns,
+  computeTwrSeries,
+  formatReturnPct,
+  getFallbackValuationDates,
+  getReturnPeriodStart,
+  toValuationPoints,
+  xirr,
+  type CashFlow,
+  type PerformanceReturns,
+  type PeriodReturns,
+  type ReturnPeriod,
+  type ValuationPoint,
+} from '../../lib/performanceReturns'
@@ -0,0 +1,7 @@
+export {
+  attributePnl,
+  type AttributionEffects,
+  type AttributionItem,
+  type ItemAttribution,
+  type PnlAttribution,
+} from '../../lib/pnlAttribution'
@@ -0,0 +1,12 @@
+export {
+  RISK_SUMMARY_GROUPS,
+  TRADITIONAL_CATEGORIES,
+  computeRiskMetrics,
+  getRiskGroups,
+  type DrawdownPoint,
+  type RiskGroup,
+  type RiskMetrics,
+  type RiskMetricsOptions,
+  type RiskReport,
+  type RiskSnapshot,
+} from '../../lib/riskMetrics'
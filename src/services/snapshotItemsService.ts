@@ -0,0 +1,11 @@
+export {
+  toSnapshotItems,
+  fromSnapshotItemEntry,
+  getItemSeries,
+  getItemGroupSeries,
+  toChfItemValues,
+  type ItemValueChf,
+  type SnapshotItemEntry,
+  type SnapshotItems,
+  type ItemSeriesPoint,
+} from '../../lib/snapshotItems'
@@ -1,14 +1,29 @@
 import type { NetWorthItem, NetWorthTransaction, NetWorthCategory } from '../pages/NetWorth'
 import { NetWorthCalculationService } from './netWorthCalculationService'
 import type { CurrencyCode } from '../lib/currency'
+import type { CostBasisMethod } from './costBasisService'
+import { toSnapshotItems, type ItemValueChf, type SnapshotItems } from './snapshotItemsService'
+import { preloadHistoricalCloses, valuateAsOf } from './valuation/ValuationEngine'
+import type { ValuationResult } from './valuation/types'
+import type { ValuationPoint } from './performanceReturnsService'
 
 export interface NetWorthSnapshot {
   /** ISO date string (YYYY-MM-DD) */
   date: string
   /** Unix timestamp in milliseconds */
   timestamp: number
+  /** CHF totals per category; liability categories are negative (absent on older snapshots) */
   categories: Record<NetWorthCategory, number>
+  /** Net worth in CHF (gross assets - liabilities) */
   total: number
+  /** Sum of asset categories in CHF (absent on snapshots created before liabilities existed) */
+  grossAssets?: number
+  /** Outstanding liabilities in CHF as a positive number */
+  totalLiabilities?: number
+  /** Per-item detail keyed by item id (absent on older snapshots, see lib/snapshotItems.ts) */
+  items?: SnapshotItems
+  /** Reconstructed after the fact from transactions and historical prices (see backfillSnapshots) */
+  backfilled?: boolean
 }
 
 const SNAPSHOTS_STORAGE_KEY = 'capitalos_net_worth_snapshots_v1'
@@ -72,6 +87,7 @@ export async function saveSnapshots(snapshots: NetWorthSnapshot[], uid?: string)
 /**
  * Creates a snapshot of the current net worth state.
  * Uses NetWorthCalculationService for consistent calculation logic with frontend.
+ * Per-item values are included unless `includeItems` is false (user setting `snapshotItems`).
  */
 export function createSnapshot(
   items: NetWorthItem[],
@@ -79,7 +95,8 @@ export function createSnapshot(
   cryptoPrices: Record<string, number>,
   stockPrices: Record<string, number>,
   convert: (amount: number, from: CurrencyCode) => number,
-  usdToChfRate: number | null
+  usdToChfRate: number | null,
+  options: { includeItems?: boolean } = {}
 ): NetWorthSnapshot {
   if (!Array.isArray(items)) throw new Error('createSnapshot: items must be an array')
   if (!Array.isArray(transactions)) throw new Error('createSnapshot: transactions must be an array')
@@ -93,19 +110,7 @@ export function createSnapshot(
     convert
   )
 
-  const categories: Record<NetWorthCategory, number> = {
-    'Cash': result.categoryTotals['Cash'] || 0,
-    'Bank Accounts': result.categoryTotals['Bank Accounts'] || 0,
-    'Retirement Funds': result.categoryTotals['Retirement Funds'] || 0,
-    'Index Funds': result.categoryTotals['Index Funds'] || 0,
-    'Stocks': result.categoryTotals['Stocks'] || 0,
-    'Commodities': result.categoryTotals['Commodities'] || 0,
-    'Crypto': result.categoryTotals['Crypto'] || 0,
-    'Perpetuals': result.categoryTotals['Perpetuals'] || 0,
-    'Real Estate': result.categoryTotals['Real Estate'] || 0,
-    'Depreciating Assets': result.categoryTotals['Depreciating Assets'] || 0,
-  }
-
+  const categories = toSnapshotCategories(result.categoryTotals)
   const total = result.totalNetWorthChf
   const now = new Date()
   const date = now.toISOString().split('T')[0]
@@ -115,7 +120,174 @@ export function createSnapshot(
     timestamp: now.getTime(),
     categories,
     total,
+    grossAssets: result.grossAssetsChf,
+    totalLiabilities: result.totalLiabilitiesChf,
+    ...(options.includeItems !== false && { items: toSnapshotItems(result.itemValues) }),
+  }
+}
+
+function toSnapshotCategories(categoryTotals: Partial<Record<NetWorthCategory, number>>): Record<NetWorthCategory, number> {
+  return {
+    'Cash': categoryTotals['Cash'] || 0,
+    'Bank Accounts': categoryTotals['Bank Accounts'] || 0,
+    'Retirement Funds': categoryTotals['Retirement Funds'] || 0,
+    'Index Funds': categoryTotals['Index Funds'] || 0,
+    'Stocks': categoryTotals['Stocks'] || 0,
+    'Commodities': categoryTotals['Commodities'] || 0,
+    'Crypto': categoryTotals['Crypto'] || 0,
+    'Perpetuals': categoryTotals['Perpetuals'] || 0,
+    'Real Estate': categoryTotals['Real Estate'] || 0,
+    'Depreciating Assets': categoryTotals['Depreciating Assets'] || 0,
+    'Mortgage': categoryTotals['Mortgage'] || 0,
+    'Loan': categoryTotals['Loan'] || 0,
+    'Credit Card': categoryTotals['Credit Card'] || 0,
+  }
+}
+
+export type BackfillInterval = 'daily' | 'weekly'
+
+/** Longest range a backfill covers (one valuation and one write per day) */
+export const MAX_BACKFILL_DAYS = 366
+
+export interface BackfillOptions {
+  /** First day (YYYY-MM-DD, UTC) */
+  from: string
+  /** Last day (YYYY-MM-DD, UTC); capped to yesterday */
+  to: string
+  /** daily: every day; weekly: every Sunday (end of the week) */
+  interval: BackfillInterval
+  costBasisMethod?: CostBasisMethod
+  /** Store per-item values (default true; user setting `snapshotItems`) */
+  includeItems?: boolean
+  /** Called after each day is valued */
+  onProgress?: (done: number, total: number) => void
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+function toUTCDateKey(time: number): string {
+  return new Date(time).toISOString().slice(0, 10)
+}
+
+/**
+ * Days of the range to backfill (YYYY-MM-DD, UTC), up to yesterday
+ */
+export function getBackfillDates(from: string, to: string, interval: BackfillInterval): string[] {
+  const start = Date.parse(`${from}T00:00:00Z`)
+  const yesterday = Date.parse(`${getTodayUTCDate()}T00:00:00Z`) - DAY_MS
+  const end = Math.min(Date.parse(`${to}T00:00:00Z`), yesterday)
+  if (isNaN(start) || isNaN(end)) throw new Error('Backfill dates must be in YYYY-MM-DD format')
+  if ((end - start) / DAY_MS + 1 > MAX_BACKFILL_DAYS) {
+    throw new Error(`Backfill range is limited to ${MAX_BACKFILL_DAYS} days`)
+  }
+
+  const dates: string[] = []
+  for (let time = start; time <= end; time += DAY_MS) {
+    if (interval === 'daily' || new Date(time).getUTCDay() === 0) {
+      dates.push(toUTCDateKey(time))
+    }
+  }
+  return dates
+}
+
+function toItemValues(valuation: ValuationResult): Record<string, ItemValueChf> {
+  const itemValues: Record<string, ItemValueChf> = {}
+  for (const itemValuation of valuation.itemValuations) {
+    itemValues[itemValuation.itemId] = {
+      valueChf: itemValuation.valueInBaseCurrency,
+      fxRate: itemValuation.fxRate,
+      // Quantity and price only when the item was valued at a price (see buildValuation)
+      ...(itemValuation.fxRate !== undefined && itemValuation.holdings !== undefined && {
+        quantity: itemValuation.holdings,
+        price: itemValuation.currentPrice,
+      }),
+    }
+  }
+  return itemValues
+}
+
+/**
+ * Reconstructs snapshots for past days from transactions and historical prices
+ * (see valuateAsOf) and marks them as `backfilled`.
+ * Days that already have a snapshot are skipped, so real snapshots are never replaced.
+ * Returns the new snapshots (not saved).
+ */
+export async function backfillSnapshots(
+  items: NetWorthItem[],
+  transactions: NetWorthTransaction[],
+  existingSnapshots: NetWorthSnapshot[],
+  options: BackfillOptions
+): Promise<NetWorthSnapshot[]> {
+  const existingDates = new Set(existingSnapshots.map((snapshot) => snapshot.date))
+  const dates = getBackfillDates(options.from, options.to, options.interval).filter((date) => !existingDates.has(date))
+  if (dates.length === 0) return []
+
+  const getCloses = await preloadHistoricalCloses(items, dates[0], dates[dates.length - 1])
+  const config = { baseCurrency: 'CHF' as CurrencyCode, displayCurrency: 'CHF' as CurrencyCode, costBasisMethod: options.costBasisMethod }
+
+  const snapshots: NetWorthSnapshot[] = []
+  for (const date of dates) {
+    const valuation = await valuateAsOf(items, transactions, date, config, getCloses(date))
+    const itemValues = toItemValues(valuation)
+    snapshots.push({
+      date,
+      timestamp: Date.parse(`${date}T23:59:59Z`),
+      categories: toSnapshotCategories(valuation.categoryTotals),
+      total: valuation.total,
+      grossAssets: valuation.totalAssets,
+      totalLiabilities: valuation.totalLiabilities,
+      ...(options.includeItems !== false && { items: toSnapshotItems(itemValues) }),
+      backfilled: true,
+    })
+    options.onProgress?.(snapshots.length, dates.length)
+  }
+  return snapshots
+}
+
+/**
+ * Per-item values (CHF) on past days from transactions and historical prices (see valuateAsOf),
+ * for snapshots stored without per-item detail. Not saved.
+ */
+export async function valuateItemsAsOf(
+  items: NetWorthItem[],
+  transactions: NetWorthTransaction[],
+  dates: string[],
+  costBasisMethod?: CostBasisMethod
+): Promise<ValuationPoint[]> {
+  if (dates.length === 0) return []
+  const sorted = [...dates].sort()
+  const getCloses = await preloadHistoricalCloses(items, sorted[0], sorted[sorted.length - 1])
+  const config = { baseCurrency: 'CHF' as CurrencyCode, displayCurrency: 'CHF' as CurrencyCode, costBasisMethod }
+
+  const points: ValuationPoint[] = []
+  for (const date of sorted) {
+    const valuation = await valuateAsOf(items, transactions, date, config, getCloses(date))
+    points.push({ date, values: toItemValues(valuation) })
   }
+  return points
+}
+
+/**
+ * Saves snapshots for days without a stored snapshot; days that have one are left untouched.
+ * Returns all snapshots (existing and added), sorted by timestamp.
+ */
+export async function saveSnapshotsIfAbsent(
+  snapshots: NetWorthSnapshot[],
+  existingSnapshots: NetWorthSnapshot[],
+  uid?: string
+): Promise<NetWorthSnapshot[]> {
+  let created = snapshots
+  if (uid) {
+    const { createSnapshotsIfAbsentFirestore } = await import('./firestoreService')
+    const createdDates = new Set(await createSnapshotsIfAbsentFirestore(uid, snapshots))
+    created = snapshots.filter((snapshot) => createdDates.has(snapshot.date))
+  }
+
+  const existingDates = new Set(existingSnapshots.map((snapshot) => snapshot.date))
+  const merged = [...existingSnapshots, ...created.filter((snapshot) => !existingDates.has(snapshot.date))]
+  merged.sort((a, b) => a.timestamp - b.timestamp)
+  localStorage.setItem(SNAPSHOTS_STORAGE_KEY, JSON.stringify(merged))
+  return merged
 }
 
 /**
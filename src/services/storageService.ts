@@ -38,6 +38,8 @@ import {
   saveNetWorthTransaction as saveNetWorthTransactionFirestore,
   deleteNetWorthTransaction as deleteNetWorthTransactionFirestore,
   loadNetWorthTransactions as loadNetWorthTransactionsFirestore,
+  createNetWorthImport as createNetWorthImportFirestore,
+  MAX_IMPORT_DOCUMENTS,
   saveCashflowInflowItem as saveCashflowInflowItemFirestore,
   deleteCashflowInflowItem as deleteCashflowInflowItemFirestore,
   loadCashflowInflowItems as loadCashflowInflowItemsFirestore,
@@ -55,10 +57,22 @@ import {
   saveForecastEntry as saveForecastEntryFirestore,
   deleteForecastEntry as deleteForecastEntryFirestore,
   loadForecastEntries as loadForecastEntriesFirestore,
+  saveGoal as saveGoalFirestore,
+  deleteGoal as deleteGoalFirestore,
+  loadGoals as loadGoalsFirestore,
+  saveForecastScenario as saveForecastScenarioFirestore,
+  deleteForecastScenario as deleteForecastScenarioFirestore,
+  loadForecastScenarios as loadForecastScenariosFirestore,
+  saveCashflowActual as saveCashflowActualFirestore,
+  deleteCashflowActual as deleteCashflowActualFirestore,
+  loadCashflowActuals as loadCashflowActualsFirestore,
   // Deprecated bulk functions (only for Import/Reset)
   saveNetWorthItems as saveNetWorthItemsBulk,
   saveNetWorthTransactions as saveNetWorthTransactionsBulk,
 } from './firestoreService'
+import type { Goal } from './goalsService'
+import type { ForecastRecurrence, ForecastScenario } from './forecastService'
+import type { CashflowActual } from './cashflowActualsService'
 
 /**
  * Saves a single net worth item to Firestore (per-document upsert with conflict detection).
@@ -186,6 +200,37 @@ export async function saveNetWorthTransaction<T extends { id: string }>(
   }
 }
 
+/**
+ * Saves the new items and transactions of a CSV import all at once (see createNetWorthImport):
+ * on failure nothing is saved. Returns the reloaded items and transactions.
+ */
+export async function saveNetWorthImport<I extends { id: string }, T extends { id: string }>(
+  items: I[],
+  transactions: T[],
+  uid?: string
+): Promise<{ success: boolean; reason?: string; items?: I[]; transactions?: T[] }> {
+  if (!uid) {
+    return { success: true }
+  }
+  if (items.length + transactions.length > MAX_IMPORT_DOCUMENTS) {
+    return { success: false, reason: 'too_many_documents' }
+  }
+
+  try {
+    await createNetWorthImportFirestore(uid, items, transactions)
+    const [savedItems, savedTransactions] = await Promise.all([
+      loadNetWorthItemsFirestore<I>(uid),
+      loadNetWorthTransactionsFirestore<T>(uid),
+    ])
+    saveToStorage(getStorageKey(uid, 'netWorthItems'), savedItems)
+    saveToStorage(getStorageKey(uid, 'netWorthTransactions'), savedTransactions)
+    return { success: true, items: savedItems, transactions: savedTransactions }
+  } catch (error) {
+    console.error('Failed to save import to Firestore:', error)
+    return { success: false, reason: 'firestore_error' }
+  }
+}
+
 /**
  * Deletes a single transaction (with conflict detection)
  */
@@ -728,6 +773,7 @@ export async function loadPlatforms(
 }
 
 // Forecast entries (per-document upserts)
+export type { ForecastRecurrence }
 export interface ForecastEntry {
   id: string
   platformId: string
@@ -735,6 +781,7 @@ export interface ForecastEntry {
   date: string
   title: string
   amount: number
+  recurrence?: ForecastRecurrence | null
   createdAt?: string
   updatedAt?: string
 }
@@ -814,3 +861,240 @@ export async function loadForecastEntries(
   }
   return loadFromStorage(getStorageKey(uid, 'forecastEntries'), defaultValue)
 }
+
+// Goals (per-document upserts)
+export type { Goal }
+
+export async function saveGoal(
+  goal: Goal,
+  uid?: string,
+  options: {
+    clientUpdatedAt?: Date | null
+    allowOverwrite?: boolean
+  } = {}
+): Promise<{ success: boolean; reason?: string; entries?: Goal[] }> {
+  if (!uid) {
+    const existing = loadFromStorage<Goal[]>(getStorageKey(uid, 'goals'), [])
+    const next = [...existing.filter(e => e.id !== goal.id), goal]
+    saveToStorage(getStorageKey(uid, 'goals'), next)
+    return { success: true, entries: next }
+  }
+
+  try {
+    const result = await saveGoalFirestore(uid, goal, options)
+    if (result.success) {
+      const goals = await loadGoalsFirestore<Goal>(uid)
+      saveToStorage(getStorageKey(uid, 'goals'), goals)
+      return { ...result, entries: goals }
+    }
+    return result
+  } catch (error) {
+    console.error('Failed to save goal:', error)
+    return { success: false, reason: 'firestore_error' }
+  }
+}
+
+export async function deleteGoal(
+  goalId: string,
+  uid?: string,
+  options: {
+    clientUpdatedAt?: Date | null
+    allowOverwrite?: boolean
+  } = {}
+): Promise<{ success: boolean; reason?: string; entries?: Goal[] }> {
+  if (!uid) {
+    const existing = loadFromStorage<Goal[]>(getStorageKey(uid, 'goals'), [])
+    const next = existing.filter(e => e.id !== goalId)
+    saveToStorage(getStorageKey(uid, 'goals'), next)
+    return { success: true, entries: next }
+  }
+
+  try {
+    const result = await deleteGoalFirestore(uid, goalId, options)
+    if (result.success) {
+      const goals = await loadGoalsFirestore<Goal>(uid)
+      saveToStorage(getStorageKey(uid, 'goals'), goals)
+      return { ...result, entries: goals }
+    }
+    return result
+  } catch (error) {
+    console.error('Failed to delete goal:', error)
+    return { success: false, reason: 'firestore_error' }
+  }
+}
+
+export async function loadGoals(
+  defaultValue: Goal[],
+  uid?: string
+): Promise<Goal[]> {
+  if (uid) {
+    try {
+      const goals = await loadGoalsFirestore<Goal>(uid)
+      if (goals.length > 0) {
+        saveToStorage(getStorageKey(uid, 'goals'), goals)
+        return goals
+      }
+    } catch (error) {
+      console.error('Failed to load goals from Firestore, falling back to localStorage:', error)
+    }
+  }
+  return loadFromStorage(getStorageKey(uid, 'goals'), defaultValue)
+}
+
+// Forecast scenarios (per-document upserts)
+export type { ForecastScenario }
+
+export async function saveForecastScenario(
+  scenario: ForecastScenario,
+  uid?: string,
+  options: {
+    clientUpdatedAt?: Date | null
+    allowOverwrite?: boolean
+  } = {}
+): Promise<{ success: boolean; reason?: string; entries?: ForecastScenario[] }> {
+  if (!uid) {
+    const existing = loadFromStorage<ForecastScenario[]>(getStorageKey(uid, 'forecastScenarios'), [])
+    const next = [...existing.filter(e => e.id !== scenario.id), scenario]
+    saveToStorage(getStorageKey(uid, 'forecastScenarios'), next)
+    return { success: true, entries: next }
+  }
+
+  try {
+    const result = await saveForecastScenarioFirestore(uid, scenario, options)
+    if (result.success) {
+      const scenarios = await loadForecastScenariosFirestore<ForecastScenario>(uid)
+      saveToStorage(getStorageKey(uid, 'forecastScenarios'), scenarios)
+      return { ...result, entries: scenarios }
+    }
+    return result
+  } catch (error) {
+    console.error('Failed to save forecast scenario:', error)
+    return { success: false, reason: 'firestore_error' }
+  }
+}
+
+export async function deleteForecastScenario(
+  scenarioId: string,
+  uid?: string,
+  options: {
+    clientUpdatedAt?: Date | null
+    allowOverwrite?: boolean
+  } = {}
+): Promise<{ success: boolean; reason?: string; entries?: ForecastScenario[] }> {
+  if (!uid) {
+    const existing = loadFromStorage<ForecastScenario[]>(getStorageKey(uid, 'forecastScenarios'), [])
+    const next = existing.filter(e => e.id !== scenarioId)
+    saveToStorage(getStorageKey(uid, 'forecastScenarios'), next)
+    return { success: true, entries: next }
+  }
+
+  try {
+    const result = await deleteForecastScenarioFirestore(uid, scenarioId, options)
+    if (result.success) {
+      const scenarios = await loadForecastScenariosFirestore<ForecastScenario>(uid)
+      saveToStorage(getStorageKey(uid, 'forecastScenarios'), scenarios)
+      return { ...result, entries: scenarios }
+    }
+    return result
+  } catch (error) {
+    console.error('Failed to delete forecast scenario:', error)
+    return { success: false, reason: 'firestore_error' }
+  }
+}
+
+export async function loadForecastScenarios(
+  defaultValue: ForecastScenario[],
+  uid?: string
+): Promise<ForecastScenario[]> {
+  if (uid) {
+    try {
+      const scenarios = await loadForecastScenariosFirestore<ForecastScenario>(uid)
+      if (scenarios.length > 0) {
+        saveToStorage(getStorageKey(uid, 'forecastScenarios'), scenarios)
+        return scenarios
+      }
+    } catch (error) {
+      console.error('Failed to load forecast scenarios from Firestore, falling back to localStorage:', error)
+    }
+  }
+  return loadFromStorage(getStorageKey(uid, 'forecastScenarios'), defaultValue)
+}
+
+// Cashflow actuals (per-document upserts)
+export type { CashflowActual }
+
+export async function saveCashflowActual(
+  actual: CashflowActual,
+  uid?: string,
+  options: {
+    clientUpdatedAt?: Date | null
+    allowOverwrite?: boolean
+  } = {}
+): Promise<{ success: boolean; reason?: string; entries?: CashflowActual[] }> {
+  if (!uid) {
+    const existing = loadFromStorage<CashflowActual[]>(getStorageKey(uid, 'cashflowActuals'), [])
+    const next = [...existing.filter(e => e.id !== actual.id), actual]
+    saveToStorage(getStorageKey(uid, 'cashflowActuals'), next)
+    return { success: true, entries: next }
+  }
+
+  try {
+    const result = await saveCashflowActualFirestore(uid, actual, options)
+    if (result.success) {
+      const actuals = await loadCashflowActualsFirestore<CashflowActual>(uid)
+      saveToStorage(getStorageKey(uid, 'cashflowActuals'), actuals)
+      return { ...result, entries: actuals }
+    }
+    return result
+  } catch (error) {
+    console.error('Failed to save cashflow actual:', error)
+    return { success: false, reason: 'firestore_error' }
+  }
+}
+
+export async function deleteCashflowActual(
+  actualId: string,
+  uid?: string,
+  options: {
+    clientUpdatedAt?: Date | null
+    allowOverwrite?: boolean
+  } = {}
+): Promise<{ success: boolean; reason?: string; entries?: CashflowActual[] }> {
+  if (!uid) {
+    const existing = loadFromStorage<CashflowActual[]>(getStorageKey(uid, 'cashflowActuals'), [])
+    const next = existing.filter(e => e.id !== actualId)
+    saveToStorage(getStorageKey(uid, 'cashflowActuals'), next)
+    return { success: true, entries: next }
+  }
+
+  try {
+    const result = await deleteCashflowActualFirestore(uid, actualId, options)
+    if (result.success) {
+      const actuals = await loadCashflowActualsFirestore<CashflowActual>(uid)
+      saveToStorage(getStorageKey(uid, 'cashflowActuals'), actuals)
+      return { ...result, entries: actuals }
+    }
+    return result
+  } catch (error) {
+    console.error('Failed to delete cashflow actual:', error)
+    return { success: false, reason: 'firestore_error' }
+  }
+}
+
+export async function loadCashflowActuals(
+  defaultValue: CashflowActual[],
+  uid?: string
+): Promise<CashflowActual[]> {
+  if (uid) {
+    try {
+      const actuals = await loadCashflowActualsFirestore<CashflowActual>(uid)
+      if (actuals.length > 0) {
+        saveToStorage(getStorageKey(uid, 'cashflowActuals'), actuals)
+        return actuals
+      }
+    } catch (error) {
+      console.error('Failed to load cashflow actuals from Firestore, falling back to localStorage:', error)
+    }
+  }
+  return loadFromStorage(getStorageKey(uid, 'cashflowActuals'), defaultValue)
+}
@@ -0,0 +1,17 @@
+export {
+  ALLOCATION_CATEGORIES,
+  computeAllocationDrift,
+  computeRebalancingPlan,
+  getAllocationTargetErrors,
+  getCategoryTargetKey,
+  getItemTargetKey,
+  toAllocationTargets,
+  type AllocationDrift,
+  type AllocationHolding,
+  type AllocationReport,
+  type AllocationTarget,
+  type AllocationTargets,
+  type RebalancingOptions,
+  type RebalancingPlan,
+  type RebalancingTrade,
+} from '../../lib/targetAllocation'
@@ -0,0 +1,27 @@
+export {
+  BROKER_IDS,
+  BROKER_LABELS,
+  BROKER_PLATFORMS,
+  detectBroker,
+  parseBrokerCsv,
+  parseBrokerDate,
+  parseBrokerNumber,
+  parseCsv,
+  type BrokerId,
+  type BrokerParseError,
+  type BrokerParseResult,
+  type ImportedTransaction,
+  type ImportedTransactionType,
+} from '../../lib/brokerCsv'
+export {
+  IMPORT_CATEGORIES,
+  buildImportPlan,
+  toImportTransactions,
+  type ImportItem,
+  type ImportPlan,
+  type ImportPlanOptions,
+  type ImportPlanRow,
+  type ImportRowStatus,
+  type ImportTransaction,
+  type NewImportItem,
+} from '../../lib/transactionImport'
@@ -0,0 +1,9 @@
+export {
+  TRANSFER_CATEGORIES,
+  createTransferTransactions,
+  findTransferCounterpart,
+  getTransferNetworkFee,
+  isTransferTransaction,
+  type TransferInput,
+  type TransferTransactionType,
+} from '../../lib/transfers'
@@ -16,11 +16,25 @@ import type {
 import { preloadExchangeRates, createConverter } from '../market-data/CurrencyConversion'
 import { getPricesMap as getCryptoPricesMap } from '../market-data/CryptoPriceService'
 import { getPricesMap as getMarketPricesMap } from '../market-data/MarketPriceService'
+import {
+  getClosesOnOrBefore,
+  getHistoricalCryptoPriceSeries,
+  getHistoricalCryptoPricesMap,
+  getHistoricalMarketPriceSeries,
+  getHistoricalMarketPricesMap,
+} from '../market-data/HistoricalPriceService'
 import {
   calculateBalanceChf,
   calculateCoinAmount,
   calculateHoldings,
 } from '../balanceCalculationService'
+import { isLiabilityCategory } from '../netWorthCalculationService'
+import {
+  calculateCostBasis,
+  DEFAULT_COST_BASIS_METHOD,
+  type CostBasisMethod,
+} from '../costBasisService'
+import { BUILTIN_CRYPTO_SYMBOL_ALIASES, buildSymbolAliasMap } from '../corporateActionsService'
 
 /**
  * Valuation Engine Configuration
@@ -34,20 +48,28 @@ export interface ValuationConfig {
 
   /** @deprecated Market prices fetched via Yahoo Finance proxy, no key needed here */
   rapidApiKey?: string | null
+
+  /** Lot matching method for cost basis and P&L (defaults to FIFO) */
+  costBasisMethod?: CostBasisMethod
+}
+
+/** Crypto and market closes of one past day (symbol -> price) */
+export interface HistoricalCloses {
+  cryptoPricesMap: Record<string, number>
+  marketPricesMap: Record<string, number>
+}
+
+/** Quote currencies preloaded for every valuation */
+const QUOTE_CURRENCIES: CurrencyCode[] = ['CHF', 'USD', 'EUR']
+
+function isMarketCategory(category: NetWorthItem['category']): boolean {
+  return category === 'Index Funds' || category === 'Stocks' || category === 'Commodities'
 }
 
 /**
- * Compute a complete valuation for all net worth items
+ * Symbols that need pricing, by source
  */
-export async function computeValuation(
-  items: NetWorthItem[],
-  transactions: NetWorthTransaction[],
-  config: ValuationConfig
-): Promise<ValuationResult> {
-  const { baseCurrency, displayCurrency } = config
-  const asOf = Date.now()
-
-  // Step 1: Collect all symbols that need pricing
+function collectSymbols(items: NetWorthItem[]): { cryptoSymbols: string[]; marketSymbols: string[] } {
   const cryptoSymbols: string[] = []
   const marketSymbols: string[] = []
 
@@ -56,15 +78,27 @@ export async function computeValuation(
 
     if (item.category === 'Crypto') {
       cryptoSymbols.push(symbol)
-    } else if (
-      item.category === 'Index Funds' ||
-      item.category === 'Stocks' ||
-      item.category === 'Commodities'
-    ) {
+    } else if (isMarketCategory(item.category)) {
       marketSymbols.push(symbol)
     }
   }
 
+  return { cryptoSymbols, marketSymbols }
+}
+
+/**
+ * Compute a complete valuation for all net worth items
+ */
+export async function computeValuation(
+  items: NetWorthItem[],
+  transactions: NetWorthTransaction[],
+  config: ValuationConfig
+): Promise<ValuationResult> {
+  const { baseCurrency } = config
+
+  // Step 1: Collect all symbols that need pricing
+  const { cryptoSymbols, marketSymbols } = collectSymbols(items)
+
   // Step 2: Fetch all prices in parallel
   // Market prices come from daily Firestore cache - no API key needed
   const [cryptoPricesMap, marketPricesMap] = await Promise.all([
@@ -73,8 +107,135 @@ export async function computeValuation(
   ])
 
   // Step 3: Preload FX rates (one snapshot for entire valuation)
-  const quoteCurrencies: CurrencyCode[] = ['CHF', 'USD', 'EUR']
-  const fxRatesMap = await preloadExchangeRates(baseCurrency, quoteCurrencies)
+  const fxRatesMap = await preloadExchangeRates(baseCurrency, QUOTE_CURRENCIES)
+
+  return buildValuation(items, transactions, config, {
+    asOf: new Date(),
+    cryptoPricesMap,
+    marketPricesMap,
+    fxRatesMap,
+    includePerpetuals: true,
+  })
+}
+
+/**
+ * Local YYYY-MM-DD key of a date (same format as transaction dates)
+ */
+function toDateKey(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`
+}
+
+/**
+ * Symbol aliases (ticker changes, built-in crypto rebrands) by price source
+ */
+function collectSymbolAliases(items: NetWorthItem[]): {
+  cryptoAliases: Record<string, string>
+  marketAliases: Record<string, string>
+} {
+  return {
+    cryptoAliases: buildSymbolAliasMap(items.filter((item) => item.category === 'Crypto'), BUILTIN_CRYPTO_SYMBOL_ALIASES),
+    marketAliases: buildSymbolAliasMap(items.filter((item) => isMarketCategory(item.category))),
+  }
+}
+
+/**
+ * Fetch the daily closes of all priced items from `from` to `to` (YYYY-MM-DD) at once
+ * (one request per symbol instead of one per symbol and day) for valuing many past days.
+ * Returns the closes of a day: the last close on or before it (weekends, holidays).
+ */
+export async function preloadHistoricalCloses(
+  items: NetWorthItem[],
+  from: string,
+  to: string
+): Promise<(date: string) => HistoricalCloses> {
+  const { cryptoSymbols, marketSymbols } = collectSymbols(items)
+  const { cryptoAliases, marketAliases } = collectSymbolAliases(items)
+
+  const [cryptoSeries, marketSeries] = await Promise.all([
+    getHistoricalCryptoPriceSeries(cryptoSymbols, from, to, cryptoAliases),
+    getHistoricalMarketPriceSeries(marketSymbols, from, to, marketAliases),
+  ])
+
+  return (date: string) => ({
+    cryptoPricesMap: getClosesOnOrBefore(cryptoSeries, date),
+    marketPricesMap: getClosesOnOrBefore(marketSeries, date),
+  })
+}
+
+/**
+ * Compute the valuation as it was at the end of a past day: transactions up to that day,
+ * priced with that day's crypto/market closes and FX rates.
+ *
+ * - Market closes are split-adjusted, so holdings keep today's split factor.
+ * - Perpetuals exchange balances have no history and are valued at 0.
+ * - Items without a close fall back to their transaction-based value (as in computeValuation).
+ * - Today or a future date returns the live valuation (computeValuation).
+ * - `closes` (see preloadHistoricalCloses) skips fetching the day's closes.
+ */
+export async function valuateAsOf(
+  items: NetWorthItem[],
+  transactions: NetWorthTransaction[],
+  date: Date | string,
+  config: ValuationConfig,
+  closes?: HistoricalCloses
+): Promise<ValuationResult> {
+  const dateKey = typeof date === 'string' ? date.slice(0, 10) : toDateKey(date)
+  const [year, month, day] = dateKey.split('-').map(Number)
+  const endOfDay = new Date(year, month - 1, day, 23, 59, 59, 999)
+  if (isNaN(endOfDay.getTime())) {
+    throw new Error(`Invalid valuation date: ${String(date)}`)
+  }
+  if (dateKey >= toDateKey(new Date())) {
+    return computeValuation(items, transactions, config)
+  }
+
+  const transactionsAsOf = transactions.filter((tx) => {
+    const txTime = new Date(tx.date).getTime()
+    return !isNaN(txTime) && txTime <= endOfDay.getTime()
+  })
+
+  const { cryptoSymbols, marketSymbols } = collectSymbols(items)
+  const { cryptoAliases, marketAliases } = collectSymbolAliases(items)
+
+  const [cryptoPricesMap, marketPricesMap, fxRatesMap] = await Promise.all([
+    closes?.cryptoPricesMap ?? getHistoricalCryptoPricesMap(cryptoSymbols, dateKey, cryptoAliases),
+    closes?.marketPricesMap ?? getHistoricalMarketPricesMap(marketSymbols, dateKey, marketAliases),
+    preloadExchangeRates(config.baseCurrency, QUOTE_CURRENCIES, dateKey),
+  ])
+
+  return buildValuation(items, transactionsAsOf, config, {
+    asOf: endOfDay,
+    cryptoPricesMap,
+    marketPricesMap,
+    fxRatesMap,
+    includePerpetuals: false,
+  })
+}
+
+interface ValuationQuotes {
+  /** Point in time valued */
+  asOf: Date
+  cryptoPricesMap: Record<string, number>
+  marketPricesMap: Record<string, number>
+  /** FX rates keyed `FROM:TO` (see preloadExchangeRates) */
+  fxRatesMap: Map<string, number>
+  /** Perpetuals exchange balances are only known for the current moment */
+  includePerpetuals: boolean
+}
+
+/**
+ * Value every item with the given quotes and FX rates (shared by live and historical valuation)
+ */
+function buildValuation(
+  items: NetWorthItem[],
+  transactions: NetWorthTransaction[],
+  config: ValuationConfig,
+  quotes: ValuationQuotes
+): ValuationResult {
+  const { baseCurrency, displayCurrency } = config
+  const costBasisMethod = config.costBasisMethod || DEFAULT_COST_BASIS_METHOD
+  const { cryptoPricesMap, marketPricesMap, fxRatesMap } = quotes
+  const asOf = quotes.asOf.getTime()
 
   // Create FX snapshot
   const fxSnapshot: FxSnapshot = {
@@ -94,13 +255,13 @@ export async function computeValuation(
     timestamp: asOf,
   }
 
-  // Step 4: Create converter function using preloaded FX rates
+  // Create converter function using preloaded FX rates
   const convert = createConverter(baseCurrency, fxRatesMap)
 
   // USD to CHF rate (for backward compatibility with existing calculation logic)
   const usdToChfRate = fxRatesMap.get('USD:CHF') || null
 
-  // Step 5: Calculate valuation for each item
+  // Calculate valuation for each item
   const itemValuations: ItemValuation[] = []
   const categoryTotals: CategoryTotals = {
     Cash: 0,
@@ -113,16 +274,20 @@ export async function computeValuation(
     Perpetuals: 0,
     'Real Estate': 0,
     'Depreciating Assets': 0,
+    Mortgage: 0,
+    Loan: 0,
+    'Credit Card': 0,
   }
 
   for (const item of items) {
     let valueChf: number = 0
     let holdings: number | undefined
     let currentPrice: number | undefined
+    let fxRate: number | undefined
 
     if (item.category === 'Crypto') {
       // Crypto: calculate coin amount and multiply by current USD price
-      const coinAmount = calculateCoinAmount(item.id, transactions)
+      const coinAmount = calculateCoinAmount(item.id, transactions, item)
       holdings = coinAmount
       const ticker = item.name.trim().toUpperCase()
       const currentPriceUsd = cryptoPricesMap[ticker] || 0
@@ -131,15 +296,16 @@ export async function computeValuation(
       if (currentPriceUsd > 0 && usdToChfRate !== null && usdToChfRate > 0) {
         const valueUsd = coinAmount * currentPriceUsd
         valueChf = valueUsd * usdToChfRate
+        fxRate = usdToChfRate
       } else {
         // Fallback: use calculateBalanceChf
-        const balanceUsd = calculateBalanceChf(item.id, transactions, item, cryptoPricesMap, convert)
+        const balanceUsd = calculateBalanceChf(item.id, transactions, item, cryptoPricesMap, convert, quotes.asOf)
         valueChf = usdToChfRate && usdToChfRate > 0 ? balanceUsd * usdToChfRate : convert(balanceUsd, 'USD')
       }
     } else if (item.category === 'Perpetuals') {
       // Perpetuals: calculate from exchange balance
       try {
-        if (!item.perpetualsData) {
+        if (!item.perpetualsData || !quotes.includePerpetuals) {
           valueChf = 0
         } else {
           const { exchangeBalance } = item.perpetualsData || {}
@@ -170,13 +336,9 @@ export async function computeValuation(
         console.warn(`[ValuationEngine] Error calculating Perpetuals balance for item ${item.id}:`, error)
         valueChf = 0
       }
-    } else if (
-      item.category === 'Index Funds' ||
-      item.category === 'Stocks' ||
-      item.category === 'Commodities'
-    ) {
+    } else if (isMarketCategory(item.category)) {
       // Market instruments: calculate holdings and multiply by current USD price
-      const itemHoldings = calculateHoldings(item.id, transactions)
+      const itemHoldings = calculateHoldings(item.id, transactions, item)
       holdings = itemHoldings
       const ticker = item.name.trim().toUpperCase()
       const currentPriceUsd = marketPricesMap[ticker] || 0
@@ -185,21 +347,33 @@ export async function computeValuation(
       if (currentPriceUsd > 0 && usdToChfRate !== null && usdToChfRate > 0) {
         const valueUsd = itemHoldings * currentPriceUsd
         valueChf = valueUsd * usdToChfRate
+        fxRate = usdToChfRate
       } else {
         // Fallback: use calculateBalanceChf
-        valueChf = calculateBalanceChf(item.id, transactions, item, cryptoPricesMap, convert)
+        valueChf = calculateBalanceChf(item.id, transactions, item, cryptoPricesMap, convert, quotes.asOf)
       }
     } else {
       // All other categories: use calculateBalanceChf
-      valueChf = calculateBalanceChf(item.id, transactions, item, cryptoPricesMap, convert)
+      valueChf = calculateBalanceChf(item.id, transactions, item, cryptoPricesMap, convert, quotes.asOf)
+      if (item.currency && item.currency !== baseCurrency) {
+        fxRate = convert(1, item.currency as CurrencyCode)
+      }
     }
 
     // Ensure valid number
-    const validValueChf = isNaN(valueChf) || !isFinite(valueChf) ? 0 : valueChf
+    const finiteValueChf = isNaN(valueChf) || !isFinite(valueChf) ? 0 : valueChf
+
+    // Liabilities hold a positive outstanding balance; they count negative towards net worth
+    const validValueChf = isLiabilityCategory(item.category) ? -finiteValueChf : finiteValueChf
 
     // Convert to display currency
     const valueInDisplayCurrency = convert(validValueChf, 'CHF')
 
+    // Cost basis and P&L from transaction lots (only for items with holdings)
+    const lots = holdings !== undefined
+      ? calculateCostBasis(item.id, transactions, costBasisMethod, convert, item, items)
+      : null
+
     // Add to item valuations
     itemValuations.push({
       itemId: item.id,
@@ -209,20 +383,36 @@ export async function computeValuation(
       valueInDisplayCurrency,
       holdings,
       currentPrice,
+      fxRate,
+      ...(lots && {
+        costBasis: lots.costBasis,
+        unrealizedPnl: validValueChf - lots.costBasis,
+        realizedPnl: lots.realizedPnl,
+      }),
     })
 
     // Add to category totals (in display currency)
     categoryTotals[item.category] += valueInDisplayCurrency
   }
 
-  // Step 6: Calculate total
-  const total = Object.values(categoryTotals).reduce((sum, val) => sum + (isNaN(val) ? 0 : val), 0)
+  // Calculate totals (net = gross assets - liabilities)
+  let totalAssets = 0
+  let totalLiabilities = 0
+  for (const [category, value] of Object.entries(categoryTotals)) {
+    const validValue = isNaN(value) ? 0 : value
+    if (isLiabilityCategory(category)) {
+      totalLiabilities -= validValue
+    } else {
+      totalAssets += validValue
+    }
+  }
+  const total = totalAssets - totalLiabilities
   const totalInBaseCurrency = Object.values(categoryTotals).reduce((sum, val) => {
     const baseValue = convert(val, displayCurrency)
     return sum + (isNaN(baseValue) ? 0 : baseValue)
   }, 0)
 
-  // Step 7: Return complete valuation result
+  // Return complete valuation result
   const result: ValuationResult = {
     asOf,
     baseCurrency,
@@ -233,6 +423,8 @@ export async function computeValuation(
     categoryTotals,
     total,
     totalInBaseCurrency,
+    totalAssets,
+    totalLiabilities,
   }
 
   return result
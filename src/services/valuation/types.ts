@@ -30,10 +30,14 @@ export interface ItemValuation {
   itemId: string
   category: NetWorthCategory
   name: string
-  valueInBaseCurrency: number
-  valueInDisplayCurrency: number
+  valueInBaseCurrency: number // Negative for liability categories
+  valueInDisplayCurrency: number // Negative for liability categories
   holdings?: number // For crypto, stocks, etc.
   currentPrice?: number // In USD or base currency
+  fxRate?: number // Base currency per unit of the price currency (or of the item currency when not priced)
+  costBasis?: number // Cost of open lots in base currency (items with holdings only)
+  unrealizedPnl?: number // valueInBaseCurrency - costBasis
+  realizedPnl?: number // Closed lots: proceeds - cost, in base currency
 }
 
 /**
@@ -63,7 +67,7 @@ export interface ValuationResult {
   /** Individual item valuations */
   itemValuations: ItemValuation[]
 
-  /** Category totals in display currency */
+  /** Category totals in display currency (liability categories are negative) */
   categoryTotals: CategoryTotals
 
   /** Total net worth in display currency */
@@ -71,4 +75,10 @@ export interface ValuationResult {
 
   /** Total net worth in base currency (CHF) */
   totalInBaseCurrency: number
+
+  /** Gross assets (all non-liability categories) in display currency */
+  totalAssets: number
+
+  /** Outstanding liabilities in display currency, as a positive number */
+  totalLiabilities: number
 }
@@ -21,6 +21,9 @@ export type NetWorthCategory =
   | 'Perpetuals'
   | 'Real Estate'
   | 'Depreciating Assets'
+  | 'Mortgage'
+  | 'Loan'
+  | 'Credit Card'
 
 // All supported categories
 export const ALL_CATEGORIES: NetWorthCategory[] = [
@@ -34,6 +37,9 @@ export const ALL_CATEGORIES: NetWorthCategory[] = [
   'Perpetuals',
   'Real Estate',
   'Depreciating Assets',
+  'Mortgage',
+  'Loan',
+  'Credit Card',
 ]
 
 // ============================================================================
@@ -61,6 +67,8 @@ export interface ItemValuation {
   costBasis?: number
   /** Unrealized P&L (if available) */
   unrealizedPnl?: number
+  /** Realized P&L from closed lots (if available) */
+  realizedPnl?: number
   /** Price source */
   priceSource?: 'cryptocompare' | 'yahoo' | 'transaction' | 'manual'
 }
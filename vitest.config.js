@@ -0,0 +1,9 @@
+import { defineConfig } from 'vitest/config'
+
+// Unit tests for the Node-safe calculation modules; Playwright specs live in e2e/ and tests/
+export default defineConfig({
+  test: {
+    include: ['lib/**/*.test.ts'],
+    environment: 'node',
+  },
+})